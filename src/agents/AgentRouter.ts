@@ -0,0 +1,181 @@
+import { AgentConfig, AgentType, CapabilityType, IntentClassificationResult } from '@/shared/types';
+import { TaskCapabilities } from '@/agents/TaskCapabilities';
+import { debugLogger } from '@/utils/logger';
+
+export interface RoutingDecision {
+  agents: AgentConfig[];
+  explanation: string; // Why these agents answer, shown in the shared conversation
+}
+
+interface MentionResult {
+  agents: AgentConfig[];
+  reasons: string[];
+  unmatched: string[];
+}
+
+interface AgentScore {
+  agent: AgentConfig;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Picks the agents that answer a Quick Chat message: @mentions (names,
+ * @everyone and @type:<agent type>) first, then the agent selected in the
+ * dialog, then the agent whose type and capabilities best fit the message.
+ */
+export class AgentRouter {
+  private static readonly MENTION_PATTERN = /(?<![\w@])@(type:)?([\w-]+)/gi;
+
+  private static readonly TYPE_KEYWORDS: Record<AgentType, string[]> = {
+    [AgentType.TESTING]: ['test', 'tests', 'testing', 'spec', 'coverage', 'jest', 'mocha', 'pytest', 'unit test', 'e2e', 'flaky', 'assertion'],
+    [AgentType.CODE_REVIEWER]: ['review', 'feedback', 'code smell', 'best practice', 'readability', 'vulnerability', 'security', 'pull request', 'pr'],
+    [AgentType.DOCUMENTATION]: ['document', 'documentation', 'docs', 'readme', 'docstring', 'jsdoc', 'comment', 'changelog', 'explain', 'tutorial', 'guide'],
+    [AgentType.DEVOPS]: ['deploy', 'deployment', 'docker', 'kubernetes', 'k8s', 'ci', 'pipeline', 'github actions', 'terraform', 'infrastructure', 'container', 'release'],
+    [AgentType.SOFTWARE_ENGINEER]: ['implement', 'feature', 'fix', 'bug', 'refactor', 'function', 'class', 'api', 'endpoint', 'build', 'code'],
+    [AgentType.CUSTOM]: []
+  };
+
+  // Intents that call for a kind of agent on top of the capability they need
+  private static readonly INTENT_TYPES: Record<string, AgentType[]> = {
+    [CapabilityType.CODE_ANALYSIS]: [AgentType.CODE_REVIEWER],
+    [CapabilityType.COMMAND_EXECUTION]: [AgentType.DEVOPS],
+    [CapabilityType.GIT_OPERATIONS]: [AgentType.DEVOPS],
+    [CapabilityType.FILE_OPERATIONS]: [AgentType.SOFTWARE_ENGINEER, AgentType.DOCUMENTATION]
+  };
+
+  constructor(private classifyIntent: (message: string) => Promise<IntentClassificationResult>) {}
+
+  public async route(message: string, agents: AgentConfig[], selectedAgentId?: string): Promise<RoutingDecision> {
+    const activeAgents = agents.filter(agent => agent.isActive);
+    if (activeAgents.length === 0) {
+      return { agents: [], explanation: 'No active agents' };
+    }
+
+    const mentions = AgentRouter.resolveMentions(message, activeAgents);
+    const unmatched = mentions.unmatched.length > 0
+      ? ` No active agent matches ${mentions.unmatched.map(mention => `@${mention}`).join(', ')}.`
+      : '';
+    if (mentions.agents.length > 0) {
+      return {
+        agents: mentions.agents,
+        explanation: `Routed to ${AgentRouter.listNames(mentions.agents)}: ${mentions.reasons.join('; ')}.${unmatched}`
+      };
+    }
+
+    const selected = activeAgents.find(agent => agent.id === selectedAgentId);
+    if (selected) {
+      return { agents: [selected], explanation: `Routed to ${selected.name}: selected in the dialog.${unmatched}` };
+    }
+
+    let intents: string[] = [];
+    try {
+      intents = (await this.classifyIntent(message)).detectedIntents;
+    } catch (error) {
+      debugLogger.log('Intent classification failed while routing, scoring by keywords only', error);
+    }
+
+    const [best] = AgentRouter.scoreAgents(message, activeAgents, intents);
+    if (best.score === 0) {
+      return {
+        agents: [best.agent],
+        explanation: `Routed to ${best.agent.name}: no agent stood out for this message, so the first active agent answers.${unmatched}`
+      };
+    }
+    return { agents: [best.agent], explanation: `Routed to ${best.agent.name}: ${best.reasons.join(', ')}.${unmatched}` };
+  }
+
+  /**
+   * Finds every agent a message mentions. Full names with spaces are matched
+   * first so "@Code Reviewer" doesn't also count as a mention of "Code".
+   */
+  public static resolveMentions(message: string, agents: AgentConfig[]): MentionResult {
+    const result: MentionResult = { agents: [], reasons: [], unmatched: [] };
+    const add = (matched: AgentConfig[], reason: string) => {
+      const added = matched.filter(agent => !result.agents.includes(agent));
+      if (added.length > 0) {
+        result.agents.push(...added);
+        result.reasons.push(reason);
+      }
+    };
+
+    let remaining = message;
+    for (const agent of [...agents].sort((a, b) => b.name.length - a.name.length)) {
+      const fullName = new RegExp(`(?<![\\w@])@${AgentRouter.escape(agent.name.trim())}(?![\\w-])`, 'gi');
+      if (fullName.test(remaining)) {
+        add([agent], `${agent.name} was mentioned`);
+        remaining = remaining.replace(fullName, ' ');
+      }
+    }
+
+    for (const [, typePrefix, rawName] of remaining.matchAll(AgentRouter.MENTION_PATTERN)) {
+      const name = rawName.toLowerCase();
+      if (typePrefix) {
+        const type = name.replace(/-/g, '_');
+        const ofType = agents.filter(agent => agent.type === type);
+        if (ofType.length > 0) {
+          add(ofType, `@type:${rawName} matches their type`);
+        } else {
+          result.unmatched.push(`type:${rawName}`);
+        }
+      } else if (name === 'everyone') {
+        add(agents, '@everyone');
+      } else {
+        // Short mentions like @eng match the agent whose name contains them
+        const agent = agents.find(a => a.name.toLowerCase().replace(/\s+/g, '') === name)
+          ?? agents.find(a => a.name.toLowerCase().includes(name));
+        if (agent) {
+          add([agent], `${agent.name} was mentioned`);
+        } else {
+          result.unmatched.push(rawName);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Ranks agents by how well their type and capabilities fit the message, best first
+  public static scoreAgents(message: string, agents: AgentConfig[], intents: string[]): AgentScore[] {
+    const text = ` ${message.toLowerCase().replace(/[^\w\s-]/g, ' ')} `;
+    const scores = agents.map(agent => {
+      const reasons: string[] = [];
+      let score = 0;
+
+      const keywords = AgentRouter.TYPE_KEYWORDS[agent.type].filter(keyword => text.includes(` ${keyword} `));
+      if (keywords.length > 0) {
+        score += 2 * keywords.length;
+        reasons.push(`the message is about ${keywords.map(keyword => `"${keyword}"`).join(', ')}, which fits a ${AgentRouter.describeType(agent.type)} agent`);
+      }
+
+      for (const intent of intents) {
+        const capability = agent.capabilities?.find(c => c.type === intent && c.enabled);
+        if (capability) {
+          score += 3;
+          reasons.push(`it has the ${TaskCapabilities.getLabel(capability.type)} capability the request needs`);
+        }
+        if (AgentRouter.INTENT_TYPES[intent]?.includes(agent.type)) {
+          score += 1;
+          reasons.push(`${TaskCapabilities.getLabel(intent as CapabilityType).toLowerCase()} suits a ${AgentRouter.describeType(agent.type)} agent`);
+        }
+      }
+
+      return { agent, score, reasons };
+    });
+
+    // Ties keep the order agents were created in
+    return scores.sort((a, b) => b.score - a.score);
+  }
+
+  private static describeType(type: AgentType): string {
+    return type.replace(/_/g, ' ');
+  }
+
+  private static listNames(agents: AgentConfig[]): string {
+    return agents.map(agent => agent.name).join(', ');
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
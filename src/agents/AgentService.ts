@@ -1,12 +1,45 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { AgentConfig, PermissionType, IntentClassificationResult } from '@/shared/types';
-import { AIProviderManager } from '@/providers/AIProviderManager';
-import { AIMessage } from '@/providers/AIProviderInterface';
+import {
+  AgentConfig,
+  PermissionType,
+  IntentClassificationResult,
+  Task,
+  TaskType,
+  TaskStatus,
+  TaskPriority,
+  TaskPayload,
+  TaskResult,
+  CommandExecutionSettings,
+  AgentLoopSettings,
+  CapabilityType,
+  UsageSettings,
+  ModelConfig,
+  AIProvider,
+  SharedFileExcerpt,
+  SharedFileSettings,
+  SharedFileUsage,
+  DelegationSettings
+} from '@/shared/types';
+import { AIProviderManager, FailoverEvent } from '@/providers/AIProviderManager';
+import { AIMessage, AIProviderConfig, AIToolCall, AIToolDefinition } from '@/providers/AIProviderInterface';
+import { Tokenizer, tokenizerRegistry } from '@/providers/Tokenizer';
 import { IntentClassificationService } from '@/services/IntentClassificationService';
+import { CodebaseIndex, CodeSearchResult } from '@/services/CodebaseIndex';
+import { OllamaProvider } from '@/providers/OllamaProvider';
 import { SettingsManager } from '@/extension/SettingsManager';
 import { debugLogger } from '@/utils/logger';
+import { TaskQueue, TaskEventListener } from '@/agents/TaskQueue';
+import { Changeset } from '@/agents/Changeset';
+import { ChangeJournal, JournalEntry } from '@/agents/ChangeJournal';
+import { CommandRunner } from '@/agents/CommandRunner';
+import { TaskTools } from '@/agents/TaskTools';
+import { TaskCapabilities } from '@/agents/TaskCapabilities';
+import { FileExcerpter } from '@/agents/FileExcerpter';
+import { PermissionScope } from '@/agents/PermissionScope';
+import { CommandPolicy } from '@/agents/CommandPolicy';
+import { UsageTracker, UsageRecord, UsageSummary, UsageTotals } from '@/agents/UsageTracker';
 
 interface AgentMemory {
   agentId: string;
@@ -25,6 +58,74 @@ interface AgentMemory {
   sessionCount: number;
 }
 
+export interface CommandOutputEvent {
+  agentId: string;
+  runId: string;
+  command: string;
+  chunk?: string;
+  stream?: 'stdout' | 'stderr';
+  done: boolean;
+  exitCode?: number | null;
+  timedOut?: boolean;
+}
+
+// Sent when a response uses a task verb whose capability is disabled for the agent
+export interface CapabilityBlockedEvent {
+  agentId: string;
+  verb: string;
+  capability: CapabilityType;
+  capabilityLabel: string;
+}
+
+// Sent when an agent's model fails and the next model of its failover chain takes over
+export interface ModelFailoverEvent {
+  agentId: string;
+  failedModel: string;
+  reason: string;
+  model: string;
+}
+
+// Sent when an agent's rolling conversation summary is rewritten or edited
+export interface ContextSummaryEvent {
+  agentId: string;
+  summary: string;
+  sessionCount: number;
+}
+
+// Sent with each message: how much of every shared file the agent was given
+export interface SharedFileUsageEvent {
+  agentId: string;
+  files: SharedFileUsage[];
+}
+
+// Sent when an agent hands a sub-task to another agent with DELEGATE, and when the handoff ends
+export interface DelegationEvent {
+  id: string;
+  fromAgentId: string;
+  fromAgentName: string;
+  toAgentId: string;
+  toAgentName: string;
+  task: string;
+  status: 'started' | 'completed' | 'failed';
+  reply?: string;
+  error?: string;
+}
+
+// What processMessage returns once the agent finished streaming
+export interface MessageResult {
+  success: boolean;
+  reply: string; // The full reply of every step, without the chunks it was streamed in
+  error?: string; // Why the agent couldn't answer, set when success is false
+  tasks: Promise<Task[]>; // Tasks from the reply, which may still be running
+}
+
+// The outcome of a message once the tasks from the agent's reply have run
+export interface AgentRunResult {
+  reply: string;
+  tasks: Task[];
+  output: string; // The reply followed by the results of its tasks
+}
+
 interface EmergencyBrakeConfig {
   maxChunks: number;
   maxContentLength: number;
@@ -37,6 +138,30 @@ export class AgentService {
   private context: vscode.ExtensionContext | null = null;
   private intentClassificationService: IntentClassificationService | null = null;
   private settingsManager: SettingsManager | null = null;
+  private codebaseIndex: CodebaseIndex | null = null;
+  private taskQueue: TaskQueue = new TaskQueue();
+  private activeChangesets: Map<string, Changeset> = new Map();
+  private changeJournal: ChangeJournal = new ChangeJournal();
+  private activeJournals: Map<string, JournalEntry> = new Map();
+  private commandRunner: CommandRunner = new CommandRunner();
+  private commandOutputListeners: Array<(event: CommandOutputEvent) => void> = [];
+  private capabilityBlockedListeners: Array<(event: CapabilityBlockedEvent) => void> = [];
+  private modelFailoverListeners: Array<(event: ModelFailoverEvent) => void> = [];
+  private contextSummaryListeners: Array<(event: ContextSummaryEvent) => void> = [];
+  private sharedFileUsageListeners: Array<(event: SharedFileUsageEvent) => void> = [];
+  private delegationListeners: Array<(event: DelegationEvent) => void> = [];
+  private listAgents: () => AgentConfig[] = () => [];
+  private delegationChains: Map<string, AgentConfig[]> = new Map(); // Agents a delegate is working for, by delegate id
+  private usageTracker: UsageTracker = new UsageTracker();
+  private usageListeners: Array<(record: UsageRecord) => void> = [];
+  private budgetWarnings: Set<string> = new Set(); // Budgets already warned about, per month
+  private static readonly FILE_CHANGE_TASK_TYPES = [TaskType.FILE_CREATE, TaskType.FILE_UPDATE, TaskType.FILE_DELETE, TaskType.CODE_INSERT, TaskType.CODE_REPLACE, TaskType.FILE_FORMAT];
+  private static readonly OBSERVATION_TASK_TYPES = [TaskType.FILE_READ, TaskType.FILE_SEARCH, TaskType.FILE_FIND, TaskType.AGENT_DELEGATE, TaskType.COMMAND_RUN];
+  private static readonly MAX_SUMMARIZED_TURN_CHARS = 4000;
+  private static readonly MIN_SHARED_FILE_TOKENS = 50; // Smaller excerpts are left out
+  private static readonly DEFAULT_AGENT_LOOP_SETTINGS: AgentLoopSettings = { maxSteps: 5, maxObservationChars: 8000 };
+  private static readonly DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: UsageTracker.DEFAULT_PRICES, monthlyBudget: 0, budgetAction: 'warn' };
+  private static readonly DEFAULT_SHARED_FILE_SETTINGS: SharedFileSettings = { maxTokensPerFile: 4000, maxTotalTokens: 12000 };
   private emergencyBrakeConfig: EmergencyBrakeConfig = {
     maxChunks: 1000,
     maxContentLength: 100000 // 100KB default
@@ -57,16 +182,63 @@ export class AgentService {
     console.log('🔧 Emergency brake configured:', this.emergencyBrakeConfig);
   }
 
-  public setContext(context: vscode.ExtensionContext): void {
+  /**
+   * Pass the extension's SettingsManager to share it; otherwise the service
+   * reads the settings itself. Either way, configuration changes are applied
+   * to the providers without reloading the window.
+   */
+  public setContext(context: vscode.ExtensionContext, settingsManager?: SettingsManager): void {
     this.context = context;
     try {
-      this.settingsManager = new SettingsManager(context);
+      this.settingsManager = settingsManager ?? new SettingsManager(context);
+      this.configureProviders();
       this.intentClassificationService = new IntentClassificationService(context);
+      context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('aiAgents')) {
+          this.settingsManager?.reload();
+          this.configureProviders();
+        }
+      }));
     } catch (error) {
       // In test environment, these services may not be available
       console.warn('Services initialization failed, using fallback mode:', error);
     }
     this.loadPersistedMemories();
+    this.taskQueue.setContext(context);
+    this.changeJournal.setContext(context);
+    this.usageTracker.setContext(context);
+  }
+
+  private configureProviders(): void {
+    if (!this.settingsManager) {
+      return;
+    }
+    this.providerManager.configureOpenAICompatible(this.settingsManager.getOpenAICompatibleBaseUrl());
+    this.providerManager.configureOllama(this.settingsManager.getOllamaSettings());
+    this.providerManager.configureContextWindows(this.settingsManager.getContextWindows());
+  }
+
+  /**
+   * Use the workspace's code index to attach relevant code to each message.
+   * Embeddings come from the default Ollama server when a model is configured.
+   */
+  public setCodebaseIndex(index: CodebaseIndex | null): void {
+    this.codebaseIndex = index;
+    if (!index || !this.settingsManager) {
+      return;
+    }
+
+    const settings = this.settingsManager.getCodebaseIndexSettings();
+    const ollama = this.providerManager.getProvider(AIProvider.OLLAMA);
+    const embedder = settings.embeddingModel && ollama instanceof OllamaProvider
+      ? (texts: string[]) => ollama.embed(settings.embeddingModel, texts)
+      : undefined;
+    index.configure(settings, embedder);
+  }
+
+  // Where DELEGATE looks up agents by name
+  public setAgentDirectory(listAgents: () => AgentConfig[]): void {
+    this.listAgents = listAgents;
   }
 
   public async initialize(): Promise<void> {
@@ -80,7 +252,9 @@ export class AgentService {
     agent: AgentConfig,
     userMessage: string,
     onResponse: (chunk: string, done: boolean) => void
-  ): Promise<void> {
+  ): Promise<MessageResult> {
+    const failed = (error: string, reply = ''): MessageResult => ({ success: false, reply, error, tasks: Promise.resolve([]) });
+
     // 🚨 LOOP DETECTION: Check if this agent is already processing
     const processingKey = `${agent.id}-processing`;
     if (this.activeStreams.has(processingKey)) {
@@ -91,7 +265,7 @@ export class AgentService {
         activeStreams: Array.from(this.activeStreams.keys())
       });
       onResponse('❌ Error: Agent is already processing a message. Infinite loop prevented.', true);
-      return;
+      return failed('Agent is already processing a message');
     }
 
     // Mark this agent as processing
@@ -105,6 +279,12 @@ export class AgentService {
     });
 
     try {
+      const budgetExceeded = this.checkUsageBudget(agent);
+      if (budgetExceeded) {
+        onResponse(`❌ ${budgetExceeded}`, true);
+        return failed(budgetExceeded);
+      }
+
       // Get or create agent memory
       let memory = this.agentMemories.get(agent.id);
       if (!memory) {
@@ -139,19 +319,11 @@ export class AgentService {
         });
       }
       
-      // Handle context window management
-      await this.manageContextWindow(memory, agent.model.maxTokens);
+      // Handle context window management, counting tokens the way the agent's model does
+      const tokenizer = tokenizerRegistry.getTokenizer(agent.model.provider, agent.model.modelName);
+      const inputBudget = await this.getInputTokenBudget(agent.model);
+      await this.manageContextWindow(agent, memory, inputBudget, tokenizer);
       
-      // Create contextual messages with appropriate conversation history
-      const conversationHistory = this.getOptimalConversationHistory(memory, agent.model.maxTokens);
-      const messages = this.providerManager.createContextualMessages(
-        userMessage,
-        agent.systemPrompt,
-        memory.sharedFiles,
-        memory.textSnippets,
-        conversationHistory
-      );
-
       // Enhance system prompt with specialized behaviors AND strong task enforcement
       const enhancedPrompt = this.enhanceSystemPromptWithBehaviors(agent, memory, userMessage);
       // 🚨 CRITICAL: Add absolute task-only enforcement at the very beginning
@@ -183,16 +355,30 @@ CRITICAL: Analyze existing file structures before editing. If a file has an unex
 ---ORIGINAL SYSTEM PROMPT FOLLOWS---
 
 `;
-      messages[0].content = taskOnlyPrefix + enhancedPrompt;
+
+      // Create contextual messages with appropriate conversation history
+      const conversationHistory = this.getOptimalConversationHistory(memory, inputBudget, tokenizer);
+      const sharedFiles = this.buildSharedFileExcerpts(memory, Math.floor(inputBudget * 0.3), tokenizer);
+      const messages = this.providerManager.createContextualMessages(
+        userMessage,
+        taskOnlyPrefix + enhancedPrompt,
+        sharedFiles,
+        memory.textSnippets,
+        conversationHistory
+      );
       
-      // Always provide task instructions to ensure agents know their capabilities
-      const allTaskTypes = ['file_operations', 'git_operations', 'command_execution'];
-      const taskInstructions = this.getTaskInstructions(agent, allTaskTypes);
+      // Provide task instructions for the capabilities this agent has enabled
+      const enabledTaskTypes = TaskCapabilities.getEnabledCapabilities(agent);
+      const taskInstructions = this.getTaskInstructions(agent, enabledTaskTypes);
       messages[0].content += `\n\n${taskInstructions}`;
       
       // Add emphasis when tasks are detected with high confidence
       if (intentResult.detectedIntents.length > 0 && intentResult.confidence > 0.6) {
-        const intentSpecificInstructions = this.getIntentSpecificInstructions(intentResult.detectedIntents, userMessage);
+        // Don't push the model towards verbs it isn't allowed to use
+        const allowedIntents = intentResult.detectedIntents.filter(intent =>
+          !Object.values(CapabilityType).includes(intent as CapabilityType) || enabledTaskTypes.includes(intent as CapabilityType)
+        );
+        const intentSpecificInstructions = this.getIntentSpecificInstructions(allowedIntents, userMessage);
         messages[0].content += `\n\n🎯 **INTENT DETECTED**: ${intentResult.detectedIntents.join(', ')}. Confidence: ${(intentResult.confidence * 100).toFixed(1)}%`;
         messages[0].content += `\n${intentSpecificInstructions}`;
         if (intentResult.reasoning) {
@@ -200,118 +386,211 @@ CRITICAL: Analyze existing file structures before editing. If a file has an unex
         }
       }
 
-      // Mark this stream as active
-      this.activeStreams.set(agent.id, true);
+      // Models with native tool calling also get the task verbs as typed tools
+      const tools = await this.getTaskTools(agent);
+      if (tools.length > 0) {
+        messages[0].content += `\n\n🛠️ **TOOLS**: The task verbs above are also available as tools. Prefer calling the tools over writing task syntax.`;
+      }
 
-      // Generate streaming response with safeguards
-      let accumulatedContent = '';
-      let chunkCount = 0;
-      
-      await this.providerManager.generateStreamingResponse(
-        messages,
-        agent.model,
-        (chunk) => {
-          if (!this.activeStreams.get(agent.id)) {
-            return; // Stream was cancelled
-          }
-          
-          chunkCount++;
-          accumulatedContent += chunk.content;
-          
-          // Detect repetitive patterns (indicating AI loop)
-          const recentContent = accumulatedContent.slice(-1000); // Last 1000 chars
-          const repetitivePatterns = [
-            /(\[CREATE_FILE:[^\]]+\][\s\S]*?\[\/CREATE_FILE\][\s\S]*?){2,}/s, // 2+ identical file creations
-            /(\[EDIT_FILE:[^\]]+\][\s\S]*?\[\/EDIT_FILE\][\s\S]*?){2,}/s, // 2+ identical file edits  
-            /(\[CREATE_FILE:[^\]]+\]\s*\[\/CREATE_FILE\][\s\S]*?){2,}/s, // 2+ empty file creations
-            /(From now on.*?){2,}/s, // Repeated promises of behavior
-            /(I'll automatically.*?){2,}/s, // Repeated automation promises
-          ];
-          
-          const hasRepetitivePattern = repetitivePatterns.some(pattern => pattern.test(recentContent));
-          
-          // Check for incomplete task syntax at the end (response cutoff)
-          const hasIncompleteTask = /\[CREATE_FILE:\s*[^\]]*$|\[EDIT_FILE:\s*[^\]]*$|\[DELETE_FILE:\s*[^\]]*$/i.test(accumulatedContent);
-          
-          // Emergency brake for runaway responses
-          if (chunkCount > this.emergencyBrakeConfig.maxChunks || accumulatedContent.length > this.emergencyBrakeConfig.maxContentLength || hasRepetitivePattern) {
-            console.warn('🚨 EMERGENCY BRAKE: Stopping runaway response', {
-              agentId: agent.id,
-              chunkCount,
-              contentLength: accumulatedContent.length,
-              repetitivePattern: hasRepetitivePattern,
-              recentContentPreview: recentContent.slice(-200)
-            });
-            this.activeStreams.delete(agent.id);
-            // Pass accumulated content, not just current chunk, so task execution can work
-            onResponse(accumulatedContent, true); // Force done with full accumulated response
-            return;
-          }
-          
-          // Check for response cutoff during task execution
-          if (chunk.done && hasIncompleteTask) {
-            console.warn('⚠️ RESPONSE CUTOFF: Task syntax appears incomplete', {
-              agentId: agent.id,
-              totalLength: accumulatedContent.length,
-              lastChars: accumulatedContent.slice(-50),
-              incompleteTaskPattern: hasIncompleteTask
-            });
-            // Still process the response, but warn about potential issues
-          }
-          
-          onResponse(chunk.content, chunk.done);
-          
-          if (chunk.done) {
-            console.log('🎯 STREAMING DONE - ACCUMULATED CONTENT CHECK', {
-              agentId: agent.id,
-              accumulatedLength: accumulatedContent.length,
-              chunkLength: chunk.content.length,
-              accumulatedPreview: accumulatedContent.substring(0, 200) + '...',
-              chunkPreview: chunk.content.substring(0, 200) + '...'
-            });
-            
-            console.log('🤖 CHECKING RESPONSE FOR TASKS:', {
-              agentId: agent.id,
-              responseLength: accumulatedContent.length,
-              responsePreview: accumulatedContent.substring(0, 500) + '...'
-            });
-            
-            // Execute any tasks found in the AI response (fire and forget to avoid blocking)
-            console.log('🚀 ABOUT TO EXECUTE TASKS FROM ACCUMULATED RESPONSE', {
-              agentId: agent.id,
-              fullAccumulatedContent: accumulatedContent
-            });
-            
-            this.executeTasksFromResponse(agent, accumulatedContent).catch(error => {
-              console.error('Error executing tasks from response:', error);
-              vscode.window.showErrorMessage(`Task execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            });
-            
-            // Update memory with the conversation
-            memory!.conversations.push(
-              { role: 'user', content: userMessage },
-              { role: 'assistant', content: chunk.content }
-            );
-            memory!.lastInteraction = new Date();
-            memory!.learningData.interactionCount++;
-            
-            // Learn from the interaction
-            if (memory) {
-              this.learnFromInteraction(memory, userMessage, chunk.content);
+      const relevantCode = await this.findRelevantCode(agent, userMessage, memory, Math.floor(inputBudget * 0.15), tokenizer);
+      if (relevantCode.length > 0) {
+        messages[0].content += `\n\n## Relevant code from the workspace\n` +
+          relevantCode.map(chunk => `### ${chunk.relativePath}:${chunk.startLine}-${chunk.endLine}\n\`\`\`\n${chunk.content}\n\`\`\``).join('\n\n');
+      }
+
+      // Each step streams one response. When a response asks for READ_FILE,
+      // GREP or FIND_FILES, their results are sent back for another step.
+      const loopSettings = this.getAgentLoopSettings();
+      let stepInput = userMessage;
+      let previousChunkCount = 0;
+      let previousContentLength = 0;
+      // Usage is recorded for the model that actually answered, which differs after a failover
+      let answeringModel: AIProviderConfig = agent.model;
+      const replies: string[] = [];
+      const taskExecutions: Array<Promise<Task[]>> = [];
+
+      for (let step = 1; step <= loopSettings.maxSteps; step++) {
+        // Mark this stream as active
+        this.activeStreams.set(agent.id, true);
+
+        // Generate streaming response with safeguards
+        let accumulatedContent = '';
+        let modelText = ''; // The reply without the tag form of its tool calls
+        let toolCalls: AIToolCall[] = [];
+        let chunkCount = 0;
+        let brakeApplied = false;
+        let taskExecution: Promise<Task[]> | null = null;
+
+        await this.providerManager.generateStreamingResponse(
+          messages,
+          agent.model,
+          (chunk) => {
+            if (!this.activeStreams.get(agent.id)) {
+              return; // Stream was cancelled
+            }
+
+            // Tool calls are queued from their arguments; the reply shows their tag form
+            modelText = AgentService.mergeChunk(modelText, chunk.content);
+            if (chunk.toolCalls?.length) {
+              toolCalls = chunk.toolCalls;
+              chunk = { ...chunk, content: TaskTools.appendToResponse(chunk.content, chunk.toolCalls) };
+            }
+
+            chunkCount++;
+            accumulatedContent = AgentService.mergeChunk(accumulatedContent, chunk.content);
+
+            // Detect repetitive patterns (indicating AI loop)
+            const recentContent = accumulatedContent.slice(-1000); // Last 1000 chars
+            const repetitivePatterns = [
+              /(\[CREATE_FILE:[^\]]+\][\s\S]*?\[\/CREATE_FILE\][\s\S]*?){2,}/s, // 2+ identical file creations
+              /(\[EDIT_FILE:[^\]]+\][\s\S]*?\[\/EDIT_FILE\][\s\S]*?){2,}/s, // 2+ identical file edits
+              /(\[CREATE_FILE:[^\]]+\]\s*\[\/CREATE_FILE\][\s\S]*?){2,}/s, // 2+ empty file creations
+              /(From now on.*?){2,}/s, // Repeated promises of behavior
+              /(I'll automatically.*?){2,}/s, // Repeated automation promises
+            ];
+
+            const hasRepetitivePattern = repetitivePatterns.some(pattern => pattern.test(recentContent));
+
+            // Check for incomplete task syntax at the end (response cutoff)
+            const hasIncompleteTask = /\[CREATE_FILE:\s*[^\]]*$|\[EDIT_FILE:\s*[^\]]*$|\[DELETE_FILE:\s*[^\]]*$/i.test(accumulatedContent);
+
+            // Emergency brake for runaway responses (limits cover all steps together)
+            const totalChunks = previousChunkCount + chunkCount;
+            const totalContentLength = previousContentLength + accumulatedContent.length;
+            if (totalChunks > this.emergencyBrakeConfig.maxChunks || totalContentLength > this.emergencyBrakeConfig.maxContentLength || hasRepetitivePattern) {
+              console.warn('🚨 EMERGENCY BRAKE: Stopping runaway response', {
+                agentId: agent.id,
+                step,
+                chunkCount: totalChunks,
+                contentLength: totalContentLength,
+                repetitivePattern: hasRepetitivePattern,
+                recentContentPreview: recentContent.slice(-200)
+              });
+              brakeApplied = true;
+              this.activeStreams.delete(agent.id);
+              this.recordUsage(agent.id, answeringModel, messages, accumulatedContent);
+              // Pass accumulated content, not just current chunk, so task execution can work
+              onResponse(accumulatedContent, true); // Force done with full accumulated response
+              return;
+            }
+
+            // Check for response cutoff during task execution
+            if (chunk.done && hasIncompleteTask) {
+              console.warn('⚠️ RESPONSE CUTOFF: Task syntax appears incomplete', {
+                agentId: agent.id,
+                totalLength: accumulatedContent.length,
+                lastChars: accumulatedContent.slice(-50),
+                incompleteTaskPattern: hasIncompleteTask
+              });
+              // Still process the response, but warn about potential issues
             }
-            
-            this.activeStreams.delete(agent.id);
-            
-            // Persist memory after conversation update
-            this.persistMemories();
+
+            onResponse(chunk.content, chunk.done);
+
+            if (chunk.done) {
+              // Replayed responses cost nothing
+              if (!chunk.cached) {
+                this.recordUsage(agent.id, answeringModel, messages, accumulatedContent, chunk.usage);
+              }
+
+              console.log('🎯 STREAMING DONE - ACCUMULATED CONTENT CHECK', {
+                agentId: agent.id,
+                accumulatedLength: accumulatedContent.length,
+                chunkLength: chunk.content.length,
+                accumulatedPreview: accumulatedContent.substring(0, 200) + '...',
+                chunkPreview: chunk.content.substring(0, 200) + '...'
+              });
+
+              console.log('🤖 CHECKING RESPONSE FOR TASKS:', {
+                agentId: agent.id,
+                responseLength: accumulatedContent.length,
+                responsePreview: accumulatedContent.substring(0, 500) + '...'
+              });
+
+              // Execute any tasks found in the AI response (not awaited here to avoid blocking the stream)
+              console.log('🚀 ABOUT TO EXECUTE TASKS FROM ACCUMULATED RESPONSE', {
+                agentId: agent.id,
+                fullAccumulatedContent: accumulatedContent
+              });
+
+              taskExecution = this.executeTasksFromResponse(agent, modelText, toolCalls).catch(error => {
+                console.error('Error executing tasks from response:', error);
+                vscode.window.showErrorMessage(`Task execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                return [];
+              });
+              taskExecutions.push(taskExecution);
+              replies.push(accumulatedContent);
+
+              // Update memory with the conversation
+              memory!.conversations.push(
+                { role: 'user', content: stepInput },
+                { role: 'assistant', content: chunk.content }
+              );
+              memory!.lastInteraction = new Date();
+              memory!.learningData.interactionCount++;
+
+              // Learn from the interaction
+              if (memory && step === 1) {
+                this.learnFromInteraction(memory, userMessage, chunk.content);
+              }
+
+              this.activeStreams.delete(agent.id);
+
+              // Persist memory after conversation update
+              this.persistMemories();
+            }
+          },
+          tools.length > 0 ? { tools } : undefined,
+          failover => {
+            answeringModel = failover.next;
+            this.notifyModelFailover(agent, failover);
           }
+        );
+
+        previousChunkCount += chunkCount;
+        previousContentLength += accumulatedContent.length;
+
+        if (brakeApplied) {
+          return failed('Stopped a runaway response', [...replies, accumulatedContent].join('\n\n'));
+        }
+        // Cancelling drops the rest of the stream, including its done chunk
+        if (!taskExecution) {
+          return failed('Cancelled', replies.join('\n\n'));
         }
-      );
 
+        // Stop when the step limit is reached or the response didn't ask to look at anything
+        if (step === loopSettings.maxSteps || !this.hasObservationTasks(accumulatedContent)) {
+          break;
+        }
+
+        const observation = this.formatObservations(await taskExecution, loopSettings.maxObservationChars);
+        if (!observation) {
+          break;
+        }
+
+        console.log('🔁 AGENT LOOP: Sending task results back to the agent', {
+          agentId: agent.id,
+          step,
+          observationLength: observation.length
+        });
+        messages.push(
+          { role: 'assistant', content: accumulatedContent },
+          { role: 'user', content: observation }
+        );
+        stepInput = observation;
+      }
+
+      return {
+        success: true,
+        reply: replies.join('\n\n'),
+        tasks: Promise.all(taskExecutions).then(results => results.flat())
+      };
     } catch (error) {
       console.error('Error processing message:', error);
-      onResponse(`I apologize, but I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}`, true);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      onResponse(`I apologize, but I encountered an error: ${message}`, true);
       this.activeStreams.delete(agent.id);
+      return failed(message);
     } finally {
       // Always clean up the processing lock
       this.activeStreams.delete(processingKey);
@@ -352,6 +631,22 @@ CRITICAL: Analyze existing file structures before editing. If a file has an unex
     }
   }
 
+  public getContextSummary(agentId: string): ContextSummaryEvent {
+    const memory = this.agentMemories.get(agentId);
+    return { agentId, summary: memory?.contextSummary || '', sessionCount: memory?.sessionCount ?? 1 };
+  }
+
+  /**
+   * Replace the summary of earlier sessions the agent sees, e.g. after the
+   * user corrected it. An empty summary removes it
+   */
+  public updateContextSummary(agentId: string, summary: string): void {
+    const memory = this.getOrCreateMemory(agentId);
+    memory.contextSummary = summary.trim() || undefined;
+    this.persistMemories();
+    this.notifyContextSummaryChanged(memory);
+  }
+
   public getSharedContext(agentId: string): { files: string[]; textSnippets: Array<{ content: string; fileName?: string }> } {
     const memory = this.agentMemories.get(agentId);
     if (!memory) {
@@ -372,6 +667,154 @@ CRITICAL: Analyze existing file structures before editing. If a file has an unex
     this.activeStreams.set(agentId, false);
   }
 
+  /**
+   * Sends a message and waits for the tasks from the reply, for callers that
+   * pass the outcome on to another agent. Throws when the agent can't answer.
+   */
+  public async processMessageAndWait(
+    agent: AgentConfig,
+    userMessage: string,
+    onResponse?: (chunk: string, done: boolean) => void
+  ): Promise<AgentRunResult> {
+    if (this.activeStreams.has(`${agent.id}-processing`)) {
+      throw new Error(`${agent.name} is busy with another message`);
+    }
+
+    const result = await this.processMessage(agent, userMessage, onResponse ?? (() => {}));
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    const tasks = await result.tasks;
+    const reply = result.reply.trim();
+    const taskResults = tasks
+      .filter(t => t.result?.output)
+      .map(t => `- ${t.result!.output}${t.status === TaskStatus.COMPLETED ? '' : ' (failed)'}`);
+    return {
+      reply,
+      tasks,
+      output: taskResults.length > 0 ? `${reply}\n\nTasks run by ${agent.name}:\n${taskResults.join('\n')}` : reply
+    };
+  }
+
+  /**
+   * The reply so far after a streamed chunk. Most providers send the whole
+   * reply so far with every chunk, Ollama only the new text; the done chunk
+   * always carries the whole reply.
+   */
+  private static mergeChunk(replySoFar: string, chunk: string): string {
+    return chunk.startsWith(replySoFar) ? chunk : replySoFar + chunk;
+  }
+
+  // Task queue access for AgentManager and the UI
+  public onTaskEvent(listener: TaskEventListener): () => void {
+    return this.taskQueue.onTaskEvent(listener);
+  }
+
+  public getTasks(agentId?: string): Task[] {
+    return this.taskQueue.getTasks(agentId);
+  }
+
+  public async cancelTask(taskId: string): Promise<boolean> {
+    return this.taskQueue.cancelTask(taskId);
+  }
+
+  public async retryTask(agent: AgentConfig, taskId: string): Promise<Task[]> {
+    const taskIds = await this.taskQueue.retryTask(taskId);
+    if (taskIds.length === 0) {
+      return [];
+    }
+    return this.runTasks(agent, taskIds);
+  }
+
+  public async clearFinishedTasks(agentId?: string): Promise<void> {
+    await this.taskQueue.clearFinishedTasks(agentId);
+  }
+
+  // Live output of captured RUN_COMMAND tasks
+  public onCommandOutput(listener: (event: CommandOutputEvent) => void): () => void {
+    this.commandOutputListeners.push(listener);
+    return () => {
+      this.commandOutputListeners = this.commandOutputListeners.filter(l => l !== listener);
+    };
+  }
+
+  public onCapabilityBlocked(listener: (event: CapabilityBlockedEvent) => void): () => void {
+    this.capabilityBlockedListeners.push(listener);
+    return () => {
+      this.capabilityBlockedListeners = this.capabilityBlockedListeners.filter(l => l !== listener);
+    };
+  }
+
+  public onModelFailover(listener: (event: ModelFailoverEvent) => void): () => void {
+    this.modelFailoverListeners.push(listener);
+    return () => {
+      this.modelFailoverListeners = this.modelFailoverListeners.filter(l => l !== listener);
+    };
+  }
+
+  public onContextSummaryChanged(listener: (event: ContextSummaryEvent) => void): () => void {
+    this.contextSummaryListeners.push(listener);
+    return () => {
+      this.contextSummaryListeners = this.contextSummaryListeners.filter(l => l !== listener);
+    };
+  }
+
+  public onSharedFileUsage(listener: (event: SharedFileUsageEvent) => void): () => void {
+    this.sharedFileUsageListeners.push(listener);
+    return () => {
+      this.sharedFileUsageListeners = this.sharedFileUsageListeners.filter(l => l !== listener);
+    };
+  }
+
+  public onAgentDelegation(listener: (event: DelegationEvent) => void): () => void {
+    this.delegationListeners.push(listener);
+    return () => {
+      this.delegationListeners = this.delegationListeners.filter(l => l !== listener);
+    };
+  }
+
+  public onUsageRecorded(listener: (record: UsageRecord) => void): () => void {
+    this.usageListeners.push(listener);
+    return () => {
+      this.usageListeners = this.usageListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Token usage and costs
+  public getUsageSummary(since?: Date, agentId?: string): UsageSummary {
+    return this.usageTracker.getSummary(since, agentId);
+  }
+
+  public getUsageRecords(agentId?: string): UsageRecord[] {
+    return this.usageTracker.getRecords(agentId);
+  }
+
+  public getMonthlyUsage(agentId?: string): UsageTotals {
+    return this.usageTracker.getMonthTotals(agentId);
+  }
+
+  public getUsageSettings(): UsageSettings {
+    return this.settingsManager?.getUsageSettings() ?? { ...AgentService.DEFAULT_USAGE_SETTINGS };
+  }
+
+  // Change journal access for undo/rollback
+  public getChangeHistory(agentId?: string): JournalEntry[] {
+    return this.changeJournal.getEntries(agentId);
+  }
+
+  public getLastChange(agentId?: string): JournalEntry | undefined {
+    return this.changeJournal.getLastEntry(agentId);
+  }
+
+  public getChangeConflicts(entry: JournalEntry): string[] {
+    return this.changeJournal.getConflicts(entry);
+  }
+
+  public async rollbackChanges(entryId: string): Promise<JournalEntry> {
+    return this.changeJournal.rollback(entryId);
+  }
+
   private async loadPersistedMemories(): Promise<void> {
     if (!this.context) return;
     
@@ -806,7 +1249,7 @@ YOU HAVE REAL FILE SYSTEM ACCESS - USE IT!`;
     return memory;
   }
 
-  private async classifyIntent(message: string, agent: AgentConfig): Promise<IntentClassificationResult> {
+  public async classifyIntent(message: string, agent: AgentConfig): Promise<IntentClassificationResult> {
     if (!this.intentClassificationService || !this.settingsManager) {
       // Fallback to simple static classification if services not available
       return {
@@ -836,7 +1279,7 @@ YOU HAVE REAL FILE SYSTEM ACCESS - USE IT!`;
     }
   }
 
-  private getTaskInstructions(_agent: AgentConfig, tasks: string[]): string {
+  private getTaskInstructions(agent: AgentConfig, tasks: string[]): string {
     let instructions = '\nTask Execution Capabilities:\n';
     
     if (tasks.includes('file_operations')) {
@@ -865,6 +1308,11 @@ YOU HAVE REAL FILE SYSTEM ACCESS - USE IT!`;
       instructions += '- Execute commands: `[RUN_COMMAND: npm install]`\n';
     }
 
+    const delegates = this.getDelegateAgents(agent);
+    if (tasks.includes('agent_delegation') && delegates.length > 0) {
+      instructions += `- Hand a sub-task to another agent and get its reply back: \`[DELEGATE: Agent Name]\\ntask with the context it needs\\n[/DELEGATE]\`. Agents: ${delegates.map(a => a.name).join(', ')}\n`;
+    }
+
     instructions += `
 
 🚨 **CRITICAL - MANDATORY TASK EXECUTION**: 
@@ -896,6 +1344,15 @@ For ALL file operations, code changes, or development tasks, you MUST use the pr
 ❌ Wrong: Any shell commands or non-existent syntax
 
 I WILL EXECUTE these tasks automatically. ALWAYS use the exact syntax above!`;
+
+    const disabledVerbs = TaskCapabilities.getDisabledVerbs(agent);
+    if (disabledVerbs.length > 0) {
+      const allowedVerbs = TaskCapabilities.getAllowedVerbs(agent);
+      instructions += `
+
+**Allowed task verbs for you:** ${allowedVerbs.length > 0 ? allowedVerbs.join(', ') : 'none'}
+🚫 **Disabled:** ${disabledVerbs.join(', ')}. Tasks using these verbs will be rejected - tell the user instead if one is needed.`;
+    }
     
     return instructions;
   }
@@ -936,7 +1393,11 @@ IMMEDIATELY use: [EDIT_FILE: thought_log.txt] [FIND]existing text[/FIND] [REPLAC
     return instructions;
   }
 
-  public async executeTasksFromResponse(_agent: AgentConfig, response: string): Promise<void> {
+  /**
+   * Queue and run the tasks in a response: the tag syntax in its text, and
+   * the tool calls the model made natively
+   */
+  public async executeTasksFromResponse(_agent: AgentConfig, response: string, toolCalls: AIToolCall[] = []): Promise<Task[]> {
     // ABSOLUTE FIRST LINE - MANDATORY LOGGING NOW THAT FS IS FIXED
     try {
       const fs = require('fs');
@@ -1015,7 +1476,8 @@ IMMEDIATELY use: [EDIT_FILE: thought_log.txt] [FIND]existing text[/FIND] [REPLAC
       formatFile: /\[FORMAT_FILE:\s*([^\]]+)\]/g,
       gitCommand: /\[GIT_COMMAND:\s*([^\]]+)\]/g,
       gitCommit: /\[GIT_COMMIT:\s*([^\]]+)\]/g,
-      runCommand: /\[RUN_COMMAND:\s*([^\]]+)\]/g
+      runCommand: /\[RUN_COMMAND:\s*([^\]]+)\]/g,
+      delegate: /\[DELEGATE:\s*([^\]]+)\]([\s\S]*?)\[\/DELEGATE\]/gi
     };
 
     let match;
@@ -1042,7 +1504,34 @@ IMMEDIATELY use: [EDIT_FILE: thought_log.txt] [FIND]existing text[/FIND] [REPLAC
     // This fixes the issue where AI models generate malformed duplicate syntax
     const processedResponse = this.deduplicateFileCreationBlocks(response);
     
-    // Execute file creation tasks
+    // Queue every task found in the response. Tasks touching the same file
+    // depend on the previous task for that file. Git, shell and delegation
+    // tasks run after the file tasks by priority; only a commit depends on the
+    // file changes, so it never records half of them.
+    const queuedTasks: Task[] = [];
+    const lastTaskByFile: Map<string, string> = new Map();
+    const fileChangeTaskIds: string[] = [];
+
+    const queueFileTask = (type: TaskType, fileName: string, payload: TaskPayload, mutates: boolean): void => {
+      const previous = lastTaskByFile.get(fileName);
+      const task = this.taskQueue.enqueue(_agent.id, type, { fileName, ...payload }, {
+        dependencies: previous ? [previous] : []
+      });
+      lastTaskByFile.set(fileName, task.id);
+      if (mutates) {
+        fileChangeTaskIds.push(task.id);
+      }
+      queuedTasks.push(task);
+    };
+
+    const queueCommandTask = (type: TaskType, payload: TaskPayload, dependencies: string[] = []): void => {
+      queuedTasks.push(this.taskQueue.enqueue(_agent.id, type, payload, {
+        priority: TaskPriority.LOW,
+        dependencies
+      }));
+    };
+
+    // Queue file creation tasks
     while ((match = patterns.fileCreate.exec(processedResponse)) !== null) {
       // TEST DEBUG: Log pattern match
       if (process.env.NODE_ENV === 'test') {
@@ -1078,106 +1567,127 @@ This file was created by your AI agent but had no initial content.
 Add your content below:
 
 `;
-        await this.createFile(_agent, fileName, defaultContent);
-        executionResults.push(`Created file: ${fileName} (with default content - original was empty)`);
+        queueFileTask(TaskType.FILE_CREATE, fileName, { content: defaultContent, usedDefaultContent: true }, true);
       } else {
-        await this.createFile(_agent, fileName, content);
-        executionResults.push(`Created file: ${fileName}`);
+        queueFileTask(TaskType.FILE_CREATE, fileName, { content }, true);
       }
       taskCount++;
     }
 
-    // Execute file editing tasks
+    // Queue file editing tasks
     while ((match = patterns.fileEdit.exec(response)) !== null) {
       if (!checkTaskLimit()) break;
-      const fileName = match[1].trim();
-      const findText = match[2].trim();
-      const replaceText = match[3].trim();
-      await this.editFile(_agent, fileName, findText, replaceText);
-      executionResults.push(`Edited file: ${fileName}`);
+      queueFileTask(TaskType.FILE_UPDATE, match[1].trim(), {
+        findText: match[2].trim(),
+        replaceText: match[3].trim()
+      }, true);
       taskCount++;
     }
 
-    // Execute file reading tasks
+    // Queue file reading tasks
     while ((match = patterns.readFile.exec(response)) !== null) {
-      const fileName = match[1].trim();
-      const content = await this.readFile(_agent, fileName);
-      executionResults.push(`Read file: ${fileName} (${content.length} characters)`);
+      queueFileTask(TaskType.FILE_READ, match[1].trim(), {}, false);
     }
 
-    // Execute grep searches
+    // Queue grep searches
     while ((match = patterns.grep.exec(response)) !== null) {
-      const pattern = match[1].trim();
-      const pathPattern = match[2].trim();
-      const results = await this.grepFiles(pattern, pathPattern);
-      executionResults.push(`Searched for "${pattern}" in ${pathPattern}: ${results.length} matches`);
+      queuedTasks.push(this.taskQueue.enqueue(_agent.id, TaskType.FILE_SEARCH, {
+        pattern: match[1].trim(),
+        pathPattern: match[2].trim()
+      }));
     }
 
-    // Execute find files
+    // Queue find files
     while ((match = patterns.findFiles.exec(response)) !== null) {
-      const filePattern = match[1].trim();
-      const files = await this.findFiles(filePattern);
-      executionResults.push(`Found ${files.length} files matching: ${filePattern}`);
+      queuedTasks.push(this.taskQueue.enqueue(_agent.id, TaskType.FILE_FIND, {
+        filePattern: match[1].trim()
+      }));
     }
 
-    // Execute delete files
+    // Queue delete files
     while ((match = patterns.deleteFile.exec(response)) !== null) {
-      const fileName = match[1].trim();
-      await this.deleteFile(_agent, fileName);
-      executionResults.push(`Deleted file: ${fileName}`);
+      queueFileTask(TaskType.FILE_DELETE, match[1].trim(), {}, true);
     }
 
-    // Execute code insertion
+    // Queue code insertion
     while ((match = patterns.insertCode.exec(response)) !== null) {
-      const fileName = match[1].trim();
-      const lineNumber = parseInt(match[2].trim());
-      const code = match[3].trim();
-      await this.insertCodeAtLine(fileName, lineNumber, code);
-      executionResults.push(`Inserted code in ${fileName} at line ${lineNumber}`);
+      queueFileTask(TaskType.CODE_INSERT, match[1].trim(), {
+        lineNumber: parseInt(match[2].trim()),
+        code: match[3].trim()
+      }, true);
     }
 
-    // Execute code replacement
+    // Queue code replacement
     while ((match = patterns.replaceCode.exec(response)) !== null) {
-      const fileName = match[1].trim();
-      const findCode = match[2].trim();
-      const replaceCode = match[3].trim();
-      await this.replaceCodeSection(fileName, findCode, replaceCode);
-      executionResults.push(`Replaced code section in ${fileName}`);
+      queueFileTask(TaskType.CODE_REPLACE, match[1].trim(), {
+        findCode: match[2].trim(),
+        replaceCode: match[3].trim()
+      }, true);
     }
 
-    // Execute open editor
+    // Queue open editor
     while ((match = patterns.openEditor.exec(response)) !== null) {
-      const fileName = match[1].trim();
-      await this.openInEditor(fileName);
-      executionResults.push(`Opened in editor: ${fileName}`);
+      queueFileTask(TaskType.EDITOR_OPEN, match[1].trim(), {}, false);
     }
 
-    // Execute file formatting
+    // Queue file formatting
     while ((match = patterns.formatFile.exec(response)) !== null) {
-      const fileName = match[1].trim();
-      await this.formatFile(fileName);
-      executionResults.push(`Formatted file: ${fileName}`);
+      queueFileTask(TaskType.FILE_FORMAT, match[1].trim(), {}, true);
     }
 
-    // Execute git commands
+    // Queue git commands
     while ((match = patterns.gitCommand.exec(response)) !== null) {
-      const command = match[1].trim();
-      await this.executeGitCommand(_agent, command);
-      executionResults.push(`Executed git: ${command}`);
+      queueCommandTask(TaskType.GIT_COMMAND, { command: match[1].trim() });
     }
 
-    // Execute git commits
+    // Queue git commits
     while ((match = patterns.gitCommit.exec(response)) !== null) {
-      const commitMessage = match[1].trim();
-      await this.executeGitCommit(_agent, commitMessage);
-      executionResults.push(`Git commit: ${commitMessage}`);
+      queueCommandTask(TaskType.GIT_COMMIT, { message: match[1].trim() }, [...fileChangeTaskIds]);
     }
 
-    // Execute shell commands
+    // Queue shell commands
     while ((match = patterns.runCommand.exec(response)) !== null) {
-      const command = match[1].trim();
-      await this.executeShellCommand(_agent, command);
-      executionResults.push(`Executed command: ${command}`);
+      queueCommandTask(TaskType.COMMAND_RUN, { command: match[1].trim() });
+    }
+
+    // Queue delegations; the delegate sees the files as changed by this response
+    while ((match = patterns.delegate.exec(response)) !== null) {
+      queueCommandTask(TaskType.AGENT_DELEGATE, { agentName: match[1].trim(), task: match[2].trim() });
+    }
+
+    // Queue native tool calls from their arguments, so text in them is never parsed as task syntax
+    for (const call of toolCalls) {
+      const toolTask = TaskTools.toTask(call);
+      if (!toolTask) {
+        continue; // Already reported when the reply was built
+      }
+      const { type, payload } = toolTask;
+      if (type === TaskType.FILE_CREATE || type === TaskType.FILE_UPDATE) {
+        if (!checkTaskLimit()) continue;
+        taskCount++;
+      }
+
+      if (type === TaskType.FILE_SEARCH || type === TaskType.FILE_FIND) {
+        queuedTasks.push(this.taskQueue.enqueue(_agent.id, type, payload));
+      } else if (type === TaskType.GIT_COMMIT) {
+        queueCommandTask(type, payload, [...fileChangeTaskIds]);
+      } else if (type === TaskType.GIT_COMMAND || type === TaskType.COMMAND_RUN || type === TaskType.AGENT_DELEGATE) {
+        queueCommandTask(type, payload);
+      } else {
+        const { fileName, ...rest } = payload;
+        queueFileTask(type, fileName, rest, AgentService.FILE_CHANGE_TASK_TYPES.includes(type));
+      }
+    }
+
+    // Run the queued tasks in priority/dependency order
+    const processedTasks = await this.runTasks(_agent, queuedTasks.map(task => task.id));
+
+    for (const task of processedTasks) {
+      if (task.status === TaskStatus.CANCELLED) {
+        executionResults.push(`Skipped ${task.type}: ${task.error?.message || 'cancelled'}`);
+      } else if (task.result?.output) {
+        executionResults.push(task.status === TaskStatus.FAILED ? `${task.result.output} (failed)` : task.result.output);
+      }
     }
 
     // Show summary of executed tasks
@@ -1205,78 +1715,448 @@ Add your content below:
     } else {
       debugLogger.log('🤖 NO TASKS FOUND IN RESPONSE - Agent may have responded conversationally instead of using task syntax');
     }
+
+    return processedTasks;
+  }
+
+  // Falls back to the tag syntax when the setting is off or the model has no tool support
+  private async getTaskTools(agent: AgentConfig): Promise<AIToolDefinition[]> {
+    if (this.settingsManager && !this.settingsManager.shouldUseNativeToolCalling()) {
+      return [];
+    }
+    try {
+      if (!await this.providerManager.supportsToolCalling(agent.model)) {
+        return [];
+      }
+      const hasDelegates = this.getDelegateAgents(agent).length > 0;
+      const allowedVerbs = TaskCapabilities.getAllowedVerbs(agent).filter(verb => verb !== 'DELEGATE' || hasDelegates);
+      return TaskTools.definitions.filter(tool => allowedVerbs.includes(tool.name.toUpperCase()));
+    } catch (error) {
+      console.warn('Could not check tool calling support, using task syntax:', error);
+      return [];
+    }
   }
 
-  // Permission checking methods
-  private hasPermission(agent: AgentConfig, permissionType: PermissionType): boolean {
-    const permission = agent.permissions.find(p => p.type === permissionType);
-    return permission ? permission.granted : false;
+  private getAgentLoopSettings(): AgentLoopSettings {
+    return this.settingsManager?.getAgentLoopSettings() ?? { ...AgentService.DEFAULT_AGENT_LOOP_SETTINGS };
   }
 
-  private checkFilePermission(agent: AgentConfig, operation: 'read' | 'write', fileName: string): boolean {
-    const permissionType = operation === 'read' ? PermissionType.READ_FILES : PermissionType.WRITE_FILES;
-    
-    if (!this.hasPermission(agent, permissionType)) {
-      vscode.window.showErrorMessage(
-        `Agent "${agent.name}" does not have permission to ${operation} files. Please update agent permissions.`
-      );
-      return false;
+  // RUN_COMMAND only has a result to look at when commands are captured, not run in a terminal
+  private hasObservationTasks(response: string): boolean {
+    if (/\[(READ_FILE|GREP|FIND_FILES|DELEGATE):/i.test(response)) {
+      return true;
     }
+    return /\[RUN_COMMAND:/i.test(response) && this.settingsManager?.getCommandExecutionSettings().mode === 'capture';
+  }
 
-    // Check scope restrictions if defined
-    const permission = agent.permissions.find(p => p.type === permissionType);
-    if (permission?.scope && permission.scope.length > 0) {
-      const matchesScope = permission.scope.some(pattern => {
-        if (pattern.includes('*')) {
-          // Simple glob matching
-          const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-          return regex.test(fileName);
+  // Turn READ_FILE / GREP / FIND_FILES results, DELEGATE replies and captured RUN_COMMAND output
+  // into a message the agent reads on its next step
+  private formatObservations(tasks: Task[], maxChars: number): string | null {
+    const limit = (text: string) => text.length > maxChars
+      ? `${text.substring(0, maxChars)}\n... (truncated, ${text.length - maxChars} more characters)`
+      : text;
+
+    const sections: string[] = [];
+    for (const task of tasks) {
+      if (!AgentService.OBSERVATION_TASK_TYPES.includes(task.type)) {
+        continue;
+      }
+
+      // Captured output is already formatted, with the exit code; terminal runs have nothing to report
+      if (task.type === TaskType.COMMAND_RUN) {
+        if (task.result?.data) {
+          sections.push(limit(task.result.data));
         }
-        return fileName.includes(pattern);
-      });
-      
-      if (!matchesScope) {
-        vscode.window.showErrorMessage(
-          `Agent "${agent.name}" does not have permission to ${operation} "${fileName}". File not in allowed scope.`
-        );
-        return false;
+        continue;
+      }
+
+      const payload = task.payload;
+      let header: string;
+      let body: string;
+      switch (task.type) {
+        case TaskType.FILE_READ:
+          header = `READ_FILE: ${payload.fileName}`;
+          body = task.result?.data ?? '';
+          break;
+        case TaskType.FILE_SEARCH: {
+          header = `GREP: ${payload.pattern}, ${payload.pathPattern}`;
+          const matches: Array<{ file: string; line: number; content: string }> = task.result?.data ?? [];
+          body = matches.map(match => `${match.file}:${match.line}: ${match.content}`).join('\n');
+          break;
+        }
+        case TaskType.AGENT_DELEGATE:
+          header = `DELEGATE: ${payload.agentName}`;
+          body = task.result?.data ?? '';
+          break;
+        default:
+          header = `FIND_FILES: ${payload.filePattern}`;
+          body = (task.result?.files ?? []).join('\n');
+      }
+
+      if (task.status !== TaskStatus.COMPLETED) {
+        sections.push(`[TOOL_RESULT: ${header}] (failed)\n${task.error?.message || task.result?.output || 'No result'}`);
+      } else {
+        sections.push(`[TOOL_RESULT: ${header}]\n\`\`\`\n${body.trim() ? limit(body.trimEnd()) : '(no results)'}\n\`\`\``);
       }
     }
 
-    return true;
+    return sections.length > 0 ? sections.join('\n\n') : null;
   }
 
-  private checkCommandPermission(agent: AgentConfig): boolean {
-    if (!this.hasPermission(agent, PermissionType.EXECUTE_COMMANDS)) {
-      vscode.window.showErrorMessage(
-        `Agent "${agent.name}" does not have permission to execute commands. Please update agent permissions.`
-      );
-      return false;
+  // Runs queued tasks and journals the file changes they make as one undoable entry
+  private async runTasks(agent: AgentConfig, taskIds: string[]): Promise<Task[]> {
+    const journalEntry = this.changeJournal.begin(agent.id);
+    this.activeJournals.set(agent.id, journalEntry);
+    try {
+      return await this.runJournaledTasks(agent, taskIds, journalEntry);
+    } finally {
+      this.activeJournals.delete(agent.id);
+      await this.changeJournal.commit(journalEntry);
     }
-    return true;
   }
 
-  private checkGitPermission(agent: AgentConfig): boolean {
-    if (!this.hasPermission(agent, PermissionType.GIT_OPERATIONS)) {
-      vscode.window.showErrorMessage(
-        `Agent "${agent.name}" does not have permission to perform Git operations. Please update agent permissions.`
+  // When the requireConfirmation setting is on, file changes are staged and
+  // reviewed first; commands only run once the review is done, and not at all
+  // when changes were rejected, since they may rely on them.
+  private async runJournaledTasks(agent: AgentConfig, taskIds: string[], journalEntry: JournalEntry): Promise<Task[]> {
+    const requireConfirmation = this.settingsManager?.shouldRequireConfirmation() ?? false;
+    if (!requireConfirmation) {
+      return this.taskQueue.run(task => this.executeTask(agent, task), taskIds);
+    }
+
+    const commandTypes = [TaskType.GIT_COMMAND, TaskType.GIT_COMMIT, TaskType.COMMAND_RUN];
+    const isCommandTask = (taskId: string) => {
+      const task = this.taskQueue.getTask(taskId);
+      return !!task && commandTypes.includes(task.type);
+    };
+
+    const changeset = new Changeset();
+    this.activeChangesets.set(agent.id, changeset);
+    let fileTasks: Task[];
+    try {
+      fileTasks = await this.taskQueue.run(
+        task => this.executeTask(agent, task),
+        taskIds.filter(taskId => !isCommandTask(taskId))
       );
-      return false;
+    } finally {
+      this.activeChangesets.delete(agent.id);
     }
-    return true;
-  }
 
-  private async createFile(agent: AgentConfig, fileName: string, content: string): Promise<void> {
-    debugLogger.log('🔧 CREATE_FILE DEBUG: Starting file creation', { 
-      agentId: agent.id, 
-      fileName, 
-      contentLength: content.length,
-      agentPermissions: agent.permissions.map(p => `${p.type}:${p.granted}`)
-    });
-    
-    if (!this.checkFilePermission(agent, 'write', fileName)) {
-      debugLogger.log('🔧 CREATE_FILE DEBUG: Permission check failed');
-      return;
+    const review = await changeset.review(agent.name);
+    for (const change of review.applied) {
+      this.changeJournal.record(journalEntry, change.fileName, change.filePath, change.originalContent, change.proposedContent);
+    }
+    if (review.applied.length + review.rejected.length > 0) {
+      vscode.window.showInformationMessage(
+        `Applied ${review.applied.length} of ${review.applied.length + review.rejected.length} proposed file change(s) from "${agent.name}"`
+      );
+    }
+
+    const commandTaskIds = taskIds.filter(isCommandTask);
+    if (review.rejected.length === 0) {
+      const commandTasks = await this.taskQueue.run(task => this.executeTask(agent, task), commandTaskIds);
+      return [...fileTasks, ...commandTasks];
+    }
+
+    for (const taskId of commandTaskIds) {
+      await this.taskQueue.cancelTask(taskId, 'Skipped because file changes from the same response were rejected');
+    }
+    if (commandTaskIds.length > 0) {
+      vscode.window.showWarningMessage(
+        `Skipped ${commandTaskIds.length} command(s) from "${agent.name}" because file changes were rejected`
+      );
+    }
+
+    // Rejected changes never reach the disk, so the tasks that made them didn't happen
+    const rejectedFiles = new Set(review.rejected.map(change => change.fileName));
+    for (const task of fileTasks) {
+      if (AgentService.FILE_CHANGE_TASK_TYPES.includes(task.type) && task.result?.files?.some(file => rejectedFiles.has(file))) {
+        await this.taskQueue.discardTask(task.id, `Change to ${task.payload.fileName} was rejected in review`);
+      }
+    }
+    return [...fileTasks, ...commandTaskIds.map(taskId => this.taskQueue.getTask(taskId)!)];
+  }
+
+  // Runs a single queued task and reports its outcome back to the queue
+  private async executeTask(agent: AgentConfig, task: Task): Promise<TaskResult> {
+    const payload = task.payload;
+    const fileName: string = payload.fileName;
+
+    // Delegates only get the capabilities of the agents they work for
+    for (const holder of this.getPermissionHolders(agent)) {
+      const blockedCapability = TaskCapabilities.getBlockedCapability(holder, task.type, payload);
+      if (blockedCapability) {
+        return this.rejectDisabledCapability(holder, task, blockedCapability);
+      }
+    }
+
+    switch (task.type) {
+      case TaskType.FILE_CREATE: {
+        const success = await this.createFile(agent, fileName, payload.content);
+        const output = payload.usedDefaultContent
+          ? `Created file: ${fileName} (with default content - original was empty)`
+          : `Created file: ${fileName}`;
+        return { success, output, files: [fileName] };
+      }
+      case TaskType.FILE_UPDATE: {
+        const success = await this.editFile(agent, fileName, payload.findText, payload.replaceText);
+        return { success, output: `Edited file: ${fileName}`, files: [fileName] };
+      }
+      case TaskType.FILE_READ: {
+        const content = await this.readFile(agent, fileName);
+        return { success: true, output: `Read file: ${fileName} (${content.length} characters)`, data: content, files: [fileName] };
+      }
+      case TaskType.FILE_SEARCH: {
+        const results = await this.grepFiles(agent, payload.pattern, payload.pathPattern);
+        return { success: true, output: `Searched for "${payload.pattern}" in ${payload.pathPattern}: ${results.length} matches`, data: results };
+      }
+      case TaskType.FILE_FIND: {
+        const files = await this.findFiles(agent, payload.filePattern);
+        return { success: true, output: `Found ${files.length} files matching: ${payload.filePattern}`, files };
+      }
+      case TaskType.FILE_DELETE: {
+        const success = await this.deleteFile(agent, fileName);
+        return { success, output: `Deleted file: ${fileName}`, files: [fileName] };
+      }
+      case TaskType.CODE_INSERT: {
+        const success = await this.insertCodeAtLine(agent, fileName, payload.lineNumber, payload.code);
+        return { success, output: `Inserted code in ${fileName} at line ${payload.lineNumber}`, files: [fileName] };
+      }
+      case TaskType.CODE_REPLACE: {
+        const success = await this.replaceCodeSection(agent, fileName, payload.findCode, payload.replaceCode);
+        return { success, output: `Replaced code section in ${fileName}`, files: [fileName] };
+      }
+      case TaskType.EDITOR_OPEN: {
+        const success = await this.openInEditor(agent, fileName);
+        return { success, output: `Opened in editor: ${fileName}`, files: [fileName] };
+      }
+      case TaskType.FILE_FORMAT: {
+        const success = await this.formatFile(agent, fileName);
+        return { success, output: `Formatted file: ${fileName}`, files: [fileName] };
+      }
+      case TaskType.GIT_COMMAND: {
+        const success = await this.executeGitCommand(agent, payload.command);
+        return { success, output: `Executed git: ${payload.command}` };
+      }
+      case TaskType.GIT_COMMIT: {
+        const success = await this.executeGitCommit(agent, payload.message);
+        return { success, output: `Git commit: ${payload.message}` };
+      }
+      case TaskType.COMMAND_RUN: {
+        const { success, output } = await this.executeShellCommand(agent, payload.command);
+        return { success, output: `Executed command: ${payload.command}`, data: output };
+      }
+      case TaskType.AGENT_DELEGATE: {
+        const reply = await this.delegateTask(agent, payload.agentName, payload.task);
+        return { success: true, output: `Delegated to ${payload.agentName}`, data: reply };
+      }
+      default:
+        return { success: false, output: `Unsupported task type: ${task.type}` };
+    }
+  }
+
+  // Permission checking methods. A delegate needs each permission, and each
+  // scope to match, for itself and for every agent it works for.
+  private hasPermission(agent: AgentConfig, permissionType: PermissionType): boolean {
+    return this.getPermissionHolders(agent).every(holder => {
+      const permission = holder.permissions.find(p => p.type === permissionType);
+      return permission ? permission.granted : false;
+    });
+  }
+
+  private getPermissionHolders(agent: AgentConfig): AgentConfig[] {
+    return [agent, ...(this.delegationChains.get(agent.id) || [])];
+  }
+
+  private checkFilePermission(agent: AgentConfig, operation: 'read' | 'write', fileName: string): boolean {
+    const permissionType = operation === 'read' ? PermissionType.READ_FILES : PermissionType.WRITE_FILES;
+    
+    if (!this.hasPermission(agent, permissionType)) {
+      vscode.window.showErrorMessage(
+        `Agent "${agent.name}" does not have permission to ${operation} files. Please update agent permissions.`
+      );
+      return false;
+    }
+
+    const violation = this.getPathViolation(agent, permissionType, fileName);
+    if (violation === 'outside') {
+      vscode.window.showErrorMessage(
+        `Agent "${agent.name}" cannot ${operation} "${fileName}". The path is outside the workspace.`
+      );
+      return false;
+    }
+    if (violation === 'scope') {
+      vscode.window.showErrorMessage(
+        `Agent "${agent.name}" does not have permission to ${operation} "${fileName}". File not in allowed scope.`
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  // Paths are checked after normalization, so "..", absolute paths and
+  // symlinks can't reach files outside the workspace or the permission scope
+  private getPathViolation(agent: AgentConfig, permissionType: PermissionType, fileName: string): 'outside' | 'scope' | null {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+      return null; // The operation itself reports the missing workspace
+    }
+
+    const workspaceRoot = workspaceFolder.uri.fsPath;
+    const relativePath = PermissionScope.normalizePath(workspaceRoot, fileName);
+    if (relativePath === null || PermissionScope.escapesViaSymlink(workspaceRoot, relativePath)) {
+      return 'outside';
+    }
+
+    const inScope = this.getPermissionHolders(agent).every(holder => {
+      const permission = holder.permissions.find(p => p.type === permissionType);
+      return PermissionScope.isPathInScope(permission?.scope, relativePath);
+    });
+    return inScope ? null : 'scope';
+  }
+
+  private checkCommandPermission(agent: AgentConfig, command: string): boolean {
+    if (!this.hasPermission(agent, PermissionType.EXECUTE_COMMANDS)) {
+      vscode.window.showErrorMessage(
+        `Agent "${agent.name}" does not have permission to execute commands. Please update agent permissions.`
+      );
+      return false;
+    }
+
+    const inScope = this.getPermissionHolders(agent).every(holder => {
+      const permission = holder.permissions.find(p => p.type === PermissionType.EXECUTE_COMMANDS);
+      return PermissionScope.isCommandInScope(permission?.scope, command);
+    });
+    if (!inScope) {
+      vscode.window.showErrorMessage(
+        `Agent "${agent.name}" does not have permission to run "${command}". Command not in allowed scope.`
+      );
+      return false;
+    }
+    return true;
+  }
+
+  // GREP and FIND_FILES need read access; their glob may not leave the workspace
+  private checkSearchPermission(agent: AgentConfig, globPattern: string): boolean {
+    if (!this.hasPermission(agent, PermissionType.READ_FILES)) {
+      vscode.window.showErrorMessage(
+        `Agent "${agent.name}" does not have permission to read files. Please update agent permissions.`
+      );
+      return false;
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (workspaceFolder && PermissionScope.normalizePath(workspaceFolder.uri.fsPath, globPattern) === null) {
+      vscode.window.showErrorMessage(
+        `Agent "${agent.name}" cannot search "${globPattern}". The path is outside the workspace.`
+      );
+      return false;
+    }
+    return true;
+  }
+
+  private checkGitPermission(agent: AgentConfig): boolean {
+    if (!this.hasPermission(agent, PermissionType.GIT_OPERATIONS)) {
+      vscode.window.showErrorMessage(
+        `Agent "${agent.name}" does not have permission to perform Git operations. Please update agent permissions.`
+      );
+      return false;
+    }
+    return true;
+  }
+
+  // Applies the global and per-agent command policy on top of the permission checks
+  private async checkCommandPolicy(agent: AgentConfig, command: string): Promise<boolean> {
+    const policy = CommandPolicy.merge(
+      this.settingsManager?.getCommandPolicySettings() ?? CommandPolicy.DEFAULT_SETTINGS,
+      agent.commandPolicy
+    );
+    const decision = CommandPolicy.evaluate(policy, command);
+    debugLogger.log('🛡️ COMMAND POLICY', { agentId: agent.id, command, ...decision });
+
+    if (decision.action === 'deny') {
+      vscode.window.showErrorMessage(
+        decision.pattern
+          ? `Agent "${agent.name}" is not allowed to run "${command}". It matches the deny rule "${decision.pattern}".`
+          : decision.nested
+            ? `Agent "${agent.name}" is not allowed to run "${command}". It runs a nested command the policy can't check.`
+            : `Agent "${agent.name}" is not allowed to run "${command}". It is not in the command allowlist.`
+      );
+      return false;
+    }
+
+    if (decision.action === 'ask') {
+      const choice = await vscode.window.showWarningMessage(
+        decision.nested
+          ? `Agent "${agent.name}" wants to run "${command}", which runs a nested command`
+          : `Agent "${agent.name}" wants to run "${command}"`,
+        { modal: true },
+        'Run'
+      );
+      return choice === 'Run';
+    }
+    return true;
+  }
+
+  // Disk access for file-changing tasks. While a changeset is staged for the
+  // agent, reads see the staged content and writes are recorded for review.
+  private fileExists(agent: AgentConfig, filePath: string): boolean {
+    const changeset = this.activeChangesets.get(agent.id);
+    return changeset ? changeset.exists(filePath) : fs.existsSync(filePath);
+  }
+
+  private readWorkspaceFile(agent: AgentConfig, filePath: string): string {
+    const changeset = this.activeChangesets.get(agent.id);
+    return changeset ? changeset.read(filePath) : fs.readFileSync(filePath, 'utf8');
+  }
+
+  private writeWorkspaceFile(agent: AgentConfig, fileName: string, filePath: string, content: string): void {
+    const changeset = this.activeChangesets.get(agent.id);
+    if (changeset) {
+      changeset.write(fileName, filePath, content);
+    } else {
+      this.recordFileChange(agent, fileName, filePath, content);
+      fs.writeFileSync(filePath, content, 'utf8');
+    }
+  }
+
+  private deleteWorkspaceFile(agent: AgentConfig, fileName: string, filePath: string): void {
+    const changeset = this.activeChangesets.get(agent.id);
+    if (changeset) {
+      changeset.remove(fileName, filePath);
+    } else {
+      this.recordFileChange(agent, fileName, filePath, null);
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  private recordFileChange(agent: AgentConfig, fileName: string, filePath: string, newContent: string | null): void {
+    const journalEntry = this.activeJournals.get(agent.id);
+    if (journalEntry) {
+      const previousContent = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null;
+      this.changeJournal.record(journalEntry, fileName, filePath, previousContent, newContent);
+    }
+  }
+
+  private notifyFileChange(agent: AgentConfig, message: string): void {
+    // Staged changes are summarized once in the review prompt instead
+    if (!this.activeChangesets.has(agent.id)) {
+      vscode.window.showInformationMessage(message);
+    }
+  }
+
+  private async createFile(agent: AgentConfig, fileName: string, content: string): Promise<boolean> {
+    debugLogger.log('🔧 CREATE_FILE DEBUG: Starting file creation', { 
+      agentId: agent.id, 
+      fileName, 
+      contentLength: content.length,
+      agentPermissions: agent.permissions.map(p => `${p.type}:${p.granted}`)
+    });
+    
+    if (!this.checkFilePermission(agent, 'write', fileName)) {
+      debugLogger.log('🔧 CREATE_FILE DEBUG: Permission check failed');
+      return false;
     }
     
     debugLogger.log('🔧 CREATE_FILE DEBUG: Permission check passed');
@@ -1286,7 +2166,7 @@ Add your content below:
       if (!workspaceFolder) {
         debugLogger.log('🔧 CREATE_FILE DEBUG: No workspace folder found');
         vscode.window.showErrorMessage('No workspace folder open');
-        return;
+        return false;
       }
 
       const filePath = path.join(workspaceFolder.uri.fsPath, fileName);
@@ -1298,6 +2178,14 @@ Add your content below:
         dirPath
       });
 
+      // Stage the file for review instead of writing it when confirmation is required
+      const changeset = this.activeChangesets.get(agent.id);
+      if (changeset) {
+        changeset.write(fileName, filePath, content);
+        debugLogger.log('🔧 CREATE_FILE DEBUG: File creation staged for review');
+        return true;
+      }
+
       // Create directories if they don't exist
       if (!fs.existsSync(dirPath)) {
         debugLogger.log('🔧 CREATE_FILE DEBUG: Creating directory', { dirPath });
@@ -1306,57 +2194,301 @@ Add your content below:
 
       // Write file
       debugLogger.log('🔧 CREATE_FILE DEBUG: Writing file', { filePath, contentLength: content.length });
+      this.recordFileChange(agent, fileName, filePath, content);
       fs.writeFileSync(filePath, content, 'utf8');
       
       debugLogger.log('🔧 CREATE_FILE DEBUG: File creation successful');
       vscode.window.showInformationMessage(`File created: ${fileName}`);
+      return true;
     } catch (error) {
       debugLogger.log('🔧 CREATE_FILE DEBUG: File creation failed', { error });
       vscode.window.showErrorMessage(`Failed to create file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
     }
   }
 
-  private async executeGitCommand(agent: AgentConfig, command: string): Promise<void> {
-    if (!this.checkGitPermission(agent)) {
-      return;
+  private async executeGitCommand(agent: AgentConfig, command: string): Promise<boolean> {
+    if (!this.checkGitPermission(agent) || !(await this.checkCommandPolicy(agent, command))) {
+      return false;
     }
     try {
       const terminal = vscode.window.createTerminal('AI Agent Git');
       terminal.sendText(command);
       terminal.show();
+      return true;
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to execute git command: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
     }
   }
 
-  private async executeGitCommit(agent: AgentConfig, message: string): Promise<void> {
-    if (!this.checkGitPermission(agent)) {
-      return;
+  private async executeGitCommit(agent: AgentConfig, message: string): Promise<boolean> {
+    const command = `git add -A && git commit -m "${message}"`;
+    if (!this.checkGitPermission(agent) || !(await this.checkCommandPolicy(agent, command))) {
+      return false;
     }
     try {
       const terminal = vscode.window.createTerminal('AI Agent Git');
-      terminal.sendText(`git add -A && git commit -m "${message}"`);
+      terminal.sendText(command);
       terminal.show();
+      return true;
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to commit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
     }
   }
 
-  private async executeShellCommand(agent: AgentConfig, command: string): Promise<void> {
-    if (!this.checkCommandPermission(agent)) {
-      return;
+  // Captured runs also return their formatted output
+  private async executeShellCommand(agent: AgentConfig, command: string): Promise<{ success: boolean; output?: string }> {
+    if (!this.checkCommandPermission(agent, command) || !(await this.checkCommandPolicy(agent, command))) {
+      return { success: false };
+    }
+    const commandSettings = this.settingsManager?.getCommandExecutionSettings();
+    if (commandSettings?.mode === 'capture') {
+      return this.runCapturedCommand(agent, command, commandSettings);
     }
     try {
       const terminal = vscode.window.createTerminal('AI Agent Command');
       terminal.sendText(command);
       terminal.show();
+      return { success: true };
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to execute command: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return { success: false };
+    }
+  }
+
+  private async runCapturedCommand(agent: AgentConfig, command: string, settings: CommandExecutionSettings): Promise<{ success: boolean; output?: string }> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+      vscode.window.showErrorMessage('No workspace folder open');
+      return { success: false };
+    }
+
+    const runId = `${agent.id}-${Date.now()}`;
+    this.emitCommandOutput({ agentId: agent.id, runId, command, done: false });
+
+    const result = await this.commandRunner.run(command, {
+      cwd: workspaceFolder.uri.fsPath,
+      timeoutMs: settings.timeoutMs,
+      maxOutputChars: settings.maxOutputChars,
+      onOutput: (chunk, stream) => this.emitCommandOutput({ agentId: agent.id, runId, command, chunk, stream, done: false })
+    });
+
+    this.emitCommandOutput({
+      agentId: agent.id,
+      runId,
+      command,
+      done: true,
+      exitCode: result.exitCode,
+      timedOut: result.timedOut
+    });
+
+    const succeeded = result.exitCode === 0 && !result.timedOut;
+    if (!succeeded) {
+      vscode.window.showWarningMessage(
+        result.timedOut
+          ? `Command timed out: ${command}`
+          : `Command failed with exit code ${result.exitCode ?? 'unknown'}: ${command}`
+      );
+    }
+    // The agent loop sends the output back to the agent so it can react to it
+    return { success: succeeded, output: CommandRunner.formatResult(result) };
+  }
+
+  /**
+   * Record what a response used. Providers that don't report usage (or
+   * report zeros) get a character based estimate instead.
+   */
+  private recordUsage(
+    agentId: string,
+    model: AIProviderConfig,
+    messages: AIMessage[],
+    content: string,
+    reported?: { inputTokens: number; outputTokens: number }
+  ): void {
+    // Accounting must never break the response it accounts for
+    try {
+      const estimated = !reported || (reported.inputTokens === 0 && reported.outputTokens === 0);
+      const usage = {
+        agentId,
+        provider: model.provider,
+        modelName: model.modelName,
+        inputTokens: estimated ? this.providerManager.estimateTokens(messages, model.provider, model.modelName) : reported!.inputTokens,
+        outputTokens: estimated ? tokenizerRegistry.getTokenizer(model.provider, model.modelName).countTokens(content) : reported!.outputTokens,
+        estimated
+      };
+
+      this.usageTracker.record(usage, this.getUsageSettings().prices).then(record => {
+        for (const listener of this.usageListeners) {
+          try {
+            listener(record);
+          } catch (error) {
+            console.error('Usage listener failed:', error);
+          }
+        }
+      }).catch(error => console.error('Failed to record usage:', error));
+    } catch (error) {
+      console.error('Failed to record usage:', error);
+    }
+  }
+
+  /**
+   * Check the global and agent monthly budgets. Returns the reason the message
+   * is blocked, or null. Agents on models without a price are never blocked.
+   */
+  private checkUsageBudget(agent: AgentConfig): string | null {
+    const settings = this.getUsageSettings();
+    if (!UsageTracker.isPriced(settings.prices, agent.model.modelName)) {
+      return null;
+    }
+
+    const month = UsageTracker.dayKey(new Date()).substring(0, 7);
+    const budgets = [
+      { key: 'all', budget: settings.monthlyBudget, spent: this.usageTracker.getMonthTotals().cost, label: 'all agents' },
+      { key: agent.id, budget: agent.monthlyBudget || 0, spent: this.usageTracker.getMonthTotals(agent.id).cost, label: agent.name }
+    ];
+
+    for (const { key, budget, spent, label } of budgets) {
+      if (budget <= 0 || spent < budget) {
+        continue;
+      }
+      const message = `The monthly budget of $${budget.toFixed(2)} for ${label} is used up ($${spent.toFixed(2)} spent).`;
+      if (settings.budgetAction === 'block') {
+        return `${message} Raise the budget or switch ${agent.name} to a local model to keep going.`;
+      }
+      if (!this.budgetWarnings.has(`${month}:${key}`)) {
+        this.budgetWarnings.add(`${month}:${key}`);
+        vscode.window.showWarningMessage(message);
+      }
+    }
+    return null;
+  }
+
+  private notifyModelFailover(agent: AgentConfig, failover: FailoverEvent): void {
+    const describe = (config: AIProviderConfig) => `${config.provider}${config.host ? `@${config.host}` : ''}/${config.modelName}`;
+    const event: ModelFailoverEvent = {
+      agentId: agent.id,
+      failedModel: describe(failover.failed),
+      reason: failover.reason,
+      model: describe(failover.next)
+    };
+    debugLogger.log('🔀 MODEL FAILOVER', event);
+
+    for (const listener of this.modelFailoverListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Model failover listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Send a sub-task to another agent by name and wait for its reply and the
+   * tasks it ran. The chain of agents a delegate works for limits its
+   * permissions, rules out loops and is capped at the configured depth.
+   */
+  private async delegateTask(agent: AgentConfig, agentName: string, task: string): Promise<string> {
+    const chain = [...(this.delegationChains.get(agent.id) || []), agent];
+    const maxDepth = this.getDelegationSettings().maxDepth;
+    if (chain.length > maxDepth) {
+      throw new Error(maxDepth === 0 ? 'Delegation is turned off' : `Delegation is limited to ${maxDepth} level(s) of handoff`);
+    }
+
+    const name = agentName.replace(/^@/, '').trim().toLowerCase();
+    const target = this.listAgents().find(a => a.isActive && a.name.trim().toLowerCase() === name);
+    if (!target) {
+      const names = this.getDelegateAgents(agent).map(a => a.name);
+      throw new Error(`No active agent named "${agentName}"${names.length > 0 ? `. Agents you can delegate to: ${names.join(', ')}` : ''}`);
+    }
+    if (chain.some(a => a.id === target.id)) {
+      throw new Error(`Delegating to ${target.name} would loop: ${[...chain, target].map(a => a.name).join(' → ')}`);
+    }
+    if (this.activeStreams.has(`${target.id}-processing`)) {
+      throw new Error(`${target.name} is busy with another message`);
+    }
+
+    const handoff = {
+      id: `delegation-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      fromAgentId: agent.id,
+      fromAgentName: agent.name,
+      toAgentId: target.id,
+      toAgentName: target.name,
+      task
+    };
+    this.notifyDelegation({ ...handoff, status: 'started' });
+    this.delegationChains.set(target.id, chain);
+
+    try {
+      // The delegate's tasks run with the limited permissions, so the chain stays until they finish
+      const result = await this.processMessageAndWait(
+        target,
+        `[Delegated by ${agent.name}]\n${task}\n\nYou are working for ${chain.map(a => a.name).join(' → ')} and only have the permissions you all share. Your reply is sent back to ${agent.name}.`
+      );
+      this.notifyDelegation({ ...handoff, status: 'completed', reply: result.reply });
+      return result.output;
+    } catch (error) {
+      this.notifyDelegation({ ...handoff, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      this.delegationChains.delete(target.id);
+    }
+  }
+
+  private getDelegateAgents(agent: AgentConfig): AgentConfig[] {
+    return this.listAgents().filter(a => a.isActive && a.id !== agent.id);
+  }
+
+  private getDelegationSettings(): DelegationSettings {
+    return this.settingsManager?.getDelegationSettings() ?? { maxDepth: 2 };
+  }
+
+  private notifyDelegation(event: DelegationEvent): void {
+    for (const listener of this.delegationListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Delegation listener failed:', error);
+      }
+    }
+  }
+
+  private rejectDisabledCapability(agent: AgentConfig, task: Task, capability: CapabilityType): TaskResult {
+    const event: CapabilityBlockedEvent = {
+      agentId: agent.id,
+      verb: TaskCapabilities.getVerb(task.type),
+      capability,
+      capabilityLabel: TaskCapabilities.getLabel(capability)
+    };
+    debugLogger.log('🚫 CAPABILITY DISABLED: Task rejected', { ...event, taskId: task.id });
+
+    for (const listener of this.capabilityBlockedListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Capability listener failed:', error);
+      }
+    }
+
+    return {
+      success: false,
+      output: `${event.verb} rejected: the ${event.capabilityLabel} capability is disabled for ${agent.name}`
+    };
+  }
+
+  private emitCommandOutput(event: CommandOutputEvent): void {
+    for (const listener of this.commandOutputListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Command output listener failed:', error);
+      }
     }
   }
 
   // Advanced file and code manipulation methods
-  private async editFile(agent: AgentConfig, fileName: string, findText: string, replaceText: string): Promise<void> {
+  private async editFile(agent: AgentConfig, fileName: string, findText: string, replaceText: string): Promise<boolean> {
     debugLogger.log('🔧 EDIT_FILE DEBUG: Starting file edit', { 
       agentId: agent.id, 
       fileName, 
@@ -1368,7 +2500,7 @@ Add your content below:
     
     if (!this.checkFilePermission(agent, 'write', fileName)) {
       debugLogger.log('🔧 EDIT_FILE DEBUG: Permission check failed');
-      return;
+      return false;
     }
     
     debugLogger.log('🔧 EDIT_FILE DEBUG: Permission check passed');
@@ -1386,12 +2518,12 @@ Add your content below:
         filePath
       });
       
-      if (!fs.existsSync(filePath)) {
+      if (!this.fileExists(agent, filePath)) {
         debugLogger.log('🔧 EDIT_FILE DEBUG: File not found', { filePath });
         throw new Error(`File not found: ${fileName}`);
       }
 
-      let content = fs.readFileSync(filePath, 'utf8');
+      let content = this.readWorkspaceFile(agent, filePath);
       debugLogger.log('🔧 EDIT_FILE DEBUG: File read successfully', {
         contentLength: content.length,
         contentPreview: content.substring(0, 200)
@@ -1401,9 +2533,10 @@ Add your content below:
       if (content.includes(findText)) {
         debugLogger.log('🔧 EDIT_FILE DEBUG: Find text found, performing replacement');
         content = content.replace(new RegExp(this.escapeRegExp(findText), 'g'), replaceText);
-        fs.writeFileSync(filePath, content, 'utf8');
+        this.writeWorkspaceFile(agent, fileName, filePath, content);
         debugLogger.log('🔧 EDIT_FILE DEBUG: File edit successful');
-        vscode.window.showInformationMessage(`Updated file: ${fileName}`);
+        this.notifyFileChange(agent, `Updated file: ${fileName}`);
+        return true;
       } else {
         debugLogger.log('🔧 EDIT_FILE DEBUG: Find text not found in file', {
           contentLength: content.length,
@@ -1411,36 +2544,38 @@ Add your content below:
           contentSample: content.substring(0, 500)
         });
         vscode.window.showWarningMessage(`Text not found in ${fileName}: "${findText.substring(0, 50)}..."`);
+        return false;
       }
     } catch (error) {
       debugLogger.log('🔧 EDIT_FILE DEBUG: File edit failed', { error });
       vscode.window.showErrorMessage(`Failed to edit file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
     }
   }
 
+  // Throws when the file can't be read, so the failure reaches the agent as the task error
   private async readFile(agent: AgentConfig, fileName: string): Promise<string> {
     if (!this.checkFilePermission(agent, 'read', fileName)) {
-      return '';
+      throw new Error(`No permission to read ${fileName}`);
     }
-    try {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (!workspaceFolder) {
-        throw new Error('No workspace folder open');
-      }
 
-      const filePath = path.join(workspaceFolder.uri.fsPath, fileName);
-      if (!fs.existsSync(filePath)) {
-        throw new Error(`File not found: ${fileName}`);
-      }
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+      throw new Error('No workspace folder open');
+    }
 
-      return fs.readFileSync(filePath, 'utf8');
-    } catch (error) {
-      vscode.window.showErrorMessage(`Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return '';
+    const filePath = path.join(workspaceFolder.uri.fsPath, fileName);
+    if (!this.fileExists(agent, filePath)) {
+      throw new Error(`File not found: ${fileName}`);
     }
+
+    return this.readWorkspaceFile(agent, filePath);
   }
 
-  private async grepFiles(pattern: string, pathPattern: string): Promise<Array<{file: string, line: number, content: string}>> {
+  private async grepFiles(agent: AgentConfig, pattern: string, pathPattern: string): Promise<Array<{file: string, line: number, content: string}>> {
+    if (!this.checkSearchPermission(agent, pathPattern)) {
+      return [];
+    }
     try {
       const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
       if (!workspaceFolder) {
@@ -1451,7 +2586,8 @@ Add your content below:
       const glob = require('glob');
       const searchPath = path.join(workspaceFolder.uri.fsPath, pathPattern);
       
-      const files = glob.sync(searchPath, { nodir: true });
+      const files: string[] = glob.sync(searchPath, { nodir: true })
+        .filter((filePath: string) => this.getPathViolation(agent, PermissionType.READ_FILES, filePath) === null);
       const regex = new RegExp(pattern, 'gi');
 
       for (const filePath of files) {
@@ -1486,7 +2622,10 @@ Add your content below:
     }
   }
 
-  private async findFiles(filePattern: string): Promise<string[]> {
+  private async findFiles(agent: AgentConfig, filePattern: string): Promise<string[]> {
+    if (!this.checkSearchPermission(agent, filePattern)) {
+      return [];
+    }
     try {
       const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
       if (!workspaceFolder) {
@@ -1495,7 +2634,8 @@ Add your content below:
 
       const glob = require('glob');
       const searchPath = path.join(workspaceFolder.uri.fsPath, filePattern);
-      const files = glob.sync(searchPath, { nodir: true });
+      const files: string[] = glob.sync(searchPath, { nodir: true })
+        .filter((filePath: string) => this.getPathViolation(agent, PermissionType.READ_FILES, filePath) === null);
       
       const relativeFiles = files.map((file: string) => 
         path.relative(workspaceFolder.uri.fsPath, file)
@@ -1515,9 +2655,9 @@ Add your content below:
     }
   }
 
-  private async deleteFile(agent: AgentConfig, fileName: string): Promise<void> {
+  private async deleteFile(agent: AgentConfig, fileName: string): Promise<boolean> {
     if (!this.checkFilePermission(agent, 'write', fileName)) {
-      return;
+      return false;
     }
     try {
       const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
@@ -1526,18 +2666,23 @@ Add your content below:
       }
 
       const filePath = path.join(workspaceFolder.uri.fsPath, fileName);
-      if (!fs.existsSync(filePath)) {
+      if (!this.fileExists(agent, filePath)) {
         throw new Error(`File not found: ${fileName}`);
       }
 
-      fs.unlinkSync(filePath);
-      vscode.window.showInformationMessage(`Deleted file: ${fileName}`);
+      this.deleteWorkspaceFile(agent, fileName, filePath);
+      this.notifyFileChange(agent, `Deleted file: ${fileName}`);
+      return true;
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to delete file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
     }
   }
 
-  private async insertCodeAtLine(fileName: string, lineNumber: number, code: string): Promise<void> {
+  private async insertCodeAtLine(agent: AgentConfig, fileName: string, lineNumber: number, code: string): Promise<boolean> {
+    if (!this.checkFilePermission(agent, 'write', fileName)) {
+      return false;
+    }
     try {
       const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
       if (!workspaceFolder) {
@@ -1545,24 +2690,29 @@ Add your content below:
       }
 
       const filePath = path.join(workspaceFolder.uri.fsPath, fileName);
-      if (!fs.existsSync(filePath)) {
+      if (!this.fileExists(agent, filePath)) {
         throw new Error(`File not found: ${fileName}`);
       }
 
-      const content = fs.readFileSync(filePath, 'utf8');
+      const content = this.readWorkspaceFile(agent, filePath);
       const lines = content.split('\n');
       
       // Insert code at specified line (1-indexed)
       lines.splice(lineNumber - 1, 0, code);
       
-      fs.writeFileSync(filePath, lines.join('\n'), 'utf8');
-      vscode.window.showInformationMessage(`Inserted code in ${fileName} at line ${lineNumber}`);
+      this.writeWorkspaceFile(agent, fileName, filePath, lines.join('\n'));
+      this.notifyFileChange(agent, `Inserted code in ${fileName} at line ${lineNumber}`);
+      return true;
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to insert code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
     }
   }
 
-  private async replaceCodeSection(fileName: string, findCode: string, replaceCode: string): Promise<void> {
+  private async replaceCodeSection(agent: AgentConfig, fileName: string, findCode: string, replaceCode: string): Promise<boolean> {
+    if (!this.checkFilePermission(agent, 'write', fileName)) {
+      return false;
+    }
     try {
       const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
       if (!workspaceFolder) {
@@ -1570,25 +2720,31 @@ Add your content below:
       }
 
       const filePath = path.join(workspaceFolder.uri.fsPath, fileName);
-      if (!fs.existsSync(filePath)) {
+      if (!this.fileExists(agent, filePath)) {
         throw new Error(`File not found: ${fileName}`);
       }
 
-      let content = fs.readFileSync(filePath, 'utf8');
+      let content = this.readWorkspaceFile(agent, filePath);
       
       if (content.includes(findCode)) {
         content = content.replace(findCode, replaceCode);
-        fs.writeFileSync(filePath, content, 'utf8');
-        vscode.window.showInformationMessage(`Replaced code section in ${fileName}`);
+        this.writeWorkspaceFile(agent, fileName, filePath, content);
+        this.notifyFileChange(agent, `Replaced code section in ${fileName}`);
+        return true;
       } else {
         vscode.window.showWarningMessage(`Code section not found in ${fileName}`);
+        return false;
       }
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to replace code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
     }
   }
 
-  private async openInEditor(fileName: string): Promise<void> {
+  private async openInEditor(agent: AgentConfig, fileName: string): Promise<boolean> {
+    if (!this.checkFilePermission(agent, 'read', fileName)) {
+      return false;
+    }
     try {
       const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
       if (!workspaceFolder) {
@@ -1599,12 +2755,17 @@ Add your content below:
       const uri = vscode.Uri.file(filePath);
       
       await vscode.window.showTextDocument(uri);
+      return true;
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to open file in editor: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
     }
   }
 
-  private async formatFile(fileName: string): Promise<void> {
+  private async formatFile(agent: AgentConfig, fileName: string): Promise<boolean> {
+    if (!this.checkFilePermission(agent, 'write', fileName)) {
+      return false;
+    }
     try {
       const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
       if (!workspaceFolder) {
@@ -1612,60 +2773,194 @@ Add your content below:
       }
 
       const filePath = path.join(workspaceFolder.uri.fsPath, fileName);
+      if (!this.fileExists(agent, filePath)) {
+        throw new Error(`File not found: ${fileName}`);
+      }
+
+      // Format a copy of the current (possibly staged) content, so the result
+      // is staged, reviewed and journaled like any other edit
       const uri = vscode.Uri.file(filePath);
-      
-      // Open document and format it
-      const document = await vscode.workspace.openTextDocument(uri);
-      await vscode.window.showTextDocument(document);
-      
-      // Execute format document command
-      await vscode.commands.executeCommand('editor.action.formatDocument');
-      
-      // Execute organize imports if available
+      const content = this.readWorkspaceFile(agent, filePath);
+      const language = fs.existsSync(filePath) ? (await vscode.workspace.openTextDocument(uri)).languageId : undefined;
+      let document = await vscode.workspace.openTextDocument({ content, language });
+
+      const editorSettings = vscode.workspace.getConfiguration('editor', uri);
+      const formatEdits = await vscode.commands.executeCommand<vscode.TextEdit[] | undefined>(
+        'vscode.executeFormatDocumentProvider',
+        document.uri,
+        { tabSize: editorSettings.get<number>('tabSize', 4), insertSpaces: editorSettings.get<boolean>('insertSpaces', true) }
+      );
+      let formatted = this.applyTextEdits(document, formatEdits ?? []);
+
+      // Organize imports might not be available for all file types
       try {
-        await vscode.commands.executeCommand('editor.action.organizeImports');
+        document = await vscode.workspace.openTextDocument({ content: formatted, language: document.languageId });
+        const actions = await vscode.commands.executeCommand<vscode.CodeAction[] | undefined>(
+          'vscode.executeCodeActionProvider',
+          document.uri,
+          new vscode.Range(0, 0, document.lineCount, 0),
+          vscode.CodeActionKind.SourceOrganizeImports.value
+        );
+        formatted = this.applyTextEdits(document, actions?.[0]?.edit?.get(document.uri) ?? []);
       } catch {
-        // Organize imports might not be available for all file types
+        // Keep the formatted content without organized imports
       }
-      
-      vscode.window.showInformationMessage(`Formatted file: ${fileName}`);
+
+      if (formatted !== content) {
+        this.writeWorkspaceFile(agent, fileName, filePath, formatted);
+      }
+      this.notifyFileChange(agent, `Formatted file: ${fileName}`);
+      return true;
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to format file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
     }
   }
 
+  private applyTextEdits(document: vscode.TextDocument, edits: vscode.TextEdit[]): string {
+    let text = document.getText();
+    const sorted = edits
+      .map(edit => ({ start: document.offsetAt(edit.range.start), end: document.offsetAt(edit.range.end), newText: edit.newText }))
+      .sort((a, b) => b.start - a.start);
+    for (const edit of sorted) {
+      text = text.substring(0, edit.start) + edit.newText + text.substring(edit.end);
+    }
+    return text;
+  }
+
   private escapeRegExp(string: string): string {
     return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
   }
 
   // Context window management methods
-  private estimateTokenCount(text: string): number {
-    // Rough estimation: ~4 characters per token for most models
-    return Math.ceil(text.length / 4);
+
+  /**
+   * The indexed code chunks most relevant to the message, leaving out files
+   * the user already shared or the agent may not read, and stopping at
+   * tokenBudget
+   */
+  private async findRelevantCode(agent: AgentConfig, userMessage: string, memory: AgentMemory, tokenBudget: number, tokenizer: Tokenizer): Promise<CodeSearchResult[]> {
+    if (!this.codebaseIndex || !this.hasPermission(agent, PermissionType.READ_FILES)) {
+      return [];
+    }
+
+    try {
+      const sharedPaths = new Set(memory.sharedFiles);
+      const results = await this.codebaseIndex.search(userMessage);
+      const selected: CodeSearchResult[] = [];
+      let usedTokens = 0;
+      for (const result of results) {
+        if (sharedPaths.has(result.filePath) || sharedPaths.has(result.relativePath)) {
+          continue;
+        }
+        if (this.getPathViolation(agent, PermissionType.READ_FILES, result.filePath) !== null) {
+          continue;
+        }
+        const tokens = tokenizer.countTokens(result.content);
+        if (usedTokens + tokens > tokenBudget) {
+          continue;
+        }
+        usedTokens += tokens;
+        selected.push(result);
+      }
+      return selected;
+    } catch (error) {
+      console.warn('Codebase search failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Shared files as inlined into the prompt: each within the per-file budget,
+   * in the order they were shared until the total budget runs out
+   */
+  private buildSharedFileExcerpts(memory: AgentMemory, tokenBudget: number, tokenizer: Tokenizer): SharedFileExcerpt[] {
+    const settings = this.getSharedFileSettings();
+    let remainingTokens = Math.min(settings.maxTotalTokens, tokenBudget);
+
+    const excerpts = memory.sharedFiles.map((filePath): SharedFileExcerpt => {
+      const omitted = { path: filePath, content: '', includedLines: 0, totalLines: 0, truncated: true };
+      let content: string;
+      try {
+        content = fs.readFileSync(this.resolveSharedFilePath(filePath), 'utf8');
+      } catch {
+        return { ...omitted, error: 'the file could not be read' };
+      }
+
+      const fileBudget = Math.min(settings.maxTokensPerFile, remainingTokens);
+      if (fileBudget < AgentService.MIN_SHARED_FILE_TOKENS) {
+        return { ...omitted, totalLines: content.split('\n').length, error: 'the context budget is used up' };
+      }
+      const excerpt = FileExcerpter.excerpt(content, fileBudget, tokenizer, this.getCursorLine(filePath));
+      remainingTokens -= tokenizer.countTokens(excerpt.content);
+      return { path: filePath, ...excerpt };
+    });
+
+    const event: SharedFileUsageEvent = {
+      agentId: memory.agentId,
+      files: excerpts.map(file => ({
+        path: file.path,
+        includedLines: file.includedLines,
+        totalLines: file.totalLines,
+        truncated: file.truncated,
+        error: file.error
+      }))
+    };
+    for (const listener of this.sharedFileUsageListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Shared file usage listener failed:', error);
+      }
+    }
+    return excerpts;
   }
 
-  private async manageContextWindow(memory: AgentMemory, maxTokens: number): Promise<void> {
-    const targetTokens = Math.floor(maxTokens * 0.7); // Use 70% of available tokens
-    const currentTokens = this.calculateCurrentTokenUsage(memory);
+  private getSharedFileSettings(): SharedFileSettings {
+    return this.settingsManager?.getSharedFileSettings() ?? AgentService.DEFAULT_SHARED_FILE_SETTINGS;
+  }
+
+  private resolveSharedFilePath(filePath: string): string {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    return path.isAbsolute(filePath) || !workspaceFolder ? filePath : path.join(workspaceFolder.uri.fsPath, filePath);
+  }
+
+  // The cursor line of an editor showing the file, so truncation keeps the code around it
+  private getCursorLine(filePath: string): number | undefined {
+    const resolved = this.resolveSharedFilePath(filePath);
+    const editor = vscode.window.visibleTextEditors?.find(e => e.document.uri.fsPath === resolved);
+    return editor?.selection.active.line;
+  }
+
+  // Tokens the model accepts as input: its context window minus room for the reply
+  private async getInputTokenBudget(model: ModelConfig): Promise<number> {
+    const contextWindow = await this.providerManager.getContextWindow(model);
+    return Math.max(contextWindow - model.maxTokens, Math.floor(contextWindow / 2));
+  }
+
+  private async manageContextWindow(agent: AgentConfig, memory: AgentMemory, inputBudget: number, tokenizer: Tokenizer): Promise<void> {
+    const targetTokens = Math.floor(inputBudget * 0.7); // Use 70% of available tokens
+    const currentTokens = this.calculateCurrentTokenUsage(memory, tokenizer);
     
     if (currentTokens > targetTokens) {
-      await this.compressContext(memory, targetTokens);
+      await this.compressContext(agent, memory, targetTokens, tokenizer);
     }
   }
 
-  private calculateCurrentTokenUsage(memory: AgentMemory): number {
+  private calculateCurrentTokenUsage(memory: AgentMemory, tokenizer: Tokenizer): number {
     let totalTokens = 0;
     
     // Count conversation tokens
     memory.conversations.forEach(msg => {
-      totalTokens += this.estimateTokenCount(msg.content);
+      totalTokens += tokenizer.countTokens(msg.content);
     });
     
-    // Count shared files tokens
+    // Count shared files tokens, up to what is inlined of each
+    const maxTokensPerFile = this.getSharedFileSettings().maxTokensPerFile;
     memory.sharedFiles.forEach(filePath => {
       try {
-        const content = fs.readFileSync(filePath, 'utf8');
-        totalTokens += this.estimateTokenCount(content);
+        const content = fs.readFileSync(this.resolveSharedFilePath(filePath), 'utf8');
+        totalTokens += Math.min(tokenizer.countTokens(content), maxTokensPerFile);
       } catch {
         // File might not exist anymore
       }
@@ -1673,18 +2968,18 @@ Add your content below:
     
     // Count text snippets tokens
     memory.textSnippets.forEach(snippet => {
-      totalTokens += this.estimateTokenCount(snippet.content);
+      totalTokens += tokenizer.countTokens(snippet.content);
     });
     
     // Add context summary if it exists
     if (memory.contextSummary) {
-      totalTokens += this.estimateTokenCount(memory.contextSummary);
+      totalTokens += tokenizer.countTokens(memory.contextSummary);
     }
     
     return totalTokens;
   }
 
-  private async compressContext(memory: AgentMemory, targetTokens: number): Promise<void> {
+  private async compressContext(agent: AgentConfig, memory: AgentMemory, targetTokens: number, tokenizer: Tokenizer): Promise<void> {
     console.log(`Compressing context for agent ${memory.agentId}, session ${memory.sessionCount + 1}`);
     
     // Step 1: Create summary of older conversations
@@ -1692,21 +2987,90 @@ Add your content below:
     const recentConversations = memory.conversations.slice(-5);
     
     if (oldConversations.length > 0) {
-      const summary = this.generateConversationSummary(oldConversations, memory);
+      const summary = await this.summarizeConversations(agent, oldConversations, memory.contextSummary)
+        ?? this.generateConversationSummary(oldConversations, memory);
       memory.contextSummary = summary;
       memory.conversations = recentConversations;
       memory.sessionCount++;
-      memory.totalTokensUsed = this.calculateCurrentTokenUsage(memory);
+      memory.totalTokensUsed = this.calculateCurrentTokenUsage(memory, tokenizer);
     }
     
     // Step 2: If still too large, trim shared files and snippets
-    if (this.calculateCurrentTokenUsage(memory) > targetTokens) {
+    if (this.calculateCurrentTokenUsage(memory, tokenizer) > targetTokens) {
       // Keep only most recent files and snippets
       memory.sharedFiles = memory.sharedFiles.slice(-3);
       memory.textSnippets = memory.textSnippets.slice(-5);
     }
     
     console.log(`Context compressed. New session: ${memory.sessionCount}, tokens: ${memory.totalTokensUsed}`);
+    if (oldConversations.length > 0) {
+      this.notifyContextSummaryChanged(memory);
+    }
+  }
+
+  /**
+   * Fold older turns into the running summary with the helper brain model.
+   * Returns undefined when the option is off or the model fails, so the
+   * keyword-based summary is used instead.
+   */
+  private async summarizeConversations(agent: AgentConfig, conversations: AIMessage[], previousSummary?: string): Promise<string | undefined> {
+    const helperBrain = this.settingsManager?.getHelperBrainSettings();
+    if (!helperBrain?.enabled || !helperBrain.summarizeConversations) {
+      return undefined;
+    }
+
+    const model: AIProviderConfig = helperBrain.useAgentProvider
+      ? { ...agent.model, temperature: helperBrain.temperature, maxTokens: helperBrain.maxTokens }
+      : { provider: helperBrain.provider, modelName: helperBrain.modelName, temperature: helperBrain.temperature, maxTokens: helperBrain.maxTokens };
+
+    const turns = conversations.map(msg => {
+      const content = msg.content.length > AgentService.MAX_SUMMARIZED_TURN_CHARS
+        ? `${msg.content.slice(0, AgentService.MAX_SUMMARIZED_TURN_CHARS)}…`
+        : msg.content;
+      return `${msg.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    }).join('\n\n');
+
+    const messages: AIMessage[] = [
+      {
+        role: 'system',
+        content: `You maintain the running summary of a conversation between a user and ${agent.name}, an AI coding agent. ` +
+          'The agent only sees this summary of earlier turns, so keep what it needs to continue the work: the goals, decisions and their reasons, ' +
+          'files created or changed, open questions and unfinished tasks, and user preferences. Drop greetings and repetition. ' +
+          'Reply with the updated summary only, in concise Markdown.'
+      },
+      {
+        role: 'user',
+        content: `${previousSummary ? `Current summary:\n${previousSummary}\n\n` : ''}Turns to add to the summary:\n\n${turns}`
+      }
+    ];
+
+    try {
+      const response = await this.providerManager.generateResponse(messages, model);
+      if (!response.cached) {
+        this.recordUsage(agent.id, model, messages, response.content, response.usage);
+      }
+      const summary = response.content.trim();
+      return summary || undefined;
+    } catch (error) {
+      console.warn('Conversation summarization failed, using keyword summary:', error);
+      return undefined;
+    }
+  }
+
+  private notifyContextSummaryChanged(memory: AgentMemory): void {
+    const event: ContextSummaryEvent = {
+      agentId: memory.agentId,
+      summary: memory.contextSummary || '',
+      sessionCount: memory.sessionCount
+    };
+
+    for (const listener of this.contextSummaryListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Context summary listener failed:', error);
+      }
+    }
   }
 
   private generateConversationSummary(conversations: AIMessage[], memory: AgentMemory): string {
@@ -1770,8 +3134,8 @@ Add your content below:
     return summary;
   }
 
-  private getOptimalConversationHistory(memory: AgentMemory, maxTokens: number): AIMessage[] {
-    const targetTokens = Math.floor(maxTokens * 0.3); // Use 30% for conversation history
+  private getOptimalConversationHistory(memory: AgentMemory, inputBudget: number, tokenizer: Tokenizer): AIMessage[] {
+    const targetTokens = Math.floor(inputBudget * 0.3); // Use 30% for conversation history
     let currentTokens = 0;
     const history: AIMessage[] = [];
     
@@ -1782,14 +3146,14 @@ Add your content below:
         role: 'assistant',
         content: memory.contextSummary
       });
-      currentTokens += this.estimateTokenCount(memory.contextSummary);
+      currentTokens += tokenizer.countTokens(memory.contextSummary);
     }
     
     // Add recent conversations (newest first, then reverse)
     const conversations = [...memory.conversations].reverse();
     
     for (const msg of conversations) {
-      const msgTokens = this.estimateTokenCount(msg.content);
+      const msgTokens = tokenizer.countTokens(msg.content);
       if (currentTokens + msgTokens > targetTokens && history.length > 0) {
         break;
       }
@@ -0,0 +1,255 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface JournalFileRecord {
+  fileName: string;
+  filePath: string;
+  previousContent: string | null; // null = file did not exist before
+  newContent: string | null; // null = file was deleted
+}
+
+export interface JournalEntry {
+  id: string;
+  agentId: string;
+  description: string;
+  createdAt: Date;
+  files: JournalFileRecord[];
+  undone: boolean;
+  undoneAt?: Date;
+}
+
+// Entries as kept in globalState: file contents live in the content files
+type PersistedFileRecord = Pick<JournalFileRecord, 'fileName' | 'filePath'> & Partial<JournalFileRecord>;
+type PersistedEntry = Omit<JournalEntry, 'files'> & { files: PersistedFileRecord[] };
+type FileContents = Pick<JournalFileRecord, 'previousContent' | 'newContent'>;
+
+/**
+ * Records the prior contents of every file an agent changes, grouped per
+ * response, so any response's changes can be rolled back as a unit.
+ * globalState only holds the entry list; the file contents of each entry are
+ * written to a file of their own in the extension's global storage folder.
+ */
+export class ChangeJournal {
+  private static readonly STORAGE_KEY = 'agentChangeJournal';
+  private static readonly CONTENTS_DIRECTORY = 'change-journal';
+  private static readonly MAX_ENTRIES = 50;
+
+  private entries: JournalEntry[] = [];
+  private context: vscode.ExtensionContext | null = null;
+
+  public setContext(context: vscode.ExtensionContext): void {
+    this.context = context;
+    this.loadPersistedEntries();
+  }
+
+  public begin(agentId: string): JournalEntry {
+    return {
+      id: uuidv4(),
+      agentId,
+      description: '',
+      createdAt: new Date(),
+      files: [],
+      undone: false
+    };
+  }
+
+  public record(entry: JournalEntry, fileName: string, filePath: string, previousContent: string | null, newContent: string | null): void {
+    const existing = entry.files.find(file => file.filePath === filePath);
+    if (existing) {
+      // Keep the content from before the response, only track the latest result
+      existing.newContent = newContent;
+      return;
+    }
+    entry.files.push({ fileName, filePath, previousContent, newContent });
+  }
+
+  public async commit(entry: JournalEntry): Promise<void> {
+    if (entry.files.length === 0) {
+      return;
+    }
+    entry.description = entry.files.map(file => {
+      if (file.previousContent === null) return `Created ${file.fileName}`;
+      if (file.newContent === null) return `Deleted ${file.fileName}`;
+      return `Modified ${file.fileName}`;
+    }).join(', ');
+    this.entries.push(entry);
+    this.writeContents(entry);
+    if (this.entries.length > ChangeJournal.MAX_ENTRIES) {
+      this.entries.slice(0, -ChangeJournal.MAX_ENTRIES).forEach(dropped => this.deleteContents(dropped.id));
+      this.entries = this.entries.slice(-ChangeJournal.MAX_ENTRIES);
+    }
+    await this.persistEntries();
+  }
+
+  /**
+   * Entries newest first, optionally limited to one agent.
+   */
+  public getEntries(agentId?: string): JournalEntry[] {
+    const entries = agentId ? this.entries.filter(entry => entry.agentId === agentId) : this.entries;
+    return [...entries].reverse();
+  }
+
+  public getLastEntry(agentId?: string): JournalEntry | undefined {
+    return this.getEntries(agentId).find(entry => !entry.undone);
+  }
+
+  /**
+   * Files whose current contents no longer match what the agent left behind.
+   */
+  public getConflicts(entry: JournalEntry): string[] {
+    return entry.files
+      .filter(file => this.readCurrent(file.filePath) !== file.newContent)
+      .map(file => file.fileName);
+  }
+
+  /**
+   * Restore every file of the entry to its previous state. If any file fails,
+   * the files already restored are put back so the rollback is all-or-nothing.
+   */
+  public async rollback(entryId: string): Promise<JournalEntry> {
+    const entry = this.entries.find(e => e.id === entryId);
+    if (!entry) {
+      throw new Error('Change history entry not found');
+    }
+    if (entry.undone) {
+      throw new Error('These changes were already rolled back');
+    }
+
+    const restored: Array<{ filePath: string; content: string | null }> = [];
+    try {
+      for (const file of [...entry.files].reverse()) {
+        const current = this.readCurrent(file.filePath);
+        this.writeContent(file.filePath, file.previousContent);
+        restored.push({ filePath: file.filePath, content: current });
+      }
+    } catch (error) {
+      for (const snapshot of restored.reverse()) {
+        try {
+          this.writeContent(snapshot.filePath, snapshot.content);
+        } catch (restoreError) {
+          console.error('Failed to restore file after rollback error:', restoreError);
+        }
+      }
+      throw error;
+    }
+
+    entry.undone = true;
+    entry.undoneAt = new Date();
+    await this.persistEntries();
+    return entry;
+  }
+
+  private readCurrent(filePath: string): string | null {
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null;
+  }
+
+  private writeContent(filePath: string, content: string | null): void {
+    if (content === null) {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+      return;
+    }
+
+    const dirPath = path.dirname(filePath);
+    if (!fs.existsSync(dirPath)) {
+      fs.mkdirSync(dirPath, { recursive: true });
+    }
+    fs.writeFileSync(filePath, content, 'utf8');
+  }
+
+  private loadPersistedEntries(): void {
+    if (!this.context) return;
+
+    try {
+      const persistedEntries = this.context.globalState.get<PersistedEntry[]>(ChangeJournal.STORAGE_KEY, []) || [];
+      // Entries saved with their contents inline move them to content files
+      const inlineEntries = persistedEntries.filter(entry => entry.files.some(file => file.previousContent !== undefined));
+      const entries: JournalEntry[] = [];
+      for (const entry of persistedEntries) {
+        const contents = inlineEntries.includes(entry) ? entry.files as FileContents[] : this.readContents(entry.id);
+        if (!contents || contents.length !== entry.files.length) {
+          // Without the contents the entry can't be rolled back
+          continue;
+        }
+        entries.push({
+          ...entry,
+          files: entry.files.map((file, index) => ({
+            fileName: file.fileName,
+            filePath: file.filePath,
+            previousContent: contents[index].previousContent,
+            newContent: contents[index].newContent
+          })),
+          createdAt: new Date(entry.createdAt),
+          undoneAt: entry.undoneAt ? new Date(entry.undoneAt) : undefined
+        });
+      }
+      this.entries = entries;
+
+      if (inlineEntries.length > 0) {
+        this.entries.forEach(entry => this.writeContents(entry));
+        this.persistEntries();
+      }
+    } catch (error) {
+      console.error('Error loading change journal:', error);
+    }
+  }
+
+  private async persistEntries(): Promise<void> {
+    if (!this.context) return;
+
+    try {
+      const persistedEntries: PersistedEntry[] = this.entries.map(entry => ({
+        ...entry,
+        files: entry.files.map(file => ({ fileName: file.fileName, filePath: file.filePath }))
+      }));
+      await this.context.globalState.update(ChangeJournal.STORAGE_KEY, persistedEntries);
+    } catch (error) {
+      console.error('Error persisting change journal:', error);
+    }
+  }
+
+  // Contents are only kept in memory when the extension has no storage folder
+  private getContentsPath(entryId: string): string | null {
+    const storageUri = this.context?.globalStorageUri;
+    return storageUri ? path.join(storageUri.fsPath, ChangeJournal.CONTENTS_DIRECTORY, `${entryId}.json`) : null;
+  }
+
+  private readContents(entryId: string): FileContents[] | null {
+    const contentsPath = this.getContentsPath(entryId);
+    if (!contentsPath || !fs.existsSync(contentsPath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(contentsPath, 'utf8'));
+    } catch (error) {
+      console.error('Error reading change journal contents:', error);
+      return null;
+    }
+  }
+
+  private writeContents(entry: JournalEntry): void {
+    const contentsPath = this.getContentsPath(entry.id);
+    if (!contentsPath) return;
+
+    try {
+      const contents: FileContents[] = entry.files.map(file => ({ previousContent: file.previousContent, newContent: file.newContent }));
+      this.writeContent(contentsPath, JSON.stringify(contents));
+    } catch (error) {
+      console.error('Error writing change journal contents:', error);
+    }
+  }
+
+  private deleteContents(entryId: string): void {
+    const contentsPath = this.getContentsPath(entryId);
+    if (!contentsPath) return;
+
+    try {
+      this.writeContent(contentsPath, null);
+    } catch (error) {
+      console.error('Error deleting change journal contents:', error);
+    }
+  }
+}
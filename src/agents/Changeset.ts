@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type FileChangeKind = 'create' | 'modify' | 'delete';
+
+export interface StagedFileChange {
+  fileName: string;
+  filePath: string;
+  kind: FileChangeKind;
+  originalContent: string | null;
+  proposedContent: string | null;
+}
+
+export interface ChangesetReviewResult {
+  applied: StagedFileChange[];
+  rejected: StagedFileChange[];
+}
+
+/**
+ * Collects the file operations of one agent response so they can be reviewed
+ * in VS Code's diff editor and applied or rejected per file before anything
+ * touches the disk.
+ */
+export class Changeset {
+  private static readonly SCHEME = 'ai-agent-changeset';
+  private static previewContents: Map<string, string> = new Map();
+  private static providerRegistration: vscode.Disposable | null = null;
+  private static nextId = 1;
+
+  private readonly id = Changeset.nextId++;
+  private changes: Map<string, StagedFileChange> = new Map();
+
+  public exists(filePath: string): boolean {
+    const change = this.changes.get(filePath);
+    if (change) {
+      return change.proposedContent !== null;
+    }
+    return fs.existsSync(filePath);
+  }
+
+  public read(filePath: string): string {
+    const change = this.changes.get(filePath);
+    if (change) {
+      if (change.proposedContent === null) {
+        throw new Error(`File not found: ${change.fileName}`);
+      }
+      return change.proposedContent;
+    }
+    return fs.readFileSync(filePath, 'utf8');
+  }
+
+  public write(fileName: string, filePath: string, content: string): void {
+    const change = this.getOrCreateChange(fileName, filePath);
+    change.proposedContent = content;
+    change.kind = change.originalContent === null ? 'create' : 'modify';
+  }
+
+  public remove(fileName: string, filePath: string): void {
+    const change = this.getOrCreateChange(fileName, filePath);
+    if (change.originalContent === null) {
+      // Created and deleted within the same response - nothing to apply
+      this.changes.delete(filePath);
+      return;
+    }
+    change.proposedContent = null;
+    change.kind = 'delete';
+  }
+
+  public getChanges(): StagedFileChange[] {
+    return Array.from(this.changes.values()).filter(change => change.originalContent !== change.proposedContent);
+  }
+
+  /**
+   * Ask the user what to do with the staged changes and apply the accepted ones.
+   */
+  public async review(agentName: string): Promise<ChangesetReviewResult> {
+    const changes = this.getChanges();
+    const result: ChangesetReviewResult = { applied: [], rejected: [] };
+    if (changes.length === 0) {
+      return result;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `Agent "${agentName}" proposes changes to ${changes.length} file(s):\n${changes.map(c => `${this.getKindLabel(c.kind)}: ${c.fileName}`).join('\n')}`,
+      'Review Changes',
+      'Apply All',
+      'Reject All'
+    );
+
+    if (choice === 'Apply All') {
+      changes.forEach(change => this.apply(change, result));
+    } else if (choice === 'Review Changes') {
+      await this.reviewEachFile(changes, result);
+    } else {
+      result.rejected.push(...changes);
+    }
+
+    this.disposePreviews();
+    return result;
+  }
+
+  private async reviewEachFile(changes: StagedFileChange[], result: ChangesetReviewResult): Promise<void> {
+    let remainingDecision: 'apply' | 'reject' | null = null;
+
+    for (let i = 0; i < changes.length; i++) {
+      const change = changes[i];
+
+      if (!remainingDecision) {
+        await this.showDiff(change);
+        const decision = await vscode.window.showQuickPick(
+          ['Apply', 'Reject', 'Apply All Remaining', 'Reject All Remaining'],
+          {
+            placeHolder: `${this.getKindLabel(change.kind)} ${change.fileName} (${i + 1}/${changes.length})`,
+            ignoreFocusOut: true
+          }
+        );
+
+        if (decision === 'Apply All Remaining') {
+          remainingDecision = 'apply';
+        } else if (decision === 'Reject All Remaining' || decision === undefined) {
+          // Dismissing the picker rejects everything that has not been approved yet
+          remainingDecision = 'reject';
+        } else if (decision === 'Apply') {
+          this.apply(change, result);
+          continue;
+        } else {
+          result.rejected.push(change);
+          continue;
+        }
+      }
+
+      if (remainingDecision === 'apply') {
+        this.apply(change, result);
+      } else {
+        result.rejected.push(change);
+      }
+    }
+  }
+
+  private apply(change: StagedFileChange, result: ChangesetReviewResult): void {
+    try {
+      if (change.proposedContent === null) {
+        if (fs.existsSync(change.filePath)) {
+          fs.unlinkSync(change.filePath);
+        }
+      } else {
+        const dirPath = path.dirname(change.filePath);
+        if (!fs.existsSync(dirPath)) {
+          fs.mkdirSync(dirPath, { recursive: true });
+        }
+        fs.writeFileSync(change.filePath, change.proposedContent, 'utf8');
+      }
+      result.applied.push(change);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to apply change to ${change.fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      result.rejected.push(change);
+    }
+  }
+
+  private async showDiff(change: StagedFileChange): Promise<void> {
+    Changeset.ensureContentProvider();
+
+    const originalUri = this.createPreviewUri(change, 'original', change.originalContent ?? '');
+    const proposedUri = this.createPreviewUri(change, 'proposed', change.proposedContent ?? '');
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      originalUri,
+      proposedUri,
+      `${change.fileName} (${this.getKindLabel(change.kind)} proposed by agent)`,
+      { preview: true }
+    );
+  }
+
+  private createPreviewUri(change: StagedFileChange, side: 'original' | 'proposed', content: string): vscode.Uri {
+    const key = `${this.id}/${side}/${change.fileName}`;
+    Changeset.previewContents.set(key, content);
+    return vscode.Uri.parse(`${Changeset.SCHEME}:/${change.fileName}`).with({ query: key });
+  }
+
+  private disposePreviews(): void {
+    const prefix = `${this.id}/`;
+    for (const key of Array.from(Changeset.previewContents.keys())) {
+      if (key.startsWith(prefix)) {
+        Changeset.previewContents.delete(key);
+      }
+    }
+  }
+
+  private getOrCreateChange(fileName: string, filePath: string): StagedFileChange {
+    let change = this.changes.get(filePath);
+    if (!change) {
+      const originalContent = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null;
+      change = {
+        fileName,
+        filePath,
+        kind: originalContent === null ? 'create' : 'modify',
+        originalContent,
+        proposedContent: originalContent
+      };
+      this.changes.set(filePath, change);
+    }
+    return change;
+  }
+
+  private getKindLabel(kind: FileChangeKind): string {
+    switch (kind) {
+      case 'create': return 'Create';
+      case 'delete': return 'Delete';
+      default: return 'Modify';
+    }
+  }
+
+  private static ensureContentProvider(): void {
+    if (Changeset.providerRegistration) {
+      return;
+    }
+    Changeset.providerRegistration = vscode.workspace.registerTextDocumentContentProvider(Changeset.SCHEME, {
+      provideTextDocumentContent: (uri: vscode.Uri) => Changeset.previewContents.get(uri.query) ?? ''
+    });
+  }
+}
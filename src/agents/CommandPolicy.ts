@@ -0,0 +1,172 @@
+import { CommandPolicyAction, CommandPolicySettings } from '@/shared/types';
+
+export interface CommandPolicyDecision {
+  action: CommandPolicyAction;
+  pattern?: string; // The rule that decided, unset when defaultAction applied
+  nested?: boolean; // Set when a nested command ($(...), backticks, <(...)) forced the decision
+}
+
+/**
+ * Allow / ask / deny rules for commands run by agents. Patterns are globs over
+ * the whole command where "*" matches anything, e.g. "npm run *" or
+ * "git push * --force*". Chained commands ("a && b", "a | b", "a; b", "a & b")
+ * are checked part by part, so an allowed prefix can't smuggle in another
+ * command; deny and ask patterns are also matched against the full line to
+ * catch pipelines such as "curl * | sh". Nested commands ("$(...)", backticks,
+ * "<(...)") can't be checked that way, so they are never allowed without
+ * asking.
+ */
+export class CommandPolicy {
+  public static readonly DEFAULT_DENY: string[] = [
+    'rm -rf /',
+    'rm -fr /',
+    'rm -rf ~',
+    'rm -fr ~',
+    'rm -rf ~/',
+    'rm -rf --no-preserve-root *',
+    'git push --force*',
+    'git push -f*',
+    'git push * --force*',
+    'git push * -f',
+    'git push * -f *',
+    '* | sh',
+    '* | bash',
+    '* | sudo sh',
+    '* | sudo bash',
+    'mkfs*',
+    'dd * of=/dev/*'
+  ];
+
+  public static readonly DEFAULT_SETTINGS: CommandPolicySettings = {
+    allow: [],
+    ask: [],
+    deny: CommandPolicy.DEFAULT_DENY,
+    defaultAction: 'allow'
+  };
+
+  // Agent rules are added to the global ones; the agent may override the default action
+  public static merge(global: CommandPolicySettings, agent?: Partial<CommandPolicySettings>): CommandPolicySettings {
+    return {
+      allow: [...global.allow, ...(agent?.allow || [])],
+      ask: [...global.ask, ...(agent?.ask || [])],
+      deny: [...global.deny, ...(agent?.deny || [])],
+      defaultAction: agent?.defaultAction || global.defaultAction
+    };
+  }
+
+  public static evaluate(policy: CommandPolicySettings, command: string): CommandPolicyDecision {
+    const segments = this.splitCommand(command).map(segment => this.normalizeSegment(segment));
+    const candidates = [this.normalize(command), ...segments];
+
+    for (const action of ['deny', 'ask'] as const) {
+      const pattern = this.findMatch(policy[action], candidates);
+      if (pattern) {
+        return { action, pattern };
+      }
+    }
+
+    if (this.hasNestedCommand(command)) {
+      return { action: policy.defaultAction === 'deny' ? 'deny' : 'ask', nested: true };
+    }
+
+    if (segments.length > 0 && segments.every(segment => this.findMatch(policy.allow, [segment]))) {
+      return { action: 'allow', pattern: this.findMatch(policy.allow, [segments[0]]) };
+    }
+    return { action: policy.defaultAction };
+  }
+
+  /**
+   * Split a command line on &&, ||, ;, |, & and newlines, ignoring separators
+   * inside quotes and redirections such as "2>&1" or "&>log".
+   */
+  public static splitCommand(command: string): string[] {
+    const segments: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (let i = 0; i < command.length; i++) {
+      const char = command[i];
+      if (quote) {
+        if (char === quote && command[i - 1] !== '\\') {
+          quote = null;
+        }
+        current += char;
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+        current += char;
+      } else if (char === ';' || char === '\n' || char === '|' || (char === '&' && !this.isRedirection(command, i))) {
+        segments.push(current);
+        current = '';
+        if ((char === '|' || char === '&') && command[i + 1] === char) {
+          i++;
+        }
+      } else {
+        current += char;
+      }
+    }
+    segments.push(current);
+
+    return segments.map(segment => segment.trim()).filter(Boolean);
+  }
+
+  /**
+   * Check for command substitution ("$(...)", backticks) and process
+   * substitution ("<(...)", ">(...)") outside single quotes, where the shell
+   * runs them.
+   */
+  public static hasNestedCommand(command: string): boolean {
+    let quote: string | null = null;
+
+    for (let i = 0; i < command.length; i++) {
+      const char = command[i];
+      if (quote === "'") {
+        if (char === "'") {
+          quote = null;
+        }
+      } else if (char === '\\') {
+        i++;
+      } else if (char === '`' || (char === '(' && /[$<>]/.test(command[i - 1] || ''))) {
+        return true;
+      } else if (char === '"') {
+        quote = quote ? null : char;
+      } else if (char === "'" && !quote) {
+        quote = char;
+      }
+    }
+    return false;
+  }
+
+  // "&" in "2>&1", ">&2" and "&>log" redirects output instead of starting a background job
+  private static isRedirection(command: string, index: number): boolean {
+    return /[<>]/.test(command[index - 1] || '') || command[index + 1] === '>';
+  }
+
+  private static findMatch(patterns: string[], candidates: string[]): string | undefined {
+    return patterns.find(pattern => {
+      const regex = this.globToRegex(this.normalize(pattern));
+      return candidates.some(candidate => regex.test(candidate));
+    });
+  }
+
+  private static normalize(command: string): string {
+    return command.trim().replace(/\s+/g, ' ');
+  }
+
+  // "sudo /bin/rm -rf /" is matched as "rm -rf /"
+  private static normalizeSegment(segment: string): string {
+    const words = this.normalize(segment).split(' ');
+    while (words.length > 1 && words[0] === 'sudo') {
+      words.shift();
+    }
+    words[0] = words[0].replace(/^.*[\\/](?=[^\\/]+$)/, '');
+    return words.join(' ');
+  }
+
+  private static globToRegex(glob: string): RegExp {
+    const source = glob
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${source}$`);
+  }
+}
@@ -0,0 +1,130 @@
+import { spawn, ChildProcess } from 'child_process';
+
+export interface CommandRunOptions {
+  cwd: string;
+  timeoutMs: number;
+  maxOutputChars: number;
+  onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+}
+
+export interface CommandRunResult {
+  command: string;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+}
+
+/**
+ * Runs a shell command in a child process and captures its output, so the
+ * result can be shown in the agent widget and fed back into the conversation.
+ */
+export class CommandRunner {
+  public run(command: string, options: CommandRunOptions): Promise<CommandRunResult> {
+    const startedAt = Date.now();
+
+    return new Promise((resolve) => {
+      let stdout = '';
+      let stderr = '';
+      let truncated = false;
+      let timedOut = false;
+      let settled = false;
+
+      // On POSIX the command gets its own process group so a timeout can stop
+      // everything the shell started, not just the shell itself
+      const child = spawn(command, {
+        cwd: options.cwd,
+        shell: true,
+        env: process.env,
+        detached: process.platform !== 'win32'
+      });
+
+      const finish = (exitCode: number | null, extraError?: string) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (extraError) {
+          stderr += (stderr ? '\n' : '') + extraError;
+        }
+        resolve({
+          command,
+          exitCode,
+          stdout,
+          stderr,
+          timedOut,
+          truncated,
+          durationMs: Date.now() - startedAt
+        });
+      };
+
+      const capture = (stream: 'stdout' | 'stderr') => (data: Buffer) => {
+        const chunk = data.toString();
+        const used = stdout.length + stderr.length;
+        const remaining = options.maxOutputChars - used;
+
+        if (remaining <= 0) {
+          truncated = true;
+          return;
+        }
+
+        const kept = chunk.length > remaining ? chunk.substring(0, remaining) : chunk;
+        if (kept.length < chunk.length) {
+          truncated = true;
+        }
+
+        if (stream === 'stdout') {
+          stdout += kept;
+        } else {
+          stderr += kept;
+        }
+        options.onOutput?.(kept, stream);
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        this.killProcessTree(child);
+        finish(null);
+      }, options.timeoutMs);
+
+      child.stdout?.on('data', capture('stdout'));
+      child.stderr?.on('data', capture('stderr'));
+      child.on('error', (error) => finish(null, error.message));
+      child.on('close', (code) => finish(code));
+    });
+  }
+
+  private killProcessTree(child: ChildProcess): void {
+    try {
+      if (process.platform !== 'win32' && child.pid) {
+        process.kill(-child.pid, 'SIGKILL');
+      } else {
+        child.kill();
+      }
+    } catch {
+      child.kill();
+    }
+  }
+
+  /**
+   * Format a result as a message the agent can read on its next turn.
+   */
+  public static formatResult(result: CommandRunResult): string {
+    const status = result.timedOut
+      ? `timed out after ${Math.round(result.durationMs / 1000)}s`
+      : `exit code ${result.exitCode ?? 'unknown'}`;
+
+    const sections = [`[COMMAND_RESULT: ${result.command}] (${status})`];
+    if (result.stdout.trim()) {
+      sections.push(`stdout:\n\`\`\`\n${result.stdout.trimEnd()}\n\`\`\``);
+    }
+    if (result.stderr.trim()) {
+      sections.push(`stderr:\n\`\`\`\n${result.stderr.trimEnd()}\n\`\`\``);
+    }
+    if (result.truncated) {
+      sections.push('(output truncated)');
+    }
+    return sections.join('\n');
+  }
+}
@@ -0,0 +1,139 @@
+import { AgentConfig, DiscussionOptions } from '@/shared/types';
+import { AgentService } from '@/agents/AgentService';
+import { debugLogger } from '@/utils/logger';
+
+export interface DiscussionTurnEvent {
+  discussionId: string;
+  round: number; // rounds + 1 for the moderator's summary
+  rounds: number;
+  agentId: string;
+  agentName: string;
+  role: 'participant' | 'moderator';
+  status: 'started' | 'completed' | 'failed';
+  reply?: string;
+  error?: string;
+}
+
+export interface DiscussionResult {
+  discussionId: string;
+  transcript: DiscussionTurnEvent[]; // Completed turns in order
+  summary?: string;
+}
+
+/**
+ * Round-table mode for the shared conversation: agents answer in turns with
+ * the replies before theirs in the prompt, and a moderator agent closes with
+ * the answer for the user.
+ */
+export class DiscussionRunner {
+  public static readonly MAX_ROUNDS = 5;
+  private static readonly MAX_REPLY_CHARS = 4000; // Per reply quoted to later speakers
+
+  private turnListeners: Array<(event: DiscussionTurnEvent) => void> = [];
+
+  constructor(private agentService: AgentService) {}
+
+  public onTurn(listener: (event: DiscussionTurnEvent) => void): () => void {
+    this.turnListeners.push(listener);
+    return () => {
+      this.turnListeners = this.turnListeners.filter(l => l !== listener);
+    };
+  }
+
+  public static getModerator(participants: AgentConfig[], moderatorId?: string): AgentConfig {
+    return participants.find(agent => agent.id === moderatorId) ?? participants[0];
+  }
+
+  public static clampRounds(rounds: number): number {
+    return Math.min(Math.max(Math.floor(rounds) || 1, 1), DiscussionRunner.MAX_ROUNDS);
+  }
+
+  public async run(topic: string, participants: AgentConfig[], options: DiscussionOptions): Promise<DiscussionResult> {
+    if (participants.length === 0) {
+      throw new Error('A discussion needs at least one agent');
+    }
+
+    const rounds = DiscussionRunner.clampRounds(options.rounds);
+    const moderator = DiscussionRunner.getModerator(participants, options.moderatorId);
+    const discussionId = `discussion-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+    const transcript: DiscussionTurnEvent[] = [];
+
+    debugLogger.log('🗣️ DISCUSSION: Starting', { discussionId, rounds, participants: participants.map(a => a.name), moderator: moderator.name });
+
+    for (let round = 1; round <= rounds; round++) {
+      for (const agent of participants) {
+        const prompt = [
+          `[Round-table discussion, round ${round} of ${rounds}]`,
+          `Participants: ${participants.map(a => a.name).join(', ')}. ${moderator.name} moderates and writes the final answer.`,
+          '',
+          `Topic from the user:\n${topic}`,
+          ...(transcript.length > 0 ? ['', `Replies so far:\n${DiscussionRunner.formatTranscript(transcript)}`] : []),
+          '',
+          transcript.length > 0
+            ? `Add your view as ${agent.name}: build on or challenge the points above instead of repeating them.`
+            : `Give your view as ${agent.name}.`
+        ].join('\n');
+
+        await this.takeTurn(discussionId, agent, prompt, { round, rounds, role: 'participant' }, transcript);
+      }
+    }
+
+    const summaryPrompt = [
+      '[Round-table discussion, final answer]',
+      `Topic from the user:\n${topic}`,
+      '',
+      `The discussion:\n${DiscussionRunner.formatTranscript(transcript) || '(nobody could answer)'}`,
+      '',
+      `As the moderator, write the final answer for the user: combine the strongest points, settle disagreements and list what is still open.`
+    ].join('\n');
+    const summary = await this.takeTurn(discussionId, moderator, summaryPrompt, { round: rounds + 1, rounds, role: 'moderator' }, transcript);
+
+    debugLogger.log('🗣️ DISCUSSION: Finished', { discussionId, turns: transcript.length, summarized: summary !== undefined });
+    return { discussionId, transcript, summary };
+  }
+
+  private async takeTurn(
+    discussionId: string,
+    agent: AgentConfig,
+    prompt: string,
+    turn: Pick<DiscussionTurnEvent, 'round' | 'rounds' | 'role'>,
+    transcript: DiscussionTurnEvent[]
+  ): Promise<string | undefined> {
+    const event = { discussionId, ...turn, agentId: agent.id, agentName: agent.name };
+    this.notifyTurn({ ...event, status: 'started' });
+
+    try {
+      const { output } = await this.agentService.processMessageAndWait(agent, prompt);
+      const completed: DiscussionTurnEvent = { ...event, status: 'completed', reply: output };
+      if (turn.role === 'participant') {
+        transcript.push(completed);
+      }
+      this.notifyTurn(completed);
+      return output;
+    } catch (error) {
+      // One agent failing doesn't end the discussion for the rest
+      this.notifyTurn({ ...event, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      return undefined;
+    }
+  }
+
+  private static formatTranscript(transcript: DiscussionTurnEvent[]): string {
+    return transcript.map(turn => {
+      const reply = turn.reply || '';
+      const quoted = reply.length > DiscussionRunner.MAX_REPLY_CHARS
+        ? `${reply.substring(0, DiscussionRunner.MAX_REPLY_CHARS)}\n... (rest of the reply trimmed)`
+        : reply;
+      return `**${turn.agentName}** (round ${turn.round}):\n${quoted}`;
+    }).join('\n\n');
+  }
+
+  private notifyTurn(event: DiscussionTurnEvent): void {
+    for (const listener of this.turnListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Discussion listener failed:', error);
+      }
+    }
+  }
+}
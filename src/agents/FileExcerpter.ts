@@ -0,0 +1,73 @@
+import { Tokenizer } from '@/providers/Tokenizer';
+import { CodebaseIndex } from '@/services/CodebaseIndex';
+
+export interface Excerpt {
+  content: string;
+  includedLines: number;
+  totalLines: number;
+  truncated: boolean;
+}
+
+/**
+ * Fits a file into a token budget. Files that don't fit keep their imports,
+ * their declarations and the lines around the cursor, then as much of the
+ * rest as fits, nearest the cursor or the top of the file. Left out ranges
+ * are marked so the model knows to READ_FILE them.
+ */
+export class FileExcerpter {
+  private static readonly IMPORT_PATTERN = /^\s*(?:import\s|from\s+\S+\s+import\s|export\s+(?:\*|\{[^}]*\})\s+from\s|#include\s|using\s+[\w.]+;|package\s|use\s+[\w:]+|(?:const|let|var)\s+.+=\s*require\s*\()/;
+  private static readonly FOCUS_RADIUS = 20; // Lines kept on each side of the cursor
+  private static readonly MARKER_RESERVE = 0.1; // Share of the budget left for omission markers
+
+  public static excerpt(content: string, maxTokens: number, tokenizer: Tokenizer, focusLine?: number): Excerpt {
+    const lines = content.split('\n');
+    if (tokenizer.countTokens(content) <= maxTokens) {
+      return { content, includedLines: lines.length, totalLines: lines.length, truncated: false };
+    }
+
+    const anchor = focusLine !== undefined ? Math.min(Math.max(focusLine, 0), lines.length - 1) : 0;
+    const ranks = lines.map((line, index) => {
+      if (FileExcerpter.IMPORT_PATTERN.test(line)) return 0;
+      if (CodebaseIndex.getDeclaredSymbol(line)) return 1;
+      if (focusLine !== undefined && Math.abs(index - anchor) <= FileExcerpter.FOCUS_RADIUS) return 2;
+      return 3;
+    });
+    const order = lines
+      .map((_, index) => index)
+      .sort((a, b) => ranks[a] - ranks[b] || Math.abs(a - anchor) - Math.abs(b - anchor) || a - b);
+
+    const budget = Math.floor(maxTokens * (1 - FileExcerpter.MARKER_RESERVE));
+    const selected = new Set<number>();
+    let usedTokens = 0;
+    for (const index of order) {
+      const tokens = tokenizer.countTokens(lines[index]) + 1;
+      if (usedTokens + tokens > budget) {
+        // The remaining lines only make sense as a contiguous block
+        if (ranks[index] === 3) break;
+        continue;
+      }
+      usedTokens += tokens;
+      selected.add(index);
+    }
+
+    const output: string[] = [];
+    let gapStart = -1;
+    const omit = (from: number, to: number) => output.push(`... (lines ${from + 1}-${to + 1} omitted)`);
+    lines.forEach((line, index) => {
+      if (selected.has(index)) {
+        if (gapStart >= 0) {
+          omit(gapStart, index - 1);
+          gapStart = -1;
+        }
+        output.push(line);
+      } else if (gapStart < 0) {
+        gapStart = index;
+      }
+    });
+    if (gapStart >= 0) {
+      omit(gapStart, lines.length - 1);
+    }
+
+    return { content: output.join('\n'), includedLines: selected.size, totalLines: lines.length, truncated: true };
+  }
+}
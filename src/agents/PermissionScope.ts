@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommandPolicy } from './CommandPolicy';
+
+/**
+ * Glob scopes for agent permissions. A scope is a list of patterns; patterns
+ * starting with "!" deny, the others allow. With no allow patterns everything
+ * not denied is in scope.
+ *
+ * File patterns follow .gitignore conventions: a pattern without a slash
+ * (".env", "*.pem") matches a file or folder name at any depth, a pattern with
+ * a slash ("src/**", "config/*.json") matches from the workspace root, and a
+ * matching folder covers everything inside it.
+ *
+ * Chained commands ("npm test && rm -rf ~") are only in scope when every part
+ * of the chain is. Commands with nested commands ("npm test $(curl ...)") are
+ * never in scope, since a pattern can't tell what the nested part runs.
+ */
+export class PermissionScope {
+  public static isPathInScope(scope: string[] | undefined, relativePath: string): boolean {
+    return this.isInScope(scope, pattern => this.matchesPath(pattern, relativePath));
+  }
+
+  public static isCommandInScope(scope: string[] | undefined, command: string): boolean {
+    if (CommandPolicy.hasNestedCommand(command)) {
+      return false;
+    }
+    const segments = CommandPolicy.splitCommand(command);
+    return (segments.length > 0 ? segments : [command]).every(segment => {
+      const normalizedSegment = segment.trim().replace(/\s+/g, ' ');
+      return this.isInScope(scope, pattern => this.matchesCommand(pattern, normalizedSegment));
+    });
+  }
+
+  /**
+   * Resolve a file name given by an agent to a workspace-relative path with
+   * forward slashes, or null if it points outside the workspace.
+   */
+  public static normalizePath(workspaceRoot: string, fileName: string): string | null {
+    const root = workspaceRoot.replace(/\\/g, '/').replace(/\/+$/, '');
+    let candidate = fileName.trim().replace(/\\/g, '/');
+
+    if (candidate.startsWith('/') || /^[a-zA-Z]:\//.test(candidate)) {
+      const isWindowsPath = /^[a-zA-Z]:\//.test(root);
+      const inside = isWindowsPath
+        ? candidate.toLowerCase().startsWith(`${root.toLowerCase()}/`)
+        : candidate.startsWith(`${root}/`);
+      if (!inside) {
+        return null;
+      }
+      candidate = candidate.substring(root.length + 1);
+    }
+
+    const segments: string[] = [];
+    for (const segment of candidate.split('/')) {
+      if (segment === '' || segment === '.') {
+        continue;
+      }
+      if (segment === '..') {
+        if (segments.length === 0) {
+          return null;
+        }
+        segments.pop();
+      } else {
+        segments.push(segment);
+      }
+    }
+    return segments.join('/');
+  }
+
+  /**
+   * Check if the path, or the nearest part of it that exists, is a symlink
+   * that leads outside the workspace.
+   */
+  public static escapesViaSymlink(workspaceRoot: string, relativePath: string): boolean {
+    const realRoot = this.realPath(workspaceRoot) ?? workspaceRoot;
+    let segments = relativePath ? relativePath.split('/') : [];
+
+    for (;;) {
+      const target = segments.length > 0 ? path.join(workspaceRoot, ...segments) : workspaceRoot;
+      try {
+        const realTarget = fs.realpathSync(target);
+        return realTarget !== realRoot && !realTarget.startsWith(realRoot + path.sep) && !realTarget.startsWith(realRoot + '/');
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT' || segments.length === 0) {
+          // Anything other than "not created yet" can't be verified, so it isn't trusted
+          return error?.code !== 'ENOENT';
+        }
+        segments = segments.slice(0, -1);
+      }
+    }
+  }
+
+  private static isInScope(scope: string[] | undefined, matches: (pattern: string) => boolean): boolean {
+    const patterns = (scope || []).map(pattern => pattern.trim()).filter(Boolean);
+    const denied = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.substring(1));
+    const allowed = patterns.filter(pattern => !pattern.startsWith('!'));
+
+    if (denied.some(matches)) {
+      return false;
+    }
+    return allowed.length === 0 || allowed.some(matches);
+  }
+
+  private static matchesPath(pattern: string, relativePath: string): boolean {
+    const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+    const anchored = normalized.startsWith('/') || normalized.includes('/');
+    const regex = this.globToRegex(normalized.replace(/^\/+/, ''), true);
+    const segments = relativePath.split('/');
+
+    if (!anchored) {
+      return segments.some(segment => regex.test(segment));
+    }
+    // Match the path itself or any folder containing it
+    return segments.some((_, index) => regex.test(segments.slice(0, index + 1).join('/')));
+  }
+
+  private static matchesCommand(pattern: string, command: string): boolean {
+    return this.globToRegex(pattern.replace(/\s+/g, ' '), false).test(command);
+  }
+
+  private static globToRegex(glob: string, pathAware: boolean): RegExp {
+    let regex = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === '*') {
+        if (pathAware && glob[i + 1] === '*') {
+          if (glob[i + 2] === '/') {
+            regex += '(?:.*/)?';
+            i += 2;
+          } else {
+            regex += '.*';
+            i += 1;
+          }
+        } else {
+          regex += pathAware ? '[^/]*' : '.*';
+        }
+      } else if (char === '?') {
+        regex += pathAware ? '[^/]' : '.';
+      } else if (char === '{') {
+        const end = glob.indexOf('}', i);
+        if (end === -1) {
+          regex += '\\{';
+        } else {
+          const options = glob.substring(i + 1, end).split(',').map(option => option.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, pathAware ? '[^/]*' : '.*'));
+          regex += `(?:${options.join('|')})`;
+          i = end;
+        }
+      } else {
+        regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${regex}$`);
+  }
+
+  private static realPath(target: string): string | null {
+    try {
+      return fs.realpathSync(target);
+    } catch {
+      return null;
+    }
+  }
+}
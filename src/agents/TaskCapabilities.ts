@@ -0,0 +1,105 @@
+import { AgentConfig, Capability, CapabilityType, TaskPayload, TaskType } from '@/shared/types';
+import { CommandPolicy } from './CommandPolicy';
+
+interface TaskVerb {
+  verb: string;
+  taskType: TaskType;
+  capability: CapabilityType;
+}
+
+const TASK_VERBS: TaskVerb[] = [
+  { verb: 'CREATE_FILE', taskType: TaskType.FILE_CREATE, capability: CapabilityType.FILE_OPERATIONS },
+  { verb: 'EDIT_FILE', taskType: TaskType.FILE_UPDATE, capability: CapabilityType.FILE_OPERATIONS },
+  { verb: 'READ_FILE', taskType: TaskType.FILE_READ, capability: CapabilityType.FILE_OPERATIONS },
+  { verb: 'GREP', taskType: TaskType.FILE_SEARCH, capability: CapabilityType.FILE_OPERATIONS },
+  { verb: 'FIND_FILES', taskType: TaskType.FILE_FIND, capability: CapabilityType.FILE_OPERATIONS },
+  { verb: 'DELETE_FILE', taskType: TaskType.FILE_DELETE, capability: CapabilityType.FILE_OPERATIONS },
+  { verb: 'INSERT_CODE', taskType: TaskType.CODE_INSERT, capability: CapabilityType.FILE_OPERATIONS },
+  { verb: 'REPLACE_CODE', taskType: TaskType.CODE_REPLACE, capability: CapabilityType.FILE_OPERATIONS },
+  { verb: 'OPEN_EDITOR', taskType: TaskType.EDITOR_OPEN, capability: CapabilityType.FILE_OPERATIONS },
+  { verb: 'FORMAT_FILE', taskType: TaskType.FILE_FORMAT, capability: CapabilityType.FILE_OPERATIONS },
+  { verb: 'GIT_COMMAND', taskType: TaskType.GIT_COMMAND, capability: CapabilityType.GIT_OPERATIONS },
+  { verb: 'GIT_COMMIT', taskType: TaskType.GIT_COMMIT, capability: CapabilityType.GIT_OPERATIONS },
+  { verb: 'RUN_COMMAND', taskType: TaskType.COMMAND_RUN, capability: CapabilityType.COMMAND_EXECUTION },
+  { verb: 'DELEGATE', taskType: TaskType.AGENT_DELEGATE, capability: CapabilityType.AGENT_DELEGATION }
+];
+
+const CAPABILITY_LABELS: Record<CapabilityType, string> = {
+  [CapabilityType.FILE_OPERATIONS]: 'File Operations',
+  [CapabilityType.GIT_OPERATIONS]: 'Git Operations',
+  [CapabilityType.COMMAND_EXECUTION]: 'Command Execution',
+  [CapabilityType.DOCKER_OPERATIONS]: 'Docker Operations',
+  [CapabilityType.WEB_SEARCH]: 'Web Search',
+  [CapabilityType.CODE_ANALYSIS]: 'Code Analysis',
+  [CapabilityType.AGENT_DELEGATION]: 'Agent Delegation'
+};
+
+/**
+ * Maps task verbs to the agent capability they need. An agent with a
+ * capability list may only use the capabilities it lists as enabled; agents
+ * created without any capability entries keep every verb.
+ */
+export class TaskCapabilities {
+  public static isEnabled(agent: AgentConfig, capability: CapabilityType): boolean {
+    const capabilities = (Array.isArray(agent.capabilities) ? agent.capabilities : []).filter(Boolean);
+    if (capabilities.length === 0) {
+      return true;
+    }
+    return capabilities.some(c => c.type === capability && c.enabled !== false);
+  }
+
+  /**
+   * The capability list of an agent saved while unlisted capabilities still
+   * counted as enabled, with those capabilities added as enabled entries so
+   * the agent keeps the verbs it had.
+   */
+  public static listUnlistedAsEnabled(agent: AgentConfig): Capability[] {
+    const capabilities = (Array.isArray(agent.capabilities) ? agent.capabilities : []).filter(Boolean);
+    if (capabilities.length === 0) {
+      return capabilities;
+    }
+    const unlisted = Object.values(CapabilityType).filter(type => !capabilities.some(c => c.type === type));
+    return [...capabilities, ...unlisted.map(type => ({ type, enabled: true }))];
+  }
+
+  /**
+   * The capability that blocks this task, or null when the task may run.
+   * Docker commands, anywhere in a chained command line, also need the
+   * Docker Operations capability.
+   */
+  public static getBlockedCapability(agent: AgentConfig, taskType: TaskType, payload: TaskPayload = {}): CapabilityType | null {
+    const entry = TASK_VERBS.find(v => v.taskType === taskType);
+    if (!entry) {
+      return null;
+    }
+    if (!this.isEnabled(agent, entry.capability)) {
+      return entry.capability;
+    }
+    const runsDocker = CommandPolicy.splitCommand(payload.command || '')
+      .some(segment => /^(sudo\s+)*(\S*\/)?docker(-compose)?(\s|$)/.test(segment));
+    if (taskType === TaskType.COMMAND_RUN && runsDocker && !this.isEnabled(agent, CapabilityType.DOCKER_OPERATIONS)) {
+      return CapabilityType.DOCKER_OPERATIONS;
+    }
+    return null;
+  }
+
+  public static getAllowedVerbs(agent: AgentConfig): string[] {
+    return TASK_VERBS.filter(v => this.isEnabled(agent, v.capability)).map(v => v.verb);
+  }
+
+  public static getDisabledVerbs(agent: AgentConfig): string[] {
+    return TASK_VERBS.filter(v => !this.isEnabled(agent, v.capability)).map(v => v.verb);
+  }
+
+  public static getEnabledCapabilities(agent: AgentConfig): CapabilityType[] {
+    return Object.values(CapabilityType).filter(capability => this.isEnabled(agent, capability));
+  }
+
+  public static getVerb(taskType: TaskType): string {
+    return TASK_VERBS.find(v => v.taskType === taskType)?.verb || taskType;
+  }
+
+  public static getLabel(capability: CapabilityType): string {
+    return CAPABILITY_LABELS[capability] || capability;
+  }
+}
@@ -0,0 +1,439 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Task,
+  TaskType,
+  TaskStatus,
+  TaskPriority,
+  TaskPayload,
+  TaskResult,
+  TaskError,
+  AgentEventType
+} from '@/shared/types';
+import { debugLogger } from '@/utils/logger';
+
+export type TaskExecutor = (task: Task) => Promise<TaskResult>;
+export type TaskEventListener = (type: AgentEventType, task: Task) => void;
+
+export interface EnqueueOptions {
+  priority?: TaskPriority;
+  dependencies?: string[];
+}
+
+// Tasks as kept in globalState: long payload values such as file contents
+// live in payload files, and result data is only needed while a response runs
+type PersistedTask = Omit<Task, 'result' | 'error'> & {
+  result?: Omit<TaskResult, 'data'>;
+  error?: Omit<TaskError, 'details'>;
+  storedPayloadKeys?: string[];
+};
+
+/**
+ * Queue of agent tasks parsed from AI responses.
+ * Tasks run in priority order (FIFO within the same priority) once all of
+ * their dependencies have completed, and are persisted so the history
+ * survives reloads and failed tasks can be retried later. globalState holds
+ * the task list; payload values longer than MAX_INLINE_CHARS are written to a
+ * file per task in the extension's global storage folder.
+ */
+export class TaskQueue {
+  private static readonly STORAGE_KEY = 'agentTasks';
+  private static readonly PAYLOADS_DIRECTORY = 'task-payloads';
+  private static readonly MAX_RETAINED_TASKS = 200;
+  private static readonly MAX_INLINE_CHARS = 1000;
+
+  private tasks: Map<string, Task> = new Map();
+  private listeners: TaskEventListener[] = [];
+  private context: vscode.ExtensionContext | null = null;
+  // Payload keys of restored tasks that are still in their payload file
+  private storedPayloadKeys: Map<string, string[]> = new Map();
+  private writtenPayloads: Set<string> = new Set();
+
+  public setContext(context: vscode.ExtensionContext): void {
+    this.context = context;
+    this.loadPersistedTasks();
+  }
+
+  public onTaskEvent(listener: TaskEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  public enqueue(agentId: string, type: TaskType, payload: TaskPayload, options: EnqueueOptions = {}): Task {
+    const task: Task = {
+      id: uuidv4(),
+      type,
+      agentId,
+      status: TaskStatus.PENDING,
+      payload,
+      dependencies: options.dependencies || [],
+      priority: options.priority ?? TaskPriority.NORMAL,
+      createdAt: new Date()
+    };
+
+    this.tasks.set(task.id, task);
+    return task;
+  }
+
+  public getTask(taskId: string): Task | undefined {
+    return this.tasks.get(taskId);
+  }
+
+  public getTasks(agentId?: string): Task[] {
+    const tasks = Array.from(this.tasks.values());
+    return agentId ? tasks.filter(task => task.agentId === agentId) : tasks;
+  }
+
+  /**
+   * Run pending tasks until nothing else is runnable.
+   * When taskIds is given only those tasks are considered, otherwise every
+   * pending task in the queue is. Returns the tasks that were run.
+   */
+  public async run(executor: TaskExecutor, taskIds?: string[]): Promise<Task[]> {
+    const scope = (taskIds || this.getTasks().map(task => task.id))
+      .map(id => this.tasks.get(id))
+      .filter((task): task is Task => !!task && task.status === TaskStatus.PENDING);
+
+    let next = this.nextRunnableTask(scope);
+    while (next) {
+      await this.executeTask(next, executor);
+      next = this.nextRunnableTask(scope);
+    }
+
+    // Anything still pending is waiting on a dependency cycle or an unknown task
+    for (const task of scope) {
+      if (task.status === TaskStatus.PENDING) {
+        this.cancel(task, 'DEPENDENCY_UNRESOLVED', 'Task dependencies could not be resolved');
+      }
+    }
+
+    await this.persistTasks();
+    return scope;
+  }
+
+  /**
+   * Cancel a pending task. Tasks depending on it are cancelled as well.
+   */
+  public async cancelTask(taskId: string, message = 'Task was cancelled'): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status !== TaskStatus.PENDING) {
+      return false;
+    }
+
+    this.cancel(task, 'CANCELLED_BY_USER', message);
+    await this.persistTasks();
+    return true;
+  }
+
+  /**
+   * Cancel a completed task whose outcome was thrown away, like a staged file
+   * change the user rejected in review.
+   */
+  public async discardTask(taskId: string, message: string): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status !== TaskStatus.COMPLETED) {
+      return false;
+    }
+
+    this.cancel(task, 'REJECTED', message);
+    await this.persistTasks();
+    return true;
+  }
+
+  /**
+   * Put a failed or cancelled task back into the pending state, together with
+   * the dependents that were cancelled because of it. Returns the ids to run.
+   */
+  public async retryTask(taskId: string): Promise<string[]> {
+    const task = this.tasks.get(taskId);
+    if (!task || (task.status !== TaskStatus.FAILED && task.status !== TaskStatus.CANCELLED)) {
+      return [];
+    }
+    if (!this.restorePayload(task)) {
+      task.error = { code: 'PAYLOAD_MISSING', message: 'The task details are no longer stored, so it can\'t be retried' };
+      this.emit(AgentEventType.TASK_COMPLETED, task);
+      await this.persistTasks();
+      return [];
+    }
+
+    const resetIds = [task.id];
+    this.resetTask(task);
+
+    for (const dependent of this.getDependents(task.id)) {
+      if (dependent.status === TaskStatus.CANCELLED && dependent.error?.code === 'DEPENDENCY_FAILED' && this.restorePayload(dependent)) {
+        this.resetTask(dependent);
+        resetIds.push(dependent.id);
+      }
+    }
+
+    await this.persistTasks();
+    return resetIds;
+  }
+
+  public async clearFinishedTasks(agentId?: string): Promise<void> {
+    for (const task of this.getTasks(agentId)) {
+      if (this.isFinished(task)) {
+        this.removeTask(task.id);
+      }
+    }
+    await this.persistTasks();
+  }
+
+  private nextRunnableTask(scope: Task[]): Task | undefined {
+    const candidates: Task[] = [];
+
+    for (const task of scope) {
+      if (task.status !== TaskStatus.PENDING) {
+        continue;
+      }
+
+      const dependencies = task.dependencies.map(id => this.tasks.get(id));
+      const blocker = dependencies.find(dep => dep && (dep.status === TaskStatus.FAILED || dep.status === TaskStatus.CANCELLED));
+      if (blocker) {
+        this.cancel(task, 'DEPENDENCY_FAILED', `Dependency ${blocker.id} ${blocker.status}`);
+        continue;
+      }
+
+      if (dependencies.every(dep => dep && dep.status === TaskStatus.COMPLETED)) {
+        candidates.push(task);
+      }
+    }
+
+    // Array.prototype.sort is stable, so insertion order breaks priority ties
+    candidates.sort((a, b) => b.priority - a.priority);
+    return candidates[0];
+  }
+
+  private async executeTask(task: Task, executor: TaskExecutor): Promise<void> {
+    task.status = TaskStatus.IN_PROGRESS;
+    task.startedAt = new Date();
+    this.emit(AgentEventType.TASK_STARTED, task);
+
+    try {
+      const result = await executor(task);
+      task.result = result;
+      task.status = result.success ? TaskStatus.COMPLETED : TaskStatus.FAILED;
+      if (!result.success) {
+        task.error = {
+          code: 'TASK_FAILED',
+          message: result.output || `Task ${task.type} failed`
+        };
+      }
+    } catch (error) {
+      task.status = TaskStatus.FAILED;
+      task.error = {
+        code: 'TASK_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        details: error
+      };
+    }
+
+    task.completedAt = new Date();
+    debugLogger.log('📋 TASK FINISHED', {
+      taskId: task.id,
+      agentId: task.agentId,
+      type: task.type,
+      status: task.status
+    });
+    this.emit(AgentEventType.TASK_COMPLETED, task);
+  }
+
+  private cancel(task: Task, code: string, message: string): void {
+    task.status = TaskStatus.CANCELLED;
+    task.completedAt = new Date();
+    task.error = { code, message };
+    this.emit(AgentEventType.TASK_COMPLETED, task);
+
+    for (const dependent of this.getDependents(task.id)) {
+      if (dependent.status === TaskStatus.PENDING) {
+        this.cancel(dependent, 'DEPENDENCY_FAILED', `Dependency ${task.id} cancelled`);
+      }
+    }
+  }
+
+  private resetTask(task: Task): void {
+    task.status = TaskStatus.PENDING;
+    task.startedAt = undefined;
+    task.completedAt = undefined;
+    task.result = undefined;
+    task.error = undefined;
+  }
+
+  private removeTask(taskId: string): void {
+    this.tasks.delete(taskId);
+    this.storedPayloadKeys.delete(taskId);
+    if (this.writtenPayloads.delete(taskId)) {
+      this.deletePayload(taskId);
+    }
+  }
+
+  private getDependents(taskId: string): Task[] {
+    return this.getTasks().filter(task => task.dependencies.includes(taskId));
+  }
+
+  private isFinished(task: Task): boolean {
+    return task.status === TaskStatus.COMPLETED
+      || task.status === TaskStatus.FAILED
+      || task.status === TaskStatus.CANCELLED;
+  }
+
+  private emit(type: AgentEventType, task: Task): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(type, task);
+      } catch (error) {
+        console.error('Task event listener failed:', error);
+      }
+    }
+  }
+
+  private loadPersistedTasks(): void {
+    if (!this.context) return;
+
+    try {
+      const persistedTasks = this.context.globalState.get<PersistedTask[]>(TaskQueue.STORAGE_KEY, []) || [];
+
+      for (const { storedPayloadKeys, ...task } of persistedTasks) {
+        const restoredTask: Task = {
+          ...task,
+          createdAt: new Date(task.createdAt),
+          startedAt: task.startedAt ? new Date(task.startedAt) : undefined,
+          completedAt: task.completedAt ? new Date(task.completedAt) : undefined
+        };
+
+        // A task that was running when the window closed never finished, and
+        // one still waiting has nothing left that would run it
+        if (restoredTask.status === TaskStatus.IN_PROGRESS) {
+          restoredTask.status = TaskStatus.FAILED;
+          restoredTask.completedAt = new Date();
+          restoredTask.error = { code: 'INTERRUPTED', message: 'Task was interrupted before it completed' };
+        } else if (restoredTask.status === TaskStatus.PENDING) {
+          restoredTask.status = TaskStatus.CANCELLED;
+          restoredTask.completedAt = new Date();
+          restoredTask.error = { code: 'INTERRUPTED', message: 'Task was still waiting when the window closed' };
+        }
+
+        if (storedPayloadKeys?.length) {
+          this.storedPayloadKeys.set(restoredTask.id, storedPayloadKeys);
+          this.writtenPayloads.add(restoredTask.id);
+        }
+        this.tasks.set(restoredTask.id, restoredTask);
+      }
+    } catch (error) {
+      console.error('Error loading persisted tasks:', error);
+    }
+  }
+
+  private async persistTasks(): Promise<void> {
+    if (!this.context) return;
+
+    try {
+      // Drop the oldest finished tasks once the history grows too large
+      const tasks = this.getTasks();
+      let overflow = tasks.length - TaskQueue.MAX_RETAINED_TASKS;
+      for (const task of tasks) {
+        if (overflow <= 0) break;
+        if (this.isFinished(task)) {
+          this.removeTask(task.id);
+          overflow--;
+        }
+      }
+
+      await this.context.globalState.update(TaskQueue.STORAGE_KEY, this.getTasks().map(task => this.toPersistedTask(task)));
+    } catch (error) {
+      console.error('Error persisting tasks:', error);
+    }
+  }
+
+  private toPersistedTask(task: Task): PersistedTask {
+    const { result, error, ...rest } = task;
+    const persisted: PersistedTask = {
+      ...rest,
+      result: result && { success: result.success, files: result.files, output: this.truncate(result.output) },
+      error: error && { code: error.code, message: error.message }
+    };
+
+    const storedKeys = this.storedPayloadKeys.get(task.id)
+      ?? Object.keys(task.payload).filter(key => typeof task.payload[key] === 'string' && task.payload[key].length > TaskQueue.MAX_INLINE_CHARS);
+    if (storedKeys.length === 0) {
+      return persisted;
+    }
+
+    if (!this.writtenPayloads.has(task.id)) {
+      this.writePayload(task);
+    }
+    persisted.payload = { ...task.payload };
+    storedKeys.forEach(key => delete persisted.payload[key]);
+    persisted.storedPayloadKeys = storedKeys;
+    return persisted;
+  }
+
+  private truncate(text: string | undefined): string | undefined {
+    return text && text.length > TaskQueue.MAX_INLINE_CHARS ? `${text.substring(0, TaskQueue.MAX_INLINE_CHARS)}…` : text;
+  }
+
+  // Puts the values kept in the payload file back; false if they are lost
+  private restorePayload(task: Task): boolean {
+    const storedKeys = this.storedPayloadKeys.get(task.id);
+    if (!storedKeys) {
+      return true;
+    }
+
+    const payload = this.readPayload(task.id);
+    if (!payload || storedKeys.some(key => !(key in payload))) {
+      return false;
+    }
+    task.payload = { ...task.payload, ...payload };
+    this.storedPayloadKeys.delete(task.id);
+    return true;
+  }
+
+  // Payloads are only kept in memory when the extension has no storage folder
+  private getPayloadPath(taskId: string): string | null {
+    const storageUri = this.context?.globalStorageUri;
+    return storageUri ? path.join(storageUri.fsPath, TaskQueue.PAYLOADS_DIRECTORY, `${taskId}.json`) : null;
+  }
+
+  private readPayload(taskId: string): TaskPayload | null {
+    const payloadPath = this.getPayloadPath(taskId);
+    if (!payloadPath || !fs.existsSync(payloadPath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(payloadPath, 'utf8'));
+    } catch (error) {
+      console.error('Error reading task payload:', error);
+      return null;
+    }
+  }
+
+  private writePayload(task: Task): void {
+    const payloadPath = this.getPayloadPath(task.id);
+    if (!payloadPath) return;
+
+    try {
+      fs.mkdirSync(path.dirname(payloadPath), { recursive: true });
+      fs.writeFileSync(payloadPath, JSON.stringify(task.payload), 'utf8');
+      this.writtenPayloads.add(task.id);
+    } catch (error) {
+      console.error('Error writing task payload:', error);
+    }
+  }
+
+  private deletePayload(taskId: string): void {
+    const payloadPath = this.getPayloadPath(taskId);
+    if (!payloadPath) return;
+
+    try {
+      if (fs.existsSync(payloadPath)) {
+        fs.unlinkSync(payloadPath);
+      }
+    } catch (error) {
+      console.error('Error deleting task payload:', error);
+    }
+  }
+}
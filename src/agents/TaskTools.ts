@@ -0,0 +1,293 @@
+import { AIToolDefinition, AIToolCall } from '@/providers/AIProviderInterface';
+import { TaskPayload, TaskType } from '@/shared/types';
+
+const stringParam = (description: string) => ({ type: 'string' as const, description });
+
+export interface ToolTask {
+  type: TaskType;
+  payload: TaskPayload;
+}
+
+/**
+ * The task verbs exposed as typed tools for models with native tool calling.
+ * Tool calls are queued straight from their arguments, with the same payloads
+ * the tag syntax produces, so both paths share the permission checks and the
+ * task queue. The tag form is only added to the reply text, so the
+ * conversation shows what the model did.
+ */
+export class TaskTools {
+  public static readonly definitions: AIToolDefinition[] = [
+    {
+      name: 'create_file',
+      description: 'Create a file in the workspace, or overwrite it if it exists',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('File path relative to the workspace root'),
+          content: stringParam('Full content of the file')
+        },
+        required: ['path', 'content']
+      }
+    },
+    {
+      name: 'edit_file',
+      description: 'Replace every occurrence of a piece of text in an existing file',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('File path relative to the workspace root'),
+          find: stringParam('Exact text to find'),
+          replace: stringParam('Text to replace it with')
+        },
+        required: ['path', 'find', 'replace']
+      }
+    },
+    {
+      name: 'read_file',
+      description: 'Read a file; its content is sent back to you before you continue',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('File path relative to the workspace root')
+        },
+        required: ['path']
+      }
+    },
+    {
+      name: 'grep',
+      description: 'Search file contents with a regular expression; matches are sent back to you',
+      parameters: {
+        type: 'object',
+        properties: {
+          pattern: stringParam('Regular expression to search for'),
+          path_pattern: stringParam('Glob pattern of the files to search, e.g. src/**/*.ts')
+        },
+        required: ['pattern', 'path_pattern']
+      }
+    },
+    {
+      name: 'find_files',
+      description: 'Find files by name; matching paths are sent back to you',
+      parameters: {
+        type: 'object',
+        properties: {
+          pattern: stringParam('File name or glob pattern')
+        },
+        required: ['pattern']
+      }
+    },
+    {
+      name: 'delete_file',
+      description: 'Delete a file from the workspace',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('File path relative to the workspace root')
+        },
+        required: ['path']
+      }
+    },
+    {
+      name: 'insert_code',
+      description: 'Insert code into a file before the given line',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('File path relative to the workspace root'),
+          line: { type: 'integer', description: '1-based line number to insert at' },
+          code: stringParam('Code to insert')
+        },
+        required: ['path', 'line', 'code']
+      }
+    },
+    {
+      name: 'replace_code',
+      description: 'Replace a section of code in a file',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('File path relative to the workspace root'),
+          find: stringParam('Exact code to replace'),
+          replace: stringParam('New code')
+        },
+        required: ['path', 'find', 'replace']
+      }
+    },
+    {
+      name: 'open_editor',
+      description: 'Open a file in the editor',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('File path relative to the workspace root')
+        },
+        required: ['path']
+      }
+    },
+    {
+      name: 'format_file',
+      description: 'Format a file and organize its imports',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: stringParam('File path relative to the workspace root')
+        },
+        required: ['path']
+      }
+    },
+    {
+      name: 'git_command',
+      description: 'Run a git command',
+      parameters: {
+        type: 'object',
+        properties: {
+          command: stringParam('The full git command, e.g. "git status" or "git add ."')
+        },
+        required: ['command']
+      }
+    },
+    {
+      name: 'git_commit',
+      description: 'Stage all changes and commit them',
+      parameters: {
+        type: 'object',
+        properties: {
+          message: stringParam('Commit message')
+        },
+        required: ['message']
+      }
+    },
+    {
+      name: 'run_command',
+      description: 'Run a shell command in the workspace',
+      parameters: {
+        type: 'object',
+        properties: {
+          command: stringParam('Command line to run')
+        },
+        required: ['command']
+      }
+    },
+    {
+      name: 'delegate',
+      description: 'Hand a sub-task to another agent by name; its reply is sent back to you',
+      parameters: {
+        type: 'object',
+        properties: {
+          agent: stringParam('Name of the agent to delegate to'),
+          task: stringParam('What the agent should do, with the context it needs')
+        },
+        required: ['agent', 'task']
+      }
+    }
+  ];
+
+  /**
+   * Convert a tool call to the task it asks for, or null for unknown tools.
+   * Arguments are used as they are: text to write or find isn't trimmed.
+   */
+  public static toTask(call: AIToolCall): ToolTask | null {
+    const args = call.arguments || {};
+    const text = (value: any) => (value === undefined || value === null ? '' : String(value));
+
+    switch (call.name) {
+      case 'create_file':
+        return { type: TaskType.FILE_CREATE, payload: { fileName: text(args.path).trim(), content: text(args.content) } };
+      case 'edit_file':
+        return { type: TaskType.FILE_UPDATE, payload: { fileName: text(args.path).trim(), findText: text(args.find), replaceText: text(args.replace) } };
+      case 'read_file':
+        return { type: TaskType.FILE_READ, payload: { fileName: text(args.path).trim() } };
+      case 'grep':
+        return { type: TaskType.FILE_SEARCH, payload: { pattern: text(args.pattern), pathPattern: text(args.path_pattern).trim() } };
+      case 'find_files':
+        return { type: TaskType.FILE_FIND, payload: { filePattern: text(args.pattern).trim() } };
+      case 'delete_file':
+        return { type: TaskType.FILE_DELETE, payload: { fileName: text(args.path).trim() } };
+      case 'insert_code':
+        return { type: TaskType.CODE_INSERT, payload: { fileName: text(args.path).trim(), lineNumber: parseInt(text(args.line), 10) || 1, code: text(args.code) } };
+      case 'replace_code':
+        return { type: TaskType.CODE_REPLACE, payload: { fileName: text(args.path).trim(), findCode: text(args.find), replaceCode: text(args.replace) } };
+      case 'open_editor':
+        return { type: TaskType.EDITOR_OPEN, payload: { fileName: text(args.path).trim() } };
+      case 'format_file':
+        return { type: TaskType.FILE_FORMAT, payload: { fileName: text(args.path).trim() } };
+      case 'git_command':
+        return { type: TaskType.GIT_COMMAND, payload: { command: TaskTools.toGitCommand(text(args.command)) } };
+      case 'git_commit':
+        return { type: TaskType.GIT_COMMIT, payload: { message: text(args.message).trim() } };
+      case 'run_command':
+        return { type: TaskType.COMMAND_RUN, payload: { command: text(args.command).trim() } };
+      case 'delegate':
+        return { type: TaskType.AGENT_DELEGATE, payload: { agentName: text(args.agent).trim(), task: text(args.task).trim() } };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Convert a tool call to the equivalent task tag, or null for unknown tools.
+   */
+  public static toTaskSyntax(call: AIToolCall): string | null {
+    const args = call.arguments || {};
+    const text = (value: any) => (value === undefined || value === null ? '' : String(value));
+
+    switch (call.name) {
+      case 'create_file':
+        return `[CREATE_FILE: ${text(args.path)}]\n${text(args.content)}\n[/CREATE_FILE]`;
+      case 'edit_file':
+        return `[EDIT_FILE: ${text(args.path)}]\n[FIND]${text(args.find)}[/FIND]\n[REPLACE]${text(args.replace)}[/REPLACE]\n[/EDIT_FILE]`;
+      case 'read_file':
+        return `[READ_FILE: ${text(args.path)}]`;
+      case 'grep':
+        return `[GREP: ${text(args.pattern)}, ${text(args.path_pattern)}]`;
+      case 'find_files':
+        return `[FIND_FILES: ${text(args.pattern)}]`;
+      case 'delete_file':
+        return `[DELETE_FILE: ${text(args.path)}]`;
+      case 'insert_code':
+        return `[INSERT_CODE: ${text(args.path)}:${parseInt(text(args.line), 10) || 1}]\n${text(args.code)}[/INSERT_CODE]`;
+      case 'replace_code':
+        return `[REPLACE_CODE: ${text(args.path)}]\n[FIND]${text(args.find)}[/FIND]\n[REPLACE]${text(args.replace)}[/REPLACE]\n[/REPLACE_CODE]`;
+      case 'open_editor':
+        return `[OPEN_EDITOR: ${text(args.path)}]`;
+      case 'format_file':
+        return `[FORMAT_FILE: ${text(args.path)}]`;
+      case 'git_command':
+        return `[GIT_COMMAND: ${TaskTools.toGitCommand(text(args.command))}]`;
+      case 'git_commit':
+        return `[GIT_COMMIT: ${text(args.message)}]`;
+      case 'run_command':
+        return `[RUN_COMMAND: ${text(args.command)}]`;
+      case 'delegate':
+        return `[DELEGATE: ${text(args.agent)}]\n${text(args.task)}\n[/DELEGATE]`;
+      default:
+        return null;
+    }
+  }
+
+  // Models sometimes pass only the arguments; the terminal and the command policy need the full command
+  private static toGitCommand(command: string): string {
+    const trimmed = command.trim();
+    return /^git(\s|$)/.test(trimmed) ? trimmed : `git ${trimmed}`;
+  }
+
+  /**
+   * Append the tag form of each tool call to the response text.
+   */
+  public static appendToResponse(content: string, calls: AIToolCall[]): string {
+    const tasks = calls
+      .map(call => {
+        const task = TaskTools.toTaskSyntax(call);
+        if (!task) {
+          console.warn('Ignoring call to unknown tool:', call.name);
+        }
+        return task;
+      })
+      .filter((task): task is string => task !== null);
+
+    if (tasks.length === 0) {
+      return content;
+    }
+    return content.trim() ? `${content}\n\n${tasks.join('\n\n')}` : tasks.join('\n\n');
+  }
+}
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import { ModelPrice } from '@/shared/types';
+
+// Token usage of one response
+export interface UsageRecord {
+  agentId: string;
+  provider: string;
+  modelName: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD
+  estimated: boolean; // The provider didn't report usage, so tokens were estimated
+  timestamp: Date;
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  requests: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byAgent: Record<string, UsageTotals>;
+  byProvider: Record<string, UsageTotals>;
+  byDay: Record<string, UsageTotals>; // YYYY-MM-DD, local time
+}
+
+// Usage of one agent with one model on one day
+interface DailyUsage extends UsageTotals {
+  day: string;
+  agentId: string;
+  provider: string;
+  modelName: string;
+}
+
+/**
+ * Records the token usage of every response and what it cost. Recent
+ * responses are kept individually; totals are kept per day, agent and model
+ * so summaries and monthly budgets cover the whole history.
+ */
+export class UsageTracker {
+  private static readonly STORAGE_KEY = 'agentUsage';
+  private static readonly MAX_RECORDS = 500;
+
+  // USD per million tokens
+  public static readonly DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'claude-3-5-sonnet-20241022': { input: 3.00, output: 15.00 },
+    'claude-3-5-haiku-20241022': { input: 0.80, output: 4.00 },
+    'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+    'claude-3-sonnet-20240229': { input: 3.00, output: 15.00 },
+    'claude-3-opus-20240229': { input: 15.00, output: 75.00 },
+    'gpt-4o': { input: 5.00, output: 15.00 },
+    'gpt-4o-mini': { input: 0.15, output: 0.60 },
+    'gpt-4-turbo': { input: 10.00, output: 30.00 },
+    'gpt-4': { input: 30.00, output: 60.00 },
+    'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
+    'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+    'gemini-1.5-pro': { input: 2.50, output: 10.00 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+    'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 }
+  };
+
+  private records: UsageRecord[] = [];
+  private daily: DailyUsage[] = [];
+  private context: vscode.ExtensionContext | null = null;
+
+  public setContext(context: vscode.ExtensionContext): void {
+    this.context = context;
+    this.loadPersistedUsage();
+  }
+
+  public static getCost(prices: Record<string, ModelPrice>, modelName: string, inputTokens: number, outputTokens: number): number {
+    const price = prices[modelName];
+    if (!price) {
+      return 0;
+    }
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+  }
+
+  public static isPriced(prices: Record<string, ModelPrice>, modelName: string): boolean {
+    const price = prices[modelName];
+    return !!price && (price.input > 0 || price.output > 0);
+  }
+
+  public static dayKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  public async record(
+    usage: Omit<UsageRecord, 'cost' | 'timestamp'>,
+    prices: Record<string, ModelPrice>,
+    timestamp: Date = new Date()
+  ): Promise<UsageRecord> {
+    const record: UsageRecord = {
+      ...usage,
+      cost: UsageTracker.getCost(prices, usage.modelName, usage.inputTokens, usage.outputTokens),
+      timestamp
+    };
+
+    this.records.push(record);
+    if (this.records.length > UsageTracker.MAX_RECORDS) {
+      this.records = this.records.slice(-UsageTracker.MAX_RECORDS);
+    }
+
+    const day = UsageTracker.dayKey(timestamp);
+    let bucket = this.daily.find(entry =>
+      entry.day === day && entry.agentId === record.agentId && entry.provider === record.provider && entry.modelName === record.modelName
+    );
+    if (!bucket) {
+      bucket = { day, agentId: record.agentId, provider: record.provider, modelName: record.modelName, ...this.emptyTotals() };
+      this.daily.push(bucket);
+    }
+    this.addTo(bucket, record);
+
+    await this.persistUsage();
+    return record;
+  }
+
+  /**
+   * Recent responses newest first, optionally limited to one agent.
+   */
+  public getRecords(agentId?: string): UsageRecord[] {
+    const records = agentId ? this.records.filter(record => record.agentId === agentId) : this.records;
+    return [...records].reverse();
+  }
+
+  /**
+   * Totals from the given day on (all history by default), optionally limited to one agent.
+   */
+  public getSummary(since?: Date, agentId?: string): UsageSummary {
+    const sinceDay = since ? UsageTracker.dayKey(since) : '';
+    const summary: UsageSummary = { total: this.emptyTotals(), byAgent: {}, byProvider: {}, byDay: {} };
+
+    for (const bucket of this.daily) {
+      if (bucket.day < sinceDay || (agentId && bucket.agentId !== agentId)) {
+        continue;
+      }
+      this.addTo(summary.total, bucket);
+      this.addTo(summary.byAgent[bucket.agentId] ??= this.emptyTotals(), bucket);
+      this.addTo(summary.byProvider[bucket.provider] ??= this.emptyTotals(), bucket);
+      this.addTo(summary.byDay[bucket.day] ??= this.emptyTotals(), bucket);
+    }
+    return summary;
+  }
+
+  public getMonthTotals(agentId?: string, now: Date = new Date()): UsageTotals {
+    return this.getSummary(new Date(now.getFullYear(), now.getMonth(), 1), agentId).total;
+  }
+
+  private emptyTotals(): UsageTotals {
+    return { inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0, requests: 0 };
+  }
+
+  private addTo(totals: UsageTotals, usage: UsageRecord | UsageTotals): void {
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.totalTokens += usage.inputTokens + usage.outputTokens;
+    totals.cost += usage.cost;
+    totals.requests += 'requests' in usage ? usage.requests : 1;
+  }
+
+  private loadPersistedUsage(): void {
+    if (!this.context) return;
+
+    try {
+      const persisted = this.context.globalState.get<{ records?: UsageRecord[]; daily?: DailyUsage[] }>(UsageTracker.STORAGE_KEY, {}) || {};
+      this.records = (persisted.records || []).map(record => ({ ...record, timestamp: new Date(record.timestamp) }));
+      this.daily = persisted.daily || [];
+    } catch (error) {
+      console.error('Error loading usage history:', error);
+    }
+  }
+
+  private async persistUsage(): Promise<void> {
+    if (!this.context) return;
+
+    try {
+      await this.context.globalState.update(UsageTracker.STORAGE_KEY, { records: this.records, daily: this.daily });
+    } catch (error) {
+      console.error('Error persisting usage history:', error);
+    }
+  }
+}
@@ -0,0 +1,337 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { AgentConfig } from '@/shared/types';
+import { AgentService } from '@/agents/AgentService';
+import { AgentManager } from '@/extension/AgentManager';
+import { debugLogger } from '@/utils/logger';
+
+// A value asked for when the workflow starts, used in prompts as {{inputs.<name>}}
+export interface WorkflowInput {
+  name: string;
+  prompt: string;
+  default?: string;
+}
+
+export interface WorkflowStep {
+  id: string;
+  agent: string; // Agent name
+  prompt: string; // May use {{inputs.<name>}}, {{steps.<id>.output}} and {{previous.output}}
+  stopWhen?: string; // Regular expression; the workflow ends here when the agent's reply matches
+  continueOnError?: boolean;
+}
+
+export interface WorkflowDefinition {
+  name: string;
+  description?: string;
+  inputs: WorkflowInput[];
+  steps: WorkflowStep[];
+  filePath?: string;
+}
+
+export type WorkflowStepStatus = 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface WorkflowStepEvent {
+  runId: string;
+  workflowName: string;
+  stepIndex: number;
+  stepCount: number;
+  stepId: string;
+  agentId?: string;
+  agentName: string;
+  status: WorkflowStepStatus;
+  prompt?: string;
+  output?: string;
+  error?: string;
+}
+
+export interface WorkflowStepResult {
+  id: string;
+  agentName: string;
+  status: WorkflowStepStatus;
+  output?: string;
+  error?: string;
+}
+
+export interface WorkflowResult {
+  runId: string;
+  workflowName: string;
+  status: 'completed' | 'stopped' | 'failed' | 'cancelled';
+  steps: WorkflowStepResult[];
+  stoppedAt?: string; // Step that ended the run early
+}
+
+/**
+ * Runs workflow files from .vscode/ai-agents/workflows: agents take turns on
+ * a task, each step's prompt built from the workflow inputs and the outputs
+ * of earlier steps. Workflows are JSON or YAML files with the same fields.
+ */
+export class WorkflowRunner {
+  public static readonly WORKFLOW_DIRECTORY = path.join('.vscode', 'ai-agents', 'workflows');
+  private static readonly TEMPLATE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+  private stepListeners: Array<(event: WorkflowStepEvent) => void> = [];
+  private activeRuns: Map<string, { cancelled: boolean; agentId?: string }> = new Map();
+
+  constructor(
+    private agentService: AgentService,
+    private agentManager: Pick<AgentManager, 'listAgents'>
+  ) {}
+
+  /**
+   * Reads every *.json, *.yaml and *.yml workflow in the workspace. Files
+   * that don't parse are reported in errors rather than failing the rest.
+   */
+  public static loadWorkflows(workspaceRoot: string): { workflows: WorkflowDefinition[]; errors: string[] } {
+    const directory = path.join(workspaceRoot, WorkflowRunner.WORKFLOW_DIRECTORY);
+    const workflows: WorkflowDefinition[] = [];
+    const errors: string[] = [];
+    if (!fs.existsSync(directory)) {
+      return { workflows, errors };
+    }
+
+    const fileNames = fs.readdirSync(directory).sort();
+    for (const fileName of fileNames.filter(name => /\.(json|ya?ml)$/i.test(name))) {
+      const filePath = path.join(directory, fileName);
+      const format = /\.json$/i.test(fileName) ? 'json' : 'yaml';
+      try {
+        workflows.push({ ...WorkflowRunner.parseWorkflow(fs.readFileSync(filePath, 'utf8'), format), filePath });
+      } catch (error) {
+        errors.push(`${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return { workflows, errors };
+  }
+
+  public static parseWorkflow(text: string, format: 'json' | 'yaml' = 'json'): WorkflowDefinition {
+    const raw: any = format === 'json' ? JSON.parse(text) : WorkflowRunner.parseYaml(text);
+    if (!raw || typeof raw !== 'object' || typeof raw.name !== 'string' || !raw.name.trim()) {
+      throw new Error('a workflow needs a "name"');
+    }
+    if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+      throw new Error('a workflow needs at least one step in "steps"');
+    }
+
+    const inputs: WorkflowInput[] = (Array.isArray(raw.inputs) ? raw.inputs : []).map((input: any, index: number) => {
+      if (typeof input?.name !== 'string' || !/^[\w-]+$/.test(input.name)) {
+        throw new Error(`input ${index + 1} needs a "name" made of letters, digits, _ or -`);
+      }
+      return {
+        name: input.name,
+        prompt: typeof input.prompt === 'string' ? input.prompt : input.name,
+        default: typeof input.default === 'string' ? input.default : undefined
+      };
+    });
+
+    const stepIds = new Set<string>();
+    const steps: WorkflowStep[] = raw.steps.map((step: any, index: number) => {
+      const id = typeof step?.id === 'string' && step.id.trim() ? step.id.trim() : `step${index + 1}`;
+      if (typeof step?.agent !== 'string' || !step.agent.trim()) {
+        throw new Error(`step "${id}" needs an "agent"`);
+      }
+      if (typeof step.prompt !== 'string' || !step.prompt.trim()) {
+        throw new Error(`step "${id}" needs a "prompt"`);
+      }
+      if (stepIds.has(id)) {
+        throw new Error(`step id "${id}" is used twice`);
+      }
+      if (step.stopWhen !== undefined) {
+        try {
+          new RegExp(step.stopWhen);
+        } catch {
+          throw new Error(`step "${id}" has an invalid "stopWhen" pattern`);
+        }
+      }
+
+      // Prompts may only use inputs and steps that come before them
+      for (const [, reference] of step.prompt.matchAll(WorkflowRunner.TEMPLATE_PATTERN)) {
+        const [scope, name, field] = reference.split('.');
+        const valid = (scope === 'inputs' && inputs.some(input => input.name === name) && field === undefined)
+          || (scope === 'steps' && stepIds.has(name) && field === 'output')
+          || (reference === 'previous.output' && index > 0);
+        if (!valid) {
+          throw new Error(`step "${id}" uses {{${reference}}}, which is not an input or an earlier step's output`);
+        }
+      }
+
+      stepIds.add(id);
+      return {
+        id,
+        agent: step.agent.trim(),
+        prompt: step.prompt,
+        stopWhen: step.stopWhen,
+        continueOnError: step.continueOnError === true
+      };
+    });
+
+    return { name: raw.name.trim(), description: typeof raw.description === 'string' ? raw.description : undefined, inputs, steps };
+  }
+
+  // The JSON schema keeps values such as "2024-01-01" or "yes" as strings
+  private static parseYaml(text: string): unknown {
+    try {
+      return yaml.load(text, { schema: yaml.JSON_SCHEMA });
+    } catch (error) {
+      if (error instanceof yaml.YAMLException) {
+        throw new Error(`invalid YAML: ${error.reason}${error.mark ? ` at line ${error.mark.line + 1}` : ''}`);
+      }
+      throw error;
+    }
+  }
+
+  // Writes a starter workflow to show the format, returning its path
+  public static createExampleWorkflow(workspaceRoot: string): string {
+    const directory = path.join(workspaceRoot, WorkflowRunner.WORKFLOW_DIRECTORY);
+    const filePath = path.join(directory, 'implement-test-review.json');
+    fs.mkdirSync(directory, { recursive: true });
+    if (!fs.existsSync(filePath)) {
+      const example = {
+        name: 'Implement, test and review',
+        description: 'An engineer writes the code, a tester covers it and a reviewer checks both',
+        inputs: [{ name: 'feature', prompt: 'What should be built?' }],
+        steps: [
+          { id: 'implement', agent: 'Engineer', prompt: 'Implement this feature:\n{{inputs.feature}}' },
+          { id: 'test', agent: 'Tester', prompt: 'Write tests for this change:\n{{steps.implement.output}}' },
+          {
+            id: 'review',
+            agent: 'Reviewer',
+            prompt: 'Review the change and its tests. Start your reply with APPROVED if they can ship.\n\n{{steps.implement.output}}\n\n{{steps.test.output}}',
+            // Anchored, so "NOT APPROVED" doesn't end the workflow
+            stopWhen: '^\\W*APPROVED\\b'
+          },
+          { id: 'fix', agent: 'Engineer', prompt: 'Address this review:\n{{steps.review.output}}' }
+        ]
+      };
+      fs.writeFileSync(filePath, JSON.stringify(example, null, 2) + '\n', 'utf8');
+    }
+    return filePath;
+  }
+
+  public onStepProgress(listener: (event: WorkflowStepEvent) => void): () => void {
+    this.stepListeners.push(listener);
+    return () => {
+      this.stepListeners = this.stepListeners.filter(l => l !== listener);
+    };
+  }
+
+  public async run(
+    workflow: WorkflowDefinition,
+    inputs: Record<string, string>,
+    runId: string = `workflow-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`
+  ): Promise<WorkflowResult> {
+    const run: { cancelled: boolean; agentId?: string } = { cancelled: false };
+    this.activeRuns.set(runId, run);
+    const result: WorkflowResult = { runId, workflowName: workflow.name, status: 'completed', steps: [] };
+    const outputs: Record<string, string> = {};
+    let previous = '';
+
+    debugLogger.log('🔀 WORKFLOW: Starting', { runId, workflow: workflow.name, steps: workflow.steps.length });
+
+    try {
+      for (const [index, step] of workflow.steps.entries()) {
+        const event = {
+          runId,
+          workflowName: workflow.name,
+          stepIndex: index,
+          stepCount: workflow.steps.length,
+          stepId: step.id,
+          agentName: step.agent
+        };
+
+        if (result.status !== 'completed' || run.cancelled) {
+          if (run.cancelled && result.status === 'completed') {
+            result.status = 'cancelled';
+          }
+          result.steps.push({ id: step.id, agentName: step.agent, status: 'skipped' });
+          this.notifyStep({ ...event, status: 'skipped' });
+          continue;
+        }
+
+        const agent = this.findAgent(step.agent);
+        const prompt = WorkflowRunner.render(step.prompt, inputs, outputs, previous);
+        this.notifyStep({ ...event, agentId: agent?.id, agentName: agent?.name ?? step.agent, status: 'running', prompt });
+
+        try {
+          if (!agent) {
+            throw new Error(`No active agent named "${step.agent}"`);
+          }
+          if (run.cancelled) {
+            throw new Error('Cancelled');
+          }
+          run.agentId = agent.id;
+          const stepRun = await this.agentService.processMessageAndWait(agent, prompt);
+          const failedTasks = stepRun.tasks.filter(task => task.result && !task.result.success).length;
+          if (failedTasks > 0) {
+            throw Object.assign(new Error(`${failedTasks} task(s) failed`), { output: stepRun.output });
+          }
+
+          outputs[step.id] = previous = stepRun.output;
+          result.steps.push({ id: step.id, agentName: agent.name, status: 'completed', output: stepRun.output });
+          this.notifyStep({ ...event, agentId: agent.id, agentName: agent.name, status: 'completed', output: stepRun.output });
+
+          if (step.stopWhen && new RegExp(step.stopWhen, 'i').test(stepRun.reply)) {
+            result.status = 'stopped';
+            result.stoppedAt = step.id;
+          }
+        } catch (error: any) {
+          const message = error instanceof Error ? error.message : String(error);
+          const output: string | undefined = error?.output;
+          result.steps.push({ id: step.id, agentName: agent?.name ?? step.agent, status: 'failed', output, error: message });
+          this.notifyStep({ ...event, agentId: agent?.id, agentName: agent?.name ?? step.agent, status: 'failed', output, error: message });
+
+          if (run.cancelled) {
+            result.status = 'cancelled';
+          } else if (step.continueOnError) {
+            outputs[step.id] = previous = output ?? `(${step.id} failed: ${message})`;
+          } else {
+            result.status = 'failed';
+            result.stoppedAt = step.id;
+          }
+        } finally {
+          run.agentId = undefined;
+        }
+      }
+    } finally {
+      this.activeRuns.delete(runId);
+    }
+
+    debugLogger.log('🔀 WORKFLOW: Finished', { runId, workflow: workflow.name, status: result.status, stoppedAt: result.stoppedAt });
+    return result;
+  }
+
+  // Stops the agent working on the current step and skips the rest
+  public cancel(runId: string): void {
+    const run = this.activeRuns.get(runId);
+    if (!run) {
+      return;
+    }
+    run.cancelled = true;
+    if (run.agentId) {
+      this.agentService.cancelStream(run.agentId);
+    }
+  }
+
+  private findAgent(name: string): AgentConfig | undefined {
+    const wanted = name.replace(/^@/, '').trim().toLowerCase();
+    return this.agentManager.listAgents().find(agent => agent.isActive && agent.name.trim().toLowerCase() === wanted);
+  }
+
+  private static render(template: string, inputs: Record<string, string>, outputs: Record<string, string>, previous: string): string {
+    return template.replace(WorkflowRunner.TEMPLATE_PATTERN, (_match, reference: string) => {
+      const [scope, name] = reference.split('.');
+      if (scope === 'inputs') return inputs[name] ?? '';
+      if (scope === 'steps') return outputs[name] ?? '';
+      return previous;
+    });
+  }
+
+  private notifyStep(event: WorkflowStepEvent): void {
+    for (const listener of this.stepListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Workflow listener failed:', error);
+      }
+    }
+  }
+}
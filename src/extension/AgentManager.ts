@@ -1,14 +1,18 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { AgentConfig, AgentType, AIProvider, AgentEvent, AgentEventType } from '@/shared/types';
 import { SettingsManager } from './SettingsManager';
 import { AvatarService } from '../services/AvatarService';
+import { AgentTemplateService } from '../services/AgentTemplateService';
+import { TaskCapabilities } from '../agents/TaskCapabilities';
 import { debugLogger } from '@/utils/logger';
 
 export class AgentManager {
   private context: vscode.ExtensionContext;
   private settingsManager: SettingsManager;
   private avatarService: AvatarService;
+  private templateService: AgentTemplateService;
   private agents: Map<string, AgentConfig> = new Map();
   private eventEmitter = new vscode.EventEmitter<AgentEvent>();
   private agentService: import('@/agents/AgentService').AgentService | null = null;
@@ -34,12 +38,22 @@ export class AgentManager {
     this.context = context;
     this.settingsManager = settingsManager;
     this.avatarService = AvatarService.getInstance(context);
+    this.templateService = new AgentTemplateService(
+      path.join(context.extensionPath, 'resources', 'templates'),
+      () => vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+    );
     this.loadPersistedAgents();
     this.setupAvatarEventHandlers();
   }
 
+  public getTemplateService(): AgentTemplateService {
+    return this.templateService;
+  }
+
   public setAgentService(agentService: import('@/agents/AgentService').AgentService): void {
     this.agentService = agentService;
+    // Surface task lifecycle (TASK_STARTED / TASK_COMPLETED) through onAgentEvent
+    agentService.onTaskEvent((type, task) => this.emitEvent(type, task.agentId, task));
   }
 
   public validateAgentName(name: string, excludeAgentId?: string): { isValid: boolean; error?: string } {
@@ -296,8 +310,13 @@ export class AgentManager {
   private async loadPersistedAgents(): Promise<void> {
     try {
       const persistedAgents = this.context.globalState.get<AgentConfig[]>('agents', []);
+      // Agents saved before capability lists were enforced list every capability they had so far
+      const migrateCapabilities = !this.context.globalState.get<boolean>('capabilityListsEnforced', false);
       
       for (const agent of persistedAgents) {
+        if (migrateCapabilities) {
+          agent.capabilities = TaskCapabilities.listUnlistedAsEnabled(agent);
+        }
         this.agents.set(agent.id, agent);
         
         // Mark avatar as in use (for any avatar type)
@@ -311,6 +330,11 @@ export class AgentManager {
         }
       }
       
+      if (migrateCapabilities) {
+        await this.persistAgents();
+        await this.context.globalState.update('capabilityListsEnforced', true);
+      }
+      
       debugLogger.log('Loaded persisted agents', { count: persistedAgents.length });
     } catch (error) {
       console.error('Error loading persisted agents:', error);
@@ -332,7 +356,7 @@ export class AgentManager {
     const models = {
       [AIProvider.ANTHROPIC]: 'claude-3-5-sonnet-20241022',
       [AIProvider.OPENAI]: 'gpt-4o',
-      [AIProvider.GOOGLE]: 'gemini-pro',
+      [AIProvider.GOOGLE]: 'gemini-1.5-pro',
       [AIProvider.OLLAMA]: 'llama3.1',
       [AIProvider.LM_STUDIO]: 'local-model'
     };
@@ -340,80 +364,10 @@ export class AgentManager {
     return models[provider] || models[AIProvider.ANTHROPIC];
   }
 
+  // Default prompts come from the built-in templates in resources/templates
   private getDefaultSystemPrompt(type: AgentType): string {
-    const prompts = {
-      [AgentType.CODE_REVIEWER]: `You are a senior code reviewer with expertise in software engineering best practices. Your role is to:
-
-- Review code for bugs, security vulnerabilities, and performance issues
-- Suggest improvements for readability and maintainability
-- Ensure adherence to coding standards and conventions
-- Provide constructive feedback with specific examples
-- Recommend refactoring opportunities when appropriate
-
-Always be thorough but constructive in your feedback.`,
-
-      [AgentType.DOCUMENTATION]: `You are a technical documentation specialist. Your role is to:
-
-- Create clear, comprehensive documentation for code and projects
-- Write user guides, API documentation, and technical specifications
-- Ensure documentation is up-to-date and accurate
-- Use appropriate formatting and structure
-- Make complex technical concepts accessible
-
-Focus on clarity and usability in all documentation.`,
-
-      [AgentType.DEVOPS]: `You are a DevOps engineer with expertise in deployment, infrastructure, and automation. Your role is to:
-
-- Help with Docker, Kubernetes, and containerization
-- Assist with CI/CD pipeline setup and optimization
-- Provide guidance on infrastructure as code
-- Help troubleshoot deployment and environment issues
-- Recommend best practices for scalability and reliability
-
-Focus on automation, reliability, and best practices.`,
-
-      [AgentType.TESTING]: `You are a quality assurance specialist focused on testing and test automation. Your role is to:
-
-- Write comprehensive test cases and test plans
-- Create unit tests, integration tests, and end-to-end tests
-- Identify edge cases and potential failure points
-- Recommend testing strategies and frameworks
-- Help with test automation and continuous testing
-
-Focus on thorough coverage and maintainable test code.`,
-
-      [AgentType.SOFTWARE_ENGINEER]: `You are a senior software engineer with expertise in full-stack development and system architecture. Your role is to:
-
-- DESIGN and IMPLEMENT complete software solutions from requirements to deployment
-- CREATE, MODIFY, and REFACTOR code across multiple languages and frameworks
-- ARCHITECT scalable and maintainable software systems
-- IMPLEMENT features, fix bugs, and optimize performance
-- WRITE clean, well-documented, and tested code
-- DESIGN database schemas and API interfaces
-- INTEGRATE third-party services and libraries
-- TROUBLESHOOT and DEBUG complex technical issues
-- FOLLOW software engineering best practices and design patterns
-
-IMPORTANT: You are an autonomous engineer who EXECUTES tasks directly. When asked to implement features, fix bugs, or build systems, you should:
-1. Analyze requirements and create implementation plans
-2. Write and modify code files using the provided task syntax
-3. Create necessary configurations, tests, and documentation
-4. Execute the work rather than just providing instructions
-
-Focus on delivering working, production-ready code solutions.`,
-
-      [AgentType.CUSTOM]: `You are an autonomous AI agent specialized in software development. Your role is to:
-
-- PERFORM coding tasks and problem-solving directly
-- CREATE, MODIFY, and MANAGE files and code automatically
-- EXECUTE commands and operations in the development environment
-- Provide explanations when requested, but prioritize direct action
-- Adapt to the specific needs of each project with hands-on assistance
-
-IMPORTANT: When users request file operations, code changes, or development tasks, you should EXECUTE them directly using the provided task syntax rather than just providing instructions. You are an autonomous agent, not just a consultant.`
-    };
-
-    return prompts[type] || prompts[AgentType.CUSTOM];
+    const template = this.templateService.getBuiltInTemplate(type) ?? this.templateService.getBuiltInTemplate(AgentType.CUSTOM);
+    return template?.systemPrompt ?? 'You are a helpful AI assistant specialized in software development.';
   }
 
   private setupAvatarEventHandlers(): void {
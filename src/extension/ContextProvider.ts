@@ -2,12 +2,18 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { ProjectContext, GitInfo, FileNode, PackageInfo } from '@/shared/types';
+import { CodebaseIndex } from '@/services/CodebaseIndex';
 
 export class ContextProvider {
   private context: ProjectContext | null = null;
   private watchers: vscode.FileSystemWatcher[] = [];
+  private codebaseIndex: CodebaseIndex | null = null;
 
   constructor() {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (workspaceFolders && workspaceFolders.length > 0) {
+      this.codebaseIndex = new CodebaseIndex(workspaceFolders[0].uri.fsPath);
+    }
     this.refreshWorkspaceContext();
     this.setupWatchers();
   }
@@ -19,6 +25,10 @@ export class ContextProvider {
     return this.context;
   }
 
+  public getCodebaseIndex(): CodebaseIndex | null {
+    return this.codebaseIndex;
+  }
+
   public async refreshWorkspaceContext(): Promise<void> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders || workspaceFolders.length === 0) {
@@ -277,9 +287,18 @@ export class ContextProvider {
       false  // Don't ignore deletes
     );
 
-    fileWatcher.onDidCreate(() => this.refreshWorkspaceContext());
-    fileWatcher.onDidChange(() => this.refreshWorkspaceContext());
-    fileWatcher.onDidDelete(() => this.refreshWorkspaceContext());
+    fileWatcher.onDidCreate(uri => {
+      this.refreshWorkspaceContext();
+      this.codebaseIndex?.updateFile(uri.fsPath);
+    });
+    fileWatcher.onDidChange(uri => {
+      this.refreshWorkspaceContext();
+      this.codebaseIndex?.updateFile(uri.fsPath);
+    });
+    fileWatcher.onDidDelete(uri => {
+      this.refreshWorkspaceContext();
+      this.codebaseIndex?.removeFile(uri.fsPath);
+    });
 
     this.watchers.push(fileWatcher);
 
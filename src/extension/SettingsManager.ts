@@ -1,5 +1,9 @@
 import * as vscode from 'vscode';
-import { ExtensionSettings, AIProvider, HelperBrainSettings } from '@/shared/types';
+import { ExtensionSettings, AIProvider, HelperBrainSettings, CommandExecutionSettings, CommandPolicySettings, AgentLoopSettings, OllamaSettings, UsageSettings, ModelPrice, ResponseCacheSettings, CodebaseIndexSettings, SharedFileSettings, DelegationSettings } from '@/shared/types';
+import { CommandPolicy } from '@/agents/CommandPolicy';
+import { OpenAICompatibleProvider } from '@/providers/OpenAICompatibleProvider';
+import { OllamaProvider } from '@/providers/OllamaProvider';
+import { UsageTracker } from '@/agents/UsageTracker';
 
 export class SettingsManager {
   private context: vscode.ExtensionContext;
@@ -29,8 +33,145 @@ export class SettingsManager {
       logLevel: config.get<'none' | 'error' | 'warn' | 'info' | 'debug'>('logLevel', 'info'),
       dataRetentionDays: config.get<number>('dataRetentionDays', 30),
       requireConfirmation: config.get<boolean>('requireConfirmation', true),
+      nativeToolCalling: config.get<boolean>('nativeToolCalling', true) !== false,
+      openAICompatibleBaseUrl: this.loadOpenAICompatibleBaseUrl(config),
+      ollama: this.loadOllamaSettings(config),
+      contextWindows: this.loadContextWindows(config),
       allowTelemetry: config.get<boolean>('allowTelemetry', false),
-      helperBrain: this.loadHelperBrainSettings(config)
+      helperBrain: this.loadHelperBrainSettings(config),
+      commandExecution: this.loadCommandExecutionSettings(config),
+      commandPolicy: this.loadCommandPolicySettings(config),
+      usage: this.loadUsageSettings(config),
+      agentLoop: this.loadAgentLoopSettings(config),
+      delegation: this.loadDelegationSettings(config),
+      responseCache: this.loadResponseCacheSettings(config),
+      codebaseIndex: this.loadCodebaseIndexSettings(config),
+      sharedFiles: this.loadSharedFileSettings(config)
+    };
+  }
+
+  private loadCommandExecutionSettings(config: vscode.WorkspaceConfiguration): CommandExecutionSettings {
+    return {
+      mode: config.get<'terminal' | 'capture'>('commandExecution.mode', 'terminal'),
+      timeoutMs: config.get<number>('commandExecution.timeoutMs', 120000),
+      maxOutputChars: config.get<number>('commandExecution.maxOutputChars', 20000)
+    };
+  }
+
+  private loadOpenAICompatibleBaseUrl(config: vscode.WorkspaceConfiguration): string {
+    const baseUrl = config.get<string>('openaiCompatible.baseUrl', OpenAICompatibleProvider.DEFAULT_BASE_URL);
+    return typeof baseUrl === 'string' && baseUrl.trim() ? baseUrl.trim() : OpenAICompatibleProvider.DEFAULT_BASE_URL;
+  }
+
+  private loadOllamaSettings(config: vscode.WorkspaceConfiguration): OllamaSettings {
+    const baseUrl = config.get<string>('ollama.baseUrl', OllamaProvider.DEFAULT_BASE_URL);
+    const configuredHosts = config.get<Record<string, string>>('ollama.hosts', {});
+    const hosts: Record<string, string> = {};
+    if (configuredHosts && typeof configuredHosts === 'object') {
+      for (const [name, url] of Object.entries(configuredHosts)) {
+        if (typeof url === 'string' && url.trim()) {
+          hosts[name] = url.trim();
+        }
+      }
+    }
+    return {
+      baseUrl: typeof baseUrl === 'string' && baseUrl.trim() ? baseUrl.trim() : OllamaProvider.DEFAULT_BASE_URL,
+      hosts
+    };
+  }
+
+  private loadCommandPolicySettings(config: vscode.WorkspaceConfiguration): CommandPolicySettings {
+    const defaults = CommandPolicy.DEFAULT_SETTINGS;
+    const patterns = (key: string, fallback: string[]): string[] => {
+      const value = config.get<string[]>(`commandPolicy.${key}`, fallback);
+      return Array.isArray(value) ? value.filter(pattern => typeof pattern === 'string') : [...fallback];
+    };
+    const defaultAction = config.get<string>('commandPolicy.defaultAction', defaults.defaultAction);
+    return {
+      allow: patterns('allow', defaults.allow),
+      ask: patterns('ask', defaults.ask),
+      deny: patterns('deny', defaults.deny),
+      defaultAction: defaultAction === 'ask' || defaultAction === 'deny' ? defaultAction : 'allow'
+    };
+  }
+
+  private loadContextWindows(config: vscode.WorkspaceConfiguration): Record<string, number> {
+    const configured = config.get<Record<string, number>>('contextWindows', {});
+    const contextWindows: Record<string, number> = {};
+    if (configured && typeof configured === 'object') {
+      for (const [modelName, size] of Object.entries(configured)) {
+        if (Number.isInteger(size) && size > 0) {
+          contextWindows[modelName] = size;
+        }
+      }
+    }
+    return contextWindows;
+  }
+
+  private loadUsageSettings(config: vscode.WorkspaceConfiguration): UsageSettings {
+    // Entries from settings are added to, or replace, the built-in prices
+    const prices: Record<string, ModelPrice> = { ...UsageTracker.DEFAULT_PRICES };
+    const configuredPrices = config.get<Record<string, ModelPrice>>('usage.prices', {});
+    if (configuredPrices && typeof configuredPrices === 'object') {
+      for (const [modelName, price] of Object.entries(configuredPrices)) {
+        if (price && typeof price.input === 'number' && typeof price.output === 'number') {
+          prices[modelName] = { input: price.input, output: price.output };
+        }
+      }
+    }
+    const monthlyBudget = config.get<number>('usage.monthlyBudget', 0);
+    const budgetAction = config.get<string>('usage.budgetAction', 'warn');
+    return {
+      prices,
+      monthlyBudget: typeof monthlyBudget === 'number' && monthlyBudget > 0 ? monthlyBudget : 0,
+      budgetAction: budgetAction === 'block' ? 'block' : 'warn'
+    };
+  }
+
+  private loadAgentLoopSettings(config: vscode.WorkspaceConfiguration): AgentLoopSettings {
+    const maxSteps = config.get<number>('agentLoop.maxSteps', 5);
+    const maxObservationChars = config.get<number>('agentLoop.maxObservationChars', 8000);
+    return {
+      maxSteps: Number.isInteger(maxSteps) && maxSteps >= 1 ? maxSteps : 5,
+      maxObservationChars: typeof maxObservationChars === 'number' && maxObservationChars > 0 ? maxObservationChars : 8000
+    };
+  }
+
+  private loadDelegationSettings(config: vscode.WorkspaceConfiguration): DelegationSettings {
+    const maxDepth = config.get<number>('delegation.maxDepth', 2);
+    return {
+      maxDepth: Number.isInteger(maxDepth) && maxDepth >= 0 ? maxDepth : 2
+    };
+  }
+
+  private loadResponseCacheSettings(config: vscode.WorkspaceConfiguration): ResponseCacheSettings {
+    const maxEntries = config.get<number>('cache.maxEntries', 500);
+    const maxSizeMB = config.get<number>('cache.maxSizeMB', 5);
+    const ttlMinutes = config.get<number>('cache.ttlMinutes', 1440);
+    return {
+      enabled: config.get<boolean>('enableCaching', true) !== false,
+      maxEntries: Number.isInteger(maxEntries) && maxEntries >= 1 ? maxEntries : 500,
+      maxSizeMB: typeof maxSizeMB === 'number' && maxSizeMB > 0 ? maxSizeMB : 5,
+      ttlMinutes: typeof ttlMinutes === 'number' && ttlMinutes > 0 ? ttlMinutes : 1440
+    };
+  }
+
+  private loadCodebaseIndexSettings(config: vscode.WorkspaceConfiguration): CodebaseIndexSettings {
+    const embeddingModel = config.get<string>('codebaseIndex.embeddingModel', '');
+    const maxResults = config.get<number>('codebaseIndex.maxResults', 5);
+    return {
+      enabled: config.get<boolean>('codebaseIndex.enabled', false) === true,
+      embeddingModel: typeof embeddingModel === 'string' ? embeddingModel.trim() : '',
+      maxResults: Number.isInteger(maxResults) && maxResults >= 0 ? maxResults : 5
+    };
+  }
+
+  private loadSharedFileSettings(config: vscode.WorkspaceConfiguration): SharedFileSettings {
+    const maxTokensPerFile = config.get<number>('sharedFiles.maxTokensPerFile', 4000);
+    const maxTotalTokens = config.get<number>('sharedFiles.maxTotalTokens', 12000);
+    return {
+      maxTokensPerFile: Number.isInteger(maxTokensPerFile) && maxTokensPerFile > 0 ? maxTokensPerFile : 4000,
+      maxTotalTokens: Number.isInteger(maxTotalTokens) && maxTotalTokens > 0 ? maxTotalTokens : 12000
     };
   }
 
@@ -40,9 +181,11 @@ export class SettingsManager {
       useAgentProvider: config.get<boolean>('helperBrain.useAgentProvider', true),
       provider: config.get<AIProvider>('helperBrain.provider', AIProvider.ANTHROPIC),
       modelName: config.get<string>('helperBrain.modelName', 'claude-3-5-sonnet-20241022'),
-      temperature: config.get<number>('helperBrain.temperature', 0.3),
+      // Classification is deterministic so repeated messages can be answered from the response cache
+      temperature: config.get<number>('helperBrain.temperature', 0),
       maxTokens: config.get<number>('helperBrain.maxTokens', 1000),
-      systemPrompt: config.get<string>('helperBrain.systemPrompt', '')
+      systemPrompt: config.get<string>('helperBrain.systemPrompt', ''),
+      summarizeConversations: config.get<boolean>('helperBrain.summarizeConversations', false) === true
     };
   }
 
@@ -115,7 +258,11 @@ export class SettingsManager {
   }
 
   public shouldRequireConfirmation(): boolean {
-    return this.settings.requireConfirmation;
+    return this.settings.requireConfirmation === true;
+  }
+
+  public shouldUseNativeToolCalling(): boolean {
+    return this.settings.nativeToolCalling;
   }
 
   public isAnimationEnabled(): boolean {
@@ -145,4 +292,49 @@ export class SettingsManager {
   public getHelperBrainSettings(): HelperBrainSettings {
     return { ...this.settings.helperBrain };
   }
+
+  public getCommandExecutionSettings(): CommandExecutionSettings {
+    return { ...this.settings.commandExecution };
+  }
+
+  public getOpenAICompatibleBaseUrl(): string {
+    return this.settings.openAICompatibleBaseUrl;
+  }
+
+  public getOllamaSettings(): OllamaSettings {
+    return { baseUrl: this.settings.ollama.baseUrl, hosts: { ...this.settings.ollama.hosts } };
+  }
+
+  public getContextWindows(): Record<string, number> {
+    return { ...this.settings.contextWindows };
+  }
+
+  public getCommandPolicySettings(): CommandPolicySettings {
+    const policy = this.settings.commandPolicy;
+    return { ...policy, allow: [...policy.allow], ask: [...policy.ask], deny: [...policy.deny] };
+  }
+
+  public getAgentLoopSettings(): AgentLoopSettings {
+    return { ...this.settings.agentLoop };
+  }
+
+  public getDelegationSettings(): DelegationSettings {
+    return { ...this.settings.delegation };
+  }
+
+  public getUsageSettings(): UsageSettings {
+    return { ...this.settings.usage, prices: { ...this.settings.usage.prices } };
+  }
+
+  public getResponseCacheSettings(): ResponseCacheSettings {
+    return { ...this.settings.responseCache };
+  }
+
+  public getCodebaseIndexSettings(): CodebaseIndexSettings {
+    return { ...this.settings.codebaseIndex };
+  }
+
+  public getSharedFileSettings(): SharedFileSettings {
+    return { ...this.settings.sharedFiles };
+  }
 }
\ No newline at end of file
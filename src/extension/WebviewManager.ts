@@ -1,35 +1,116 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { AgentManager } from './AgentManager';
 import { ContextProvider } from './ContextProvider';
+import { SettingsManager } from './SettingsManager';
 import { AgentService } from '@/agents/AgentService';
-import { AgentConfig } from '@/shared/types';
+import { JournalEntry } from '@/agents/ChangeJournal';
+import { UsageTotals } from '@/agents/UsageTracker';
+import { WorkflowRunner, WorkflowDefinition, WorkflowResult } from '@/agents/WorkflowRunner';
+import { AgentRouter } from '@/agents/AgentRouter';
+import { DiscussionRunner } from '@/agents/DiscussionRunner';
+import { AgentTemplateService } from '@/services/AgentTemplateService';
+import { AgentConfig, TaskStatus, DiscussionOptions } from '@/shared/types';
 import { debugLogger } from '@/utils/logger';
 
 export class WebviewManager {
   private context: vscode.ExtensionContext;
   private agentManager: AgentManager;
   private contextProvider: ContextProvider;
+  private settingsManager: SettingsManager;
   private agentService: AgentService;
+  private workflowRunner: WorkflowRunner;
+  private agentRouter: AgentRouter;
+  private discussionRunner: DiscussionRunner;
   private panel: vscode.WebviewPanel | null = null;
   private evaluationPanel: vscode.WebviewPanel | null = null;
 
   constructor(
     context: vscode.ExtensionContext,
     agentManager: AgentManager,
-    contextProvider: ContextProvider
+    contextProvider: ContextProvider,
+    settingsManager: SettingsManager
   ) {
     this.context = context;
     this.agentManager = agentManager;
     this.contextProvider = contextProvider;
+    this.settingsManager = settingsManager;
     this.agentService = new AgentService();
+    this.workflowRunner = new WorkflowRunner(this.agentService, this.agentManager);
+    this.discussionRunner = new DiscussionRunner(this.agentService);
+    // Classification runs on the first active agent's model, like the helper brain does for each agent
+    this.agentRouter = new AgentRouter(message => {
+      const [agent] = this.agentManager.listAgents().filter(a => a.isActive);
+      return this.agentService.classifyIntent(message, agent);
+    });
     debugLogger.log('WebviewManager initialized', { logPath: debugLogger.getLogPath() });
     this.initializeAgentService();
   }
 
   private async initializeAgentService(): Promise<void> {
     try {
-      this.agentService.setContext(this.context);
+      this.agentService.setContext(this.context, this.settingsManager);
+      this.agentService.setCodebaseIndex(this.contextProvider.getCodebaseIndex());
+      this.agentService.setAgentDirectory(() => this.agentManager.listAgents());
       this.agentManager.setAgentService(this.agentService);
+      this.agentService.onTaskEvent((_type, task) => {
+        this.panel?.webview.postMessage({
+          type: 'taskUpdate',
+          data: { agentId: task.agentId, task }
+        });
+      });
+      this.agentService.onCommandOutput(event => {
+        this.panel?.webview.postMessage({
+          type: 'commandOutput',
+          data: event
+        });
+      });
+      this.agentService.onCapabilityBlocked(event => {
+        this.panel?.webview.postMessage({
+          type: 'capabilityDisabled',
+          data: event
+        });
+      });
+      this.agentService.onModelFailover(event => {
+        this.panel?.webview.postMessage({
+          type: 'modelFailover',
+          data: event
+        });
+      });
+      this.agentService.onUsageRecorded(record => {
+        this.postAgentUsage(record.agentId);
+      });
+      this.agentService.onContextSummaryChanged(event => {
+        this.panel?.webview.postMessage({
+          type: 'contextSummary',
+          data: event
+        });
+      });
+      this.agentService.onSharedFileUsage(event => {
+        this.panel?.webview.postMessage({
+          type: 'sharedFileUsage',
+          data: event
+        });
+      });
+      this.agentService.onAgentDelegation(event => {
+        this.panel?.webview.postMessage({
+          type: 'agentDelegation',
+          data: event
+        });
+      });
+      this.workflowRunner.onStepProgress(event => {
+        this.panel?.webview.postMessage({
+          type: 'workflowStep',
+          data: event
+        });
+      });
+      this.discussionRunner.onTurn(event => {
+        this.panel?.webview.postMessage({
+          type: 'discussionTurn',
+          data: event
+        });
+      });
       await this.agentService.initialize();
     } catch (error) {
       console.error('Failed to initialize agent service:', error);
@@ -260,6 +341,21 @@ export class WebviewManager {
       case 'getConversationHistory':
         await this.handleGetConversationHistory(message.data);
         break;
+
+      case 'getAgentUsage':
+        this.postAgentUsage(message.data.agentId);
+        break;
+
+      case 'getContextSummary':
+        this.panel?.webview.postMessage({
+          type: 'contextSummary',
+          data: this.agentService.getContextSummary(message.data.agentId)
+        });
+        break;
+
+      case 'updateContextSummary':
+        this.agentService.updateContextSummary(message.data.agentId, message.data.summary || '');
+        break;
         
       case 'createAgent':
         await this.handleCreateAgent(message.data);
@@ -308,6 +404,26 @@ export class WebviewManager {
       case 'quickChatMessage':
         await this.handleQuickChatMessage(message.data);
         break;
+
+      case 'getAgentTemplates':
+        this.handleGetAgentTemplates();
+        break;
+
+      case 'importAgent':
+        await this.importAgent();
+        break;
+
+      case 'getTasks':
+        await this.handleGetTasks(message.data);
+        break;
+
+      case 'retryTask':
+        await this.handleRetryTask(message.data);
+        break;
+
+      case 'cancelTask':
+        await this.handleCancelTask(message.data);
+        break;
       
       default:
         console.warn('Unknown message type:', message.type);
@@ -513,7 +629,7 @@ export class WebviewManager {
             });
           }
 
-          // Log completion and trigger task execution
+          // Tasks in the response are run by AgentService.processMessage itself
           if (done) {
             debugLogger.log('Streaming completed', { 
               agentId, 
@@ -521,28 +637,9 @@ export class WebviewManager {
               finalChunkLength: chunk.length,
               accumulatedResponseLength: accumulatedResponse.length
             });
-            
-            // CRITICAL FIX: Execute tasks from the complete accumulated response
-            debugLogger.log('WebviewManager: About to trigger task execution', {
-              agentId,
-              responseLength: accumulatedResponse.length,
-              responsePreview: accumulatedResponse.substring(0, 200) + '...'
-            });
-            
-            // Post-process response to convert display text to task syntax if needed
-            const processedResponse = this.postProcessResponseForTasks(accumulatedResponse, message);
-            
-            debugLogger.log('WebviewManager: About to call executeTasksFromResponse', {
-              agentId,
-              originalResponseLength: accumulatedResponse.length,
-              processedResponseLength: processedResponse.length,
-              processedResponsePreview: processedResponse.substring(0, 300) + '...'
-            });
-            
-            // Execute tasks from the processed response
-            this.agentService.executeTasksFromResponse(agent, processedResponse).catch(error => {
-              debugLogger.log('WebviewManager: Task execution failed', { agentId, error });
-            });
+
+            // The agent may stream further responses after looking at task results
+            accumulatedResponse = '';
           }
         }
       );
@@ -589,75 +686,6 @@ export class WebviewManager {
     }
   }
 
-  private postProcessResponseForTasks(response: string, originalMessage: string): string {
-    // Check for complete, valid task syntax patterns, not just markers
-    const hasValidTaskSyntax = /\[(?:CREATE_FILE|EDIT_FILE|DELETE_FILE):[^\]]+\][\s\S]*?\[\/(?:CREATE_FILE|EDIT_FILE|DELETE_FILE)\]/.test(response);
-    
-    if (hasValidTaskSyntax) {
-      debugLogger.log('Response already contains complete task syntax, no post-processing needed');
-      return response;
-    }
-    
-    // Check if response contains incomplete task syntax markers (indicating corruption/streaming issues)
-    const hasIncompleteMarkers = response.includes('[CREATE_FILE:') || response.includes('[EDIT_FILE:') || response.includes('[DELETE_FILE:');
-    if (hasIncompleteMarkers && !hasValidTaskSyntax) {
-      debugLogger.log('Response contains incomplete task syntax markers, will post-process', {
-        responseLength: response.length,
-        responsePreview: response.substring(0, 200) + '...'
-      });
-    }
-
-    // Detect note-taking intent from original message
-    const noteTakingPhrases = ['get this', 'capture this', 'write this down', 'note this', 'log this', 'add this', 'remember this', 'save this', 'record this'];
-    const isNoteTaking = noteTakingPhrases.some(phrase => originalMessage.toLowerCase().includes(phrase));
-    
-    if (!isNoteTaking) {
-      debugLogger.log('No note-taking intent detected, returning original response');
-      return response;
-    }
-
-    // Extract the actual content the user wants to log
-    const contentMatch = originalMessage.match(/(?:get this|capture this|write this down|note this|log this|add this|remember this|save this|record this)(?:\s*[:\-]?\s*)(.+)/i);
-    const userContent = contentMatch ? contentMatch[1].trim() : originalMessage;
-
-    // Check if response looks like file display (markdown headers, file content preview)
-    const isDisplayText = response.includes('**thought_log.txt**') || 
-                         response.includes('# Thought Log') ||
-                         response.includes('## Entries') ||
-                         (response.includes('**') && response.length > 1000);
-
-    if (isDisplayText) {
-      debugLogger.log('Detected display text response, converting to task syntax', {
-        originalLength: response.length,
-        userContent: userContent,
-        isDisplayText: true
-      });
-
-      // Create context for AI to reason about the note-taking task
-
-      // Let the AI reason about the file structure instead of hardcoding assumptions
-      // Create a context-aware request that allows the AI to analyze and adapt
-      const contextAwareRequest = `The user wants to add this note: "${userContent}"
-      
-Please analyze the current structure of thought_log.txt and append this entry appropriately. If the file doesn't exist or has an unexpected structure, use your reasoning to either:
-1. Adapt to the existing structure, or 
-2. Ask the user how they'd prefer to proceed, or
-3. Create/modify the structure as needed
-
-Use the appropriate task syntax based on what you find.`;
-
-      debugLogger.log('Generated context-aware request for AI reasoning', {
-        contextAwareRequest: contextAwareRequest,
-        originalResponsePreview: response.substring(0, 200) + '...'
-      });
-
-      return contextAwareRequest;
-    }
-
-    debugLogger.log('Response does not appear to be display text, returning original');
-    return response;
-  }
-
   private async handleGetProjectContext(): Promise<void> {
     try {
       const projectContext = await this.contextProvider.getProjectContext();
@@ -907,14 +935,25 @@ Use the appropriate task syntax based on what you find.`;
     }
   }
 
-  private async handleGetAvailableModels(data: { provider: string }): Promise<void> {
+  private resolveOllamaUrl(host?: string): string {
+    const settings = this.settingsManager.getOllamaSettings();
+    if (!host) {
+      return settings.baseUrl;
+    }
+    if (!settings.hosts[host]) {
+      throw new Error(`Ollama host "${host}" is not defined in aiAgents.ollama.hosts`);
+    }
+    return settings.hosts[host];
+  }
+
+  private async handleGetAvailableModels(data: { provider: string; host?: string }): Promise<void> {
     try {
       let models: string[] = [];
       
       if (data.provider === 'ollama') {
-        // Get available Ollama models
+        // Get the models installed on the default server or the agent's named host
         const { OllamaProvider } = await import('@/providers/OllamaProvider');
-        const ollamaProvider = new OllamaProvider();
+        const ollamaProvider = new OllamaProvider(this.resolveOllamaUrl(data.host));
         
         if (await ollamaProvider.isAvailable()) {
           models = await ollamaProvider.getAvailableModels();
@@ -927,14 +966,23 @@ Use the appropriate task syntax based on what you find.`;
         models = ['claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307', 'claude-3-opus-20240229'];
       } else if (data.provider === 'openai') {
         models = ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'];
+      } else if (data.provider === 'google') {
+        // Lists the models available to the configured key, or the known ones without a key
+        const { GoogleProvider } = await import('@/providers/GoogleProvider');
+        models = await new GoogleProvider().getAvailableModels();
+      } else if (data.provider === 'lm_studio') {
+        const { OpenAICompatibleProvider } = await import('@/providers/OpenAICompatibleProvider');
+        models = await new OpenAICompatibleProvider(this.settingsManager.getOpenAICompatibleBaseUrl()).getAvailableModels();
       }
       
       this.panel?.webview.postMessage({
         type: 'availableModels',
         data: {
           provider: data.provider,
+          host: data.host,
+          hosts: data.provider === 'ollama' ? Object.keys(this.settingsManager.getOllamaSettings().hosts) : undefined,
           models: models,
-          message: models.length === 0 && data.provider === 'ollama' 
+          message: models.length === 0 && (data.provider === 'ollama' || data.provider === 'lm_studio')
             ? 'No local models are running' 
             : undefined
         }
@@ -945,6 +993,7 @@ Use the appropriate task syntax based on what you find.`;
         type: 'availableModels',
         data: {
           provider: data.provider,
+          host: data.host,
           models: [],
           error: error instanceof Error ? error.message : 'Failed to fetch models'
         }
@@ -952,14 +1001,14 @@ Use the appropriate task syntax based on what you find.`;
     }
   }
 
-  private async handleCheckModelStatus(data: { provider: string; modelName: string }): Promise<void> {
+  private async handleCheckModelStatus(data: { provider: string; modelName: string; host?: string }): Promise<void> {
     try {
       let isAvailable = false;
       let isLoaded = false;
       
       if (data.provider === 'ollama') {
         const { OllamaProvider } = await import('@/providers/OllamaProvider');
-        const ollamaProvider = new OllamaProvider();
+        const ollamaProvider = new OllamaProvider(this.resolveOllamaUrl(data.host));
         
         if (await ollamaProvider.isAvailable()) {
           const availableModels = await ollamaProvider.getAvailableModels();
@@ -1021,7 +1070,7 @@ Use the appropriate task syntax based on what you find.`;
     }
   }
 
-  private async handleQuickChatMessage(data: { message: string; targetAgent?: string }): Promise<void> {
+  private async handleQuickChatMessage(data: { message: string; targetAgent?: string; discussion?: DiscussionOptions }): Promise<void> {
     try {
       debugLogger.log('handleQuickChatMessage called', data);
       
@@ -1038,43 +1087,26 @@ Use the appropriate task syntax based on what you find.`;
         });
         return;
       }
-      
-      let targetAgents: string[] = [];
-      
-      // Check for @everyone mention
-      if (data.message.includes('@everyone')) {
-        targetAgents = activeAgents.map(agent => agent.id);
-        debugLogger.log('Sending message to all agents via @everyone', { count: targetAgents.length });
-      } 
-      // Check for specific agent mention
-      else if (data.message.includes('@')) {
-        const atMentionMatch = data.message.match(/@(\w+)/);
-        if (atMentionMatch) {
-          const mentionedAgentName = atMentionMatch[1];
-          const mentionedAgent = activeAgents.find(agent => 
-            agent.name.toLowerCase().includes(mentionedAgentName.toLowerCase())
-          );
-          if (mentionedAgent) {
-            targetAgents = [mentionedAgent.id];
-            debugLogger.log('Found mentioned agent', { agentName: mentionedAgent.name });
-          }
-        }
-      }
-      // Use specifically selected target agent
-      else if (data.targetAgent) {
-        const targetAgent = activeAgents.find(agent => agent.id === data.targetAgent);
-        if (targetAgent) {
-          targetAgents = [data.targetAgent];
-          debugLogger.log('Using specifically selected agent', { agentName: targetAgent.name });
-        }
-      }
-      
-      // If no specific targeting, use context-based selection (pick first active agent for now)
-      if (targetAgents.length === 0) {
-        targetAgents = [activeAgents[0].id];
-        debugLogger.log('No specific targeting, using first active agent', { agentName: activeAgents[0].name });
+
+      if (data.discussion) {
+        await this.runDiscussion(data.message, activeAgents, data.discussion);
+        return;
       }
       
+      const routing = await this.agentRouter.route(data.message, activeAgents, data.targetAgent);
+      const targetAgents = routing.agents.map(agent => agent.id);
+      debugLogger.log('Quick chat routed', { agents: routing.agents.map(agent => agent.name), explanation: routing.explanation });
+
+      // Say why these agents answer before their replies arrive
+      this.panel?.webview.postMessage({
+        type: 'quickChatRouting',
+        data: {
+          agentIds: targetAgents,
+          explanation: routing.explanation,
+          timestamp: new Date().toISOString()
+        }
+      });
+
       // Send message to each target agent
       for (const agentId of targetAgents) {
         const agent = activeAgents.find(a => a.id === agentId);
@@ -1108,6 +1140,437 @@ Use the appropriate task syntax based on what you find.`;
     }
   }
 
+  private async runDiscussion(topic: string, activeAgents: AgentConfig[], options: DiscussionOptions): Promise<void> {
+    // The mentioned agents take part, or everyone when fewer than two are mentioned
+    const mentioned = AgentRouter.resolveMentions(topic, activeAgents).agents;
+    const participants = mentioned.length >= 2 ? mentioned : [...activeAgents];
+    const chosenModerator = activeAgents.find(agent => agent.id === options.moderatorId);
+    if (chosenModerator && !participants.includes(chosenModerator)) {
+      participants.push(chosenModerator);
+    }
+    const moderator = DiscussionRunner.getModerator(participants, options.moderatorId);
+
+    this.panel?.webview.postMessage({
+      type: 'quickChatRouting',
+      data: {
+        agentIds: participants.map(agent => agent.id),
+        explanation: `Round table with ${participants.map(agent => agent.name).join(', ')} for ${DiscussionRunner.clampRounds(options.rounds)} round(s); ${moderator.name} moderates and gives the final answer.`,
+        timestamp: new Date().toISOString()
+      }
+    });
+
+    await this.discussionRunner.run(topic, participants, options);
+  }
+
+  private async handleGetTasks(data: { agentId?: string }): Promise<void> {
+    this.panel?.webview.postMessage({
+      type: 'taskList',
+      data: {
+        agentId: data?.agentId,
+        tasks: this.agentService.getTasks(data?.agentId)
+      }
+    });
+  }
+
+  private async handleRetryTask(data: { taskId: string }): Promise<void> {
+    const task = this.agentService.getTasks().find(t => t.id === data.taskId);
+    const agent = task ? this.agentManager.getAgent(task.agentId) : undefined;
+    if (!task || !agent) {
+      vscode.window.showErrorMessage('Task or agent not found');
+      return;
+    }
+
+    const retried = await this.agentService.retryTask(agent, task.id);
+    if (retried.length === 0) {
+      vscode.window.showWarningMessage('Only failed or cancelled tasks can be retried');
+    }
+  }
+
+  private async handleCancelTask(data: { taskId: string }): Promise<void> {
+    const cancelled = await this.agentService.cancelTask(data.taskId);
+    if (!cancelled) {
+      vscode.window.showWarningMessage('Only pending tasks can be cancelled');
+    }
+  }
+
+  public async showTaskQueue(): Promise<void> {
+    const tasks = this.agentService.getTasks().slice().reverse();
+    if (tasks.length === 0) {
+      vscode.window.showInformationMessage('No agent tasks recorded yet');
+      return;
+    }
+
+    const statusIcons: { [status: string]: string } = {
+      [TaskStatus.PENDING]: '⏳',
+      [TaskStatus.IN_PROGRESS]: '🔄',
+      [TaskStatus.COMPLETED]: '✅',
+      [TaskStatus.FAILED]: '❌',
+      [TaskStatus.CANCELLED]: '⛔'
+    };
+
+    const picked = await vscode.window.showQuickPick(
+      tasks.map(task => ({
+        label: `${statusIcons[task.status] || ''} ${task.result?.output || task.type}`,
+        description: this.agentManager.getAgent(task.agentId)?.name || task.agentId,
+        detail: task.error ? `${task.status}: ${task.error.message}` : `${task.status} • ${new Date(task.createdAt).toLocaleString()}`,
+        task
+      })),
+      { placeHolder: 'Select a task to retry or cancel' }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const { task } = picked;
+    if (task.status === TaskStatus.FAILED || task.status === TaskStatus.CANCELLED) {
+      const action = await vscode.window.showInformationMessage(`Retry ${task.type} task?`, 'Retry');
+      if (action === 'Retry') {
+        await this.handleRetryTask({ taskId: task.id });
+      }
+    } else if (task.status === TaskStatus.PENDING) {
+      const action = await vscode.window.showWarningMessage(`Cancel ${task.type} task?`, 'Cancel Task');
+      if (action === 'Cancel Task') {
+        await this.handleCancelTask({ taskId: task.id });
+      }
+    }
+  }
+
+  public async undoLastAgentAction(): Promise<void> {
+    const entry = this.agentService.getLastChange();
+    if (!entry) {
+      vscode.window.showInformationMessage('No agent file changes to undo');
+      return;
+    }
+    await this.rollbackChangeEntry(entry);
+  }
+
+  public async showAgentHistory(): Promise<void> {
+    const agents = this.agentManager.listAgents();
+    const agentsWithHistory = agents.filter(agent => this.agentService.getChangeHistory(agent.id).length > 0);
+    if (agentsWithHistory.length === 0) {
+      vscode.window.showInformationMessage('No agent file changes recorded yet');
+      return;
+    }
+
+    const pickedAgent = agentsWithHistory.length === 1
+      ? { agent: agentsWithHistory[0] }
+      : await vscode.window.showQuickPick(
+          agentsWithHistory.map(agent => ({
+            label: `${agent.avatar.startsWith('avatar:') ? '🤖' : agent.avatar} ${agent.name}`,
+            description: `${this.agentService.getChangeHistory(agent.id).length} response(s) with file changes`,
+            agent
+          })),
+          { placeHolder: 'Select an agent to view its change history' }
+        );
+    if (!pickedAgent) {
+      return;
+    }
+
+    const pickedEntry = await vscode.window.showQuickPick(
+      this.agentService.getChangeHistory(pickedAgent.agent.id).map(entry => ({
+        label: `${entry.undone ? '↩️' : '📝'} ${entry.description}`,
+        description: new Date(entry.createdAt).toLocaleString(),
+        detail: entry.undone ? 'Rolled back' : `${entry.files.length} file(s) - select to roll back`,
+        entry
+      })),
+      { placeHolder: `Change history for ${pickedAgent.agent.name}` }
+    );
+    if (!pickedEntry || pickedEntry.entry.undone) {
+      return;
+    }
+
+    await this.rollbackChangeEntry(pickedEntry.entry);
+  }
+
+  // This month's usage, shown in the agent widget header
+  private postAgentUsage(agentId: string): void {
+    this.panel?.webview.postMessage({
+      type: 'agentUsage',
+      data: { agentId, usage: this.agentService.getMonthlyUsage(agentId) }
+    });
+  }
+
+  public async showUsageReport(): Promise<void> {
+    const now = new Date();
+    const summary = this.agentService.getUsageSummary(new Date(now.getFullYear(), now.getMonth(), 1));
+    if (summary.total.requests === 0) {
+      vscode.window.showInformationMessage('No token usage recorded this month');
+      return;
+    }
+
+    const settings = this.agentService.getUsageSettings();
+    const budget = settings.monthlyBudget > 0 ? ` of $${settings.monthlyBudget.toFixed(2)} budget` : '';
+    const describe = (totals: UsageTotals) => `$${totals.cost.toFixed(2)} • ${this.formatTokens(totals.totalTokens)} tokens`;
+    const detail = (totals: UsageTotals) => `${this.formatTokens(totals.inputTokens)} in / ${this.formatTokens(totals.outputTokens)} out • ${totals.requests} response(s)`;
+    const byCost = (entries: Record<string, UsageTotals>) => Object.entries(entries).sort(([, a], [, b]) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+
+    const items: Array<vscode.QuickPickItem & { agentId?: string }> = [
+      { label: `💰 This month: $${summary.total.cost.toFixed(2)}${budget}`, description: `${this.formatTokens(summary.total.totalTokens)} tokens`, detail: detail(summary.total) },
+      { label: 'By agent', kind: vscode.QuickPickItemKind.Separator },
+      ...byCost(summary.byAgent).map(([agentId, totals]) => {
+        const agent = this.agentManager.getAgent(agentId);
+        const agentBudget = agent?.monthlyBudget ? ` of $${agent.monthlyBudget.toFixed(2)}` : '';
+        return { label: agent?.name || `Deleted agent (${agentId.substring(0, 8)})`, description: describe(totals) + agentBudget, detail: detail(totals), agentId };
+      }),
+      { label: 'By provider', kind: vscode.QuickPickItemKind.Separator },
+      ...byCost(summary.byProvider).map(([provider, totals]) => ({ label: provider, description: describe(totals), detail: detail(totals) })),
+      { label: 'By day', kind: vscode.QuickPickItemKind.Separator },
+      ...Object.entries(summary.byDay).sort(([a], [b]) => b.localeCompare(a)).map(([day, totals]) => ({ label: day, description: describe(totals), detail: detail(totals) }))
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Token usage this month - select an agent to see its recent responses' });
+    if (!picked?.agentId) {
+      return;
+    }
+
+    await vscode.window.showQuickPick(
+      this.agentService.getUsageRecords(picked.agentId).map(record => ({
+        label: `${record.provider}/${record.modelName}`,
+        description: `$${record.cost.toFixed(4)} • ${this.formatTokens(record.inputTokens)} in / ${this.formatTokens(record.outputTokens)} out`,
+        detail: `${new Date(record.timestamp).toLocaleString()}${record.estimated ? ' • estimated, the provider reported no usage' : ''}`
+      })),
+      { placeHolder: `Recent responses of ${picked.label}` }
+    );
+  }
+
+  public async runWorkflow(): Promise<void> {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot) {
+      vscode.window.showWarningMessage('Open a folder to run workflows');
+      return;
+    }
+
+    const { workflows, errors } = WorkflowRunner.loadWorkflows(workspaceRoot);
+    if (errors.length > 0) {
+      vscode.window.showWarningMessage(`Some workflows could not be loaded: ${errors.join('; ')}`);
+    }
+    if (workflows.length === 0) {
+      const action = await vscode.window.showInformationMessage(
+        `No workflows found in ${WorkflowRunner.WORKFLOW_DIRECTORY}`,
+        'Create Example'
+      );
+      if (action === 'Create Example') {
+        const filePath = WorkflowRunner.createExampleWorkflow(workspaceRoot);
+        await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+      }
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      workflows.map(workflow => ({
+        label: workflow.name,
+        description: workflow.steps.map(step => step.agent).join(' → '),
+        detail: workflow.description,
+        workflow
+      })),
+      { placeHolder: 'Select a workflow to run' }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const inputs: Record<string, string> = {};
+    for (const input of picked.workflow.inputs) {
+      const value = await vscode.window.showInputBox({ prompt: input.prompt, value: input.default, ignoreFocusOut: true });
+      if (value === undefined) {
+        return;
+      }
+      inputs[input.name] = value;
+    }
+
+    // Steps show up in the agents' widgets as they run
+    this.showPanel();
+    const result = await this.runWorkflowWithProgress(picked.workflow, inputs);
+
+    const steps = `${result.steps.filter(step => step.status === 'completed').length}/${result.steps.length} steps`;
+    const stoppedAt = result.steps.find(step => step.id === result.stoppedAt);
+    switch (result.status) {
+      case 'completed':
+        vscode.window.showInformationMessage(`Workflow "${result.workflowName}" completed (${steps})`);
+        break;
+      case 'stopped':
+        vscode.window.showInformationMessage(`Workflow "${result.workflowName}" stopped early at step "${result.stoppedAt}" (${steps})`);
+        break;
+      case 'cancelled':
+        vscode.window.showWarningMessage(`Workflow "${result.workflowName}" was cancelled (${steps})`);
+        break;
+      default:
+        vscode.window.showErrorMessage(`Workflow "${result.workflowName}" failed at step "${result.stoppedAt}": ${stoppedAt?.error || 'unknown error'}`);
+    }
+  }
+
+  private runWorkflowWithProgress(workflow: WorkflowDefinition, inputs: Record<string, string>): Thenable<WorkflowResult> {
+    return vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Workflow: ${workflow.name}`,
+        cancellable: true
+      },
+      async (progress, token) => {
+        const runId = `workflow-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+        const cancellation = token.onCancellationRequested(() => this.workflowRunner.cancel(runId));
+        const unsubscribe = this.workflowRunner.onStepProgress(event => {
+          if (event.runId === runId && event.status === 'running') {
+            progress.report({
+              increment: event.stepIndex === 0 ? 0 : 100 / event.stepCount,
+              message: `Step ${event.stepIndex + 1}/${event.stepCount}: ${event.agentName} (${event.stepId})`
+            });
+          }
+        });
+
+        try {
+          return await this.workflowRunner.run(workflow, inputs, runId);
+        } finally {
+          unsubscribe();
+          cancellation.dispose();
+        }
+      }
+    );
+  }
+
+  private handleGetAgentTemplates(): void {
+    const { templates, errors } = this.agentManager.getTemplateService().loadTemplates();
+    if (errors.length > 0) {
+      vscode.window.showWarningMessage(`Some agent templates could not be loaded: ${errors.join('; ')}`);
+    }
+    this.panel?.webview.postMessage({
+      type: 'agentTemplates',
+      data: { templates, errors }
+    });
+  }
+
+  public async saveAgentAsTemplate(): Promise<void> {
+    const agent = await this.pickAgent('Select an agent to save as a template');
+    if (!agent) {
+      return;
+    }
+
+    const hasWorkspace = !!vscode.workspace.workspaceFolders?.length;
+    const location = await vscode.window.showQuickPick(
+      [
+        ...(hasWorkspace ? [{ label: 'Workspace', description: AgentTemplateService.WORKSPACE_DIRECTORY, source: 'workspace' as const }] : []),
+        { label: 'User', description: AgentTemplateService.USER_DIRECTORY, source: 'user' as const }
+      ],
+      { placeHolder: `Where should the ${agent.name} template be saved?` }
+    );
+    if (!location) {
+      return;
+    }
+
+    const description = await vscode.window.showInputBox({
+      prompt: 'Describe the template (shown in the create agent dialog)',
+      value: `Saved from the ${agent.name} agent`
+    });
+    if (description === undefined) {
+      return;
+    }
+
+    try {
+      const filePath = this.agentManager.getTemplateService().saveAgentAsTemplate(agent, location.source, description);
+      const action = await vscode.window.showInformationMessage(`Saved ${agent.name} as a template`, 'Open Template');
+      if (action === 'Open Template') {
+        await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Could not save the template: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  public async exportAgent(): Promise<void> {
+    const agent = await this.pickAgent('Select an agent to export');
+    if (!agent) {
+      return;
+    }
+
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `${agent.name.trim().toLowerCase().replace(/[^\w]+/g, '-')}.agent.json`;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: workspaceRoot ? vscode.Uri.joinPath(workspaceRoot, fileName) : undefined,
+      filters: { 'Agent configuration': ['json'] },
+      saveLabel: 'Export Agent'
+    });
+    if (!target) {
+      return;
+    }
+
+    try {
+      fs.writeFileSync(target.fsPath, AgentTemplateService.exportAgent(agent), 'utf8');
+      vscode.window.showInformationMessage(`Exported ${agent.name} to ${path.basename(target.fsPath)} (API keys are not included)`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Could not export ${agent.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  public async importAgent(): Promise<void> {
+    const [source] = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'Agent configuration': ['json'] },
+      openLabel: 'Import Agent'
+    }) ?? [];
+    if (!source) {
+      return;
+    }
+
+    const fileName = path.basename(source.fsPath);
+    try {
+      const config = AgentTemplateService.parseAgentExport(fs.readFileSync(source.fsPath, 'utf8'));
+      const agent = await this.agentManager.createAgent(config);
+      this.panel?.webview.postMessage({
+        type: 'agentCreated',
+        data: this.processAgentAvatars(agent)
+      });
+      vscode.window.showInformationMessage(`Imported ${agent.name} from ${fileName}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Could not import ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async pickAgent(placeHolder: string): Promise<AgentConfig | undefined> {
+    const agents = this.agentManager.listAgents();
+    if (agents.length === 0) {
+      vscode.window.showInformationMessage('No agents yet. Create an agent first.');
+      return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      agents.map(agent => ({
+        label: `${agent.avatar.startsWith('avatar:') ? '🤖' : agent.avatar} ${agent.name}`,
+        description: agent.type.replace(/_/g, ' '),
+        agent
+      })),
+      { placeHolder }
+    );
+    return picked?.agent;
+  }
+
+  private formatTokens(tokens: number): string {
+    return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+  }
+
+  private async rollbackChangeEntry(entry: JournalEntry): Promise<void> {
+    const agentName = this.agentManager.getAgent(entry.agentId)?.name || 'Agent';
+    const conflicts = this.agentService.getChangeConflicts(entry);
+    const warning = conflicts.length > 0
+      ? `\n\nThese files changed since the agent edited them and will be overwritten:\n${conflicts.join('\n')}`
+      : '';
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Roll back ${agentName}'s changes? ${entry.description}${warning}`,
+      { modal: true },
+      'Roll Back'
+    );
+    if (confirm !== 'Roll Back') {
+      return;
+    }
+
+    try {
+      await this.agentService.rollbackChanges(entry.id);
+      vscode.window.showInformationMessage(`Rolled back ${entry.files.length} file(s) changed by ${agentName}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to roll back changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   public async showEvaluationDashboard(): Promise<void> {
     // Reuse existing evaluation panel if it exists and is still active
     if (this.evaluationPanel) {
@@ -1400,7 +1863,7 @@ Use the appropriate task syntax based on what you find.`;
     try {
       // Use the existing ModelDiscoveryService to get real available models
       const { ModelDiscoveryService } = await import('../services/ModelDiscoveryService');
-      const modelDiscovery = new ModelDiscoveryService();
+      const modelDiscovery = new ModelDiscoveryService(this.settingsManager.getOpenAICompatibleBaseUrl(), this.settingsManager.getOllamaSettings());
       
       // Get all available models (local + online if configured)
       const availableModels = await modelDiscovery.getAllAvailableModels();
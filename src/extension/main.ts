@@ -4,6 +4,7 @@ import { WebviewManager } from './WebviewManager';
 import { ContextProvider } from './ContextProvider';
 import { SettingsManager } from './SettingsManager';
 import { ModelEvaluationRunner } from '../services/ModelEvaluationRunner';
+import { responseCache } from '../providers/ResponseCache';
 
 let agentManager: AgentManager;
 let webviewManager: WebviewManager;
@@ -15,9 +16,11 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Initialize managers
   settingsManager = new SettingsManager(context);
+  responseCache.setContext(context);
+  responseCache.configure(settingsManager.getResponseCacheSettings());
   contextProvider = new ContextProvider();
   agentManager = new AgentManager(context, settingsManager);
-  webviewManager = new WebviewManager(context, agentManager, contextProvider);
+  webviewManager = new WebviewManager(context, agentManager, contextProvider, settingsManager);
 
   // Register commands
   const showPanelCommand = vscode.commands.registerCommand(
@@ -83,6 +86,70 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  const showTaskQueueCommand = vscode.commands.registerCommand(
+    'aiAgents.showTaskQueue',
+    async () => {
+      await webviewManager.showTaskQueue();
+    }
+  );
+
+  const undoLastAgentActionCommand = vscode.commands.registerCommand(
+    'aiAgents.undoLastAgentAction',
+    async () => {
+      await webviewManager.undoLastAgentAction();
+    }
+  );
+
+  const showAgentHistoryCommand = vscode.commands.registerCommand(
+    'aiAgents.showAgentHistory',
+    async () => {
+      await webviewManager.showAgentHistory();
+    }
+  );
+
+  const showUsageCommand = vscode.commands.registerCommand(
+    'aiAgents.showUsage',
+    async () => {
+      await webviewManager.showUsageReport();
+    }
+  );
+
+  const runWorkflowCommand = vscode.commands.registerCommand(
+    'aiAgents.runWorkflow',
+    async () => {
+      await webviewManager.runWorkflow();
+    }
+  );
+
+  const importAgentCommand = vscode.commands.registerCommand(
+    'aiAgents.importAgent',
+    async () => {
+      await webviewManager.importAgent();
+    }
+  );
+
+  const exportAgentCommand = vscode.commands.registerCommand(
+    'aiAgents.exportAgent',
+    async () => {
+      await webviewManager.exportAgent();
+    }
+  );
+
+  const saveAgentAsTemplateCommand = vscode.commands.registerCommand(
+    'aiAgents.saveAgentAsTemplate',
+    async () => {
+      await webviewManager.saveAgentAsTemplate();
+    }
+  );
+
+  const clearResponseCacheCommand = vscode.commands.registerCommand(
+    'aiAgents.clearResponseCache',
+    () => {
+      const cleared = responseCache.clear();
+      vscode.window.showInformationMessage(`Cleared ${cleared} cached response${cleared === 1 ? '' : 's'}`);
+    }
+  );
+
   const runModelEvaluationCommand = vscode.commands.registerCommand(
     'aiAgents.runModelEvaluation',
     async () => {
@@ -162,6 +229,15 @@ export function activate(context: vscode.ExtensionContext) {
     sendToAgentCommand,
     sendSelectionToAgentCommand,
     showEvaluationDashboardCommand,
+    showTaskQueueCommand,
+    undoLastAgentActionCommand,
+    showAgentHistoryCommand,
+    showUsageCommand,
+    runWorkflowCommand,
+    importAgentCommand,
+    exportAgentCommand,
+    saveAgentAsTemplateCommand,
+    clearResponseCacheCommand,
     runModelEvaluationCommand
   );
 
@@ -169,6 +245,7 @@ export function activate(context: vscode.ExtensionContext) {
   const configWatcher = vscode.workspace.onDidChangeConfiguration((e) => {
     if (e.affectsConfiguration('aiAgents')) {
       settingsManager.reload();
+      responseCache.configure(settingsManager.getResponseCacheSettings());
     }
   });
 
@@ -188,8 +265,10 @@ export function activate(context: vscode.ExtensionContext) {
   console.log('AI Agents extension activated successfully');
 }
 
-export function deactivate() {
+export async function deactivate() {
   console.log('AI Agents extension is being deactivated');
+
+  await responseCache.flush();
   
   if (agentManager) {
     agentManager.dispose();
@@ -1,4 +1,4 @@
-import { AIProvider } from '@/shared/types';
+import { AIProvider, ModelFallback } from '@/shared/types';
 
 export interface AIMessage {
   role: 'user' | 'assistant' | 'system';
@@ -14,6 +14,32 @@ export interface AIResponse {
     totalTokens: number;
   };
   finishReason?: 'stop' | 'length' | 'tool_calls';
+  toolCalls?: AIToolCall[];
+  cached?: boolean; // Replayed from the response cache, so no tokens were spent
+}
+
+/**
+ * A function the model may call instead of replying with text. Parameters are
+ * described with JSON Schema, as expected by the provider APIs.
+ */
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, { type: 'string' | 'number' | 'integer' | 'boolean'; description: string }>;
+    required: string[];
+  };
+}
+
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface AIRequestOptions {
+  tools?: AIToolDefinition[];
 }
 
 export interface AIProviderConfig {
@@ -21,8 +47,10 @@ export interface AIProviderConfig {
   modelName: string;
   apiKey?: string;
   baseUrl?: string;
+  host?: string; // Named Ollama host, resolved by AIProviderManager
   temperature: number;
   maxTokens: number;
+  fallbacks?: ModelFallback[];
 }
 
 export interface StreamingResponse {
@@ -33,6 +61,8 @@ export interface StreamingResponse {
     outputTokens: number;
     totalTokens: number;
   };
+  toolCalls?: AIToolCall[]; // Set on the final chunk when the model called tools
+  cached?: boolean; // Replayed from the response cache, so no tokens were spent
 }
 
 export interface IAIProvider {
@@ -54,7 +84,8 @@ export interface IAIProvider {
    */
   generateResponse(
     messages: AIMessage[],
-    config: AIProviderConfig
+    config: AIProviderConfig,
+    options?: AIRequestOptions
   ): Promise<AIResponse>;
   
   /**
@@ -63,8 +94,14 @@ export interface IAIProvider {
   generateStreamingResponse(
     messages: AIMessage[],
     config: AIProviderConfig,
-    onChunk: (chunk: StreamingResponse) => void
+    onChunk: (chunk: StreamingResponse) => void,
+    options?: AIRequestOptions
   ): Promise<void>;
+
+  /**
+   * Check if the model accepts tool definitions and returns structured tool calls
+   */
+  supportsToolCalling(modelName: string): Promise<boolean>;
   
   /**
    * Get available models for this provider
@@ -72,7 +109,13 @@ export interface IAIProvider {
   getAvailableModels(): Promise<string[]>;
   
   /**
-   * Estimate token count for messages
+   * Ask the server for the model's context window in tokens. Only providers
+   * whose servers report it implement this; others use ContextWindowRegistry
+   */
+  getContextWindow?(modelName: string): Promise<number | undefined>;
+
+  /**
+   * Estimate token count for messages with the model's tokenizer
    */
-  estimateTokens(messages: AIMessage[]): number;
+  estimateTokens(messages: AIMessage[], modelName?: string): number;
 }
\ No newline at end of file
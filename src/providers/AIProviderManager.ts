@@ -1,14 +1,31 @@
-import { AIProvider } from '@/shared/types';
-import { IAIProvider, AIMessage, AIResponse, AIProviderConfig, StreamingResponse } from './AIProviderInterface';
+import { AIProvider, ModelFallback, OllamaSettings, SharedFileExcerpt } from '@/shared/types';
+import { IAIProvider, AIMessage, AIResponse, AIProviderConfig, StreamingResponse, AIRequestOptions } from './AIProviderInterface';
 import { AnthropicProvider } from './AnthropicProvider';
 import { OpenAIProvider } from './OpenAIProvider';
 import { OllamaProvider } from './OllamaProvider';
+import { GoogleProvider } from './GoogleProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { ProviderError } from './ProviderError';
+import { ResponseCache, responseCache } from './ResponseCache';
+import { tokenizerRegistry } from './Tokenizer';
+import { ContextWindowRegistry } from './ContextWindowRegistry';
+
+// Reported each time a request moves on to the next model of a failover chain
+export interface FailoverEvent {
+  failed: AIProviderConfig;
+  reason: string;
+  next: AIProviderConfig;
+}
 
 export class AIProviderManager {
   private providers: Map<AIProvider, IAIProvider> = new Map();
   private availableProviders: AIProvider[] = [];
+  private ollamaHosts: Map<string, OllamaProvider> = new Map();
+  private cache: ResponseCache;
+  private contextWindows: ContextWindowRegistry = new ContextWindowRegistry();
 
-  constructor() {
+  constructor(cache: ResponseCache = responseCache) {
+    this.cache = cache;
     this.initializeProviders();
   }
 
@@ -17,13 +34,59 @@ export class AIProviderManager {
     this.providers.set(AIProvider.ANTHROPIC, new AnthropicProvider());
     this.providers.set(AIProvider.OPENAI, new OpenAIProvider());
     this.providers.set(AIProvider.OLLAMA, new OllamaProvider());
+    this.providers.set(AIProvider.GOOGLE, new GoogleProvider());
+    this.providers.set(AIProvider.LM_STUDIO, new OpenAICompatibleProvider());
+  }
+
+  /**
+   * Point the LM Studio / OpenAI-compatible provider at another server.
+   * Agents can still override it per request with model.baseUrl.
+   */
+  public configureOpenAICompatible(baseUrl: string): void {
+    this.providers.set(AIProvider.LM_STUDIO, new OpenAICompatibleProvider(baseUrl));
+  }
+
+  /**
+   * Point the default Ollama provider at the configured server and create one
+   * provider per named host, which agents select with model.host.
+   */
+  public configureOllama(settings: OllamaSettings): void {
+    this.providers.set(AIProvider.OLLAMA, new OllamaProvider(settings.baseUrl));
+    this.ollamaHosts = new Map(
+      Object.entries(settings.hosts).map(([name, url]) => [name, new OllamaProvider(url)])
+    );
+  }
+
+  /**
+   * Context window sizes by model name that take precedence over anything else
+   */
+  public configureContextWindows(overrides: Record<string, number>): void {
+    this.contextWindows.setOverrides(overrides);
+  }
+
+  public getOllamaHostNames(): string[] {
+    return Array.from(this.ollamaHosts.keys());
+  }
+
+  /**
+   * Resolve the provider instance serving a config, taking the Ollama host into account
+   */
+  public getProviderFor(config: AIProviderConfig): IAIProvider | undefined {
+    if (config.provider === AIProvider.OLLAMA && config.host) {
+      const hostProvider = this.ollamaHosts.get(config.host);
+      if (!hostProvider) {
+        throw new Error(`Ollama host "${config.host}" is not defined in aiAgents.ollama.hosts`);
+      }
+      return hostProvider;
+    }
+    return this.providers.get(config.provider);
   }
 
   public async detectAvailableProviders(): Promise<AIProvider[]> {
     const available: AIProvider[] = [];
 
-    // Check providers in preferred order: Ollama (local) → Anthropic → OpenAI
-    const checkOrder = [AIProvider.OLLAMA, AIProvider.ANTHROPIC, AIProvider.OPENAI];
+    // Check providers in preferred order: local servers → Anthropic → OpenAI → Google
+    const checkOrder = [AIProvider.OLLAMA, AIProvider.LM_STUDIO, AIProvider.ANTHROPIC, AIProvider.OPENAI, AIProvider.GOOGLE];
 
     for (const providerType of checkOrder) {
       const provider = this.providers.get(providerType);
@@ -38,38 +101,171 @@ export class AIProviderManager {
 
   public async generateResponse(
     messages: AIMessage[],
-    config: AIProviderConfig
+    config: AIProviderConfig,
+    options?: AIRequestOptions,
+    onFailover?: (event: FailoverEvent) => void
   ): Promise<AIResponse> {
-    const provider = this.providers.get(config.provider);
-    if (!provider) {
-      throw new Error(`Provider ${config.provider} not found`);
+    const cacheKey = this.getCacheKey(messages, config, options);
+    const cached = cacheKey ? this.cache.get(cacheKey) : undefined;
+    if (cached) {
+      return { ...cached, cached: true };
     }
 
-    // Validate configuration
-    const isValid = await provider.validateConfig(config);
-    if (!isValid) {
-      throw new Error(`Invalid configuration for ${config.provider}`);
+    // Answers from a fallback model aren't cached under the primary model's key
+    let failedOver = false;
+    const response = await this.withFailover(
+      config,
+      (provider, attempt) => provider.generateResponse(messages, attempt, options),
+      event => {
+        failedOver = true;
+        onFailover?.(event);
+      }
+    );
+    if (cacheKey && !failedOver) {
+      this.cache.set(cacheKey, response);
     }
-
-    return await provider.generateResponse(messages, config);
+    return response;
   }
 
   public async generateStreamingResponse(
     messages: AIMessage[],
     config: AIProviderConfig,
-    onChunk: (chunk: StreamingResponse) => void
+    onChunk: (chunk: StreamingResponse) => void,
+    options?: AIRequestOptions,
+    onFailover?: (event: FailoverEvent) => void
   ): Promise<void> {
-    const provider = this.providers.get(config.provider);
-    if (!provider) {
-      throw new Error(`Provider ${config.provider} not found`);
+    const cacheKey = this.getCacheKey(messages, config, options);
+    const cached = cacheKey ? this.cache.get(cacheKey) : undefined;
+    if (cached) {
+      onChunk({ content: cached.content, done: true, usage: cached.usage, toolCalls: cached.toolCalls, cached: true });
+      return;
     }
 
-    const isValid = await provider.validateConfig(config);
-    if (!isValid) {
-      throw new Error(`Invalid configuration for ${config.provider}`);
+    // Once chunks reached the caller, another model can't take over the response
+    let streamed = false;
+    let failedOver = false;
+    return this.withFailover(
+      config,
+      (provider, attempt) => provider.generateStreamingResponse(messages, attempt, chunk => {
+        streamed = true;
+        // The done chunk carries the full reply, whether the provider streams pieces or the reply so far
+        if (chunk.done && cacheKey && !failedOver) {
+          this.cache.set(cacheKey, { content: chunk.content, model: attempt.modelName, usage: chunk.usage, toolCalls: chunk.toolCalls });
+        }
+        onChunk(chunk);
+      }, options),
+      event => {
+        failedOver = true;
+        onFailover?.(event);
+      },
+      () => !streamed
+    );
+  }
+
+  // Only deterministic requests are cached, and only while caching is enabled
+  private getCacheKey(messages: AIMessage[], config: AIProviderConfig, options?: AIRequestOptions): string | undefined {
+    if (!this.cache.isEnabled() || !ResponseCache.isCacheable(config)) {
+      return undefined;
     }
+    return ResponseCache.getKey(messages, config, options);
+  }
+
+  /**
+   * Run a request against config's model, then its fallbacks in order, and
+   * finally the best available provider. Moves on when a model fails
+   * validation or its request times out, is rate limited or can't connect.
+   * Configs without fallbacks only ever try their own model.
+   */
+  private async withFailover<T>(
+    config: AIProviderConfig,
+    request: (provider: IAIProvider, attempt: AIProviderConfig) => Promise<T>,
+    onFailover?: (event: FailoverEvent) => void,
+    canFailover: () => boolean = () => true
+  ): Promise<T> {
+    const chain = [config, ...(config.fallbacks || []).map(fallback => this.toFallbackConfig(config, fallback))];
+    let lastResortPending = !!config.fallbacks;
+
+    for (let index = 0; index < chain.length; index++) {
+      const attempt = chain[index];
+      const provider = this.getProviderFor(attempt);
+      if (!provider) {
+        throw new Error(`Provider ${attempt.provider} not found`);
+      }
+
+      let failure: Error;
+      // Validation requests swallow their errors, so rate limits and
+      // unreachable servers can also show up as an invalid configuration
+      if (await provider.validateConfig(attempt)) {
+        try {
+          return await request(provider, attempt);
+        } catch (error) {
+          if (!ProviderError.isTransient(error) || !canFailover()) {
+            throw error;
+          }
+          failure = error as Error;
+        }
+      } else {
+        failure = new Error(`Invalid configuration for ${attempt.provider}`);
+      }
 
-    return await provider.generateStreamingResponse(messages, config, onChunk);
+      if (index === chain.length - 1 && lastResortPending) {
+        lastResortPending = false;
+        const lastResort = await this.getLastResortConfig(config, chain);
+        if (lastResort) {
+          chain.push(lastResort);
+        }
+      }
+      const next = chain[index + 1];
+      if (!next) {
+        throw failure;
+      }
+
+      console.warn(`${attempt.provider}/${attempt.modelName} failed, failing over to ${next.provider}/${next.modelName}:`, failure.message);
+      onFailover?.({ failed: attempt, reason: failure.message, next });
+    }
+
+    // Unreachable: the loop either returns or throws
+    throw new Error(`No model available for ${config.provider}/${config.modelName}`);
+  }
+
+  private toFallbackConfig(config: AIProviderConfig, fallback: ModelFallback): AIProviderConfig {
+    return {
+      provider: fallback.provider,
+      modelName: fallback.modelName,
+      host: fallback.host,
+      // A key entered for the primary provider means nothing to another one
+      apiKey: fallback.provider === config.provider ? config.apiKey : undefined,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens
+    };
+  }
+
+  // The best available provider with a model the chain hasn't tried yet
+  private async getLastResortConfig(config: AIProviderConfig, tried: AIProviderConfig[]): Promise<AIProviderConfig | undefined> {
+    const best = await this.getBestAvailableProvider();
+    if (!best) {
+      return undefined;
+    }
+
+    const models = await this.getAvailableModels(best);
+    const modelName = models.find(model => !tried.some(attempt => attempt.provider === best && attempt.modelName === model && !attempt.host));
+    if (!modelName) {
+      return undefined;
+    }
+
+    return { provider: best, modelName, temperature: config.temperature, maxTokens: config.maxTokens };
+  }
+
+  public async supportsToolCalling(config: AIProviderConfig): Promise<boolean> {
+    try {
+      const provider = this.getProviderFor(config);
+      if (!provider) {
+        return false;
+      }
+      return await provider.supportsToolCalling(config.modelName);
+    } catch {
+      return false;
+    }
   }
 
   public async getAvailableModels(providerType: AIProvider): Promise<string[]> {
@@ -93,24 +289,43 @@ export class AIProviderManager {
     return [...this.availableProviders];
   }
 
-  public estimateTokens(messages: AIMessage[], providerType: AIProvider): number {
-    const provider = this.providers.get(providerType);
-    if (!provider) {
-      // Fallback estimation
-      const totalChars = messages.reduce((sum, msg) => sum + msg.content.length, 0);
-      return Math.ceil(totalChars / 4);
+  /**
+   * The context window of config's model in tokens: a user override, what the
+   * serving host reports, or the built-in table
+   */
+  public async getContextWindow(config: AIProviderConfig): Promise<number> {
+    const override = this.contextWindows.getOverride(config.modelName);
+    if (override) {
+      return override;
+    }
+
+    try {
+      const reported = await this.getProviderFor(config)?.getContextWindow?.(config.modelName);
+      if (reported) {
+        return reported;
+      }
+    } catch (error) {
+      console.warn(`Could not get the context window of ${config.provider}/${config.modelName}:`, error);
     }
 
-    return provider.estimateTokens(messages);
+    return this.contextWindows.getContextWindow(config.provider, config.modelName);
   }
 
-  public async validateProviderConfig(config: AIProviderConfig): Promise<boolean> {
-    const provider = this.providers.get(config.provider);
+  public estimateTokens(messages: AIMessage[], providerType: AIProvider, modelName?: string): number {
+    const provider = this.providers.get(providerType);
     if (!provider) {
-      return false;
+      return tokenizerRegistry.getTokenizer(providerType, modelName).countMessageTokens(messages);
     }
 
+    return provider.estimateTokens(messages, modelName);
+  }
+
+  public async validateProviderConfig(config: AIProviderConfig): Promise<boolean> {
     try {
+      const provider = this.getProviderFor(config);
+      if (!provider) {
+        return false;
+      }
       return await provider.validateConfig(config);
     } catch {
       return false;
@@ -127,8 +342,8 @@ export class AIProviderManager {
       return null;
     }
 
-    // Prefer Ollama for privacy, then Anthropic for quality, then OpenAI
-    const preferenceOrder = [AIProvider.OLLAMA, AIProvider.ANTHROPIC, AIProvider.OPENAI];
+    // Prefer local servers for privacy, then Anthropic for quality, then OpenAI and Google
+    const preferenceOrder = [AIProvider.OLLAMA, AIProvider.LM_STUDIO, AIProvider.ANTHROPIC, AIProvider.OPENAI, AIProvider.GOOGLE];
     
     for (const preferred of preferenceOrder) {
       if (available.includes(preferred)) {
@@ -145,7 +360,7 @@ export class AIProviderManager {
   public createContextualMessages(
     userMessage: string,
     systemPrompt: string,
-    sharedFiles: string[] = [],
+    sharedFiles: SharedFileExcerpt[] = [],
     textSnippets: Array<{ content: string; fileName?: string }> = [],
     conversationHistory: AIMessage[] = []
   ): AIMessage[] {
@@ -155,7 +370,15 @@ export class AIProviderManager {
     let enhancedSystemPrompt = systemPrompt;
     
     if (sharedFiles.length > 0) {
-      enhancedSystemPrompt += `\n\nShared Files Context:\nThe user has shared the following files with you:\n${sharedFiles.map(file => `- ${file}`).join('\n')}\n`;
+      enhancedSystemPrompt += `\n\nShared Files Context:\nThe user has shared the following files with you:\n\n${sharedFiles.map(file => {
+        if (file.error) {
+          return `### ${file.path}\n(Not included: ${file.error}. Use READ_FILE to read it.)`;
+        }
+        const coverage = file.truncated
+          ? ` (${file.includedLines} of ${file.totalLines} lines, omitted lines can be read with READ_FILE)`
+          : '';
+        return `### ${file.path}${coverage}\n\`\`\`\n${file.content}\n\`\`\``;
+      }).join('\n\n')}\n`;
     }
     
     if (textSnippets.length > 0) {
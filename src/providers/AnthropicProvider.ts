@@ -1,6 +1,9 @@
 import axios, { AxiosInstance } from 'axios';
 import { AIProvider } from '@/shared/types';
-import { IAIProvider, AIMessage, AIResponse, AIProviderConfig, StreamingResponse } from './AIProviderInterface';
+import { IAIProvider, AIMessage, AIResponse, AIProviderConfig, StreamingResponse, AIRequestOptions, AIToolCall } from './AIProviderInterface';
+import { tokenizerRegistry } from './Tokenizer';
+import { ProviderError } from './ProviderError';
+import { readStream } from './StreamReader';
 
 export class AnthropicProvider implements IAIProvider {
   public readonly provider = AIProvider.ANTHROPIC;
@@ -59,7 +62,7 @@ export class AnthropicProvider implements IAIProvider {
     }
   }
 
-  async generateResponse(messages: AIMessage[], config: AIProviderConfig): Promise<AIResponse> {
+  async generateResponse(messages: AIMessage[], config: AIProviderConfig, options?: AIRequestOptions): Promise<AIResponse> {
     const apiKey = config.apiKey || process.env.ANTHROPIC_API_KEY;
     if (!apiKey) {
       throw new Error('Anthropic API key not configured');
@@ -81,6 +84,14 @@ export class AnthropicProvider implements IAIProvider {
         requestBody.system = systemMessage;
       }
 
+      if (options?.tools?.length) {
+        requestBody.tools = options.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters
+        }));
+      }
+
       const response = await this.client.post('/messages', requestBody, {
         headers: {
           'x-api-key': apiKey
@@ -88,26 +99,33 @@ export class AnthropicProvider implements IAIProvider {
       });
 
       const data = response.data;
+      const blocks: any[] = data.content || [];
+      const toolCalls: AIToolCall[] = blocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} }));
+
       return {
-        content: data.content[0]?.text || '',
+        content: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
         model: config.modelName,
         usage: {
           inputTokens: data.usage?.input_tokens || 0,
           outputTokens: data.usage?.output_tokens || 0,
           totalTokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0)
         },
-        finishReason: data.stop_reason === 'end_turn' ? 'stop' : data.stop_reason
+        finishReason: data.stop_reason === 'end_turn' ? 'stop' : data.stop_reason === 'tool_use' ? 'tool_calls' : data.stop_reason,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
       };
     } catch (error: any) {
       console.error('Anthropic API error:', error.response?.data || error.message);
-      throw new Error(`Anthropic API error: ${error.response?.data?.error?.message || error.message}`);
+      throw new ProviderError(`Anthropic API error: ${error.response?.data?.error?.message || error.message}`, error);
     }
   }
 
   async generateStreamingResponse(
     messages: AIMessage[],
     config: AIProviderConfig,
-    onChunk: (chunk: StreamingResponse) => void
+    onChunk: (chunk: StreamingResponse) => void,
+    options?: AIRequestOptions
   ): Promise<void> {
     const apiKey = config.apiKey || process.env.ANTHROPIC_API_KEY;
     if (!apiKey) {
@@ -130,6 +148,14 @@ export class AnthropicProvider implements IAIProvider {
         requestBody.system = systemMessage;
       }
 
+      if (options?.tools?.length) {
+        requestBody.tools = options.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters
+        }));
+      }
+
       const response = await this.client.post('/messages', requestBody, {
         headers: {
           'x-api-key': apiKey
@@ -139,48 +165,67 @@ export class AnthropicProvider implements IAIProvider {
 
       let accumulatedContent = '';
       let usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+      // tool_use blocks stream their input as JSON fragments, keyed by block index
+      const toolBlocks: Map<number, { id: string; name: string; json: string }> = new Map();
+      const collectToolCalls = (): AIToolCall[] | undefined => toolBlocks.size > 0
+        ? Array.from(toolBlocks.values()).map(block => this.parseToolCall(block.id, block.name, block.json))
+        : undefined;
+      let finished = false;
 
-      response.data.on('data', (chunk: Buffer) => {
+      // The stream can also end without message_stop, e.g. when the connection drops
+      const finish = () => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        onChunk({
+          content: accumulatedContent,
+          done: true,
+          usage,
+          toolCalls: collectToolCalls()
+        });
+      };
+
+      await readStream(response.data, (chunk: Buffer) => {
         const lines = chunk.toString().split('\n');
         
         for (const line of lines) {
           if (line.startsWith('data: ')) {
             const data = line.slice(6).trim();
             if (data === '[DONE]') {
-              onChunk({
-                content: accumulatedContent,
-                done: true,
-                usage
-              });
+              finish();
               return;
             }
 
             try {
               const parsed = JSON.parse(data);
               
-              if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
+              if (parsed.type === 'content_block_start' && parsed.content_block?.type === 'tool_use') {
+                toolBlocks.set(parsed.index, { id: parsed.content_block.id, name: parsed.content_block.name, json: '' });
+              } else if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'input_json_delta') {
+                const block = toolBlocks.get(parsed.index);
+                if (block) {
+                  block.json += parsed.delta.partial_json || '';
+                }
+              } else if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
                 accumulatedContent += parsed.delta.text;
                 onChunk({
                   content: accumulatedContent,
                   done: false
                 });
               } else if (parsed.type === 'message_stop') {
-                onChunk({
-                  content: accumulatedContent,
-                  done: true,
-                  usage
-                });
+                finish();
               }
             } catch {
               // Skip invalid JSON
             }
           }
         }
-      });
+      }, finish);
 
     } catch (error: any) {
       console.error('Anthropic streaming error:', error);
-      throw new Error(`Anthropic streaming error: ${error.message}`);
+      throw new ProviderError(`Anthropic streaming error: ${error.message}`, error);
     }
   }
 
@@ -188,10 +233,23 @@ export class AnthropicProvider implements IAIProvider {
     return this.supportedModels;
   }
 
-  estimateTokens(messages: AIMessage[]): number {
-    // Rough estimation: ~4 characters per token for English text
-    const totalChars = messages.reduce((sum, msg) => sum + msg.content.length, 0);
-    return Math.ceil(totalChars / 4);
+  async supportsToolCalling(modelName: string): Promise<boolean> {
+    // Tool use is available from the Claude 3 family onwards
+    return !/^claude-(2|instant)/.test(modelName);
+  }
+
+  estimateTokens(messages: AIMessage[], modelName?: string): number {
+    return tokenizerRegistry.getTokenizer(this.provider, modelName).countMessageTokens(messages);
+  }
+
+  private parseToolCall(id: string, name: string, json: string): AIToolCall {
+    let args: Record<string, any> = {};
+    try {
+      args = json ? JSON.parse(json) : {};
+    } catch {
+      console.warn('Anthropic returned invalid tool input:', json);
+    }
+    return { id, name, arguments: args };
   }
 
   private convertMessages(messages: AIMessage[]): Array<{ role: 'user' | 'assistant'; content: string }> {
@@ -0,0 +1,62 @@
+import { AIProvider } from '@/shared/types';
+
+/**
+ * Context window sizes (input plus output tokens) per model. User overrides
+ * come first, then the built-in table, matched exactly or by the longest
+ * prefix so dated and "-latest" variants resolve, then a per-provider default.
+ * Servers that report the size of the model they run are asked first by
+ * AIProviderManager.getContextWindow.
+ */
+export class ContextWindowRegistry {
+  public static readonly DEFAULT_CONTEXT_WINDOWS: Record<string, number> = {
+    'claude-3-5-sonnet': 200000,
+    'claude-3-5-haiku': 200000,
+    'claude-3-haiku': 200000,
+    'claude-3-sonnet': 200000,
+    'claude-3-opus': 200000,
+    'gpt-4o': 128000,
+    'gpt-4o-mini': 128000,
+    'gpt-4-turbo': 128000,
+    'gpt-4': 8192,
+    'gpt-3.5-turbo': 16385,
+    'gemini-2.0-flash': 1048576,
+    'gemini-1.5-pro': 2097152,
+    'gemini-1.5-flash': 1048576,
+    'gemini-1.5-flash-8b': 1048576
+  };
+
+  // Local servers load models with a small context unless told otherwise
+  private static readonly PROVIDER_DEFAULTS: Record<AIProvider, number> = {
+    [AIProvider.ANTHROPIC]: 200000,
+    [AIProvider.OPENAI]: 128000,
+    [AIProvider.GOOGLE]: 1048576,
+    [AIProvider.OLLAMA]: 4096,
+    [AIProvider.LM_STUDIO]: 4096
+  };
+
+  private overrides: Record<string, number> = {};
+
+  public setOverrides(overrides: Record<string, number>): void {
+    this.overrides = { ...overrides };
+  }
+
+  public getOverride(modelName: string): number | undefined {
+    return this.overrides[modelName];
+  }
+
+  public getContextWindow(provider: AIProvider, modelName: string): number {
+    const override = this.getOverride(modelName);
+    if (override) {
+      return override;
+    }
+
+    const known = Object.keys(ContextWindowRegistry.DEFAULT_CONTEXT_WINDOWS)
+      .filter(name => modelName === name || modelName.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    if (known) {
+      return ContextWindowRegistry.DEFAULT_CONTEXT_WINDOWS[known];
+    }
+
+    return ContextWindowRegistry.PROVIDER_DEFAULTS[provider] ?? 4096;
+  }
+}
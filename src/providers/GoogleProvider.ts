@@ -0,0 +1,286 @@
+import axios, { AxiosInstance } from 'axios';
+import { AIProvider } from '@/shared/types';
+import { IAIProvider, AIMessage, AIResponse, AIProviderConfig, StreamingResponse, AIRequestOptions, AIToolCall } from './AIProviderInterface';
+import { tokenizerRegistry } from './Tokenizer';
+import { ProviderError } from './ProviderError';
+import { readStream } from './StreamReader';
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: Array<{ text: string }>;
+}
+
+export class GoogleProvider implements IAIProvider {
+  public readonly provider = AIProvider.GOOGLE;
+  public readonly supportedModels = [
+    'gemini-2.0-flash',
+    'gemini-1.5-pro',
+    'gemini-1.5-flash',
+    'gemini-1.5-flash-8b'
+  ];
+
+  private client: AxiosInstance;
+
+  constructor(baseUrl: string = 'https://generativelanguage.googleapis.com/v1beta') {
+    this.client = axios.create({
+      baseURL: baseUrl,
+      timeout: 60000,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      // Check if we have an API key available
+      const apiKey = process.env.GOOGLE_API_KEY;
+      return !!apiKey && apiKey.trim().length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  async validateConfig(config: AIProviderConfig): Promise<boolean> {
+    try {
+      const apiKey = config.apiKey || process.env.GOOGLE_API_KEY;
+      if (!apiKey) {
+        return false;
+      }
+
+      // Looking the model up checks both the key and the model name without spending tokens
+      const response = await this.client.get(`/models/${encodeURIComponent(config.modelName)}`, {
+        baseURL: config.baseUrl || undefined,
+        headers: { 'x-goog-api-key': apiKey }
+      });
+
+      return response.status === 200;
+    } catch {
+      return false;
+    }
+  }
+
+  async generateResponse(messages: AIMessage[], config: AIProviderConfig, options?: AIRequestOptions): Promise<AIResponse> {
+    const apiKey = config.apiKey || process.env.GOOGLE_API_KEY;
+    if (!apiKey) {
+      throw new Error('Google API key not configured');
+    }
+
+    try {
+      const response = await this.client.post(
+        `/models/${encodeURIComponent(config.modelName)}:generateContent`,
+        this.buildRequestBody(messages, config, options),
+        {
+          baseURL: config.baseUrl || undefined,
+          headers: { 'x-goog-api-key': apiKey }
+        }
+      );
+
+      const data = response.data;
+      const candidate = data.candidates?.[0];
+      const parts: any[] = candidate?.content?.parts || [];
+      const toolCalls = this.parseToolCalls(parts);
+
+      return {
+        content: parts.filter(part => typeof part.text === 'string').map(part => part.text).join(''),
+        model: config.modelName,
+        usage: this.parseUsage(data.usageMetadata),
+        finishReason: toolCalls.length > 0 ? 'tool_calls' : this.mapFinishReason(candidate?.finishReason),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+      };
+    } catch (error: any) {
+      console.error('Google API error:', error.response?.data || error.message);
+      throw new ProviderError(`Google API error: ${error.response?.data?.error?.message || error.message}`, error);
+    }
+  }
+
+  async generateStreamingResponse(
+    messages: AIMessage[],
+    config: AIProviderConfig,
+    onChunk: (chunk: StreamingResponse) => void,
+    options?: AIRequestOptions
+  ): Promise<void> {
+    const apiKey = config.apiKey || process.env.GOOGLE_API_KEY;
+    if (!apiKey) {
+      throw new Error('Google API key not configured');
+    }
+
+    try {
+      const response = await this.client.post(
+        `/models/${encodeURIComponent(config.modelName)}:streamGenerateContent`,
+        this.buildRequestBody(messages, config, options),
+        {
+          baseURL: config.baseUrl || undefined,
+          headers: { 'x-goog-api-key': apiKey },
+          params: { alt: 'sse' },
+          responseType: 'stream'
+        }
+      );
+
+      let accumulatedContent = '';
+      let usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+      const toolCalls: AIToolCall[] = [];
+      let pending = '';
+      let finished = false;
+
+      const handleLine = (line: string) => {
+        if (!line.startsWith('data: ')) {
+          return;
+        }
+        try {
+          const parsed = JSON.parse(line.slice(6).trim());
+          const parts: any[] = parsed.candidates?.[0]?.content?.parts || [];
+          if (parsed.usageMetadata) {
+            usage = this.parseUsage(parsed.usageMetadata);
+          }
+          toolCalls.push(...this.parseToolCalls(parts, toolCalls.length));
+
+          const text = parts.filter(part => typeof part.text === 'string').map(part => part.text).join('');
+          if (text) {
+            accumulatedContent += text;
+            onChunk({
+              content: accumulatedContent,
+              done: false
+            });
+          }
+        } catch {
+          // Skip invalid JSON
+        }
+      };
+
+      // Gemini has no end-of-stream marker, the last event is followed by the connection closing
+      const finish = () => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        onChunk({
+          content: accumulatedContent,
+          done: true,
+          usage,
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+        });
+      };
+
+      await readStream(response.data, (chunk: Buffer) => {
+        // Events can be split across network chunks, so keep the incomplete last line
+        const lines = (pending + chunk.toString()).split('\n');
+        pending = lines.pop() || '';
+        lines.forEach(handleLine);
+      }, () => {
+        handleLine(pending);
+        finish();
+      });
+
+    } catch (error: any) {
+      console.error('Google streaming error:', error);
+      throw new ProviderError(`Google streaming error: ${error.message}`, error);
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    const apiKey = process.env.GOOGLE_API_KEY;
+    if (!apiKey) {
+      return this.supportedModels;
+    }
+
+    try {
+      const response = await this.client.get('/models', {
+        headers: { 'x-goog-api-key': apiKey },
+        params: { pageSize: 1000 }
+      });
+
+      const models: string[] = (response.data.models || [])
+        .filter((model: any) => (model.supportedGenerationMethods || []).includes('generateContent'))
+        .map((model: any) => String(model.name).replace(/^models\//, ''));
+
+      return models.length > 0 ? models : this.supportedModels;
+    } catch (error) {
+      console.error('Failed to fetch Google models:', error);
+      return this.supportedModels;
+    }
+  }
+
+  async supportsToolCalling(modelName: string): Promise<boolean> {
+    // Function calling is available on Gemini models apart from the old vision-only ones
+    return /^gemini-/.test(modelName) && !/vision/.test(modelName);
+  }
+
+  estimateTokens(messages: AIMessage[], modelName?: string): number {
+    return tokenizerRegistry.getTokenizer(this.provider, modelName).countMessageTokens(messages);
+  }
+
+  private buildRequestBody(messages: AIMessage[], config: AIProviderConfig, options?: AIRequestOptions): any {
+    const systemMessage = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+    const requestBody: any = {
+      contents: this.convertMessages(messages),
+      generationConfig: {
+        temperature: config.temperature,
+        maxOutputTokens: config.maxTokens
+      }
+    };
+
+    if (systemMessage) {
+      requestBody.systemInstruction = { parts: [{ text: systemMessage }] };
+    }
+
+    if (options?.tools?.length) {
+      requestBody.tools = [{
+        functionDeclarations: options.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }))
+      }];
+    }
+
+    return requestBody;
+  }
+
+  // Gemini calls the assistant "model" and expects user and model turns to alternate
+  private convertMessages(messages: AIMessage[]): GeminiContent[] {
+    const contents: GeminiContent[] = [];
+    for (const message of messages) {
+      if (message.role === 'system') {
+        continue;
+      }
+      const role = message.role === 'assistant' ? 'model' : 'user';
+      const previous = contents[contents.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push({ text: message.content });
+      } else {
+        contents.push({ role, parts: [{ text: message.content }] });
+      }
+    }
+    return contents;
+  }
+
+  // Gemini doesn't give function calls an id, so number them like Ollama's
+  private parseToolCalls(parts: any[], offset: number = 0): AIToolCall[] {
+    return parts
+      .filter(part => part.functionCall?.name)
+      .map((part, index) => ({
+        id: `call_${offset + index}`,
+        name: part.functionCall.name,
+        arguments: part.functionCall.args || {}
+      }));
+  }
+
+  private parseUsage(usageMetadata: any): { inputTokens: number; outputTokens: number; totalTokens: number } {
+    const inputTokens = usageMetadata?.promptTokenCount || 0;
+    const outputTokens = usageMetadata?.candidatesTokenCount || 0;
+    return {
+      inputTokens,
+      outputTokens,
+      totalTokens: usageMetadata?.totalTokenCount || inputTokens + outputTokens
+    };
+  }
+
+  private mapFinishReason(reason: string | undefined): AIResponse['finishReason'] {
+    if (reason === 'MAX_TOKENS') {
+      return 'length';
+    }
+    return reason ? 'stop' : undefined;
+  }
+}
@@ -1,8 +1,24 @@
 import axios, { AxiosInstance } from 'axios';
 import { AIProvider } from '@/shared/types';
-import { IAIProvider, AIMessage, AIResponse, AIProviderConfig, StreamingResponse } from './AIProviderInterface';
+import { IAIProvider, AIMessage, AIResponse, AIProviderConfig, StreamingResponse, AIRequestOptions, AIToolCall } from './AIProviderInterface';
+import { tokenizerRegistry } from './Tokenizer';
+import { ProviderError } from './ProviderError';
+import { readStream } from './StreamReader';
+
+// An entry from /api/tags, the HTTP equivalent of `ollama list`
+export interface OllamaModelInfo {
+  name: string;
+  digest: string;
+  size: number; // Bytes
+  modifiedAt: string;
+  parameterSize?: string; // e.g. "7.6B"
+}
 
 export class OllamaProvider implements IAIProvider {
+  public static readonly DEFAULT_BASE_URL = 'http://localhost:11434';
+  // Context Ollama loads models with unless num_ctx is set
+  public static readonly DEFAULT_NUM_CTX = 4096;
+
   public readonly provider = AIProvider.OLLAMA;
   public readonly supportedModels = [
     'llama3.1',
@@ -18,11 +34,13 @@ export class OllamaProvider implements IAIProvider {
 
   private client: AxiosInstance;
   private baseUrl: string;
+  private toolSupportCache: Map<string, boolean> = new Map();
+  private contextWindowCache: Map<string, number> = new Map();
 
-  constructor(baseUrl = 'http://localhost:11434') {
-    this.baseUrl = baseUrl;
+  constructor(baseUrl: string = OllamaProvider.DEFAULT_BASE_URL) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
     this.client = axios.create({
-      baseURL: baseUrl,
+      baseURL: this.baseUrl,
       timeout: 120000, // Longer timeout for local models
       headers: {
         'Content-Type': 'application/json'
@@ -50,7 +68,7 @@ export class OllamaProvider implements IAIProvider {
     }
   }
 
-  async generateResponse(messages: AIMessage[], config: AIProviderConfig): Promise<AIResponse> {
+  async generateResponse(messages: AIMessage[], config: AIProviderConfig, options?: AIRequestOptions): Promise<AIResponse> {
     try {
       // Convert messages to Ollama format
       const ollamaMessages = this.convertMessages(messages);
@@ -74,9 +92,14 @@ export class OllamaProvider implements IAIProvider {
         ];
       }
 
+      if (options?.tools?.length) {
+        requestBody.tools = this.convertTools(options);
+      }
+
       const response = await this.client.post('/api/chat', requestBody);
 
       const data = response.data;
+      const toolCalls = this.parseToolCalls(data.message?.tool_calls);
       return {
         content: data.message?.content || '',
         model: config.modelName,
@@ -85,18 +108,20 @@ export class OllamaProvider implements IAIProvider {
           outputTokens: data.eval_count || 0,
           totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0)
         },
-        finishReason: data.done ? 'stop' : 'length'
+        finishReason: toolCalls ? 'tool_calls' : data.done ? 'stop' : 'length',
+        toolCalls
       };
     } catch (error: any) {
       console.error('Ollama API error:', error.response?.data || error.message);
-      throw new Error(`Ollama API error: ${error.response?.data?.error || error.message}`);
+      throw new ProviderError(`Ollama API error: ${error.response?.data?.error || error.message}`, error);
     }
   }
 
   async generateStreamingResponse(
     messages: AIMessage[],
     config: AIProviderConfig,
-    onChunk: (chunk: StreamingResponse) => void
+    onChunk: (chunk: StreamingResponse) => void,
+    options?: AIRequestOptions
   ): Promise<void> {
     try {
       const ollamaMessages = this.convertMessages(messages);
@@ -119,20 +144,42 @@ export class OllamaProvider implements IAIProvider {
         ];
       }
 
+      if (options?.tools?.length) {
+        requestBody.tools = this.convertTools(options);
+      }
+
       const response = await this.client.post('/api/chat', requestBody, {
         responseType: 'stream'
       });
 
       let accumulatedContent = '';
       let usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+      const toolCalls: AIToolCall[] = [];
+      let finished = false;
 
-      response.data.on('data', (chunk: Buffer) => {
+      // The stream can also end without a done line, e.g. when the connection drops
+      const finish = () => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        onChunk({
+          content: accumulatedContent,
+          done: true,
+          usage,
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+        });
+      };
+
+      await readStream(response.data, (chunk: Buffer) => {
         const lines = chunk.toString().split('\n');
         
         for (const line of lines) {
           if (line.trim()) {
             try {
               const parsed = JSON.parse(line);
+
+              toolCalls.push(...(this.parseToolCalls(parsed.message?.tool_calls, toolCalls.length) || []));
               
               if (parsed.message?.content) {
                 const incrementalContent = parsed.message.content;
@@ -149,12 +196,7 @@ export class OllamaProvider implements IAIProvider {
                   outputTokens: parsed.eval_count || 0,
                   totalTokens: (parsed.prompt_eval_count || 0) + (parsed.eval_count || 0)
                 };
-                
-                onChunk({
-                  content: accumulatedContent,
-                  done: true,
-                  usage
-                });
+                finish();
                 return;
               }
             } catch {
@@ -162,11 +204,11 @@ export class OllamaProvider implements IAIProvider {
             }
           }
         }
-      });
+      }, finish);
 
     } catch (error: any) {
       console.error('Ollama streaming error:', error);
-      throw new Error(`Ollama streaming error: ${error.message}`);
+      throw new ProviderError(`Ollama streaming error: ${error.message}`, error);
     }
   }
 
@@ -188,6 +230,17 @@ export class OllamaProvider implements IAIProvider {
     }
   }
 
+  async listInstalledModels(): Promise<OllamaModelInfo[]> {
+    const response = await this.client.get('/api/tags', { timeout: 5000 });
+    return (response.data?.models || []).map((model: any) => ({
+      name: model.name,
+      digest: model.digest || '',
+      size: model.size || 0,
+      modifiedAt: model.modified_at || '',
+      parameterSize: model.details?.parameter_size
+    }));
+  }
+
   async getRunningModels(): Promise<string[]> {
     try {
       const response = await this.client.get('/api/ps');
@@ -209,10 +262,63 @@ export class OllamaProvider implements IAIProvider {
     }
   }
 
-  estimateTokens(messages: AIMessage[]): number {
-    // Rough estimation for most models: ~4 characters per token
-    const totalChars = messages.reduce((sum, msg) => sum + msg.content.length, 0);
-    return Math.ceil(totalChars / 4);
+  async supportsToolCalling(modelName: string): Promise<boolean> {
+    const cached = this.toolSupportCache.get(modelName);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      // Newer Ollama versions list what a model can do, including 'tools'
+      const response = await this.client.post('/api/show', { model: modelName }, { timeout: 5000 });
+      const supported = Array.isArray(response.data?.capabilities) && response.data.capabilities.includes('tools');
+      this.toolSupportCache.set(modelName, supported);
+      return supported;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The context the server runs the model with: num_ctx from its Modelfile,
+   * otherwise the server default, capped at what the model was trained for
+   */
+  async getContextWindow(modelName: string): Promise<number | undefined> {
+    const cached = this.contextWindowCache.get(modelName);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      const response = await this.client.post('/api/show', { model: modelName }, { timeout: 5000 });
+      const numCtx = /^\s*num_ctx\s+(\d+)/m.exec(response.data?.parameters || '');
+      const trainedKey = Object.keys(response.data?.model_info || {}).find(key => key.endsWith('.context_length'));
+      const trained = trainedKey ? Number(response.data.model_info[trainedKey]) : undefined;
+
+      const contextWindow = numCtx
+        ? Number(numCtx[1])
+        : Math.min(trained || OllamaProvider.DEFAULT_NUM_CTX, OllamaProvider.DEFAULT_NUM_CTX);
+      this.contextWindowCache.set(modelName, contextWindow);
+      return contextWindow;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Embed texts with an embedding model such as nomic-embed-text
+   */
+  async embed(modelName: string, input: string[]): Promise<number[][]> {
+    const response = await this.client.post('/api/embed', { model: modelName, input }, { timeout: 120000 });
+    const embeddings = response.data?.embeddings;
+    if (!Array.isArray(embeddings) || embeddings.length !== input.length) {
+      throw new Error(`Ollama returned no embeddings for ${modelName}`);
+    }
+    return embeddings;
+  }
+
+  estimateTokens(messages: AIMessage[], modelName?: string): number {
+    return tokenizerRegistry.getTokenizer(this.provider, modelName).countMessageTokens(messages);
   }
 
   private convertMessages(messages: AIMessage[]): Array<{ role: string; content: string }> {
@@ -222,6 +328,29 @@ export class OllamaProvider implements IAIProvider {
     }));
   }
 
+  private convertTools(options: AIRequestOptions): any[] {
+    return (options.tools || []).map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }
+    }));
+  }
+
+  // Ollama returns parsed arguments and no call ids, so ids are generated from the position
+  private parseToolCalls(rawToolCalls: any[] | undefined, offset = 0): AIToolCall[] | undefined {
+    if (!Array.isArray(rawToolCalls) || rawToolCalls.length === 0) {
+      return undefined;
+    }
+    return rawToolCalls.map((call, index) => ({
+      id: `call_${offset + index}`,
+      name: call.function?.name || '',
+      arguments: call.function?.arguments || {}
+    }));
+  }
+
   // Ollama-specific methods
   async pullModel(modelName: string): Promise<void> {
     try {
@@ -0,0 +1,258 @@
+import axios, { AxiosInstance } from 'axios';
+import { AIProvider } from '@/shared/types';
+import { IAIProvider, AIMessage, AIResponse, AIProviderConfig, StreamingResponse, AIRequestOptions, AIToolCall } from './AIProviderInterface';
+import { tokenizerRegistry } from './Tokenizer';
+import { ProviderError } from './ProviderError';
+import { readStream } from './StreamReader';
+
+/**
+ * Any server speaking the OpenAI chat completions API: LM Studio, llama.cpp
+ * server, vLLM, LocalAI. The API key is optional since most local servers
+ * don't check it; the base URL includes the /v1 prefix.
+ */
+export class OpenAICompatibleProvider implements IAIProvider {
+  public static readonly DEFAULT_BASE_URL = 'http://localhost:1234/v1';
+
+  public readonly provider = AIProvider.LM_STUDIO;
+  public readonly supportedModels: string[] = []; // Whatever the server has loaded
+
+  private client: AxiosInstance;
+  private baseUrl: string;
+
+  constructor(baseUrl: string = OpenAICompatibleProvider.DEFAULT_BASE_URL) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.client = axios.create({
+      baseURL: this.baseUrl,
+      timeout: 120000, // Longer timeout for local models
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+
+  public getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await this.client.get('/models', { timeout: 5000, headers: this.authHeaders() });
+      return response.status === 200;
+    } catch {
+      return false;
+    }
+  }
+
+  async validateConfig(config: AIProviderConfig): Promise<boolean> {
+    try {
+      // Servers like llama.cpp answer to any model name, so only check that the server is up
+      const response = await this.client.get('/models', {
+        baseURL: this.resolveBaseUrl(config),
+        timeout: 5000,
+        headers: this.authHeaders(config)
+      });
+      return response.status === 200;
+    } catch {
+      return false;
+    }
+  }
+
+  async generateResponse(messages: AIMessage[], config: AIProviderConfig, options?: AIRequestOptions): Promise<AIResponse> {
+    try {
+      const response = await this.client.post('/chat/completions', {
+        model: config.modelName,
+        max_tokens: config.maxTokens,
+        temperature: config.temperature,
+        messages: messages.map(m => ({
+          role: m.role,
+          content: m.content
+        })),
+        ...this.buildToolsRequest(options)
+      }, {
+        baseURL: this.resolveBaseUrl(config),
+        headers: this.authHeaders(config)
+      });
+
+      const data = response.data;
+      const choice = data.choices[0];
+      const toolCalls = (choice.message.tool_calls || []).map((call: any) => this.parseToolCall(call.id, call.function?.name, call.function?.arguments));
+
+      return {
+        content: choice.message.content || '',
+        model: config.modelName,
+        usage: {
+          inputTokens: data.usage?.prompt_tokens || 0,
+          outputTokens: data.usage?.completion_tokens || 0,
+          totalTokens: data.usage?.total_tokens || 0
+        },
+        finishReason: choice.finish_reason,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+      };
+    } catch (error: any) {
+      console.error('OpenAI-compatible API error:', error.response?.data || error.message);
+      throw new ProviderError(`OpenAI-compatible API error (${this.resolveBaseUrl(config)}): ${error.response?.data?.error?.message || error.message}`, error);
+    }
+  }
+
+  async generateStreamingResponse(
+    messages: AIMessage[],
+    config: AIProviderConfig,
+    onChunk: (chunk: StreamingResponse) => void,
+    options?: AIRequestOptions
+  ): Promise<void> {
+    try {
+      const response = await this.client.post('/chat/completions', {
+        model: config.modelName,
+        max_tokens: config.maxTokens,
+        temperature: config.temperature,
+        messages: messages.map(m => ({
+          role: m.role,
+          content: m.content
+        })),
+        ...this.buildToolsRequest(options),
+        stream: true
+      }, {
+        baseURL: this.resolveBaseUrl(config),
+        headers: this.authHeaders(config),
+        responseType: 'stream'
+      });
+
+      let accumulatedContent = '';
+      let usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+      // Tool call arguments arrive as JSON fragments, keyed by the call's index
+      const toolCallParts: Array<{ id: string; name: string; arguments: string }> = [];
+      let pending = '';
+      let finished = false;
+
+      // Servers differ in whether they send [DONE], a finish_reason, or both
+      const finish = () => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        onChunk({
+          content: accumulatedContent,
+          done: true,
+          usage,
+          toolCalls: toolCallParts.length > 0
+            ? toolCallParts.filter(Boolean).map(part => this.parseToolCall(part.id, part.name, part.arguments))
+            : undefined
+        });
+      };
+
+      const handleLine = (line: string) => {
+        if (!line.startsWith('data: ')) {
+          return;
+        }
+        const data = line.slice(6).trim();
+        if (data === '[DONE]') {
+          finish();
+          return;
+        }
+
+        try {
+          const parsed = JSON.parse(data);
+          const choice = parsed.choices?.[0];
+          const delta = choice?.delta;
+
+          if (parsed.usage) {
+            usage = {
+              inputTokens: parsed.usage.prompt_tokens || 0,
+              outputTokens: parsed.usage.completion_tokens || 0,
+              totalTokens: parsed.usage.total_tokens || 0
+            };
+          }
+
+          for (const toolCallDelta of delta?.tool_calls || []) {
+            const index = toolCallDelta.index ?? toolCallParts.length;
+            const part = toolCallParts[index] ??= { id: '', name: '', arguments: '' };
+            part.id = toolCallDelta.id || part.id || `call_${index}`;
+            part.name += toolCallDelta.function?.name || '';
+            part.arguments += toolCallDelta.function?.arguments || '';
+          }
+
+          if (delta?.content) {
+            accumulatedContent += delta.content;
+            onChunk({
+              content: accumulatedContent,
+              done: false
+            });
+          }
+          if (choice?.finish_reason) {
+            finish();
+          }
+        } catch {
+          // Skip invalid JSON
+        }
+      };
+
+      await readStream(response.data, (chunk: Buffer) => {
+        // Events can be split across network chunks, so keep the incomplete last line
+        const lines = (pending + chunk.toString()).split('\n');
+        pending = lines.pop() || '';
+        lines.forEach(handleLine);
+      }, () => {
+        handleLine(pending);
+        finish();
+      });
+
+    } catch (error: any) {
+      console.error('OpenAI-compatible streaming error:', error);
+      throw new ProviderError(`OpenAI-compatible streaming error (${this.resolveBaseUrl(config)}): ${error.message}`, error);
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.client.get('/models', { timeout: 5000, headers: this.authHeaders() });
+      return (response.data?.data || []).map((model: any) => String(model.id)).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  async supportsToolCalling(_modelName: string): Promise<boolean> {
+    // Tool support depends on the server and the loaded model's chat template,
+    // so stay with the text task syntax that works everywhere
+    return false;
+  }
+
+  estimateTokens(messages: AIMessage[], modelName?: string): number {
+    return tokenizerRegistry.getTokenizer(this.provider, modelName).countMessageTokens(messages);
+  }
+
+  private resolveBaseUrl(config: AIProviderConfig): string {
+    return config.baseUrl ? config.baseUrl.replace(/\/+$/, '') : this.baseUrl;
+  }
+
+  private authHeaders(config?: AIProviderConfig): Record<string, string> {
+    const apiKey = config?.apiKey || process.env.LM_STUDIO_API_KEY;
+    return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+  }
+
+  private buildToolsRequest(options?: AIRequestOptions): { tools?: any[] } {
+    if (!options?.tools?.length) {
+      return {};
+    }
+    return {
+      tools: options.tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }
+      }))
+    };
+  }
+
+  private parseToolCall(id: string, name: string, rawArguments: string): AIToolCall {
+    let args: Record<string, any> = {};
+    try {
+      args = rawArguments ? JSON.parse(rawArguments) : {};
+    } catch {
+      console.warn('OpenAI-compatible server returned invalid tool call arguments:', rawArguments);
+    }
+    return { id, name, arguments: args };
+  }
+}
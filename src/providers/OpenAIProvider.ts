@@ -1,6 +1,9 @@
 import axios, { AxiosInstance } from 'axios';
 import { AIProvider } from '@/shared/types';
-import { IAIProvider, AIMessage, AIResponse, AIProviderConfig, StreamingResponse } from './AIProviderInterface';
+import { IAIProvider, AIMessage, AIResponse, AIProviderConfig, StreamingResponse, AIRequestOptions, AIToolCall } from './AIProviderInterface';
+import { tokenizerRegistry } from './Tokenizer';
+import { ProviderError } from './ProviderError';
+import { readStream } from './StreamReader';
 
 export class OpenAIProvider implements IAIProvider {
   public readonly provider = AIProvider.OPENAI;
@@ -58,7 +61,7 @@ export class OpenAIProvider implements IAIProvider {
     }
   }
 
-  async generateResponse(messages: AIMessage[], config: AIProviderConfig): Promise<AIResponse> {
+  async generateResponse(messages: AIMessage[], config: AIProviderConfig, options?: AIRequestOptions): Promise<AIResponse> {
     const apiKey = config.apiKey || process.env.OPENAI_API_KEY;
     if (!apiKey) {
       throw new Error('OpenAI API key not configured');
@@ -72,7 +75,8 @@ export class OpenAIProvider implements IAIProvider {
         messages: messages.map(m => ({
           role: m.role,
           content: m.content
-        }))
+        })),
+        ...this.buildToolsRequest(options)
       }, {
         headers: {
           'Authorization': `Bearer ${apiKey}`
@@ -81,6 +85,7 @@ export class OpenAIProvider implements IAIProvider {
 
       const data = response.data;
       const choice = data.choices[0];
+      const toolCalls = (choice.message.tool_calls || []).map((call: any) => this.parseToolCall(call.id, call.function?.name, call.function?.arguments));
 
       return {
         content: choice.message.content || '',
@@ -90,18 +95,20 @@ export class OpenAIProvider implements IAIProvider {
           outputTokens: data.usage?.completion_tokens || 0,
           totalTokens: data.usage?.total_tokens || 0
         },
-        finishReason: choice.finish_reason
+        finishReason: choice.finish_reason,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
       };
     } catch (error: any) {
       console.error('OpenAI API error:', error.response?.data || error.message);
-      throw new Error(`OpenAI API error: ${error.response?.data?.error?.message || error.message}`);
+      throw new ProviderError(`OpenAI API error: ${error.response?.data?.error?.message || error.message}`, error);
     }
   }
 
   async generateStreamingResponse(
     messages: AIMessage[],
     config: AIProviderConfig,
-    onChunk: (chunk: StreamingResponse) => void
+    onChunk: (chunk: StreamingResponse) => void,
+    options?: AIRequestOptions
   ): Promise<void> {
     const apiKey = config.apiKey || process.env.OPENAI_API_KEY;
     if (!apiKey) {
@@ -117,6 +124,7 @@ export class OpenAIProvider implements IAIProvider {
           role: m.role,
           content: m.content
         })),
+        ...this.buildToolsRequest(options),
         stream: true
       }, {
         headers: {
@@ -127,25 +135,48 @@ export class OpenAIProvider implements IAIProvider {
 
       let accumulatedContent = '';
       let usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+      // Tool call arguments arrive as JSON fragments, keyed by the call's index
+      const toolCallParts: Array<{ id: string; name: string; arguments: string }> = [];
+      const collectToolCalls = (): AIToolCall[] | undefined => toolCallParts.length > 0
+        ? toolCallParts.filter(Boolean).map(part => this.parseToolCall(part.id, part.name, part.arguments))
+        : undefined;
+      let finished = false;
+
+      // The stream can also end without [DONE], e.g. when the connection drops
+      const finish = () => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        onChunk({
+          content: accumulatedContent,
+          done: true,
+          usage,
+          toolCalls: collectToolCalls()
+        });
+      };
 
-      response.data.on('data', (chunk: Buffer) => {
+      await readStream(response.data, (chunk: Buffer) => {
         const lines = chunk.toString().split('\n');
         
         for (const line of lines) {
           if (line.startsWith('data: ')) {
             const data = line.slice(6).trim();
             if (data === '[DONE]') {
-              onChunk({
-                content: accumulatedContent,
-                done: true,
-                usage
-              });
+              finish();
               return;
             }
 
             try {
               const parsed = JSON.parse(data);
               const delta = parsed.choices?.[0]?.delta;
+
+              for (const toolCallDelta of delta?.tool_calls || []) {
+                const part = toolCallParts[toolCallDelta.index] ??= { id: '', name: '', arguments: '' };
+                part.id = toolCallDelta.id || part.id;
+                part.name += toolCallDelta.function?.name || '';
+                part.arguments += toolCallDelta.function?.arguments || '';
+              }
               
               if (delta?.content) {
                 accumulatedContent += delta.content;
@@ -154,22 +185,18 @@ export class OpenAIProvider implements IAIProvider {
                   done: false
                 });
               } else if (parsed.choices?.[0]?.finish_reason) {
-                onChunk({
-                  content: accumulatedContent,
-                  done: true,
-                  usage
-                });
+                finish();
               }
             } catch {
               // Skip invalid JSON
             }
           }
         }
-      });
+      }, finish);
 
     } catch (error: any) {
       console.error('OpenAI streaming error:', error);
-      throw new Error(`OpenAI streaming error: ${error.message}`);
+      throw new ProviderError(`OpenAI streaming error: ${error.message}`, error);
     }
   }
 
@@ -197,9 +224,37 @@ export class OpenAIProvider implements IAIProvider {
     }
   }
 
-  estimateTokens(messages: AIMessage[]): number {
-    // OpenAI's rough estimation: ~4 characters per token
-    const totalChars = messages.reduce((sum, msg) => sum + msg.content.length, 0);
-    return Math.ceil(totalChars / 4);
+  async supportsToolCalling(modelName: string): Promise<boolean> {
+    return /^(gpt-4|gpt-3\.5-turbo)/.test(modelName);
+  }
+
+  estimateTokens(messages: AIMessage[], modelName?: string): number {
+    return tokenizerRegistry.getTokenizer(this.provider, modelName).countMessageTokens(messages);
+  }
+
+  private buildToolsRequest(options?: AIRequestOptions): { tools?: any[] } {
+    if (!options?.tools?.length) {
+      return {};
+    }
+    return {
+      tools: options.tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }
+      }))
+    };
+  }
+
+  private parseToolCall(id: string, name: string, rawArguments: string): AIToolCall {
+    let args: Record<string, any> = {};
+    try {
+      args = rawArguments ? JSON.parse(rawArguments) : {};
+    } catch {
+      console.warn('OpenAI returned invalid tool call arguments:', rawArguments);
+    }
+    return { id, name, arguments: args };
   }
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+// Network error codes meaning the server couldn't be reached or didn't answer in time
+const TRANSIENT_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH'];
+
+/**
+ * Error thrown by providers when a request fails. Keeps the HTTP status and
+ * network error code of the underlying axios error, which the provider
+ * message alone loses.
+ */
+export class ProviderError extends Error {
+  public readonly status?: number;
+  public readonly code?: string;
+
+  constructor(message: string, cause?: any) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = cause?.response?.status ?? cause?.status;
+    this.code = cause?.code;
+  }
+
+  /**
+   * Timeouts, rate limits (429) and connection errors: the same request may
+   * succeed later or on another provider.
+   */
+  public static isTransient(error: unknown): boolean {
+    const status = (error as any)?.status ?? (error as any)?.response?.status;
+    const code = (error as any)?.code;
+    return status === 429 || (typeof code === 'string' && TRANSIENT_CODES.includes(code));
+  }
+}
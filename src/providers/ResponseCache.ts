@@ -0,0 +1,233 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { ResponseCacheSettings } from '@/shared/types';
+import { AIMessage, AIProviderConfig, AIRequestOptions, AIResponse } from './AIProviderInterface';
+
+interface CacheEntry {
+  key: string;
+  response: AIResponse;
+  size: number; // Characters of the serialized response
+  createdAt: number;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  sizeBytes: number;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Content-addressed cache of model responses. Only deterministic requests
+ * (temperature 0) are cached, keyed on everything that shapes the answer:
+ * provider, model, sampling settings, the full message list and the tools.
+ * Entries expire after the TTL and the least recently used are dropped once
+ * the entry or size limit is reached. New entries are persisted in batches,
+ * at most once per PERSIST_DELAY_MS, to a file in the extension's global
+ * storage folder.
+ */
+export class ResponseCache {
+  private static readonly STORAGE_KEY = 'responseCache'; // Where older versions kept the entries
+  private static readonly STORAGE_FILE = 'response-cache.json';
+  private static readonly PERSIST_DELAY_MS = 5000;
+  public static readonly DEFAULT_SETTINGS: ResponseCacheSettings = { enabled: true, maxEntries: 500, maxSizeMB: 5, ttlMinutes: 1440 };
+
+  // Ordered from least to most recently used
+  private entries: Map<string, CacheEntry> = new Map();
+  private settings: ResponseCacheSettings;
+  private context: vscode.ExtensionContext | null = null;
+  private hits = 0;
+  private misses = 0;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastWrite: Promise<void> = Promise.resolve(); // Writes run one after another
+
+  constructor(settings: ResponseCacheSettings = ResponseCache.DEFAULT_SETTINGS) {
+    this.settings = { ...settings };
+  }
+
+  public setContext(context: vscode.ExtensionContext): void {
+    this.context = context;
+    this.loadPersistedEntries();
+  }
+
+  public configure(settings: ResponseCacheSettings): void {
+    this.settings = { ...settings };
+    if (this.prune()) {
+      this.persistEntries();
+    }
+  }
+
+  public isEnabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  public static isCacheable(config: AIProviderConfig): boolean {
+    return config.temperature === 0;
+  }
+
+  public static getKey(messages: AIMessage[], config: AIProviderConfig, options?: AIRequestOptions): string {
+    const request = {
+      provider: config.provider,
+      modelName: config.modelName,
+      host: config.host || null,
+      baseUrl: config.baseUrl || null,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      messages: messages.map(message => ({ role: message.role, content: message.content })),
+      tools: options?.tools || []
+    };
+    return createHash('sha256').update(JSON.stringify(request)).digest('hex');
+  }
+
+  public get(key: string, now: number = Date.now()): AIResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || this.isExpired(entry, now)) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return { ...entry.response };
+  }
+
+  public set(key: string, response: AIResponse, now: number = Date.now()): void {
+    // Cut-off responses shouldn't be replayed
+    if (response.finishReason === 'length' || (!response.content && !response.toolCalls?.length)) {
+      return;
+    }
+
+    const stored: AIResponse = { ...response };
+    delete stored.cached;
+    this.entries.delete(key);
+    this.entries.set(key, { key, response: stored, size: JSON.stringify(stored).length, createdAt: now });
+    this.prune(now);
+    this.schedulePersist();
+  }
+
+  /**
+   * Drop every cached response and return how many there were
+   */
+  public clear(): number {
+    const count = this.entries.size;
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.persistEntries();
+    return count;
+  }
+
+  /**
+   * Write pending entries to storage now, e.g. when the extension deactivates
+   */
+  public async flush(): Promise<void> {
+    if (this.persistTimer) {
+      await this.persistEntries();
+    }
+    await this.lastWrite;
+  }
+
+  public getStats(): ResponseCacheStats {
+    return {
+      entries: this.entries.size,
+      sizeBytes: this.getSize(),
+      hits: this.hits,
+      misses: this.misses
+    };
+  }
+
+  private isExpired(entry: CacheEntry, now: number): boolean {
+    return now - entry.createdAt > this.settings.ttlMinutes * 60 * 1000;
+  }
+
+  private getSize(): number {
+    let size = 0;
+    for (const entry of this.entries.values()) {
+      size += entry.size;
+    }
+    return size;
+  }
+
+  // Remove expired entries, then the least recently used ones until within limits
+  private prune(now: number = Date.now()): boolean {
+    const before = this.entries.size;
+    for (const [key, entry] of this.entries) {
+      if (this.isExpired(entry, now)) {
+        this.entries.delete(key);
+      }
+    }
+
+    const maxSize = this.settings.maxSizeMB * 1024 * 1024;
+    let size = this.getSize();
+    for (const [key, entry] of this.entries) {
+      if (this.entries.size <= this.settings.maxEntries && size <= maxSize) {
+        break;
+      }
+      this.entries.delete(key);
+      size -= entry.size;
+    }
+    return this.entries.size !== before;
+  }
+
+  // Entries are only kept in memory when the extension has no storage folder
+  private getStoragePath(): string | null {
+    const storageUri = this.context?.globalStorageUri;
+    return storageUri ? path.join(storageUri.fsPath, ResponseCache.STORAGE_FILE) : null;
+  }
+
+  private loadPersistedEntries(): void {
+    if (!this.context) return;
+
+    try {
+      const storagePath = this.getStoragePath();
+      // Entries saved in globalState by older versions move to the storage file
+      const legacy = this.context.globalState.get<CacheEntry[]>(ResponseCache.STORAGE_KEY);
+      const persisted: CacheEntry[] = legacy
+        || (storagePath && fs.existsSync(storagePath) ? JSON.parse(fs.readFileSync(storagePath, 'utf8')) : []);
+      this.entries = new Map(persisted.map(entry => [entry.key, entry]));
+      this.prune();
+
+      if (legacy) {
+        this.context.globalState.update(ResponseCache.STORAGE_KEY, undefined);
+        this.persistEntries();
+      }
+    } catch (error) {
+      console.error('Error loading response cache:', error);
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.context || this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.persistEntries(), ResponseCache.PERSIST_DELAY_MS);
+  }
+
+  private async persistEntries(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    const storagePath = this.getStoragePath();
+    if (!storagePath) return;
+
+    const data = JSON.stringify(Array.from(this.entries.values()));
+    this.lastWrite = this.lastWrite.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(storagePath), { recursive: true });
+        await fs.promises.writeFile(storagePath, data, 'utf8');
+      } catch (error) {
+        console.error('Error persisting response cache:', error);
+      }
+    });
+    await this.lastWrite;
+  }
+}
+
+// Shared by every AIProviderManager; disabled until the extension configures it
+export const responseCache = new ResponseCache({ ...ResponseCache.DEFAULT_SETTINGS, enabled: false });
@@ -0,0 +1,42 @@
+/**
+ * Feeds a streamed response body to onData and resolves once the body ends,
+ * after onEnd ran. Providers await this so generateStreamingResponse only
+ * returns when the last chunk, including the done chunk, was delivered.
+ */
+export function readStream(
+  body: NodeJS.ReadableStream,
+  onData: (chunk: Buffer) => void,
+  onEnd?: () => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const settle = (error?: unknown) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    body.on('data', (chunk: Buffer) => {
+      try {
+        onData(chunk);
+      } catch (error) {
+        settle(error);
+      }
+    });
+    body.on('end', () => {
+      try {
+        onEnd?.();
+        settle();
+      } catch (error) {
+        settle(error);
+      }
+    });
+    body.on('error', settle);
+  });
+}
@@ -0,0 +1,148 @@
+import { AIProvider } from '@/shared/types';
+import { AIMessage } from './AIProviderInterface';
+
+/**
+ * Counts tokens the way a model family does. Implementations must work
+ * offline, since they run for every message sent to an agent.
+ */
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+  countMessageTokens(messages: AIMessage[]): number;
+}
+
+// How a model family's vocabulary splits text
+interface TokenizerProfile {
+  pattern: RegExp; // Pre-tokenizer: splits text into pieces that BPE merges never cross
+  singleTokenLetters: number; // Latin words up to this length are usually one token
+  lettersPerToken: number; // Average letters per token beyond that
+  nonLatinCharsPerToken: number;
+  digitsPerToken: number;
+  punctuationPerToken: number;
+  whitespacePerToken: number;
+  messageOverhead: number; // Role and separator tokens of the chat template, per message
+}
+
+/**
+ * Approximates a BPE tokenizer without shipping its vocabulary: text is split
+ * with the family's pre-tokenizer, and each piece is counted from how its
+ * vocabulary typically merges letters, digits, punctuation and whitespace.
+ */
+export class ApproximateBpeTokenizer implements Tokenizer {
+  constructor(public readonly name: string, private readonly profile: TokenizerProfile) {}
+
+  public countTokens(text: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    let tokens = 0;
+    for (const piece of text.match(this.profile.pattern) || []) {
+      tokens += this.countPiece(piece);
+    }
+    return tokens;
+  }
+
+  public countMessageTokens(messages: AIMessage[]): number {
+    return messages.reduce((sum, message) => sum + this.profile.messageOverhead + this.countTokens(message.content), 0);
+  }
+
+  private countPiece(piece: string): number {
+    const profile = this.profile;
+
+    if (/^\s+$/u.test(piece)) {
+      return Math.ceil(piece.length / profile.whitespacePerToken);
+    }
+    if (/^\p{N}+$/u.test(piece)) {
+      return Math.ceil(piece.length / profile.digitsPerToken);
+    }
+
+    const word = piece.replace(/[^\p{L}]/gu, '');
+    if (!word) {
+      return Math.ceil(piece.trim().length / profile.punctuationPerToken) || 1;
+    }
+    if (/[^\u0000-\u024F]/.test(word)) {
+      return Math.ceil(word.length / profile.nonLatinCharsPerToken);
+    }
+    if (word.length <= profile.singleTokenLetters) {
+      return 1;
+    }
+    return 1 + Math.ceil((word.length - profile.singleTokenLetters) / profile.lettersPerToken);
+  }
+}
+
+// tiktoken's cl100k/o200k pre-tokenizer: contractions, words with one leading
+// non-letter, numbers in groups of up to three, punctuation runs and whitespace
+const TIKTOKEN_PATTERN = /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+
+// SentencePiece as used by Llama 2 and Mistral: words carry their leading
+// space and every digit is a token of its own
+const SENTENCEPIECE_PATTERN = / ?\p{L}+|\p{N}| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+export const OPENAI_TOKENIZER = new ApproximateBpeTokenizer('openai-bpe', {
+  pattern: TIKTOKEN_PATTERN,
+  singleTokenLetters: 6,
+  lettersPerToken: 6,
+  nonLatinCharsPerToken: 1.5,
+  digitsPerToken: 3,
+  punctuationPerToken: 2,
+  whitespacePerToken: 8,
+  messageOverhead: 4
+});
+
+// Claude's vocabulary is smaller than cl100k, so words split a little sooner
+export const CLAUDE_TOKENIZER = new ApproximateBpeTokenizer('claude', {
+  pattern: TIKTOKEN_PATTERN,
+  singleTokenLetters: 5,
+  lettersPerToken: 5,
+  nonLatinCharsPerToken: 1.2,
+  digitsPerToken: 3,
+  punctuationPerToken: 2,
+  whitespacePerToken: 4,
+  messageOverhead: 3
+});
+
+export const LLAMA_TOKENIZER = new ApproximateBpeTokenizer('llama-sentencepiece', {
+  pattern: SENTENCEPIECE_PATTERN,
+  singleTokenLetters: 4,
+  lettersPerToken: 4,
+  nonLatinCharsPerToken: 1,
+  digitsPerToken: 1,
+  punctuationPerToken: 1,
+  whitespacePerToken: 1,
+  messageOverhead: 4
+});
+
+type TokenizerMatcher = (provider: AIProvider, modelName: string) => boolean;
+
+/**
+ * Picks the tokenizer for a model. The model name decides first, since Ollama
+ * and LM Studio serve models of every family; the provider decides otherwise.
+ * Tokenizers registered later take precedence, so an exact tokenizer can
+ * replace an approximation.
+ */
+export class TokenizerRegistry {
+  private entries: Array<{ matches: TokenizerMatcher; tokenizer: Tokenizer }> = [];
+
+  constructor() {
+    this.register((provider) => provider === AIProvider.OLLAMA || provider === AIProvider.LM_STUDIO, LLAMA_TOKENIZER);
+    // Google's SentencePiece vocabulary is about as large as cl100k
+    this.register((provider) => provider === AIProvider.OPENAI || provider === AIProvider.GOOGLE, OPENAI_TOKENIZER);
+    this.register((provider) => provider === AIProvider.ANTHROPIC, CLAUDE_TOKENIZER);
+    this.register((_provider, modelName) => /llama|mistral|mixtral|vicuna|phi|tinyllama|deepseek/i.test(modelName), LLAMA_TOKENIZER);
+    // Llama 3, Qwen and Gemma moved to large tiktoken-style vocabularies
+    this.register((_provider, modelName) => /gpt|^o\d|llama-?3|qwen|gemma/i.test(modelName), OPENAI_TOKENIZER);
+    this.register((_provider, modelName) => /claude/i.test(modelName), CLAUDE_TOKENIZER);
+  }
+
+  public register(matches: TokenizerMatcher, tokenizer: Tokenizer): void {
+    this.entries.unshift({ matches, tokenizer });
+  }
+
+  public getTokenizer(provider: AIProvider, modelName: string = ''): Tokenizer {
+    const entry = this.entries.find(candidate => candidate.matches(provider, modelName));
+    return entry ? entry.tokenizer : OPENAI_TOKENIZER;
+  }
+}
+
+export const tokenizerRegistry = new TokenizerRegistry();
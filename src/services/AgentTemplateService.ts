@@ -0,0 +1,460 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  AgentConfig,
+  AgentTemplate,
+  AgentTemplateSource,
+  AgentType,
+  AIProvider,
+  Capability,
+  CapabilityType,
+  ModelConfig,
+  Permission,
+  PermissionType
+} from '@/shared/types';
+import { debugLogger } from '@/utils/logger';
+
+// Written by "Export Agent" and read back by "Import Agent"
+export interface AgentExport {
+  kind: 'ai-agents.agent';
+  version: number;
+  agent: Partial<AgentConfig>;
+}
+
+/**
+ * Agent templates from JSON files: the built-in ones shipped in
+ * resources/templates, the user's (~/.ai-agents/templates), which override
+ * built-in ones by id, and the workspace's (.vscode/ai-agents/templates).
+ * Workspace templates come with whatever folder is open, so they may add
+ * templates but never replace a built-in or user template's prompt and
+ * permissions. Also reads and writes full agent configs for import/export.
+ */
+export class AgentTemplateService {
+  public static readonly WORKSPACE_DIRECTORY = path.join('.vscode', 'ai-agents', 'templates');
+  public static readonly USER_DIRECTORY = path.join(os.homedir(), '.ai-agents', 'templates');
+  public static readonly EXPORT_VERSION = 1;
+
+  private builtInTemplates: AgentTemplate[] | null = null;
+
+  constructor(
+    private builtInDirectory: string,
+    private getWorkspaceRoot: () => string | undefined,
+    private userDirectory: string = AgentTemplateService.USER_DIRECTORY
+  ) {}
+
+  /**
+   * Reads every template. Files that fail validation are reported in errors
+   * rather than hiding the rest.
+   */
+  public loadTemplates(): { templates: AgentTemplate[]; errors: string[] } {
+    const errors: string[] = [];
+    const builtIn = this.getBuiltInTemplates();
+    const user = this.readDirectory(this.userDirectory, 'user', errors);
+    const workspaceRoot = this.getWorkspaceRoot();
+    const workspace = workspaceRoot
+      ? this.readDirectory(path.join(workspaceRoot, AgentTemplateService.WORKSPACE_DIRECTORY), 'workspace', errors)
+      : [];
+
+    const templates = new Map<string, AgentTemplate>();
+    for (const template of [...builtIn, ...user]) {
+      templates.set(template.id, template);
+    }
+    for (const template of workspace) {
+      const existing = templates.get(template.id);
+      if (existing) {
+        errors.push(`${path.join(AgentTemplateService.WORKSPACE_DIRECTORY, path.basename(template.filePath || ''))}: id "${template.id}" is taken by a ${existing.source} template, which workspace templates can't replace`);
+        continue;
+      }
+      templates.set(template.id, template);
+    }
+    return { templates: Array.from(templates.values()), errors };
+  }
+
+  // The shipped template for an agent type, which also supplies its default system prompt
+  public getBuiltInTemplate(type: AgentType): AgentTemplate | undefined {
+    return this.getBuiltInTemplates().find(template => template.type === type);
+  }
+
+  /**
+   * Saves an agent's setup as a template file, returning its path. An
+   * existing template with the same id is replaced.
+   */
+  public saveAgentAsTemplate(agent: AgentConfig, source: Exclude<AgentTemplateSource, 'built-in'>, description?: string): string {
+    const directory = source === 'workspace' ? this.getWorkspaceDirectory() : this.userDirectory;
+    if (!directory) {
+      throw new Error('Open a folder to save workspace templates');
+    }
+
+    const template = AgentTemplateService.toTemplate(agent, description);
+    if (source === 'workspace' && this.getBuiltInTemplates().some(builtIn => builtIn.id === template.id)) {
+      throw new Error(`A built-in template already uses the id "${template.id}"; rename the agent to save it for the workspace`);
+    }
+    const filePath = path.join(directory, `${template.id}.json`);
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(template, null, 2) + '\n', 'utf8');
+    debugLogger.log('Saved agent as template', { agentId: agent.id, filePath });
+    return filePath;
+  }
+
+  public static toTemplate(agent: AgentConfig, description?: string): AgentTemplate {
+    return {
+      id: AgentTemplateService.slugify(agent.name),
+      name: agent.name,
+      type: agent.type,
+      description: description || `Saved from the ${agent.name} agent`,
+      category: 'Saved',
+      avatar: AgentTemplateService.portableAvatar(agent.avatar) ?? '🤖',
+      systemPrompt: agent.systemPrompt,
+      capabilities: agent.capabilities || [],
+      permissions: agent.permissions || [],
+      defaultModel: AgentTemplateService.withoutApiKey(agent.model),
+      examples: [],
+      tags: []
+    };
+  }
+
+  // Everything needed to recreate the agent elsewhere, minus its identity and API key
+  public static exportAgent(agent: AgentConfig): string {
+    const avatar = AgentTemplateService.portableAvatar(agent.avatar);
+    const exported: AgentExport = {
+      kind: 'ai-agents.agent',
+      version: AgentTemplateService.EXPORT_VERSION,
+      agent: {
+        name: agent.name,
+        ...(avatar ? { avatar } : {}),
+        type: agent.type,
+        model: AgentTemplateService.withoutApiKey(agent.model) as ModelConfig,
+        capabilities: agent.capabilities,
+        permissions: agent.permissions,
+        systemPrompt: agent.systemPrompt,
+        contextScope: agent.contextScope,
+        memory: agent.memory,
+        ...(agent.commandPolicy ? { commandPolicy: agent.commandPolicy } : {}),
+        ...(agent.monthlyBudget !== undefined ? { monthlyBudget: agent.monthlyBudget } : {})
+      }
+    };
+    return JSON.stringify(exported, null, 2) + '\n';
+  }
+
+  public static parseAgentExport(text: string): Partial<AgentConfig> {
+    const raw = AgentTemplateService.parseJson(text);
+    if (raw?.kind !== 'ai-agents.agent' || typeof raw.agent !== 'object' || raw.agent === null) {
+      throw new Error('this is not an exported agent (expected "kind": "ai-agents.agent" and an "agent" object)');
+    }
+    if (typeof raw.version !== 'number' || raw.version > AgentTemplateService.EXPORT_VERSION) {
+      throw new Error(`unsupported export version ${raw.version}; this extension reads version ${AgentTemplateService.EXPORT_VERSION}`);
+    }
+
+    const agent = raw.agent;
+    const problems: string[] = [];
+    AgentTemplateService.checkString(agent, 'name', problems);
+    AgentTemplateService.checkString(agent, 'systemPrompt', problems);
+    AgentTemplateService.checkEnum(agent, 'type', AgentType, problems);
+    problems.push(...AgentTemplateService.checkModel(agent.model, 'model', true));
+    problems.push(...AgentTemplateService.checkCapabilities(agent.capabilities));
+    problems.push(...AgentTemplateService.checkPermissions(agent.permissions));
+    problems.push(...AgentTemplateService.checkContextScope(agent.contextScope));
+    problems.push(...AgentTemplateService.checkMemory(agent.memory));
+    problems.push(...AgentTemplateService.checkCommandPolicy(agent.commandPolicy));
+    if (agent.avatar !== undefined && typeof agent.avatar !== 'string') {
+      problems.push('"avatar" must be a string');
+    }
+    if (agent.monthlyBudget !== undefined && (typeof agent.monthlyBudget !== 'number' || agent.monthlyBudget < 0)) {
+      problems.push('"monthlyBudget" must be a number of dollars, 0 or more');
+    }
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+
+    // Only the fields exportAgent writes are taken over; ids, timestamps and
+    // the active flag are given by the importing side
+    const model: ModelConfig = agent.model;
+    const config: Partial<AgentConfig> = {
+      name: agent.name.trim(),
+      type: agent.type,
+      model: {
+        provider: model.provider,
+        modelName: model.modelName,
+        temperature: model.temperature,
+        maxTokens: model.maxTokens,
+        ...(model.baseUrl !== undefined ? { baseUrl: model.baseUrl } : {}),
+        ...(model.host !== undefined ? { host: model.host } : {}),
+        ...(model.fallbacks !== undefined ? { fallbacks: model.fallbacks } : {})
+      },
+      systemPrompt: agent.systemPrompt,
+      ...(agent.avatar !== undefined ? { avatar: agent.avatar } : {}),
+      ...(agent.capabilities !== undefined ? { capabilities: agent.capabilities } : {}),
+      ...(agent.permissions !== undefined ? { permissions: agent.permissions } : {}),
+      ...(agent.contextScope !== undefined ? { contextScope: agent.contextScope } : {}),
+      ...(agent.memory !== undefined ? { memory: agent.memory } : {}),
+      ...(agent.commandPolicy !== undefined ? { commandPolicy: agent.commandPolicy } : {}),
+      ...(agent.monthlyBudget !== undefined ? { monthlyBudget: agent.monthlyBudget } : {})
+    };
+    return config;
+  }
+
+  public static parseTemplate(text: string, source: AgentTemplateSource): AgentTemplate {
+    const raw = AgentTemplateService.parseJson(text);
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error('a template must be a JSON object');
+    }
+
+    const problems: string[] = [];
+    AgentTemplateService.checkString(raw, 'name', problems);
+    AgentTemplateService.checkString(raw, 'systemPrompt', problems);
+    AgentTemplateService.checkEnum(raw, 'type', AgentType, problems);
+    if (raw.id !== undefined && (typeof raw.id !== 'string' || !/^[\w-]+$/.test(raw.id))) {
+      problems.push('"id" may only contain letters, digits, _ and -');
+    }
+    for (const field of ['description', 'category', 'avatar']) {
+      if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+        problems.push(`"${field}" must be a string`);
+      }
+    }
+    for (const field of ['examples', 'tags']) {
+      if (raw[field] !== undefined && (!Array.isArray(raw[field]) || raw[field].some((item: unknown) => typeof item !== 'string'))) {
+        problems.push(`"${field}" must be a list of strings`);
+      }
+    }
+    problems.push(...AgentTemplateService.checkCapabilities(raw.capabilities));
+    problems.push(...AgentTemplateService.checkPermissions(raw.permissions));
+    if (raw.defaultModel !== undefined) {
+      problems.push(...AgentTemplateService.checkModel(raw.defaultModel, 'defaultModel', false));
+    }
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+
+    return {
+      id: raw.id || AgentTemplateService.slugify(raw.name),
+      name: raw.name.trim(),
+      type: raw.type,
+      description: raw.description || '',
+      category: raw.category || 'Other',
+      avatar: raw.avatar || '🤖',
+      systemPrompt: raw.systemPrompt,
+      capabilities: raw.capabilities || [],
+      permissions: raw.permissions,
+      defaultModel: raw.defaultModel,
+      examples: raw.examples || [],
+      tags: raw.tags || [],
+      source
+    };
+  }
+
+  private getBuiltInTemplates(): AgentTemplate[] {
+    if (!this.builtInTemplates) {
+      const errors: string[] = [];
+      this.builtInTemplates = this.readDirectory(this.builtInDirectory, 'built-in', errors);
+      if (errors.length > 0) {
+        console.error('Invalid built-in agent templates:', errors);
+      }
+    }
+    return this.builtInTemplates;
+  }
+
+  private getWorkspaceDirectory(): string | undefined {
+    const workspaceRoot = this.getWorkspaceRoot();
+    return workspaceRoot ? path.join(workspaceRoot, AgentTemplateService.WORKSPACE_DIRECTORY) : undefined;
+  }
+
+  private readDirectory(directory: string, source: AgentTemplateSource, errors: string[]): AgentTemplate[] {
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+
+    const templates: AgentTemplate[] = [];
+    for (const fileName of fs.readdirSync(directory).filter(name => name.endsWith('.json')).sort()) {
+      const filePath = path.join(directory, fileName);
+      try {
+        templates.push({ ...AgentTemplateService.parseTemplate(fs.readFileSync(filePath, 'utf8'), source), filePath });
+      } catch (error) {
+        errors.push(`${source === 'workspace' ? path.join(AgentTemplateService.WORKSPACE_DIRECTORY, fileName) : filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return templates;
+  }
+
+  private static parseJson(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new Error(`invalid JSON (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+
+  private static checkString(raw: any, field: string, problems: string[]): void {
+    if (typeof raw[field] !== 'string' || !raw[field].trim()) {
+      problems.push(`"${field}" is required`);
+    }
+  }
+
+  private static checkEnum(raw: any, field: string, values: Record<string, string>, problems: string[]): void {
+    if (!Object.values(values).includes(raw[field])) {
+      problems.push(`"${field}" must be one of ${Object.values(values).join(', ')}`);
+    }
+  }
+
+  private static checkModel(model: any, field: string, required: boolean): string[] {
+    if (model === undefined && !required) {
+      return [];
+    }
+    if (!model || typeof model !== 'object') {
+      return [`"${field}" must be an object with a provider and modelName`];
+    }
+
+    const problems: string[] = [];
+    if ((required || model.provider !== undefined) && !Object.values(AIProvider).includes(model.provider)) {
+      problems.push(`"${field}.provider" must be one of ${Object.values(AIProvider).join(', ')}`);
+    }
+    if ((required || model.modelName !== undefined) && (typeof model.modelName !== 'string' || !model.modelName.trim())) {
+      problems.push(`"${field}.modelName" is required`);
+    }
+    if (model.temperature !== undefined && (typeof model.temperature !== 'number' || model.temperature < 0 || model.temperature > 2)) {
+      problems.push(`"${field}.temperature" must be a number from 0 to 2`);
+    }
+    if (model.maxTokens !== undefined && (!Number.isInteger(model.maxTokens) || model.maxTokens <= 0)) {
+      problems.push(`"${field}.maxTokens" must be a whole number above 0`);
+    }
+    for (const key of ['baseUrl', 'host']) {
+      if (model[key] !== undefined && typeof model[key] !== 'string') {
+        problems.push(`"${field}.${key}" must be a string`);
+      }
+    }
+    if (model.fallbacks !== undefined) {
+      if (!Array.isArray(model.fallbacks)) {
+        problems.push(`"${field}.fallbacks" must be a list`);
+      } else {
+        model.fallbacks.forEach((fallback: any, index: number) => {
+          problems.push(...AgentTemplateService.checkModel(fallback, `${field}.fallbacks[${index}]`, true));
+        });
+      }
+    }
+    return problems;
+  }
+
+  private static checkContextScope(scope: any): string[] {
+    if (scope === undefined) {
+      return [];
+    }
+    if (!scope || typeof scope !== 'object') {
+      return ['"contextScope" must be an object'];
+    }
+    const problems: string[] = [];
+    for (const key of ['includeFiles', 'includeGit', 'includeWorkspace']) {
+      if (typeof scope[key] !== 'boolean') {
+        problems.push(`"contextScope.${key}" must be true or false`);
+      }
+    }
+    for (const key of ['filePatterns', 'excludePatterns']) {
+      if (!AgentTemplateService.isStringList(scope[key])) {
+        problems.push(`"contextScope.${key}" must be a list of strings`);
+      }
+    }
+    return problems;
+  }
+
+  private static checkMemory(memory: any): string[] {
+    if (memory === undefined) {
+      return [];
+    }
+    if (!memory || typeof memory !== 'object') {
+      return ['"memory" must be an object'];
+    }
+    const problems: string[] = [];
+    for (const key of ['maxConversations', 'retentionDays']) {
+      if (!Number.isInteger(memory[key]) || memory[key] < 0) {
+        problems.push(`"memory.${key}" must be a whole number, 0 or more`);
+      }
+    }
+    if (typeof memory.enableLearning !== 'boolean') {
+      problems.push('"memory.enableLearning" must be true or false');
+    }
+    return problems;
+  }
+
+  private static checkCommandPolicy(policy: any): string[] {
+    if (policy === undefined) {
+      return [];
+    }
+    if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+      return ['"commandPolicy" must be an object'];
+    }
+    const problems: string[] = [];
+    for (const key of Object.keys(policy)) {
+      if (!['allow', 'ask', 'deny', 'defaultAction'].includes(key)) {
+        problems.push(`"commandPolicy.${key}" is not a command policy setting`);
+      }
+    }
+    for (const key of ['allow', 'ask', 'deny']) {
+      if (policy[key] !== undefined && !AgentTemplateService.isStringList(policy[key])) {
+        problems.push(`"commandPolicy.${key}" must be a list of strings`);
+      }
+    }
+    if (policy.defaultAction !== undefined && !['allow', 'ask', 'deny'].includes(policy.defaultAction)) {
+      problems.push('"commandPolicy.defaultAction" must be one of allow, ask, deny');
+    }
+    return problems;
+  }
+
+  private static isStringList(value: any): boolean {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+
+  private static checkCapabilities(capabilities: any): string[] {
+    if (capabilities === undefined) {
+      return [];
+    }
+    if (!Array.isArray(capabilities)) {
+      return ['"capabilities" must be a list'];
+    }
+    return capabilities.flatMap((capability: Capability, index: number) => {
+      const problems: string[] = [];
+      if (!Object.values(CapabilityType).includes(capability?.type)) {
+        problems.push(`"capabilities[${index}].type" must be one of ${Object.values(CapabilityType).join(', ')}`);
+      }
+      if (typeof capability?.enabled !== 'boolean') {
+        problems.push(`"capabilities[${index}].enabled" must be true or false`);
+      }
+      return problems;
+    });
+  }
+
+  private static checkPermissions(permissions: any): string[] {
+    if (permissions === undefined) {
+      return [];
+    }
+    if (!Array.isArray(permissions)) {
+      return ['"permissions" must be a list'];
+    }
+    return permissions.flatMap((permission: Permission, index: number) => {
+      const problems: string[] = [];
+      if (!Object.values(PermissionType).includes(permission?.type)) {
+        problems.push(`"permissions[${index}].type" must be one of ${Object.values(PermissionType).join(', ')}`);
+      }
+      if (typeof permission?.granted !== 'boolean') {
+        problems.push(`"permissions[${index}].granted" must be true or false`);
+      }
+      if (permission?.scope !== undefined && (!Array.isArray(permission.scope) || permission.scope.some(item => typeof item !== 'string'))) {
+        problems.push(`"permissions[${index}].scope" must be a list of strings`);
+      }
+      return problems;
+    });
+  }
+
+  // Avatar images belong to this install, so only emoji avatars travel with an agent
+  private static portableAvatar(avatar: string | undefined): string | undefined {
+    return avatar && !/^avatar:|\.(png|jpe?g|gif|svg|webp)$/i.test(avatar) ? avatar : undefined;
+  }
+
+  private static withoutApiKey(model: ModelConfig): Partial<ModelConfig> {
+    const portable: Partial<ModelConfig> = { ...model };
+    delete portable.apiKey;
+    return portable;
+  }
+
+  private static slugify(name: string): string {
+    return name.trim().toLowerCase().replace(/[^\w]+/g, '-').replace(/^-+|-+$/g, '') || 'template';
+  }
+}
@@ -0,0 +1,398 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodebaseIndexSettings } from '@/shared/types';
+
+// A piece of a source file, cut at symbol declarations
+export interface CodeChunk {
+  id: string; // relativePath:startLine
+  filePath: string; // Absolute
+  relativePath: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  symbol?: string; // First declaration in the chunk
+  content: string;
+}
+
+export interface CodeSearchResult extends CodeChunk {
+  score: number;
+}
+
+// Turns texts into embedding vectors, e.g. with an Ollama embedding model
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+interface IndexedChunk extends CodeChunk {
+  terms: Map<string, number>;
+  length: number;
+  embedding?: number[];
+}
+
+/**
+ * Local index of the workspace's code for retrieval. Files are cut into
+ * chunks at function, class and other symbol declarations. Queries are
+ * ranked with BM25 over identifiers, which needs no network; when an
+ * embedding model is configured and every chunk has been embedded, chunks
+ * are ranked by cosine similarity instead. The index is built on the first
+ * search and kept fresh by updateFile/removeFile from the file watchers.
+ */
+export class CodebaseIndex {
+  private static readonly INDEXED_EXTENSIONS = new Set([
+    '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.kt', '.cs',
+    '.c', '.h', '.cpp', '.hpp', '.rb', '.php', '.swift', '.scala', '.vue', '.svelte', '.md'
+  ]);
+  private static readonly IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'out', 'coverage', 'target', 'vendor', '__pycache__']);
+  private static readonly MAX_FILES = 5000;
+  private static readonly MAX_FILE_BYTES = 256 * 1024;
+  private static readonly MAX_CHUNK_LINES = 80;
+  private static readonly EMBEDDING_BATCH_SIZE = 16;
+  private static readonly MIN_SIMILARITY = 0.3;
+  private static readonly DECLARATION_PATTERNS = [
+    /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|def|func|fn|struct|trait|impl|module|namespace)\s+([A-Za-z_$][\w$]*)/,
+    /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=>/,
+    /^\s*(?:(?:public|private|protected|static|async|override|readonly)\s+)*([A-Za-z_$][\w$]*)\s*\([^)]*\)\s*(?::\s*[^{]+)?\{\s*$/
+  ];
+  private static readonly CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'else', 'do', 'try', 'with', 'await', 'new', 'typeof']);
+  private static readonly STOP_WORDS = new Set([
+    'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'it', 'this', 'that', 'be', 'as', 'at', 'by', 'with',
+    'can', 'you', 'me', 'my', 'we', 'do', 'does', 'how', 'what', 'where', 'why', 'please', 'should', 'would', 'could', 'are', 'from'
+  ]);
+
+  private chunks: Map<string, IndexedChunk[]> = new Map(); // By absolute file path
+  private documentFrequency: Map<string, number> = new Map();
+  private chunkCount = 0;
+  private totalLength = 0;
+  private building: Promise<void> | null = null;
+  private settings: CodebaseIndexSettings = { enabled: true, embeddingModel: '', maxResults: 5 };
+  private embedder?: Embedder;
+  private embedding: Promise<void> | null = null;
+
+  constructor(private readonly workspaceRoot: string) {}
+
+  public configure(settings: CodebaseIndexSettings, embedder?: Embedder): void {
+    const embedderChanged = settings.embeddingModel !== this.settings.embeddingModel;
+    this.settings = { ...settings };
+    this.embedder = settings.embeddingModel ? embedder : undefined;
+    if (embedderChanged) {
+      // Vectors from different models can't be compared
+      for (const chunk of this.allChunks()) {
+        chunk.embedding = undefined;
+      }
+    }
+  }
+
+  public getSettings(): CodebaseIndexSettings {
+    return { ...this.settings };
+  }
+
+  public async search(query: string, limit: number = this.settings.maxResults): Promise<CodeSearchResult[]> {
+    if (!this.settings.enabled || limit <= 0) {
+      return [];
+    }
+    await this.ensureBuilt();
+
+    const chunks = this.allChunks();
+    if (this.embedder && chunks.length > 0) {
+      if (chunks.every(chunk => chunk.embedding)) {
+        const semantic = await this.searchByEmbedding(query, chunks, limit);
+        if (semantic) {
+          return semantic;
+        }
+      } else {
+        this.embedPendingChunks();
+      }
+    }
+    return this.searchByKeywords(query, chunks, limit);
+  }
+
+  /**
+   * Re-index a created or changed file. Ignored until the index is built,
+   * since building reads every file anyway.
+   */
+  public async updateFile(filePath: string): Promise<void> {
+    if (!this.building || !this.isIndexable(filePath)) {
+      return;
+    }
+    await this.building;
+
+    try {
+      const stats = await fs.promises.stat(filePath);
+      if (!stats.isFile() || stats.size > CodebaseIndex.MAX_FILE_BYTES) {
+        this.removeFile(filePath);
+        return;
+      }
+      this.setFileChunks(filePath, await fs.promises.readFile(filePath, 'utf8'));
+    } catch {
+      this.removeFile(filePath);
+    }
+  }
+
+  public removeFile(filePath: string): void {
+    for (const chunk of this.chunks.get(filePath) || []) {
+      this.removeStatistics(chunk);
+    }
+    this.chunks.delete(filePath);
+  }
+
+  public getChunkCount(): number {
+    return this.chunkCount;
+  }
+
+  /**
+   * Cut a file at its symbol declarations; long chunks and files without
+   * declarations are cut every MAX_CHUNK_LINES lines
+   */
+  public static chunkFile(content: string): Array<{ startLine: number; endLine: number; symbol?: string; content: string }> {
+    const lines = content.split('\n');
+    const boundaries: Array<{ line: number; symbol?: string }> = [{ line: 0 }];
+
+    lines.forEach((line, index) => {
+      const symbol = CodebaseIndex.getDeclaredSymbol(line);
+      if (symbol && index > 0) {
+        boundaries.push({ line: index, symbol });
+      } else if (symbol) {
+        boundaries[0].symbol = symbol;
+      }
+    });
+
+    const chunks: Array<{ startLine: number; endLine: number; symbol?: string; content: string }> = [];
+    boundaries.forEach((boundary, index) => {
+      const end = index + 1 < boundaries.length ? boundaries[index + 1].line : lines.length;
+      for (let start = boundary.line; start < end; start += CodebaseIndex.MAX_CHUNK_LINES) {
+        const chunkEnd = Math.min(start + CodebaseIndex.MAX_CHUNK_LINES, end);
+        const text = lines.slice(start, chunkEnd).join('\n');
+        if (text.trim()) {
+          chunks.push({ startLine: start + 1, endLine: chunkEnd, symbol: boundary.symbol, content: text });
+        }
+      }
+    });
+    return chunks;
+  }
+
+  // Lowercased identifiers and their camelCase/snake_case parts
+  public static tokenize(text: string): string[] {
+    const terms: string[] = [];
+    for (const word of text.match(/[A-Za-z_$][\w$]*|\d+/g) || []) {
+      const parts = word.split(/[_$]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(Boolean);
+      for (const term of parts.length > 1 ? [word, ...parts] : [word]) {
+        const lower = term.toLowerCase();
+        if (lower.length > 1 && !CodebaseIndex.STOP_WORDS.has(lower)) {
+          terms.push(lower);
+        }
+      }
+    }
+    return terms;
+  }
+
+  public static getDeclaredSymbol(line: string): string | undefined {
+    for (const pattern of CodebaseIndex.DECLARATION_PATTERNS) {
+      const match = pattern.exec(line);
+      if (match && !CodebaseIndex.CONTROL_KEYWORDS.has(match[1])) {
+        return match[1];
+      }
+    }
+    return undefined;
+  }
+
+  private ensureBuilt(): Promise<void> {
+    if (!this.building) {
+      this.building = this.build().catch(error => {
+        console.error('Error building codebase index:', error);
+      });
+    }
+    return this.building;
+  }
+
+  private async build(): Promise<void> {
+    const files: string[] = [];
+    await this.collectFiles(this.workspaceRoot, files);
+
+    for (const filePath of files) {
+      try {
+        this.setFileChunks(filePath, await fs.promises.readFile(filePath, 'utf8'));
+      } catch {
+        // Unreadable files are skipped
+      }
+    }
+    console.log(`Indexed ${this.chunkCount} code chunks from ${files.length} files`);
+  }
+
+  private async collectFiles(directory: string, files: string[]): Promise<void> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (files.length >= CodebaseIndex.MAX_FILES) {
+        return;
+      }
+      if (entry.name.startsWith('.') || CodebaseIndex.IGNORED_DIRECTORIES.has(entry.name)) {
+        continue;
+      }
+
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        await this.collectFiles(entryPath, files);
+      } else if (entry.isFile() && this.isIndexable(entryPath)) {
+        const stats = await fs.promises.stat(entryPath);
+        if (stats.size <= CodebaseIndex.MAX_FILE_BYTES) {
+          files.push(entryPath);
+        }
+      }
+    }
+  }
+
+  private isIndexable(filePath: string): boolean {
+    const relative = path.relative(this.workspaceRoot, filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return false;
+    }
+    const segments = relative.split(path.sep);
+    if (segments.some(segment => segment.startsWith('.') || CodebaseIndex.IGNORED_DIRECTORIES.has(segment))) {
+      return false;
+    }
+    return CodebaseIndex.INDEXED_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+  }
+
+  private setFileChunks(filePath: string, content: string): void {
+    this.removeFile(filePath);
+
+    const relativePath = path.relative(this.workspaceRoot, filePath).split(path.sep).join('/');
+    const pathTerms = CodebaseIndex.tokenize(relativePath);
+    const chunks = CodebaseIndex.chunkFile(content).map(chunk => {
+      const terms = new Map<string, number>();
+      const tokens = [...pathTerms, ...CodebaseIndex.tokenize(chunk.content)];
+      for (const term of tokens) {
+        terms.set(term, (terms.get(term) || 0) + 1);
+      }
+      const indexed: IndexedChunk = {
+        ...chunk,
+        id: `${relativePath}:${chunk.startLine}`,
+        filePath,
+        relativePath,
+        terms,
+        length: tokens.length
+      };
+      this.addStatistics(indexed);
+      return indexed;
+    });
+    this.chunks.set(filePath, chunks);
+  }
+
+  private addStatistics(chunk: IndexedChunk): void {
+    this.chunkCount++;
+    this.totalLength += chunk.length;
+    for (const term of chunk.terms.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  private removeStatistics(chunk: IndexedChunk): void {
+    this.chunkCount--;
+    this.totalLength -= chunk.length;
+    for (const term of chunk.terms.keys()) {
+      const frequency = (this.documentFrequency.get(term) || 1) - 1;
+      if (frequency > 0) {
+        this.documentFrequency.set(term, frequency);
+      } else {
+        this.documentFrequency.delete(term);
+      }
+    }
+  }
+
+  private allChunks(): IndexedChunk[] {
+    return Array.from(this.chunks.values()).flat();
+  }
+
+  private searchByKeywords(query: string, chunks: IndexedChunk[], limit: number): CodeSearchResult[] {
+    const queryTerms = Array.from(new Set(CodebaseIndex.tokenize(query)));
+    if (queryTerms.length === 0 || this.chunkCount === 0) {
+      return [];
+    }
+
+    // BM25
+    const k1 = 1.2;
+    const b = 0.75;
+    const averageLength = this.totalLength / this.chunkCount;
+    const scored = chunks.map(chunk => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = chunk.terms.get(term);
+        if (!frequency) continue;
+        const documents = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (this.chunkCount - documents + 0.5) / (documents + 0.5));
+        score += idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * chunk.length / averageLength));
+      }
+      return { chunk, score };
+    });
+
+    return this.topResults(scored.filter(result => result.score > 0), limit);
+  }
+
+  private async searchByEmbedding(query: string, chunks: IndexedChunk[], limit: number): Promise<CodeSearchResult[] | undefined> {
+    try {
+      const [queryEmbedding] = await this.embedder!([query]);
+      if (!queryEmbedding) {
+        return undefined;
+      }
+      const scored = chunks.map(chunk => ({ chunk, score: CodebaseIndex.cosineSimilarity(queryEmbedding, chunk.embedding!) }));
+      return this.topResults(scored.filter(result => result.score >= CodebaseIndex.MIN_SIMILARITY), limit);
+    } catch (error) {
+      console.warn('Embedding search failed, using keyword search:', error);
+      return undefined;
+    }
+  }
+
+  // Embed chunks without a vector in the background; keyword search answers meanwhile
+  private embedPendingChunks(): void {
+    if (this.embedding || !this.embedder) {
+      return;
+    }
+
+    const embedder = this.embedder;
+    this.embedding = (async () => {
+      const pending = this.allChunks().filter(chunk => !chunk.embedding);
+      for (let i = 0; i < pending.length; i += CodebaseIndex.EMBEDDING_BATCH_SIZE) {
+        const batch = pending.slice(i, i + CodebaseIndex.EMBEDDING_BATCH_SIZE);
+        const vectors = await embedder(batch.map(chunk => `${chunk.relativePath}\n${chunk.content}`.slice(0, 4000)));
+        batch.forEach((chunk, index) => {
+          chunk.embedding = vectors[index];
+        });
+      }
+    })().catch(error => {
+      console.warn('Embedding the codebase index failed, using keyword search:', error);
+      this.embedder = undefined;
+    }).finally(() => {
+      this.embedding = null;
+    });
+  }
+
+  private topResults(scored: Array<{ chunk: IndexedChunk; score: number }>, limit: number): CodeSearchResult[] {
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ chunk, score }) => ({
+        id: chunk.id,
+        filePath: chunk.filePath,
+        relativePath: chunk.relativePath,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        symbol: chunk.symbol,
+        content: chunk.content,
+        score
+      }));
+  }
+
+  private static cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+  }
+}
@@ -634,6 +634,7 @@ export class EnhancedModelEvaluationEngine {
   // Check if a local model is available and responding
   private async checkModelAvailability(model: AvailableModel): Promise<boolean> {
     if (model.type !== 'local') return true; // Assume online models are available
+    if (model.provider !== 'ollama') return true; // OpenAI-compatible servers just listed the model
 
     // Import debugLogger since it's not available in this context
     const { debugLogger } = await import('../utils/logger');
@@ -641,39 +642,21 @@ export class EnhancedModelEvaluationEngine {
     try {
       debugLogger.log(`Testing availability for model: ${model.name} (${model.id})`);
       
-      // First try a simple ollama command to check if the model exists
-      const { exec } = await import('child_process');
-      const { promisify } = await import('util');
-      const execAsync = promisify(exec);
+      // Ask the server that listed the model rather than a local `ollama` CLI,
+      // which doesn't exist when Ollama runs in a container or on another machine
+      const { OllamaProvider } = await import('../providers/OllamaProvider');
+      const ollamaProvider = new OllamaProvider(model.baseUrl);
       
       try {
-        const { stdout } = await execAsync(`ollama show ${model.name}`, { timeout: 3000 });
-        if (stdout.includes('Model')) {
-          debugLogger.log(`Model ${model.name} exists in Ollama`);
-        } else {
-          debugLogger.log(`Model ${model.name} not found in Ollama`);
-          return false;
+        const installed = await ollamaProvider.listInstalledModels();
+        if (installed.some(installedModel => installedModel.name === model.name)) {
+          debugLogger.log(`✅ Model ${model.name} is available (Ollama running + model exists)`);
+          return true;
         }
-      } catch (cmdError) {
-        debugLogger.log(`Ollama show command failed for ${model.name}: ${cmdError}`);
+        debugLogger.log(`Model ${model.name} not found in Ollama at ${ollamaProvider.getBaseUrl()}`);
         return false;
-      }
-      
-      // Simplified availability check - just verify Ollama is running
-      // The previous complex streaming test was causing connection issues
-      debugLogger.log(`Simplified availability check for ${model.name}`);
-      
-      try {
-        const ollamaProvider = new (await import('../providers/OllamaProvider')).OllamaProvider();
-        const isOnline = await ollamaProvider.isAvailable();
-        if (!isOnline) {
-          debugLogger.log(`❌ Ollama service not available`);
-          return false;
-        }
-        debugLogger.log(`✅ Model ${model.name} is available (Ollama running + model exists)`);
-        return true;
       } catch (error) {
-        debugLogger.log(`❌ Ollama availability check failed for ${model.name}: ${error}`);
+        debugLogger.log(`❌ Ollama service not available at ${ollamaProvider.getBaseUrl()}: ${error}`);
         return false;
       }
     } catch (error) {
@@ -691,9 +674,10 @@ export class EnhancedModelEvaluationEngine {
       avatar: 'avatar-01.png',
       type: agentType,
       model: {
-        provider: model.type === 'local' ? AIProvider.OLLAMA : AIProvider.ANTHROPIC,
+        provider: model.provider as AIProvider,
         modelName: model.name,
-        temperature: 0.7,
+        host: model.host,
+        temperature: 0, // Deterministic, so reruns are comparable and answered from the response cache
         maxTokens: 2000
       },
       capabilities: [
@@ -1,16 +1,17 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { OpenAICompatibleProvider } from '@/providers/OpenAICompatibleProvider';
+import { OllamaProvider } from '@/providers/OllamaProvider';
+import { OllamaSettings } from '@/shared/types';
 
 export interface LocalModel {
   name: string;
   id: string;
   size: string;
   modified: string;
-  provider: 'ollama';
+  provider: 'ollama' | 'lm_studio';
   specialization?: 'coding' | 'general' | 'reasoning';
   parameters?: string;
+  host?: string; // Named Ollama host, undefined for the default server
+  baseUrl?: string;
 }
 
 export interface OnlineModel {
@@ -33,56 +34,95 @@ export interface AvailableModel {
   size?: string;
   contextLength?: number;
   estimatedSpeed?: 'fast' | 'medium' | 'slow';
+  host?: string;
+  baseUrl?: string;
 }
 
 export class ModelDiscoveryService {
+  private openAICompatibleBaseUrl: string;
+  private ollamaSettings: OllamaSettings;
+
+  constructor(
+    openAICompatibleBaseUrl: string = OpenAICompatibleProvider.DEFAULT_BASE_URL,
+    ollamaSettings: OllamaSettings = { baseUrl: OllamaProvider.DEFAULT_BASE_URL, hosts: {} }
+  ) {
+    this.openAICompatibleBaseUrl = openAICompatibleBaseUrl;
+    this.ollamaSettings = ollamaSettings;
+  }
   
   /**
-   * Discover all available local ollama models
+   * Discover the models installed on the default Ollama server and every named host
    */
   async discoverLocalModels(): Promise<LocalModel[]> {
-    try {
-      const { stdout } = await execAsync('ollama list');
-      const lines = stdout.trim().split('\n');
-      
-      // Skip header line
-      const modelLines = lines.slice(1);
-      
-      const models: LocalModel[] = modelLines.map(line => {
-        const parts = line.trim().split(/\s+/);
-        const name = parts[0];
-        const id = parts[1];
-        const size = parts[2] + ' ' + parts[3]; // "3.8 GB"
-        const modified = parts.slice(4).join(' '); // "About an hour ago"
-        
-        // Determine specialization based on model name
-        let specialization: 'coding' | 'general' | 'reasoning' = 'general';
-        if (name.includes('coder') || name.includes('code')) {
-          specialization = 'coding';
-        } else if (name.includes('reasoning') || name.includes('think')) {
-          specialization = 'reasoning';
-        }
-        
-        // Extract parameter count from name
-        const paramMatch = name.match(/(\d+(?:\.\d+)?)[bk]$/i);
-        const parameters = paramMatch ? paramMatch[1] + (paramMatch[0].toLowerCase().endsWith('b') ? 'B' : 'K') : undefined;
-        
-        return {
-          name,
-          id,
-          size,
-          modified,
-          provider: 'ollama',
-          specialization,
-          parameters
-        };
-      });
-      
-      return models;
-    } catch (error) {
-      console.error('Error discovering local models:', error);
-      return [];
+    const endpoints: Array<{ host?: string; baseUrl: string }> = [
+      { baseUrl: this.ollamaSettings.baseUrl },
+      ...Object.entries(this.ollamaSettings.hosts).map(([host, baseUrl]) => ({ host, baseUrl }))
+    ];
+
+    const models: LocalModel[] = [];
+    for (const endpoint of endpoints) {
+      try {
+        const installed = await new OllamaProvider(endpoint.baseUrl).listInstalledModels();
+        models.push(...installed.map(model => {
+          const described = this.describeModelName(model.name);
+          return {
+            name: model.name,
+            id: model.digest.substring(0, 12), // Same short id `ollama list` prints
+            size: this.formatSize(model.size),
+            modified: model.modifiedAt,
+            provider: 'ollama' as const,
+            ...described,
+            parameters: model.parameterSize || described.parameters,
+            host: endpoint.host,
+            baseUrl: endpoint.baseUrl
+          };
+        }));
+      } catch (error) {
+        // An unreachable host shouldn't hide the models on the others
+        console.error(`Error discovering Ollama models at ${endpoint.baseUrl}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return models;
+  }
+  
+  /**
+   * Discover models loaded in an OpenAI-compatible server (LM Studio, llama.cpp, vLLM, LocalAI)
+   */
+  async discoverOpenAICompatibleModels(): Promise<LocalModel[]> {
+    const provider = new OpenAICompatibleProvider(this.openAICompatibleBaseUrl);
+    const names = await provider.getAvailableModels();
+
+    return names.map(name => ({
+      name,
+      id: name,
+      size: '', // Not reported by the /v1/models endpoint
+      modified: '',
+      provider: 'lm_studio' as const,
+      ...this.describeModelName(name)
+    }));
+  }
+
+  // "3.8 GB", matching what `ollama list` shows
+  private formatSize(bytes: number): string {
+    if (bytes >= 1e9) {
+      return `${(bytes / 1e9).toFixed(1)} GB`;
     }
+    return `${Math.round(bytes / 1e6)} MB`;
+  }
+
+  // Guess specialization and parameter count from names like "qwen2.5-coder:7b"
+  private describeModelName(name: string): Pick<LocalModel, 'specialization' | 'parameters'> {
+    let specialization: 'coding' | 'general' | 'reasoning' = 'general';
+    if (name.includes('coder') || name.includes('code')) {
+      specialization = 'coding';
+    } else if (name.includes('reasoning') || name.includes('think')) {
+      specialization = 'reasoning';
+    }
+
+    const paramMatch = name.match(/(\d+(?:\.\d+)?)[bk]$/i);
+    const parameters = paramMatch ? paramMatch[1] + (paramMatch[0].toLowerCase().endsWith('b') ? 'B' : 'K') : undefined;
+
+    return { specialization, parameters };
   }
   
   /**
@@ -151,7 +191,10 @@ export class ModelDiscoveryService {
    * Get all available models (local + online) in unified format
    */
   async getAllAvailableModels(): Promise<AvailableModel[]> {
-    const localModels = await this.discoverLocalModels();
+    const localModels = [
+      ...await this.discoverLocalModels(),
+      ...await this.discoverOpenAICompatibleModels()
+    ];
     const onlineModels = this.getAvailableOnlineModels();
     
     const unified: AvailableModel[] = [];
@@ -170,13 +213,16 @@ export class ModelDiscoveryService {
       }
       
       unified.push({
-        id: `ollama:${model.name}`,
+        // The same model can be installed on several Ollama hosts
+        id: model.host ? `${model.provider}@${model.host}:${model.name}` : `${model.provider}:${model.name}`,
         name: model.name,
-        provider: 'ollama',
+        provider: model.provider,
         type: 'local',
         specialization: model.specialization || 'general',
         size: model.size,
-        estimatedSpeed
+        estimatedSpeed,
+        host: model.host,
+        baseUrl: model.baseUrl
       });
     });
     
@@ -486,7 +486,7 @@ export class ModelEvaluationEngine {
       model: {
         provider: AIProvider.OLLAMA,
         modelName: model.name,
-        temperature: 0.7,
+        temperature: 0, // Deterministic, so reruns are comparable and answered from the response cache
         maxTokens: 2000
       },
       systemPrompt: this.getSystemPromptForAgentType(agentType),
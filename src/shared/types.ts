@@ -11,6 +11,8 @@ export interface AgentConfig {
   systemPrompt: string;
   contextScope: ContextScope;
   memory: MemoryConfig;
+  commandPolicy?: Partial<CommandPolicySettings>; // Added to the global command policy
+  monthlyBudget?: number; // USD, checked together with aiAgents.usage.monthlyBudget
   createdAt: Date;
   updatedAt: Date;
   isActive: boolean;
@@ -31,6 +33,16 @@ export interface ModelConfig {
   temperature: number;
   maxTokens: number;
   apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible servers: overrides aiAgents.openaiCompatible.baseUrl
+  host?: string; // Ollama: name of a host from aiAgents.ollama.hosts, the default host when unset
+  fallbacks?: ModelFallback[]; // Tried in order when this model times out, is rate limited or unreachable
+}
+
+// A provider/model pair to fail over to; temperature and max tokens come from the primary model
+export interface ModelFallback {
+  provider: AIProvider;
+  modelName: string;
+  host?: string;
 }
 
 export enum AIProvider {
@@ -53,7 +65,8 @@ export enum CapabilityType {
   COMMAND_EXECUTION = 'command_execution',
   DOCKER_OPERATIONS = 'docker_operations',
   WEB_SEARCH = 'web_search',
-  CODE_ANALYSIS = 'code_analysis'
+  CODE_ANALYSIS = 'code_analysis',
+  AGENT_DELEGATION = 'agent_delegation'
 }
 
 export interface Permission {
@@ -104,9 +117,18 @@ export enum TaskType {
   FILE_CREATE = 'file_create',
   FILE_UPDATE = 'file_update',
   FILE_DELETE = 'file_delete',
+  FILE_READ = 'file_read',
+  FILE_SEARCH = 'file_search',
+  FILE_FIND = 'file_find',
+  FILE_FORMAT = 'file_format',
+  CODE_INSERT = 'code_insert',
+  CODE_REPLACE = 'code_replace',
+  EDITOR_OPEN = 'editor_open',
+  GIT_COMMAND = 'git_command',
   GIT_COMMIT = 'git_commit',
   COMMAND_RUN = 'command_run',
   CODE_REVIEW = 'code_review',
+  AGENT_DELEGATE = 'agent_delegate',
   CUSTOM = 'custom'
 }
 
@@ -221,16 +243,23 @@ export interface FileNode {
 export interface AgentTemplate {
   id: string;
   name: string;
+  type: AgentType;
   description: string;
   category: string;
   avatar: string;
   systemPrompt: string;
   capabilities: Capability[];
-  defaultModel: ModelConfig;
+  permissions?: Permission[];
+  defaultModel?: Partial<ModelConfig>; // Preselected in the create dialog
   examples: string[];
   tags: string[];
+  source?: AgentTemplateSource;
+  filePath?: string;
 }
 
+// Workspace templates override user templates, which override the built-in ones with the same id
+export type AgentTemplateSource = 'built-in' | 'user' | 'workspace';
+
 // Extension Configuration
 export interface ExtensionSettings {
   maxConcurrentAgents: number;
@@ -245,8 +274,115 @@ export interface ExtensionSettings {
   logLevel: 'none' | 'error' | 'warn' | 'info' | 'debug';
   dataRetentionDays: number;
   requireConfirmation: boolean;
+  nativeToolCalling: boolean;
+  openAICompatibleBaseUrl: string;
+  ollama: OllamaSettings;
+  contextWindows: Record<string, number>; // Context window in tokens by model name
   allowTelemetry: boolean;
   helperBrain: HelperBrainSettings;
+  commandExecution: CommandExecutionSettings;
+  commandPolicy: CommandPolicySettings;
+  agentLoop: AgentLoopSettings;
+  delegation: DelegationSettings;
+  usage: UsageSettings;
+  responseCache: ResponseCacheSettings;
+  codebaseIndex: CodebaseIndexSettings;
+  sharedFiles: SharedFileSettings;
+}
+
+// RUN_COMMAND execution: 'terminal' sends the command to a VS Code terminal,
+// 'capture' runs it in a child process and feeds the output back to the agent
+export interface CommandExecutionSettings {
+  mode: 'terminal' | 'capture';
+  timeoutMs: number;
+  maxOutputChars: number;
+}
+
+// Ollama endpoints: the default server plus named hosts agents can pick,
+// e.g. { "gpu-box": "http://10.0.0.5:11434" }
+export interface OllamaSettings {
+  baseUrl: string;
+  hosts: Record<string, string>;
+}
+
+export type CommandPolicyAction = 'allow' | 'ask' | 'deny';
+
+// Glob patterns for RUN_COMMAND, GIT_COMMAND and GIT_COMMIT. Deny wins over
+// ask and ask over allow; commands matching no pattern get defaultAction
+export interface CommandPolicySettings {
+  allow: string[];
+  ask: string[];
+  deny: string[];
+  defaultAction: CommandPolicyAction;
+}
+
+// Observe -> act loop: READ_FILE / GREP / FIND_FILES results are sent back to
+// the agent for another response, up to maxSteps responses per message
+export interface AgentLoopSettings {
+  maxSteps: number;
+  maxObservationChars: number;
+}
+
+// DELEGATE hands a sub-task to another agent; maxDepth limits nested handoffs
+export interface DelegationSettings {
+  maxDepth: number;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type BudgetAction = 'warn' | 'block';
+
+// Prices are keyed by model name; models without a price (local ones) cost nothing.
+// A monthlyBudget of 0 means no limit
+export interface UsageSettings {
+  prices: Record<string, ModelPrice>;
+  monthlyBudget: number;
+  budgetAction: BudgetAction;
+}
+
+// Deterministic (temperature 0) responses are cached when enableCaching is on
+export interface ResponseCacheSettings {
+  enabled: boolean;
+  maxEntries: number;
+  maxSizeMB: number;
+  ttlMinutes: number;
+}
+
+// Token budgets for shared files inlined into an agent's prompt
+export interface SharedFileSettings {
+  maxTokensPerFile: number;
+  maxTotalTokens: number;
+}
+
+// Round-table mode of the shared conversation
+export interface DiscussionOptions {
+  rounds: number;
+  moderatorId?: string; // Defaults to the first participant
+}
+
+// How much of a shared file was inlined into an agent's prompt
+export interface SharedFileUsage {
+  path: string;
+  includedLines: number;
+  totalLines: number;
+  truncated: boolean;
+  error?: string; // Why the file was left out
+}
+
+export interface SharedFileExcerpt extends SharedFileUsage {
+  content: string;
+}
+
+// Retrieval of relevant workspace code for each message. Without an
+// embedding model, chunks are ranked by keyword (BM25) only.
+export interface CodebaseIndexSettings {
+  enabled: boolean;
+  embeddingModel: string; // Ollama embedding model, e.g. nomic-embed-text
+  maxResults: number;
 }
 
 // Helper Brain Configuration
@@ -258,6 +394,7 @@ export interface HelperBrainSettings {
   maxTokens: number;
   systemPrompt: string;
   useAgentProvider: boolean; // If true, uses the agent's own provider
+  summarizeConversations: boolean; // Summarize older turns with the helper brain model when compressing context
 }
 
 // Dynamic Intent Classification
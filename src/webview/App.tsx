@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { AgentConfig, AIProvider } from '@/shared/types';
+import { AgentConfig, AIProvider, DiscussionOptions } from '@/shared/types';
 import { AgentWidget } from './components/AgentWidget';
 import { CreateAgentDialog } from './components/CreateAgentDialog';
 import { AgentSettingsDialog } from './components/AgentSettingsDialog';
@@ -405,20 +405,15 @@ export const App: React.FC = () => {
     }));
   }, []);
 
-  const handleSendQuickChatMessage = useCallback((message: string, targetAgent?: string) => {
-    webviewLogger.log('Sending quick chat message', { message, targetAgent });
-    
-    // For now, just log the message and close the dialog
-    // TODO: Implement actual message routing to agents
-    console.log('Quick chat message:', { message, targetAgent });
+  const handleSendQuickChatMessage = useCallback((message: string, targetAgent?: string, discussion?: DiscussionOptions) => {
+    webviewLogger.log('Sending quick chat message', { message, targetAgent, discussion });
     
+    // The dialog stays open to show the replies in the shared conversation
     vscode.postMessage({
       type: 'quickChatMessage',
-      data: { message, targetAgent }
+      data: { message, targetAgent, discussion }
     });
-    
-    closeQuickChat();
-  }, [vscode, closeQuickChat]);
+  }, [vscode]);
 
   if (state.loading) {
     return (
@@ -6,11 +6,12 @@ interface APIKeyManagerProps {
   onClose: () => void;
 }
 
-type SupportedProvider = AIProvider.ANTHROPIC | AIProvider.OPENAI | AIProvider.OLLAMA;
+type SupportedProvider = AIProvider.ANTHROPIC | AIProvider.OPENAI | AIProvider.GOOGLE | AIProvider.OLLAMA;
 
 interface APIKeyStatus {
   [AIProvider.ANTHROPIC]: { configured: boolean; valid: boolean };
   [AIProvider.OPENAI]: { configured: boolean; valid: boolean };
+  [AIProvider.GOOGLE]: { configured: boolean; valid: boolean };
   [AIProvider.OLLAMA]: { configured: boolean; valid: boolean };
 }
 
@@ -18,11 +19,13 @@ export const APIKeyManager: React.FC<APIKeyManagerProps> = ({ isOpen, onClose })
   const [apiKeys, setApiKeys] = useState({
     [AIProvider.ANTHROPIC]: '',
     [AIProvider.OPENAI]: '',
+    [AIProvider.GOOGLE]: '',
     [AIProvider.OLLAMA]: ''
   });
   const [status, setStatus] = useState<APIKeyStatus>({
     [AIProvider.ANTHROPIC]: { configured: false, valid: false },
     [AIProvider.OPENAI]: { configured: false, valid: false },
+    [AIProvider.GOOGLE]: { configured: false, valid: false },
     [AIProvider.OLLAMA]: { configured: false, valid: false }
   });
   const [saving, setSaving] = useState<string | null>(null);
@@ -91,6 +94,15 @@ export const APIKeyManager: React.FC<APIKeyManagerProps> = ({ isOpen, onClose })
           keyPlaceholder: 'sk-...',
           features: ['Fast responses', 'Code generation', 'Diverse capabilities', 'Function calling']
         };
+      case AIProvider.GOOGLE:
+        return {
+          name: 'Google Gemini',
+          description: 'Gemini models with very long context windows',
+          signupUrl: 'https://aistudio.google.com/app/apikey',
+          docsUrl: 'https://ai.google.dev/gemini-api/docs',
+          keyPlaceholder: 'AIza...',
+          features: ['Long context', 'Multimodal', 'Function calling', 'Free tier']
+        };
       case AIProvider.OLLAMA:
         return {
           name: 'Ollama (Local)',
@@ -127,7 +139,7 @@ export const APIKeyManager: React.FC<APIKeyManagerProps> = ({ isOpen, onClose })
             <p>Configure your AI providers to enable agent capabilities. You can use multiple providers and switch between them for different agents.</p>
           </div>
 
-          {([AIProvider.ANTHROPIC, AIProvider.OPENAI, AIProvider.OLLAMA] as SupportedProvider[]).map(provider => {
+          {([AIProvider.ANTHROPIC, AIProvider.OPENAI, AIProvider.GOOGLE, AIProvider.OLLAMA] as SupportedProvider[]).map(provider => {
             const info = getProviderInfo(provider);
             const providerStatus = status[provider];
             
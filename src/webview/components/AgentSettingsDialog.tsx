@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { AgentConfig, AIProvider, PermissionType } from '@/shared/types';
+import { AgentConfig, AIProvider, CommandPolicyAction, CommandPolicySettings, ModelFallback, PermissionType } from '@/shared/types';
 
 interface AgentSettingsDialogProps {
   agent: AgentConfig;
@@ -8,6 +8,37 @@ interface AgentSettingsDialogProps {
   onSave: (agentId: string, updates: Partial<AgentConfig>) => void;
 }
 
+// Permissions whose access can be narrowed with glob scopes
+const SCOPED_PERMISSIONS = [PermissionType.WRITE_FILES, PermissionType.READ_FILES, PermissionType.EXECUTE_COMMANDS];
+
+const POLICY_LISTS: Array<{ key: 'allow' | 'ask' | 'deny'; label: string; placeholder: string }> = [
+  { key: 'allow', label: 'Run without asking', placeholder: 'npm run *\ngit status' },
+  { key: 'ask', label: 'Ask me first', placeholder: 'git reset --hard*\nnpm publish*' },
+  { key: 'deny', label: 'Never run', placeholder: 'docker system prune*' }
+];
+
+const parsePatterns = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// Fallbacks are written "provider:model" or "ollama@host:model", one per line
+const FALLBACK_PATTERN = /^([a-z_]+)(?:@([^:]+))?:(.+)$/;
+
+const formatFallback = (fallback: ModelFallback): string =>
+  `${fallback.provider}${fallback.host ? `@${fallback.host}` : ''}:${fallback.modelName}`;
+
+const parseFallbacks = (text: string): { fallbacks: ModelFallback[]; invalid: string[] } => {
+  const fallbacks: ModelFallback[] = [];
+  const invalid: string[] = [];
+  for (const line of parsePatterns(text)) {
+    const match = line.match(FALLBACK_PATTERN);
+    if (!match || !Object.values(AIProvider).includes(match[1] as AIProvider)) {
+      invalid.push(line);
+      continue;
+    }
+    fallbacks.push({ provider: match[1] as AIProvider, modelName: match[3].trim(), host: match[2] });
+  }
+  return { fallbacks, invalid };
+};
+
 export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
   agent,
   isOpen,
@@ -19,15 +50,33 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
   const [availableModels, setAvailableModels] = useState<{ [key: string]: string[] }>({});
   const [modelLoadingStates, setModelLoadingStates] = useState<{ [key: string]: boolean }>({});
   const [modelMessages, setModelMessages] = useState<{ [key: string]: string }>({});
+  const [ollamaHosts, setOllamaHosts] = useState<string[]>([]);
+  const [fallbackDraft, setFallbackDraft] = useState('');
+  const [scopeDrafts, setScopeDrafts] = useState<{ [key: string]: string }>({});
+  const [policyDrafts, setPolicyDrafts] = useState<{ [key: string]: string }>({});
+  const [policyDefaultAction, setPolicyDefaultAction] = useState<CommandPolicyAction | ''>('');
 
   useEffect(() => {
     if (isOpen && agent) {
+      const permissions = Array.isArray(agent.permissions) ? [...agent.permissions] : [];
       setFormData({
         name: agent.name,
         model: { ...agent.model },
         systemPrompt: agent.systemPrompt,
-        permissions: Array.isArray(agent.permissions) ? [...agent.permissions] : []
+        permissions,
+        monthlyBudget: agent.monthlyBudget
       });
+      setScopeDrafts(SCOPED_PERMISSIONS.reduce((drafts, type) => {
+        const permission = permissions.find(p => p && p.type === type);
+        drafts[type] = Array.isArray(permission?.scope) ? permission!.scope.join('\n') : '';
+        return drafts;
+      }, {} as { [key: string]: string }));
+      setPolicyDrafts(POLICY_LISTS.reduce((drafts, { key }) => {
+        drafts[key] = (agent.commandPolicy?.[key] || []).join('\n');
+        return drafts;
+      }, {} as { [key: string]: string }));
+      setPolicyDefaultAction(agent.commandPolicy?.defaultAction || '');
+      setFallbackDraft((agent.model.fallbacks || []).map(formatFallback).join('\n'));
     }
   }, [isOpen, agent]);
 
@@ -45,6 +94,10 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
           ...prev,
           [message.data.provider]: false
         }));
+
+        if (Array.isArray(message.data.hosts)) {
+          setOllamaHosts(message.data.hosts);
+        }
         
         if (message.data.message) {
           setModelMessages(prev => ({
@@ -59,21 +112,21 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
     return () => window.removeEventListener('message', handleMessage);
   }, []);
 
-  const fetchModelsForProvider = (provider: AIProvider) => {
+  const fetchModelsForProvider = (provider: AIProvider, host?: string) => {
     setModelLoadingStates(prev => ({ ...prev, [provider]: true }));
     setModelMessages(prev => ({ ...prev, [provider]: '' }));
     
     (window as any).vscode.postMessage({
       type: 'getAvailableModels',
-      data: { provider: provider.toLowerCase() }
+      data: { provider: provider.toLowerCase(), host: provider === AIProvider.OLLAMA ? host : undefined }
     });
   };
 
   useEffect(() => {
     if (isOpen && formData.model?.provider) {
-      fetchModelsForProvider(formData.model.provider);
+      fetchModelsForProvider(formData.model.provider, formData.model.host);
     }
-  }, [isOpen, formData.model?.provider]);
+  }, [isOpen, formData.model?.provider, formData.model?.host]);
 
   if (!isOpen) return null;
 
@@ -108,7 +161,39 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
       formData.name = trimmedName;
     }
     
-    onSave(agent.id, formData);
+    const { fallbacks, invalid } = parseFallbacks(fallbackDraft);
+    if (invalid.length > 0) {
+      alert(`Invalid fallback model: "${invalid[0]}". Use provider:model, e.g. anthropic:claude-3-haiku-20240307.`);
+      return;
+    }
+
+    // One pattern per line; an empty scope leaves the permission unrestricted
+    const permissions = (formData.permissions || []).map(permission => {
+      if (!SCOPED_PERMISSIONS.includes(permission.type)) {
+        return permission;
+      }
+      const scope = parsePatterns(scopeDrafts[permission.type] || '');
+      return { ...permission, scope: scope.length > 0 ? scope : undefined };
+    });
+
+    // Agent rules are added to the global aiAgents.commandPolicy settings
+    const commandPolicy: Partial<CommandPolicySettings> = {};
+    for (const { key } of POLICY_LISTS) {
+      const patterns = parsePatterns(policyDrafts[key] || '');
+      if (patterns.length > 0) {
+        commandPolicy[key] = patterns;
+      }
+    }
+    if (policyDefaultAction) {
+      commandPolicy.defaultAction = policyDefaultAction;
+    }
+
+    onSave(agent.id, {
+      ...formData,
+      model: { ...formData.model!, fallbacks: fallbacks.length > 0 ? fallbacks : undefined },
+      permissions,
+      commandPolicy: Object.keys(commandPolicy).length > 0 ? commandPolicy : undefined
+    });
     onClose();
   };
 
@@ -152,10 +237,29 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
     return formData.permissions.some(p => p && p.type === permissionType && p.granted);
   };
 
+  const renderScopeEditor = (permissionType: PermissionType, placeholder: string) => {
+    if (!hasPermission(permissionType)) {
+      return null;
+    }
+    return (
+      <div className="scope-editor">
+        <textarea
+          value={scopeDrafts[permissionType] || ''}
+          onChange={(e) => setScopeDrafts(prev => ({ ...prev, [permissionType]: e.target.value }))}
+          placeholder={placeholder}
+          rows={3}
+        />
+        <small className="form-hint">One pattern per line, prefix with ! to deny. Leave empty to allow everything.</small>
+      </div>
+    );
+  };
+
   const availableProviders = [
     { value: AIProvider.OLLAMA, label: 'Ollama (Local)' },
+    { value: AIProvider.LM_STUDIO, label: 'LM Studio / OpenAI-compatible (Local)' },
     { value: AIProvider.ANTHROPIC, label: 'Anthropic Claude' },
-    { value: AIProvider.OPENAI, label: 'OpenAI GPT' }
+    { value: AIProvider.OPENAI, label: 'OpenAI GPT' },
+    { value: AIProvider.GOOGLE, label: 'Google Gemini' }
   ];
 
   const getModelsForProvider = (provider: AIProvider): string[] => {
@@ -170,7 +274,10 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
         return ['claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307', 'claude-3-opus-20240229'];
       case AIProvider.OPENAI:
         return ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'];
+      case AIProvider.GOOGLE:
+        return ['gemini-1.5-pro', 'gemini-1.5-flash', 'gemini-2.0-flash'];
       case AIProvider.OLLAMA:
+      case AIProvider.LM_STUDIO:
         return [];
       default:
         return [];
@@ -235,6 +342,25 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
                 </select>
               </div>
 
+              {formData.model?.provider === AIProvider.OLLAMA && (ollamaHosts.length > 0 || formData.model?.host) && (
+                <div className="form-group">
+                  <label htmlFor="ollama-host">Ollama Host</label>
+                  <select
+                    id="ollama-host"
+                    value={formData.model?.host || ''}
+                    onChange={(e) => handleModelChange('host', e.target.value || undefined)}
+                  >
+                    <option value="">Default (aiAgents.ollama.baseUrl)</option>
+                    {[...new Set([...ollamaHosts, ...(formData.model?.host ? [formData.model.host] : [])])].map(host => (
+                      <option key={host} value={host}>
+                        {host}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="form-hint">Named hosts are configured in aiAgents.ollama.hosts</div>
+                </div>
+              )}
+
               <div className="form-group">
                 <label htmlFor="model-name">Model</label>
                 <select
@@ -261,6 +387,50 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
                 </select>
               </div>
 
+              {formData.model?.provider === AIProvider.LM_STUDIO && (
+                <div className="form-group">
+                  <label htmlFor="base-url">Server URL</label>
+                  <input
+                    id="base-url"
+                    type="text"
+                    value={formData.model?.baseUrl || ''}
+                    onChange={(e) => handleModelChange('baseUrl', e.target.value.trim() || undefined)}
+                    placeholder="Default: aiAgents.openaiCompatible.baseUrl"
+                  />
+                </div>
+              )}
+
+              <div className="form-group">
+                <label htmlFor="fallback-models">Fallback Models</label>
+                <textarea
+                  id="fallback-models"
+                  rows={3}
+                  value={fallbackDraft}
+                  onChange={(e) => setFallbackDraft(e.target.value)}
+                  placeholder={'anthropic:claude-3-haiku-20240307\nollama@gpu-box:qwen2.5-coder:7b'}
+                />
+                <div className="form-hint">
+                  Tried in order when the model times out, is rate limited or can't be reached, then the best available provider. One provider:model per line.
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="monthly-budget">Monthly Budget (USD)</label>
+                <input
+                  id="monthly-budget"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={formData.monthlyBudget ?? ''}
+                  onChange={(e) => {
+                    const budget = parseFloat(e.target.value);
+                    setFormData(prev => ({ ...prev, monthlyBudget: budget > 0 ? budget : undefined }));
+                  }}
+                  placeholder="No limit"
+                />
+                <div className="form-hint">What happens when it's used up is set by aiAgents.usage.budgetAction</div>
+              </div>
+
               <div className="form-group">
                 <label htmlFor="temperature">Temperature ({formData.model?.temperature || 0.7})</label>
                 <input
@@ -329,6 +499,7 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
                   />
                   Can create and modify files
                 </label>
+                {renderScopeEditor(PermissionType.WRITE_FILES, 'src/**\n!.env\n!**/*.pem')}
                 <label className="checkbox-label">
                   <input
                     type="checkbox"
@@ -337,6 +508,7 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
                   />
                   Can read project files
                 </label>
+                {renderScopeEditor(PermissionType.READ_FILES, '!.env\n!**/*.pem')}
               </div>
 
               <div className="permission-group">
@@ -349,6 +521,7 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
                   />
                   Can execute shell commands
                 </label>
+                {renderScopeEditor(PermissionType.EXECUTE_COMMANDS, 'npm *\ngit status\n!rm *')}
                 <label className="checkbox-label">
                   <input
                     type="checkbox"
@@ -370,6 +543,38 @@ export const AgentSettingsDialog: React.FC<AgentSettingsDialogProps> = ({
                   Can perform git operations
                 </label>
               </div>
+
+              {(hasPermission(PermissionType.EXECUTE_COMMANDS) || hasPermission(PermissionType.GIT_OPERATIONS)) && (
+                <div className="permission-group">
+                  <h3>Command Policy</h3>
+                  {POLICY_LISTS.map(({ key, label, placeholder }) => (
+                    <div className="form-group" key={key}>
+                      <label>{label}</label>
+                      <textarea
+                        value={policyDrafts[key] || ''}
+                        onChange={(e) => setPolicyDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                        placeholder={placeholder}
+                        rows={2}
+                      />
+                    </div>
+                  ))}
+                  <div className="form-group">
+                    <label>Commands matching no rule</label>
+                    <select
+                      value={policyDefaultAction}
+                      onChange={(e) => setPolicyDefaultAction(e.target.value as CommandPolicyAction | '')}
+                    >
+                      <option value="">Use global setting</option>
+                      <option value="allow">Run without asking</option>
+                      <option value="ask">Ask me first</option>
+                      <option value="deny">Never run</option>
+                    </select>
+                  </div>
+                  <small className="form-hint">
+                    One pattern per line, * matches anything. Rules are added to the aiAgents.commandPolicy settings; never run wins over ask, ask over run.
+                  </small>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AgentConfig } from '@/shared/types';
+import { AgentConfig, SharedFileUsage, Task, TaskStatus } from '@/shared/types';
 import { webviewLogger } from '../utils/webviewLogger';
 
 interface Message {
@@ -7,6 +7,8 @@ interface Message {
   content: string;
   isUser: boolean;
   timestamp: Date;
+  isCommandOutput?: boolean;
+  isNotice?: boolean;
 }
 
 interface SharedContext {
@@ -14,6 +16,29 @@ interface SharedContext {
   textSnippets: { content: string; fileName?: string }[];
 }
 
+// This month's token usage, sent by the extension after every response
+interface AgentUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  requests: number;
+}
+
+const TASK_STATUS_ICONS: Record<TaskStatus, string> = {
+  [TaskStatus.PENDING]: '⏳',
+  [TaskStatus.IN_PROGRESS]: '🔄',
+  [TaskStatus.COMPLETED]: '✅',
+  [TaskStatus.FAILED]: '❌',
+  [TaskStatus.CANCELLED]: '⛔'
+};
+
+// Most recent tasks shown in the widget; the rest stay in the task queue command
+const MAX_SHOWN_TASKS = 10;
+
+const describeTask = (task: Task): string =>
+  task.result?.output || `${task.type.replace(/_/g, ' ')} ${task.payload.fileName || task.payload.command || task.payload.message || ''}`.trim();
+
 interface AgentWidgetProps {
   agent: AgentConfig;
   onSendMessage: (agentId: string, message: string) => void;
@@ -32,6 +57,12 @@ export const AgentWidget: React.FC<AgentWidgetProps> = ({
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [usage, setUsage] = useState<AgentUsage | null>(null);
+  const [contextSummary, setContextSummary] = useState<string>(''); // Stands in for older turns the agent no longer sees
+  const [isSummaryExpanded, setIsSummaryExpanded] = useState(false);
+  const [summaryDraft, setSummaryDraft] = useState<string | null>(null); // Non-null while editing
+  const [tasks, setTasks] = useState<Task[]>([]); // Tasks queued from this agent's responses, oldest first
+  const [isTasksExpanded, setIsTasksExpanded] = useState(false);
 
   // 🚨 REACT COMPONENT DEBUGGING
   const renderCount = React.useRef(0);
@@ -62,6 +93,8 @@ export const AgentWidget: React.FC<AgentWidgetProps> = ({
     });
   }, [messages, agent.id]);
   const [sharedContext, setSharedContext] = useState<SharedContext>({ files: [], textSnippets: [] });
+  // How much of each shared file the last message included, by path
+  const [fileUsage, setFileUsage] = useState<Record<string, SharedFileUsage>>({});
   const [isDragOver, setIsDragOver] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
@@ -123,6 +156,18 @@ export const AgentWidget: React.FC<AgentWidgetProps> = ({
         type: 'getConversationHistory',
         data: { agentId: agent.id }
       });
+      vscode.postMessage({
+        type: 'getAgentUsage',
+        data: { agentId: agent.id }
+      });
+      vscode.postMessage({
+        type: 'getContextSummary',
+        data: { agentId: agent.id }
+      });
+      vscode.postMessage({
+        type: 'getTasks',
+        data: { agentId: agent.id }
+      });
     }
   }, [agent.id]);
 
@@ -173,12 +218,17 @@ export const AgentWidget: React.FC<AgentWidgetProps> = ({
         // Convert AIMessage format to Message format
         const convertedMessages: Message[] = message.data.messages
           .filter((msg: any) => msg.role !== 'system') // Filter out system messages
-          .map((msg: any, index: number) => ({
-            id: `${agent.id}-${index}`,
-            content: msg.content,
-            isUser: msg.role === 'user',
-            timestamp: new Date() // We don't have timestamps in AIMessage, use current time
-          }));
+          .map((msg: any, index: number) => {
+            // Captured command and task results are stored as user turns for the AI, but shown as command output
+            const isCommandOutput = /^\[(COMMAND|TOOL)_RESULT:/.test(msg.content);
+            return {
+              id: `${agent.id}-${index}`,
+              content: msg.content,
+              isUser: msg.role === 'user' && !isCommandOutput,
+              timestamp: new Date(), // We don't have timestamps in AIMessage, use current time
+              isCommandOutput
+            };
+          });
         
         setMessages(convertedMessages);
         webviewLogger.log('Loaded conversation history', { 
@@ -212,6 +262,8 @@ export const AgentWidget: React.FC<AgentWidgetProps> = ({
           });
           setIsLoading(false);
           setAgentStatus('idle');
+          // Pick up the tasks queued from the reply, including ones still waiting
+          (window as any).vscode?.postMessage({ type: 'getTasks', data: { agentId: agent.id } });
         } else {
           setAgentStatus('responding');
           // Streaming response - update or add streaming message
@@ -233,6 +285,105 @@ export const AgentWidget: React.FC<AgentWidgetProps> = ({
             return newMessages;
           });
         }
+      } else if (message.type === 'commandOutput' && message.data.agentId === agent.id) {
+        // Live output of a captured RUN_COMMAND, shown as a single updating message
+        const { runId, command, chunk, done, exitCode, timedOut } = message.data;
+        const messageId = `command-${runId}`;
+        setMessages(prev => {
+          const existing = prev.find(m => m.id === messageId);
+          let content = existing ? existing.content : `▶ ${command}\n`;
+          if (chunk) {
+            content += chunk;
+          }
+          if (done) {
+            content += timedOut
+              ? '\n⏱️ Timed out'
+              : exitCode === 0 ? '\n✅ Exit code 0' : `\n❌ Exit code ${exitCode ?? 'unknown'}`;
+          }
+          if (existing) {
+            return prev.map(m => m.id === messageId ? { ...m, content } : m);
+          }
+          return [...prev, {
+            id: messageId,
+            content,
+            isUser: false,
+            timestamp: new Date(),
+            isCommandOutput: true
+          }];
+        });
+      } else if (message.type === 'capabilityDisabled' && message.data.agentId === agent.id) {
+        const { verb, capabilityLabel } = message.data;
+        setMessages(prev => [...prev, {
+          id: `capability-${Date.now()}-${verb}`,
+          content: `🚫 Capability disabled: ${verb} needs ${capabilityLabel}, which is turned off for this agent.`,
+          isUser: false,
+          timestamp: new Date(),
+          isNotice: true
+        }]);
+      } else if (message.type === 'agentUsage' && message.data.agentId === agent.id) {
+        setUsage(message.data.usage);
+      } else if (message.type === 'contextSummary' && message.data.agentId === agent.id) {
+        setContextSummary(message.data.summary);
+      } else if (message.type === 'taskList' && message.data.agentId === agent.id) {
+        setTasks(message.data.tasks);
+      } else if (message.type === 'taskUpdate' && message.data.agentId === agent.id) {
+        const updated: Task = message.data.task;
+        setTasks(prev => prev.some(task => task.id === updated.id)
+          ? prev.map(task => task.id === updated.id ? updated : task)
+          : [...prev, updated]);
+      } else if (message.type === 'modelFailover' && message.data.agentId === agent.id) {
+        const { failedModel, reason, model } = message.data;
+        setMessages(prev => [...prev, {
+          id: `failover-${Date.now()}`,
+          content: `🔀 ${failedModel} failed (${reason}). Answering with ${model} instead.`,
+          isUser: false,
+          timestamp: new Date(),
+          isNotice: true
+        }]);
+      } else if (message.type === 'agentDelegation' && (message.data.fromAgentId === agent.id || message.data.toAgentId === agent.id)) {
+        // Handoffs show in both widgets: the delegating agent gets notices,
+        // the delegate shows the task and its reply as a conversation
+        const { id, fromAgentId, fromAgentName, toAgentName, task, status, reply, error } = message.data;
+        const outgoing = fromAgentId === agent.id;
+        let content: string;
+        let isNotice = true;
+        let isUser = false;
+        if (status === 'started') {
+          content = outgoing ? `➡️ Delegated to ${toAgentName}: ${task}` : `📨 ${fromAgentName} delegated: ${task}`;
+          isNotice = outgoing;
+          isUser = !outgoing;
+        } else if (status === 'completed') {
+          content = outgoing ? `⬅️ ${toAgentName} replied` : reply || '(no reply)';
+          isNotice = outgoing;
+        } else {
+          content = outgoing ? `⚠️ Delegation to ${toAgentName} failed: ${error}` : `⚠️ Task from ${fromAgentName} failed: ${error}`;
+        }
+        setMessages(prev => [...prev, {
+          id: `${id}-${status}`,
+          content,
+          isUser,
+          timestamp: new Date(),
+          isNotice
+        }]);
+      } else if (message.type === 'workflowStep' && message.data.agentId === agent.id && message.data.status !== 'skipped') {
+        // A workflow step shows as the prompt it was given and the agent's reply
+        const { runId, workflowName, stepIndex, stepCount, stepId, status, prompt, output, error } = message.data;
+        const step = `${workflowName} · step ${stepIndex + 1}/${stepCount}`;
+        setMessages(prev => [...prev, {
+          id: `${runId}-${stepId}-${status}`,
+          content: status === 'running'
+            ? `🔀 ${step}\n${prompt}`
+            : status === 'completed' ? output || '(no reply)' : `⚠️ ${step} failed: ${error}`,
+          isUser: status === 'running',
+          timestamp: new Date(),
+          isNotice: status === 'failed'
+        }]);
+      } else if (message.type === 'sharedFileUsage' && message.data.agentId === agent.id) {
+        const usage: Record<string, SharedFileUsage> = {};
+        for (const file of message.data.files as SharedFileUsage[]) {
+          usage[file.path] = file;
+        }
+        setFileUsage(usage);
       } else if (message.type === 'fileDropped' && message.data.agentId === agent.id) {
         setSharedContext(prev => ({
           ...prev,
@@ -329,6 +480,21 @@ export const AgentWidget: React.FC<AgentWidgetProps> = ({
     }
   };
 
+  const saveContextSummary = () => {
+    const vscode = (window as any).vscode;
+    if (vscode && summaryDraft !== null) {
+      vscode.postMessage({
+        type: 'updateContextSummary',
+        data: { agentId: agent.id, summary: summaryDraft }
+      });
+    }
+    setSummaryDraft(null);
+  };
+
+  const sendTaskAction = (type: 'retryTask' | 'cancelTask', taskId: string) => {
+    (window as any).vscode?.postMessage({ type, data: { taskId } });
+  };
+
   const removeContextItem = (type: 'file' | 'snippet', index: number) => {
     if (type === 'file') {
       setSharedContext(prev => ({
@@ -655,6 +821,15 @@ export const AgentWidget: React.FC<AgentWidgetProps> = ({
             <span className="agent-type">
               {getAgentTypeDisplayName(agent.type)} • {agent.model.provider} {getModelDisplayName(agent.model.modelName)}
             </span>
+            {usage && usage.requests > 0 && (
+              <span
+                className="agent-usage"
+                title={`This month: ${usage.inputTokens.toLocaleString()} input and ${usage.outputTokens.toLocaleString()} output tokens over ${usage.requests} response(s)`}
+              >
+                {usage.totalTokens >= 1000 ? `${(usage.totalTokens / 1000).toFixed(1)}k` : usage.totalTokens} tokens • ${usage.cost.toFixed(2)}
+                {agent.monthlyBudget ? ` of $${agent.monthlyBudget.toFixed(2)}` : ''}
+              </span>
+            )}
           </div>
         </div>
         <div className="agent-actions">
@@ -724,6 +899,18 @@ export const AgentWidget: React.FC<AgentWidgetProps> = ({
                   <div key={index} className="context-item file-item">
                     <span className="file-icon">📄</span>
                     <span className="file-name">{file}</span>
+                    {fileUsage[file] && (
+                      <span
+                        className={`file-usage ${fileUsage[file].truncated ? 'partial' : ''}`}
+                        title={fileUsage[file].error
+                          ? `Not sent to the agent: ${fileUsage[file].error}`
+                          : `${fileUsage[file].includedLines} of ${fileUsage[file].totalLines} lines sent to the agent`}
+                      >
+                        {fileUsage[file].error
+                          ? '0%'
+                          : `${Math.round(fileUsage[file].includedLines / Math.max(fileUsage[file].totalLines, 1) * 100)}%`}
+                      </span>
+                    )}
                     <button 
                       className="remove-btn"
                       onClick={() => removeContextItem('file', index)}
@@ -770,6 +957,77 @@ export const AgentWidget: React.FC<AgentWidgetProps> = ({
         </div>
       )}
 
+      {contextSummary && (
+        <div className="context-summary">
+          <div className="context-header">
+            <button
+              className="context-summary-toggle"
+              onClick={() => setIsSummaryExpanded(!isSummaryExpanded)}
+              title="The agent sees this summary instead of the older messages"
+            >
+              {isSummaryExpanded ? '▾' : '▸'} 🧾 Summary of earlier messages
+            </button>
+            {isSummaryExpanded && summaryDraft === null && (
+              <button className="btn btn-secondary btn-sm" onClick={() => setSummaryDraft(contextSummary)}>
+                Edit
+              </button>
+            )}
+          </div>
+          {isSummaryExpanded && (summaryDraft === null ? (
+            <div className="context-summary-text">{contextSummary}</div>
+          ) : (
+            <>
+              <textarea
+                className="context-summary-editor"
+                value={summaryDraft}
+                onChange={(e) => setSummaryDraft(e.target.value)}
+                rows={8}
+              />
+              <div className="context-summary-actions">
+                <button className="btn btn-secondary btn-sm" onClick={() => setSummaryDraft(null)}>
+                  Cancel
+                </button>
+                <button className="btn btn-primary btn-sm" onClick={saveContextSummary}>
+                  Save
+                </button>
+              </div>
+            </>
+          ))}
+        </div>
+      )}
+
+      {tasks.length > 0 && (
+        <div className="agent-tasks">
+          <button
+            className="context-summary-toggle"
+            onClick={() => setIsTasksExpanded(!isTasksExpanded)}
+            title="Tasks from this agent's replies"
+          >
+            {isTasksExpanded ? '▾' : '▸'} 📋 Tasks ({tasks.filter(task => task.status === TaskStatus.PENDING || task.status === TaskStatus.IN_PROGRESS).length} running, {tasks.filter(task => task.status === TaskStatus.FAILED).length} failed)
+          </button>
+          {isTasksExpanded && (
+            <ul className="agent-task-list">
+              {tasks.slice(-MAX_SHOWN_TASKS).reverse().map(task => (
+                <li key={task.id} className={`agent-task agent-task-${task.status}`} title={task.error?.message}>
+                  <span className="agent-task-status">{TASK_STATUS_ICONS[task.status]}</span>
+                  <span className="agent-task-label">{describeTask(task)}</span>
+                  {task.status === TaskStatus.PENDING && (
+                    <button className="btn btn-secondary btn-sm" onClick={() => sendTaskAction('cancelTask', task.id)}>
+                      Cancel
+                    </button>
+                  )}
+                  {(task.status === TaskStatus.FAILED || task.status === TaskStatus.CANCELLED) && (
+                    <button className="btn btn-secondary btn-sm" onClick={() => sendTaskAction('retryTask', task.id)}>
+                      Retry
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       <div className="agent-content">
         <div className="chat-messages" ref={chatMessagesRef}>
           {messages.length === 0 ? (
@@ -789,7 +1047,7 @@ export const AgentWidget: React.FC<AgentWidgetProps> = ({
             messages.map((message) => (
               <div
                 key={message.id}
-                className={`message ${message.isUser ? 'message-user' : 'message-agent'}`}
+                className={`message ${message.isUser ? 'message-user' : 'message-agent'}${message.isCommandOutput ? ' message-command' : ''}${message.isNotice ? ' message-notice' : ''}`}
               >
                 <div className="message-content">{message.content}</div>
                 <div className="message-timestamp">
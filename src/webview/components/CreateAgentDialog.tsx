@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { AgentConfig, AgentType, AIProvider } from '@/shared/types';
+import { AgentConfig, AgentTemplate, AgentType, AIProvider } from '@/shared/types';
 import { webviewLogger } from '../utils/webviewLogger';
 
 interface CreateAgentDialogProps {
@@ -8,95 +8,34 @@ interface CreateAgentDialogProps {
   onShowGlobalSettings?: (provider: AIProvider, agentData: Partial<AgentConfig>) => void;
 }
 
-const AGENT_TEMPLATES = [
-  {
-    type: AgentType.CODE_REVIEWER,
-    name: 'Code Reviewer',
-    description: 'Reviews code for bugs, performance, and best practices',
-    avatar: '👨‍💻',
-    systemPrompt: `You are a senior code reviewer with expertise in software engineering best practices. Your role is to:
-
-- Review code for bugs, security vulnerabilities, and performance issues
-- Suggest improvements for readability and maintainability
-- Ensure adherence to coding standards and conventions
-- Provide constructive feedback with specific examples
-- Recommend refactoring opportunities when appropriate
-
-Always be thorough but constructive in your feedback.`
-  },
-  {
-    type: AgentType.DOCUMENTATION,
-    name: 'Documentation Writer',
-    description: 'Creates clear, comprehensive documentation',
-    avatar: '📝',
-    systemPrompt: `You are a technical documentation specialist. Your role is to:
-
-- Create clear, comprehensive documentation for code and projects
-- Write user guides, API documentation, and technical specifications
-- Ensure documentation is up-to-date and accurate
-- Use appropriate formatting and structure
-- Make complex technical concepts accessible
-
-Focus on clarity and usability in all documentation.`
-  },
-  {
-    type: AgentType.DEVOPS,
-    name: 'DevOps Assistant',
-    description: 'Helps with deployment, infrastructure, and automation',
-    avatar: '🚀',
-    systemPrompt: `You are a DevOps engineer with expertise in deployment, infrastructure, and automation. Your role is to:
-
-- Help with Docker, Kubernetes, and containerization
-- Assist with CI/CD pipeline setup and optimization
-- Provide guidance on infrastructure as code
-- Help troubleshoot deployment and environment issues
-- Recommend best practices for scalability and reliability
-
-Focus on automation, reliability, and best practices.`
-  },
-  {
-    type: AgentType.TESTING,
-    name: 'Testing Specialist',
-    description: 'Creates tests and ensures code quality',
-    avatar: '🧪',
-    systemPrompt: `You are a quality assurance specialist focused on testing and test automation. Your role is to:
-
-- Write comprehensive test cases and test plans
-- Create unit tests, integration tests, and end-to-end tests
-- Identify edge cases and potential failure points
-- Recommend testing strategies and frameworks
-- Help with test automation and continuous testing
-
-Focus on thorough coverage and maintainable test code.`
-  },
-  {
-    type: AgentType.CUSTOM,
-    name: 'Custom Agent',
-    description: 'Create a custom agent with your own configuration',
-    avatar: '🤖',
-    systemPrompt: `You are a helpful AI assistant specialized in software development. Your role is to:
-
-- Assist with coding tasks and problem-solving
-- Provide explanations and guidance on technical concepts
-- Help with debugging and troubleshooting
-- Suggest best practices and improvements
-- Adapt to the specific needs of each project
-
-Be helpful, accurate, and focused on the task at hand.`
-  }
-];
-
 const AI_PROVIDERS = [
   { value: AIProvider.ANTHROPIC, label: 'Anthropic (Claude)' },
   { value: AIProvider.OPENAI, label: 'OpenAI (GPT)' },
-  { value: AIProvider.OLLAMA, label: 'Ollama (Local)' }
+  { value: AIProvider.GOOGLE, label: 'Google (Gemini)' },
+  { value: AIProvider.OLLAMA, label: 'Ollama (Local)' },
+  { value: AIProvider.LM_STUDIO, label: 'LM Studio / OpenAI-compatible (Local)' }
 ];
 
+// Providers that run on this machine and don't need an API key
+const LOCAL_PROVIDERS = [AIProvider.OLLAMA, AIProvider.LM_STUDIO];
+
+// Groups templates by category, keeping the order they were loaded in
+const groupByCategory = (templates: AgentTemplate[]): Array<[string, AgentTemplate[]]> => {
+  const groups = new Map<string, AgentTemplate[]>();
+  for (const template of templates) {
+    const category = template.category || 'General';
+    groups.set(category, [...(groups.get(category) || []), template]);
+  }
+  return Array.from(groups.entries());
+};
+
 export const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({ onClose, onCreate, onShowGlobalSettings }) => {
-  const [selectedTemplate, setSelectedTemplate] = useState(AGENT_TEMPLATES[0]);
+  const [templates, setTemplates] = useState<AgentTemplate[]>([]);
+  const [templateErrors, setTemplateErrors] = useState<string[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<AgentTemplate | null>(null);
   const [formData, setFormData] = useState({
     name: '',
-    avatar: selectedTemplate.avatar,
+    avatar: '🤖',
     provider: AIProvider.ANTHROPIC,
     model: 'claude-3-5-sonnet-20241022',
     temperature: 0.7,
@@ -164,6 +103,28 @@ export const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({ onClose, o
     };
   }, [formData.provider]);
 
+  useEffect(() => {
+    // Templates come from the extension: built-in files plus user and workspace folders
+    const templateHandler = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type === 'agentTemplates') {
+        const loaded: AgentTemplate[] = message.data.templates;
+        setTemplates(loaded);
+        setTemplateErrors(message.data.errors || []);
+        if (loaded.length > 0) {
+          handleTemplateSelect(loaded[0]);
+        }
+      }
+    };
+
+    window.addEventListener('message', templateHandler);
+    (window as any).vscode.postMessage({ type: 'getAgentTemplates' });
+
+    return () => {
+      window.removeEventListener('message', templateHandler);
+    };
+  }, []);
+
   const fetchModelsForProvider = (provider: AIProvider) => {
     setModelLoadingStates(prev => ({ ...prev, [provider.toLowerCase()]: true }));
     setModelMessages(prev => ({ ...prev, [provider.toLowerCase()]: '' }));
@@ -178,13 +139,18 @@ export const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({ onClose, o
     fetchModelsForProvider(formData.provider);
   }, [formData.provider]);
 
-  const handleTemplateSelect = (template: typeof AGENT_TEMPLATES[0]) => {
+  const handleTemplateSelect = (template: AgentTemplate) => {
+    const { defaultModel } = template;
     setSelectedTemplate(template);
     setFormData(prev => ({
       ...prev,
       avatar: template.avatar,
       // Only update name if user hasn't manually entered one
-      name: prev.name === '' || prev.name === selectedTemplate.name ? template.name : prev.name
+      name: prev.name === '' || prev.name === selectedTemplate?.name ? template.name : prev.name,
+      // Templates may preselect a model; a new provider without a model picks its first one
+      provider: defaultModel?.provider ?? prev.provider,
+      model: defaultModel?.modelName ?? (defaultModel?.provider && defaultModel.provider !== prev.provider ? '' : prev.model),
+      temperature: defaultModel?.temperature ?? prev.temperature
     }));
   };
 
@@ -195,7 +161,7 @@ export const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({ onClose, o
     
     
     // Validate agent name
-    const agentName = formData.name || selectedTemplate.name;
+    const agentName = formData.name || selectedTemplate?.name || '';
     const trimmedName = agentName.trim();
     
     if (!trimmedName) {
@@ -235,16 +201,16 @@ export const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({ onClose, o
     const agentData: Partial<AgentConfig> = {
       name: trimmedName,
       // avatar: formData.avatar, // Let the avatar service assign from files
-      type: selectedTemplate.type,
+      type: selectedTemplate?.type ?? AgentType.CUSTOM,
       model: {
         provider: formData.provider,
         modelName: formData.model,
         temperature: formData.temperature,
         maxTokens: 2000
       },
-      systemPrompt: selectedTemplate.systemPrompt,
-      capabilities: [],
-      permissions: [],
+      systemPrompt: selectedTemplate?.systemPrompt,
+      capabilities: selectedTemplate?.capabilities ?? [],
+      permissions: selectedTemplate?.permissions ?? [],
       contextScope: {
         includeFiles: true,
         includeGit: true,
@@ -260,7 +226,7 @@ export const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({ onClose, o
     };
 
     // Check if provider needs configuration
-    const needsApiKey = formData.provider !== AIProvider.OLLAMA && !providerStatus[formData.provider];
+    const needsApiKey = !LOCAL_PROVIDERS.includes(formData.provider) && !providerStatus[formData.provider];
     
     if (needsApiKey && onShowGlobalSettings) {
       // Show global settings for this provider with the agent data
@@ -288,7 +254,10 @@ export const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({ onClose, o
         return ['claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307', 'claude-3-opus-20240229'];
       case AIProvider.OPENAI:
         return ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'];
+      case AIProvider.GOOGLE:
+        return ['gemini-1.5-pro', 'gemini-1.5-flash', 'gemini-2.0-flash'];
       case AIProvider.OLLAMA:
+      case AIProvider.LM_STUDIO:
         return [];
       default:
         return [];
@@ -305,20 +274,50 @@ export const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({ onClose, o
 
         <div className="dialog-content">
           <div className="form-section">
-            <h3>Choose Template</h3>
-            <div className="template-grid">
-              {AGENT_TEMPLATES.map((template) => (
-                <div
-                  key={template.type}
-                  className={`template-card ${selectedTemplate.type === template.type ? 'selected' : ''}`}
-                  onClick={() => handleTemplateSelect(template)}
-                >
-                  <div className="template-avatar">{template.avatar}</div>
-                  <div className="template-name">{template.name}</div>
-                  <div className="template-description">{template.description}</div>
-                </div>
-              ))}
+            <div className="template-gallery-header">
+              <h3>Choose Template</h3>
+              <button
+                className="btn btn-secondary"
+                onClick={() => (window as any).vscode.postMessage({ type: 'importAgent' })}
+                title="Create an agent from an exported agent file"
+              >
+                Import Agent…
+              </button>
             </div>
+            {templates.length === 0 && (
+              <div className="template-description">Loading templates...</div>
+            )}
+            {groupByCategory(templates).map(([category, categoryTemplates]) => (
+              <div key={category} className="template-category">
+                <div className="template-category-name">{category}</div>
+                <div className="template-grid">
+                  {categoryTemplates.map((template) => (
+                    <div
+                      key={template.id}
+                      className={`template-card ${selectedTemplate?.id === template.id ? 'selected' : ''}`}
+                      onClick={() => handleTemplateSelect(template)}
+                      title={template.filePath}
+                    >
+                      <div className="template-avatar">{template.avatar}</div>
+                      <div className="template-name">{template.name}</div>
+                      <div className="template-description">{template.description}</div>
+                      {template.source && template.source !== 'built-in' && (
+                        <div className="template-source">{template.source}</div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {templateErrors.length > 0 && (
+              <div className="api-key-notice">
+                <div className="notice-icon">⚠️</div>
+                <div className="notice-content">
+                  <p>Some templates could not be loaded</p>
+                  {templateErrors.map(error => <p key={error}>{error}</p>)}
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="form-section">
@@ -331,7 +330,7 @@ export const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({ onClose, o
                   type="text"
                   value={formData.name}
                   onChange={(e) => setFormData(prev => ({ ...prev, name: (e.target as HTMLInputElement).value }))}
-                  placeholder={selectedTemplate.name}
+                  placeholder={selectedTemplate?.name ?? 'Agent name'}
                 />
               </div>
 
@@ -381,7 +380,7 @@ export const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({ onClose, o
                 </select>
               </div>
 
-              {formData.provider !== AIProvider.OLLAMA && !providerStatus[formData.provider] && (
+              {!LOCAL_PROVIDERS.includes(formData.provider) && !providerStatus[formData.provider] && (
                 <div className="form-group">
                   <div className="api-key-notice">
                     <div className="notice-icon">⚠️</div>
@@ -429,7 +428,7 @@ export const CreateAgentDialog: React.FC<CreateAgentDialogProps> = ({ onClose, o
             type="button"
           >
             {isCreating ? 'Creating...' : (
-              formData.provider !== AIProvider.OLLAMA && !providerStatus[formData.provider] 
+              !LOCAL_PROVIDERS.includes(formData.provider) && !providerStatus[formData.provider] 
                 ? 'Configure & Create Agent'
                 : 'Create Agent'
             )}
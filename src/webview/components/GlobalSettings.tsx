@@ -11,7 +11,9 @@ interface GlobalSettingsProps {
 interface APIKeyStatus {
   [AIProvider.ANTHROPIC]: { configured: boolean; valid: boolean; key?: string };
   [AIProvider.OPENAI]: { configured: boolean; valid: boolean; key?: string };
+  [AIProvider.GOOGLE]: { configured: boolean; valid: boolean; key?: string };
   [AIProvider.OLLAMA]: { configured: boolean; valid: boolean; key?: string };
+  [AIProvider.LM_STUDIO]: { configured: boolean; valid: boolean; key?: string };
 }
 
 export const GlobalSettings: React.FC<GlobalSettingsProps> = ({ 
@@ -24,7 +26,9 @@ export const GlobalSettings: React.FC<GlobalSettingsProps> = ({
   const [apiKeyStatus, setApiKeyStatus] = useState<APIKeyStatus>({
     [AIProvider.ANTHROPIC]: { configured: false, valid: false },
     [AIProvider.OPENAI]: { configured: false, valid: false },
-    [AIProvider.OLLAMA]: { configured: true, valid: true } // Ollama doesn't need keys
+    [AIProvider.GOOGLE]: { configured: false, valid: false },
+    [AIProvider.OLLAMA]: { configured: true, valid: true }, // Ollama doesn't need keys
+    [AIProvider.LM_STUDIO]: { configured: true, valid: true } // Local servers rarely check keys
   });
   const [tempKeys, setTempKeys] = useState<{[key in AIProvider]?: string}>({});
   const [testingProvider, setTestingProvider] = useState<AIProvider | null>(null);
@@ -37,7 +41,7 @@ export const GlobalSettings: React.FC<GlobalSettingsProps> = ({
   }, [isOpen]);
 
   useEffect(() => {
-    if (initialProvider && initialProvider !== AIProvider.OLLAMA) {
+    if (initialProvider && initialProvider !== AIProvider.OLLAMA && initialProvider !== AIProvider.LM_STUDIO) {
       setActiveTab('providers');
       // Focus on the specific provider that needs configuration
       const element = document.getElementById(`provider-${initialProvider}`);
@@ -116,7 +120,9 @@ export const GlobalSettings: React.FC<GlobalSettingsProps> = ({
     switch (provider) {
       case AIProvider.ANTHROPIC: return 'Anthropic Claude';
       case AIProvider.OPENAI: return 'OpenAI GPT';
+      case AIProvider.GOOGLE: return 'Google Gemini';
       case AIProvider.OLLAMA: return 'Ollama (Local)';
+      case AIProvider.LM_STUDIO: return 'LM Studio / OpenAI-compatible (Local)';
       default: return 'Unknown Provider';
     }
   };
@@ -137,6 +143,13 @@ export const GlobalSettings: React.FC<GlobalSettingsProps> = ({
           placeholder: 'sk-...',
           instructions: 'Get your API key from the OpenAI Platform'
         };
+      case AIProvider.GOOGLE:
+        return {
+          description: 'Gemini models with very long context windows',
+          signupUrl: 'https://aistudio.google.com/app/apikey',
+          placeholder: 'AIza...',
+          instructions: 'Get your API key from Google AI Studio'
+        };
       case AIProvider.OLLAMA:
         return {
           description: 'Run AI models locally for complete privacy',
@@ -144,6 +157,13 @@ export const GlobalSettings: React.FC<GlobalSettingsProps> = ({
           placeholder: 'No API key needed',
           instructions: 'Install Ollama locally and pull models'
         };
+      case AIProvider.LM_STUDIO:
+        return {
+          description: 'Any local server with an OpenAI-compatible API: LM Studio, llama.cpp, vLLM, LocalAI',
+          signupUrl: 'https://lmstudio.ai/',
+          placeholder: 'No API key needed',
+          instructions: 'Start the server and set aiAgents.openaiCompatible.baseUrl if it is not on localhost:1234'
+        };
       default:
         return {
           description: '',
@@ -191,7 +211,7 @@ export const GlobalSettings: React.FC<GlobalSettingsProps> = ({
                 )}
               </div>
 
-              {[AIProvider.ANTHROPIC, AIProvider.OPENAI, AIProvider.OLLAMA].map(provider => {
+              {[AIProvider.ANTHROPIC, AIProvider.OPENAI, AIProvider.GOOGLE, AIProvider.OLLAMA, AIProvider.LM_STUDIO].map(provider => {
                 const info = getProviderInfo(provider);
                 const status = apiKeyStatus[provider as keyof APIKeyStatus];
                 const isHighlighted = provider === initialProvider && !status?.configured;
@@ -221,7 +241,20 @@ export const GlobalSettings: React.FC<GlobalSettingsProps> = ({
                     </div>
 
                     <div className="provider-config">
-                      {provider !== AIProvider.OLLAMA ? (
+                      {provider === AIProvider.LM_STUDIO ? (
+                        <div className="ollama-config">
+                          <div className="ollama-status">
+                            <div className="ollama-info">
+                              <p>✅ {info.instructions}</p>
+                              <div className="ollama-links">
+                                <a href={info.signupUrl} target="_blank" rel="noopener noreferrer">
+                                  📥 Download LM Studio
+                                </a>
+                              </div>
+                            </div>
+                          </div>
+                        </div>
+                      ) : provider !== AIProvider.OLLAMA ? (
                         <div className="api-key-config">
                           {status.configured ? (
                             <div className="configured-key">
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AgentConfig } from '@/shared/types';
+import { AgentConfig, AgentType, DiscussionOptions } from '@/shared/types';
 
 interface Message {
   id: string;
@@ -7,13 +7,15 @@ interface Message {
   isUser: boolean;
   timestamp: Date;
   agentName?: string;
+  isRouting?: boolean;
+  isFinalAnswer?: boolean;
 }
 
 interface QuickChatDialogProps {
   agents: AgentConfig[];
   initialContext?: string | null;
   onClose: () => void;
-  onSendMessage: (message: string, targetAgent?: string) => void;
+  onSendMessage: (message: string, targetAgent?: string, discussion?: DiscussionOptions) => void;
 }
 
 export const QuickChatDialog: React.FC<QuickChatDialogProps> = ({
@@ -25,10 +27,15 @@ export const QuickChatDialog: React.FC<QuickChatDialogProps> = ({
   const [message, setMessage] = useState(initialContext || '');
   const [sharedConversation, setSharedConversation] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [thinkingLabel, setThinkingLabel] = useState<string | null>(null);
+  const [roundTable, setRoundTable] = useState(false);
+  const [rounds, setRounds] = useState(2);
+  const [moderatorId, setModeratorId] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const activeAgents = agents.filter(agent => agent.isActive);
+  const activeTypes = Array.from(new Set(activeAgents.map(agent => agent.type))).filter(type => type !== AgentType.CUSTOM);
 
   useEffect(() => {
     // Focus the textarea when dialog opens
@@ -53,7 +60,52 @@ export const QuickChatDialog: React.FC<QuickChatDialogProps> = ({
     const handleMessage = (event: MessageEvent) => {
       const message = event.data;
       
-      if (message.type === 'sharedChatResponse') {
+      if (message.type === 'quickChatRouting') {
+        setSharedConversation(prev => [
+          ...prev,
+          {
+            id: `routing-${Date.now()}`,
+            content: `🧭 ${message.data.explanation}`,
+            isUser: false,
+            timestamp: new Date(message.data.timestamp),
+            isRouting: true
+          }
+        ]);
+      } else if (message.type === 'discussionTurn') {
+        const { discussionId, agentName, round, rounds: totalRounds, role, status, reply, error } = message.data;
+        const isModerator = role === 'moderator';
+        if (status === 'started') {
+          setIsLoading(true);
+          setThinkingLabel(isModerator
+            ? `${agentName} is writing the final answer...`
+            : `${agentName} is thinking (round ${round} of ${totalRounds})...`);
+          return;
+        }
+
+        setSharedConversation(prev => [
+          ...prev,
+          status === 'completed'
+            ? {
+              id: `${discussionId}-${round}-${message.data.agentId}`,
+              content: reply || '(no reply)',
+              isUser: false,
+              timestamp: new Date(),
+              agentName: isModerator ? `${agentName} · final answer` : `${agentName} · round ${round}`,
+              isFinalAnswer: isModerator
+            }
+            : {
+              id: `${discussionId}-${round}-${message.data.agentId}-failed`,
+              content: `⚠️ ${agentName} couldn't answer: ${error}`,
+              isUser: false,
+              timestamp: new Date(),
+              isRouting: true
+            }
+        ]);
+        if (isModerator) {
+          setIsLoading(false);
+          setThinkingLabel(null);
+        }
+      } else if (message.type === 'sharedChatResponse') {
         const { response, done, agentName, timestamp } = message.data;
         
         if (done && response) {
@@ -109,7 +161,11 @@ export const QuickChatDialog: React.FC<QuickChatDialogProps> = ({
     
     setMessage(''); // Clear input
     setIsLoading(true);
-    onSendMessage(message, targetAgent);
+    if (roundTable) {
+      onSendMessage(message, targetAgent, { rounds, moderatorId: moderatorId || undefined });
+    } else {
+      onSendMessage(message, targetAgent);
+    }
     // Don't close the dialog anymore - keep it open for conversation
   };
 
@@ -163,13 +219,13 @@ export const QuickChatDialog: React.FC<QuickChatDialogProps> = ({
             <div className="messages-container">
               {sharedConversation.length === 0 ? (
                 <div className="no-messages">
-                  <p>Start a conversation with your agents using @mentions</p>
-                  <p>Try <code>@everyone Hello!</code> or <code>@AgentName What do you think?</code></p>
+                  <p>Start a conversation with your agents using @mentions, or just ask and the best fitting agent answers</p>
+                  <p>Try <code>@everyone Hello!</code>, <code>@AgentName What do you think?</code> or <code>@type:testing Any gaps?</code></p>
                 </div>
               ) : (
                 <>
                   {sharedConversation.map((msg) => (
-                    <div key={msg.id} className={`message ${msg.isUser ? 'user-message' : 'agent-message'}`}>
+                    <div key={msg.id} className={`message ${msg.isUser ? 'user-message' : 'agent-message'}${msg.isRouting ? ' routing-message' : ''}${msg.isFinalAnswer ? ' final-answer-message' : ''}`}>
                       <div className="message-content">
                         {msg.content}
                       </div>
@@ -184,7 +240,7 @@ export const QuickChatDialog: React.FC<QuickChatDialogProps> = ({
                   {isLoading && (
                     <div className="message agent-message loading">
                       <div className="message-content">
-                        <span className="typing-indicator">Agent is thinking...</span>
+                        <span className="typing-indicator">{thinkingLabel || 'Agent is thinking...'}</span>
                       </div>
                     </div>
                   )}
@@ -214,16 +270,60 @@ export const QuickChatDialog: React.FC<QuickChatDialogProps> = ({
               >
                 👥 @everyone
               </button>
+              {activeTypes.map(type => (
+                <button
+                  key={type}
+                  className="mention-btn everyone"
+                  onClick={() => insertAtMention(`type:${type}`)}
+                  title={`Mention every ${type.replace(/_/g, ' ')} agent`}
+                >
+                  🏷️ @type:{type}
+                </button>
+              ))}
             </div>
           </div>
 
+          <div className="discussion-options">
+            <label className="discussion-toggle" title="Agents answer in turns, seeing each other's replies, then a moderator gives the final answer">
+              <input
+                type="checkbox"
+                checked={roundTable}
+                onChange={(e) => setRoundTable(e.target.checked)}
+              />
+              Round table
+            </label>
+            {roundTable && (
+              <>
+                <label>
+                  Rounds
+                  <input
+                    type="number"
+                    min={1}
+                    max={5}
+                    value={rounds}
+                    onChange={(e) => setRounds(Math.min(Math.max(Number(e.target.value) || 1, 1), 5))}
+                  />
+                </label>
+                <label>
+                  Moderator
+                  <select value={moderatorId} onChange={(e) => setModeratorId(e.target.value)}>
+                    <option value="">First participant</option>
+                    {activeAgents.map(agent => (
+                      <option key={agent.id} value={agent.id}>{agent.name}</option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            )}
+          </div>
+
           <div className="message-input-section">
             <textarea
               ref={textareaRef}
               value={message}
               onChange={(e) => setMessage(e.target.value)}
               onKeyDown={handleKeyPress}
-              placeholder="Type your message... Use @agentname or @everyone to target specific agents. Ctrl+Enter to send."
+              placeholder="Type your message... Use @agentname, @type:testing or @everyone to target specific agents. Ctrl+Enter to send."
               rows={4}
               className="message-input"
             />
@@ -0,0 +1,67 @@
+import { AgentRouter } from '@/agents/AgentRouter';
+import { AgentConfig, AgentType, CapabilityType, IntentClassificationResult } from '@/shared/types';
+
+describe('AgentRouter', () => {
+  let detectedIntents: string[];
+  let router: AgentRouter;
+
+  const createAgent = (name: string, type: AgentType, capabilities: CapabilityType[] = [], isActive = true): AgentConfig => ({
+    id: name.toLowerCase().replace(/\s+/g, '-'),
+    name,
+    type,
+    capabilities: capabilities.map(capability => ({ type: capability, enabled: true })),
+    isActive
+  } as AgentConfig);
+
+  const agents = [
+    createAgent('Engineer', AgentType.SOFTWARE_ENGINEER, [CapabilityType.FILE_OPERATIONS]),
+    createAgent('Code Reviewer', AgentType.CODE_REVIEWER, [CapabilityType.CODE_ANALYSIS]),
+    createAgent('Tester', AgentType.TESTING, [CapabilityType.FILE_OPERATIONS, CapabilityType.COMMAND_EXECUTION]),
+    createAgent('QA Bot', AgentType.TESTING),
+    createAgent('Ops', AgentType.DEVOPS, [CapabilityType.COMMAND_EXECUTION], false)
+  ];
+  const names = (routed: AgentConfig[]) => routed.map(agent => agent.name);
+
+  beforeEach(() => {
+    detectedIntents = [];
+    router = new AgentRouter(async (): Promise<IntentClassificationResult> => ({
+      detectedIntents,
+      confidence: 0.7,
+      suggestedKeywords: [],
+      reasoning: 'Static keyword matching'
+    }));
+  });
+
+  it('should route to every mentioned agent and type', async () => {
+    const routing = await router.route('@Code Reviewer and @eng, please look at this with @type:testing', agents);
+
+    expect(names(routing.agents)).toEqual(['Code Reviewer', 'Engineer', 'Tester', 'QA Bot']);
+    expect(routing.explanation).toBe(
+      'Routed to Code Reviewer, Engineer, Tester, QA Bot: Code Reviewer was mentioned; Engineer was mentioned; @type:testing matches their type.'
+    );
+    expect(names((await router.route('@everyone standup time', agents)).agents)).toEqual(['Engineer', 'Code Reviewer', 'Tester', 'QA Bot']);
+    expect(AgentRouter.resolveMentions('mail me at dev@example.com', agents).agents).toEqual([]);
+  });
+
+  it('should pick the agent whose type and capabilities fit the message', async () => {
+    detectedIntents = [CapabilityType.COMMAND_EXECUTION];
+    const routing = await router.route('The jest tests are flaky, can you run them and look?', agents);
+
+    expect(names(routing.agents)).toEqual(['Tester']);
+    expect(routing.explanation).toContain('"jest", "flaky"');
+    expect(routing.explanation).toContain('it has the Command Execution capability the request needs');
+
+    detectedIntents = [CapabilityType.CODE_ANALYSIS];
+    expect(names((await router.route('Anything wrong with this function?', agents)).agents)).toEqual(['Code Reviewer']);
+  });
+
+  it('should fall back to the selected agent, then the first active agent', async () => {
+    expect(names((await router.route('Hello there', agents, 'qa-bot')).agents)).toEqual(['QA Bot']);
+
+    const routing = await router.route('Hello @Ops', agents);
+    expect(names(routing.agents)).toEqual(['Engineer']);
+    expect(routing.explanation).toBe(
+      'Routed to Engineer: no agent stood out for this message, so the first active agent answers. No active agent matches @Ops.'
+    );
+  });
+});
@@ -0,0 +1,255 @@
+import { AgentService } from '@/agents/AgentService';
+import { CommandPolicy } from '@/agents/CommandPolicy';
+import { CommandRunner } from '@/agents/CommandRunner';
+import { AgentConfig, PermissionType } from '@/shared/types';
+import * as fs from 'fs';
+import { createMockAgentService, createTestAgent, MockProviderManager, MockSettingsManager } from './mockAgentService';
+
+// Mock VSCode APIs
+jest.mock('vscode', () => ({
+  workspace: {
+    workspaceFolders: [{
+      uri: { fsPath: '/test/workspace' }
+    }],
+  },
+  window: {
+    showInformationMessage: jest.fn(),
+    showErrorMessage: jest.fn(),
+    showWarningMessage: jest.fn(),
+    createOutputChannel: jest.fn(() => ({
+      appendLine: jest.fn(),
+      show: jest.fn(),
+    })),
+  },
+}));
+
+// Mock file system
+jest.mock('fs', () => ({
+  existsSync: jest.fn(),
+  readFileSync: jest.fn(),
+  writeFileSync: jest.fn(),
+  mkdirSync: jest.fn(),
+  realpathSync: jest.fn((filePath: string) => filePath),
+}));
+
+// Mock path
+jest.mock('path', () => ({
+  join: jest.fn((...paths) => paths.join('/')),
+  dirname: jest.fn((filePath) => filePath.split('/').slice(0, -1).join('/')),
+}));
+
+describe('AgentService - Agent Loop', () => {
+  let agentService: AgentService;
+  let settingsManager: MockSettingsManager;
+  let providerManager: MockProviderManager;
+  let mockAgent: AgentConfig;
+  let generateStreamingResponse: jest.Mock;
+  let responses: string[];
+
+  const mockFs = fs as jest.Mocked<typeof fs>;
+
+  const sendMessage = async (message: string) => {
+    const chunks: string[] = [];
+    await agentService.processMessage(mockAgent, message, (chunk, done) => {
+      if (done) chunks.push(chunk);
+    });
+    return chunks;
+  };
+
+  const sentMessages = (call: number) => generateStreamingResponse.mock.calls[call][0];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockFs.existsSync.mockReturnValue(true);
+    mockFs.readFileSync.mockReturnValue('line one\nline two');
+
+    ({ agentService, settingsManager, providerManager } = createMockAgentService());
+
+    // Every model call streams the next canned response in a single chunk
+    responses = [];
+    generateStreamingResponse = providerManager.generateStreamingResponse.mockImplementation(async (_messages, _model, onChunk) => {
+      onChunk({ content: responses.shift() ?? 'No more responses', done: true });
+    });
+
+    mockAgent = createTestAgent({
+      permissions: [
+        { type: PermissionType.READ_FILES, granted: true },
+        { type: PermissionType.WRITE_FILES, granted: true }
+      ]
+    });
+  });
+
+  it('should send READ_FILE results back to the agent and stream its next response', async () => {
+    responses = ['[READ_FILE: notes.txt]', 'The notes have two lines.'];
+
+    const chunks = await sendMessage('What is in notes.txt?');
+
+    expect(generateStreamingResponse).toHaveBeenCalledTimes(2);
+    const followUp = sentMessages(1);
+    expect(followUp[followUp.length - 2]).toEqual({ role: 'assistant', content: '[READ_FILE: notes.txt]' });
+    expect(followUp[followUp.length - 1].role).toBe('user');
+    expect(followUp[followUp.length - 1].content).toBe('[TOOL_RESULT: READ_FILE: notes.txt]\n```\nline one\nline two\n```');
+    expect(chunks).toEqual(['[READ_FILE: notes.txt]', 'The notes have two lines.']);
+  });
+
+  it('should report files that could not be read as failed results', async () => {
+    mockFs.existsSync.mockReturnValue(false);
+    responses = ['[READ_FILE: missing.txt]', 'That file does not exist.'];
+
+    await sendMessage('What is in missing.txt?');
+
+    const followUp = sentMessages(1);
+    expect(followUp[followUp.length - 1].content).toBe('[TOOL_RESULT: READ_FILE: missing.txt] (failed)\nFile not found: missing.txt');
+  });
+
+  it('should keep looping when the chunks arrive after the request started', async () => {
+    // Like the real providers: chunks carry the reply so far, and the call resolves after the done chunk
+    generateStreamingResponse.mockImplementation(async (_messages, _model, onChunk) => {
+      const reply = responses.shift() ?? 'No more responses';
+      for (let end = 5; end < reply.length; end += 5) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        onChunk({ content: reply.substring(0, end), done: false });
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+      onChunk({ content: reply, done: true });
+    });
+    responses = ['[READ_FILE: notes.txt]', 'The notes have two lines.'];
+
+    const chunks = await sendMessage('What is in notes.txt?');
+
+    expect(generateStreamingResponse).toHaveBeenCalledTimes(2);
+    const followUp = sentMessages(1);
+    expect(followUp[followUp.length - 2]).toEqual({ role: 'assistant', content: '[READ_FILE: notes.txt]' });
+    expect(followUp[followUp.length - 1].content).toContain('line one\nline two');
+    expect(chunks).toEqual(['[READ_FILE: notes.txt]', 'The notes have two lines.']);
+  });
+
+  describe('captured commands', () => {
+    beforeEach(() => {
+      settingsManager.getCommandExecutionSettings = () => ({ mode: 'capture', timeoutMs: 1000, maxOutputChars: 1000 });
+      settingsManager.getCommandPolicySettings = () => CommandPolicy.DEFAULT_SETTINGS;
+      mockAgent.permissions.push({ type: PermissionType.EXECUTE_COMMANDS, granted: true });
+      jest.spyOn(CommandRunner.prototype, 'run').mockResolvedValue({
+        command: 'npm test',
+        exitCode: 1,
+        stdout: '',
+        stderr: 'FAIL tests/math.test.ts',
+        timedOut: false,
+        truncated: false,
+        durationMs: 10
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should send the command output back to the agent and let it react', async () => {
+      responses = ['[RUN_COMMAND: npm test]', 'The math test fails, let me look.'];
+
+      const chunks = await sendMessage('Run the tests');
+
+      expect(generateStreamingResponse).toHaveBeenCalledTimes(2);
+      const followUp = sentMessages(1);
+      expect(followUp[followUp.length - 2]).toEqual({ role: 'assistant', content: '[RUN_COMMAND: npm test]' });
+      expect(followUp[followUp.length - 1]).toEqual({
+        role: 'user',
+        content: '[COMMAND_RESULT: npm test] (exit code 1)\nstderr:\n```\nFAIL tests/math.test.ts\n```'
+      });
+      expect(chunks).toEqual(['[RUN_COMMAND: npm test]', 'The math test fails, let me look.']);
+    });
+
+    it('should not wait for a result when commands run in a terminal', async () => {
+      settingsManager.getCommandExecutionSettings = () => ({ mode: 'terminal', timeoutMs: 1000, maxOutputChars: 1000 });
+      responses = ['[RUN_COMMAND: npm test]'];
+
+      await sendMessage('Run the tests');
+
+      expect(generateStreamingResponse).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should not call the model again for responses without informational tasks', async () => {
+    responses = ['[CREATE_FILE: notes.txt]\nhello\n[/CREATE_FILE]'];
+
+    await sendMessage('Create notes.txt');
+
+    expect(generateStreamingResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop after the configured number of steps', async () => {
+    settingsManager.getAgentLoopSettings = () => ({ maxSteps: 2, maxObservationChars: 8000 });
+    responses = ['[READ_FILE: a.txt]', '[READ_FILE: b.txt]', '[READ_FILE: c.txt]'];
+
+    await sendMessage('Keep reading');
+
+    expect(generateStreamingResponse).toHaveBeenCalledTimes(2);
+  });
+
+  it('should truncate long results', async () => {
+    settingsManager.getAgentLoopSettings = () => ({ maxSteps: 2, maxObservationChars: 8 });
+    responses = ['[READ_FILE: notes.txt]', 'Done'];
+
+    await sendMessage('Read notes.txt');
+
+    const followUp = sentMessages(1);
+    expect(followUp[followUp.length - 1].content).toContain('line one\n... (truncated, 9 more characters)');
+  });
+
+  it('should apply the emergency brake to all steps together', async () => {
+    agentService.configureEmergencyBrake({ maxContentLength: 40 });
+    responses = ['[READ_FILE: a.txt]', '[READ_FILE: b.txt] and some more text', '[READ_FILE: c.txt]'];
+
+    await sendMessage('Keep reading');
+
+    expect(generateStreamingResponse).toHaveBeenCalledTimes(2);
+  });
+
+  it('should offer task tools to models with tool support and run their tool calls', async () => {
+    providerManager.supportsToolCalling.mockResolvedValue(true);
+    generateStreamingResponse.mockImplementationOnce(async (_messages, _model, onChunk) => {
+      onChunk({
+        content: 'Let me look.',
+        done: true,
+        toolCalls: [{ id: 'call_1', name: 'read_file', arguments: { path: 'notes.txt' } }]
+      });
+    });
+    responses = ['The notes have two lines.'];
+
+    await sendMessage('What is in notes.txt?');
+
+    const options = generateStreamingResponse.mock.calls[0][3];
+    expect(options.tools.map((tool: any) => tool.name)).toContain('read_file');
+    const followUp = sentMessages(1);
+    expect(followUp[followUp.length - 2].content).toBe('Let me look.\n\n[READ_FILE: notes.txt]');
+    expect(followUp[followUp.length - 1].content).toContain('[TOOL_RESULT: READ_FILE: notes.txt]');
+  });
+
+  it('should queue tool calls from their arguments without parsing their text', async () => {
+    providerManager.supportsToolCalling.mockResolvedValue(true);
+    mockFs.existsSync.mockImplementation((filePath: fs.PathLike) => !String(filePath).endsWith('syntax.md'));
+    const content = 'Close a block with [/CREATE_FILE] and edits with [/FIND].\n  Indented [x] line\n';
+    generateStreamingResponse.mockImplementationOnce(async (_messages, _model, onChunk) => {
+      onChunk({
+        content: '',
+        done: true,
+        toolCalls: [{ id: 'call_1', name: 'create_file', arguments: { path: 'docs/syntax.md', content } }]
+      });
+    });
+
+    const result = await agentService.processMessage(mockAgent, 'Document the task syntax', () => undefined);
+    const tasks = await result.tasks;
+
+    expect(tasks.map(task => [task.type, task.status])).toEqual([['file_create', 'completed']]);
+    expect(mockFs.writeFileSync).toHaveBeenCalledWith('/test/workspace/docs/syntax.md', content, 'utf8');
+  });
+
+  it('should use the task syntax only for models without tool support', async () => {
+    responses = ['Hello'];
+
+    await sendMessage('Hi');
+
+    expect(generateStreamingResponse.mock.calls[0][3]).toBeUndefined();
+  });
+});
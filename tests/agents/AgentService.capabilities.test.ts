@@ -0,0 +1,167 @@
+import { AgentService, CapabilityBlockedEvent } from '@/agents/AgentService';
+import { TaskCapabilities } from '@/agents/TaskCapabilities';
+import { AgentConfig, AgentType, AIProvider, Capability, CapabilityType, PermissionType, TaskType } from '@/shared/types';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+
+// Mock VSCode
+jest.mock('vscode', () => ({
+  workspace: {
+    workspaceFolders: [{
+      uri: { fsPath: '/test/workspace' }
+    }],
+  },
+  window: {
+    showInformationMessage: jest.fn(),
+    showErrorMessage: jest.fn(),
+    showWarningMessage: jest.fn(),
+    createTerminal: jest.fn(() => ({
+      sendText: jest.fn(),
+      show: jest.fn(),
+    })),
+  },
+}));
+
+// Mock fs
+jest.mock('fs', () => ({
+  existsSync: jest.fn(),
+  readFileSync: jest.fn(),
+  writeFileSync: jest.fn(),
+  mkdirSync: jest.fn(),
+  unlinkSync: jest.fn(),
+  realpathSync: jest.fn((filePath: string) => filePath),
+}));
+
+describe('AgentService - Capabilities', () => {
+  let agentService: AgentService;
+
+  const mockFs = fs as jest.Mocked<typeof fs>;
+  const mockVscode = vscode as jest.Mocked<typeof vscode>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    agentService = new AgentService();
+    agentService.setContext({
+      globalState: {
+        get: jest.fn(() => ({})),
+        update: jest.fn(() => Promise.resolve()),
+      },
+    } as unknown as vscode.ExtensionContext);
+
+    mockFs.existsSync.mockReturnValue(false);
+  });
+
+  const createAgentWithCapabilities = (capabilities: Capability[]): AgentConfig => ({
+    id: 'test-agent',
+    name: 'Test Agent',
+    avatar: '🤖',
+    type: AgentType.CUSTOM,
+    model: {
+      provider: AIProvider.ANTHROPIC,
+      modelName: 'claude-3-5-sonnet-20241022',
+      temperature: 0.7,
+      maxTokens: 2000,
+    },
+    systemPrompt: 'Test agent',
+    capabilities,
+    permissions: [
+      { type: PermissionType.READ_FILES, granted: true },
+      { type: PermissionType.WRITE_FILES, granted: true },
+      { type: PermissionType.EXECUTE_COMMANDS, granted: true },
+      { type: PermissionType.GIT_OPERATIONS, granted: true }
+    ],
+    contextScope: {
+      includeFiles: true,
+      includeGit: true,
+      includeWorkspace: true,
+      filePatterns: [],
+      excludePatterns: [],
+    },
+    memory: {
+      maxConversations: 100,
+      retentionDays: 30,
+      enableLearning: true,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    isActive: true,
+  });
+
+  it('should enable every capability for agents without a capability list', () => {
+    const agent = createAgentWithCapabilities([]);
+
+    expect(TaskCapabilities.getBlockedCapability(agent, TaskType.FILE_CREATE)).toBeNull();
+    expect(TaskCapabilities.getDisabledVerbs(agent)).toEqual([]);
+  });
+
+  it('should enable only the listed capabilities for agents with a capability list', () => {
+    const agent = createAgentWithCapabilities([{ type: CapabilityType.CODE_ANALYSIS, enabled: true }]);
+
+    expect(TaskCapabilities.getBlockedCapability(agent, TaskType.FILE_CREATE)).toBe(CapabilityType.FILE_OPERATIONS);
+    expect(TaskCapabilities.getBlockedCapability(agent, TaskType.AGENT_DELEGATE)).toBe(CapabilityType.AGENT_DELEGATION);
+    expect(TaskCapabilities.getEnabledCapabilities(agent)).toEqual([CapabilityType.CODE_ANALYSIS]);
+  });
+
+  it('should list the capabilities of agents saved before lists were enforced', () => {
+    const agent = createAgentWithCapabilities([{ type: CapabilityType.GIT_OPERATIONS, enabled: false }]);
+    const migrated = { ...agent, capabilities: TaskCapabilities.listUnlistedAsEnabled(agent) };
+
+    expect(TaskCapabilities.getDisabledVerbs(migrated)).toEqual(['GIT_COMMAND', 'GIT_COMMIT']);
+    expect(migrated.capabilities).toContainEqual({ type: CapabilityType.AGENT_DELEGATION, enabled: true });
+    expect(TaskCapabilities.listUnlistedAsEnabled(createAgentWithCapabilities([]))).toEqual([]);
+  });
+
+  it('should reject tasks whose capability is disabled and report them', async () => {
+    const agent = createAgentWithCapabilities([{ type: CapabilityType.FILE_OPERATIONS, enabled: false }]);
+    const events: CapabilityBlockedEvent[] = [];
+    agentService.onCapabilityBlocked(event => events.push(event));
+
+    const tasks = await agentService.executeTasksFromResponse(agent, '[CREATE_FILE: notes.txt]\nhello\n[/CREATE_FILE]');
+
+    expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    expect(tasks[0].result?.output).toBe('CREATE_FILE rejected: the File Operations capability is disabled for Test Agent');
+    expect(events).toEqual([{
+      agentId: 'test-agent',
+      verb: 'CREATE_FILE',
+      capability: CapabilityType.FILE_OPERATIONS,
+      capabilityLabel: 'File Operations'
+    }]);
+  });
+
+  it('should keep running verbs of other enabled capabilities', async () => {
+    const agent = createAgentWithCapabilities([
+      { type: CapabilityType.FILE_OPERATIONS, enabled: true },
+      { type: CapabilityType.GIT_OPERATIONS, enabled: false }
+    ]);
+
+    await agentService.executeTasksFromResponse(agent, '[CREATE_FILE: notes.txt]\nhello\n[/CREATE_FILE]');
+
+    expect(mockFs.writeFileSync).toHaveBeenCalledWith('/test/workspace/notes.txt', 'hello', 'utf8');
+  });
+
+  it('should require the Docker capability for docker commands', async () => {
+    const agent = createAgentWithCapabilities([{ type: CapabilityType.COMMAND_EXECUTION, enabled: true }]);
+
+    const tasks = await agentService.executeTasksFromResponse(agent, '[RUN_COMMAND: docker ps]\n[RUN_COMMAND: npm run build && sudo docker compose up]');
+
+    expect(tasks.map(task => task.result?.output)).toEqual([
+      expect.stringContaining('Docker Operations capability is disabled'),
+      expect.stringContaining('Docker Operations capability is disabled')
+    ]);
+    expect(mockVscode.window.createTerminal).not.toHaveBeenCalled();
+  });
+
+  it('should list only the allowed verbs in the system prompt', () => {
+    const agent = createAgentWithCapabilities(Object.values(CapabilityType).map(type => ({
+      type,
+      enabled: type !== CapabilityType.COMMAND_EXECUTION
+    })));
+
+    const instructions: string = (agentService as any).getTaskInstructions(agent, TaskCapabilities.getEnabledCapabilities(agent));
+
+    expect(instructions).not.toContain('[RUN_COMMAND: npm install]');
+    expect(instructions).toContain('🚫 **Disabled:** RUN_COMMAND');
+    expect(instructions).toMatch(/Allowed task verbs for you:\*\* CREATE_FILE, .*GIT_COMMIT/);
+  });
+});
@@ -0,0 +1,160 @@
+import { AgentService, DelegationEvent } from '@/agents/AgentService';
+import { AgentConfig, AIProvider, PermissionType } from '@/shared/types';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { createMockAgentService, createTestAgent, MockProviderManager } from './mockAgentService';
+
+jest.mock('vscode', () => ({
+  workspace: {
+    workspaceFolders: [{
+      uri: { fsPath: '/test/workspace' }
+    }],
+  },
+  window: {
+    showInformationMessage: jest.fn(),
+    showErrorMessage: jest.fn(),
+    showWarningMessage: jest.fn(),
+    createOutputChannel: jest.fn(() => ({
+      appendLine: jest.fn(),
+      show: jest.fn(),
+    })),
+  },
+}));
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn(),
+  readFileSync: jest.fn(),
+  writeFileSync: jest.fn(),
+  mkdirSync: jest.fn(),
+  realpathSync: jest.fn((filePath: string) => filePath),
+}));
+
+jest.mock('path', () => ({
+  join: jest.fn((...paths) => paths.join('/')),
+  dirname: jest.fn((filePath) => filePath.split('/').slice(0, -1).join('/')),
+}));
+
+describe('AgentService - Delegation', () => {
+  let agentService: AgentService;
+  let agents: AgentConfig[];
+  let scripts: Record<string, string[]>;
+  let sentToModel: Record<string, string[]>;
+  let events: DelegationEvent[];
+  let maxDepth: number;
+  let providerManager: MockProviderManager;
+
+  const mockFs = fs as jest.Mocked<typeof fs>;
+
+  const createAgent = (name: string, permissions: PermissionType[]): AgentConfig => createTestAgent({
+    id: name.toLowerCase(),
+    name,
+    // The model name tells the mocked provider which agent is answering
+    model: { provider: AIProvider.ANTHROPIC, modelName: name, temperature: 0.7, maxTokens: 2000 },
+    systemPrompt: `You are ${name}`,
+    permissions: permissions.map(type => ({ type, granted: true }))
+  });
+
+  const sendMessage = (agent: AgentConfig, message: string) => agentService.processMessage(agent, message, () => {});
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFs.existsSync.mockReturnValue(false);
+
+    maxDepth = 2;
+    ({ agentService, providerManager } = createMockAgentService({
+      getAgentLoopSettings: () => ({ maxSteps: 3, maxObservationChars: 8000 }),
+      shouldUseNativeToolCalling: () => false,
+      getDelegationSettings: () => ({ maxDepth })
+    }));
+
+    // Each agent streams its next canned response; the last message it was sent is recorded
+    scripts = {};
+    sentToModel = {};
+    providerManager.generateStreamingResponse.mockImplementation(async (messages, model, onChunk) => {
+      (sentToModel[model.modelName] ??= []).push(messages[messages.length - 1].content);
+      onChunk({ content: scripts[model.modelName]?.shift() ?? 'Done', done: true });
+    });
+
+    agents = [
+      createAgent('Reviewer', [PermissionType.READ_FILES]),
+      createAgent('Engineer', [PermissionType.READ_FILES, PermissionType.WRITE_FILES]),
+      createAgent('Writer', [PermissionType.READ_FILES, PermissionType.WRITE_FILES])
+    ];
+    agentService.setAgentDirectory(() => agents);
+
+    events = [];
+    agentService.onAgentDelegation(event => events.push(event));
+  });
+
+  it('should send the delegate reply back to the delegating agent', async () => {
+    scripts.Engineer = ['The parser handles nested groups.'];
+    scripts.Reviewer = ['[DELEGATE: engineer]\nCheck how the parser handles nested groups\n[/DELEGATE]', 'All good.'];
+
+    await sendMessage(agents[0], 'Review the parser');
+
+    expect(sentToModel.Engineer[0]).toContain('[Delegated by Reviewer]\nCheck how the parser handles nested groups');
+    expect(sentToModel.Reviewer[1]).toBe('[TOOL_RESULT: DELEGATE: engineer]\n```\nThe parser handles nested groups.\n```');
+    expect(events.map(event => [event.fromAgentName, event.toAgentName, event.status])).toEqual([
+      ['Reviewer', 'Engineer', 'started'],
+      ['Reviewer', 'Engineer', 'completed']
+    ]);
+    expect(events[1].reply).toBe('The parser handles nested groups.');
+    expect(agentService.getTasks('engineer')).toHaveLength(0);
+  });
+
+  it('should not let a delegate do what the delegating agent may not', async () => {
+    scripts.Engineer = ['[CREATE_FILE: CHANGELOG.md]\n- Fixed nested groups\n[/CREATE_FILE]'];
+    scripts.Reviewer = ['[DELEGATE: Engineer]\nAdd a changelog entry\n[/DELEGATE]'];
+
+    await sendMessage(agents[0], 'Get the changelog updated');
+
+    expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('does not have permission to write files'));
+    expect(sentToModel.Reviewer[1]).toContain('Tasks run by Engineer:\n- Created file: CHANGELOG.md (failed)');
+
+    // Working for itself, the engineer keeps its own permissions
+    scripts.Engineer = ['[CREATE_FILE: CHANGELOG.md]\n- Fixed nested groups\n[/CREATE_FILE]'];
+    await sendMessage(agents[1], 'Add a changelog entry');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(mockFs.writeFileSync).toHaveBeenCalledWith('/test/workspace/CHANGELOG.md', '- Fixed nested groups', 'utf8');
+  });
+
+  it('should wait for replies streamed in chunks and tell failures from replies by the result', async () => {
+    // Like the real providers: chunks carry the reply so far and arrive after the request started
+    providerManager.generateStreamingResponse.mockImplementation(async (_messages, model, onChunk) => {
+      if (model.modelName === 'Engineer') {
+        throw new Error('Anthropic streaming error: overloaded');
+      }
+      const reply = scripts[model.modelName]?.shift() ?? 'Done';
+      for (const end of [4, 12, reply.length]) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        onChunk({ content: reply.substring(0, end), done: end === reply.length });
+      }
+    });
+    scripts.Writer = ['❌ marks the steps that still fail in the guide.'];
+
+    const result = await agentService.processMessageAndWait(agents[2], 'Which steps fail?');
+
+    expect(result.reply).toBe('❌ marks the steps that still fail in the guide.');
+    expect(result.output).toBe(result.reply);
+    await expect(agentService.processMessageAndWait(agents[1], 'Fix it')).rejects.toThrow('Anthropic streaming error: overloaded');
+  });
+
+  it('should refuse loops, unknown agents and handoffs past the depth limit', async () => {
+    scripts.Engineer = ['[DELEGATE: Reviewer]\nReview your own request\n[/DELEGATE]'];
+    scripts.Reviewer = ['[DELEGATE: Engineer]\nImplement the fix\n[/DELEGATE]'];
+    await sendMessage(agents[0], 'Fix it');
+    expect(sentToModel.Engineer[1]).toContain('[TOOL_RESULT: DELEGATE: Reviewer] (failed)\nDelegating to Reviewer would loop: Reviewer → Engineer → Reviewer');
+
+    scripts.Reviewer = ['[DELEGATE: Designer]\nDraw a diagram\n[/DELEGATE]'];
+    await sendMessage(agents[0], 'Draw it');
+    expect(sentToModel.Reviewer[sentToModel.Reviewer.length - 1]).toContain('No active agent named "Designer". Agents you can delegate to: Engineer, Writer');
+
+    maxDepth = 1;
+    scripts.Engineer = ['[DELEGATE: Writer]\nDocument the fix\n[/DELEGATE]'];
+    scripts.Reviewer = ['[DELEGATE: Engineer]\nImplement the fix\n[/DELEGATE]'];
+    await sendMessage(agents[0], 'Fix and document it');
+    expect(sentToModel.Writer).toBeUndefined();
+    expect(sentToModel.Engineer[sentToModel.Engineer.length - 1]).toContain('Delegation is limited to 1 level(s) of handoff');
+  });
+});
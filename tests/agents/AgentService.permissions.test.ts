@@ -1,4 +1,5 @@
 import { AgentService } from '@/agents/AgentService';
+import { CommandPolicy } from '@/agents/CommandPolicy';
 import { AgentConfig, AgentType, AIProvider, Permission, PermissionType } from '@/shared/types';
 import * as vscode from 'vscode';
 import * as fs from 'fs';
@@ -9,6 +10,7 @@ jest.mock('vscode', () => ({
     workspaceFolders: [{
       uri: { fsPath: '/test/workspace' }
     }],
+    onDidChangeConfiguration: jest.fn(() => ({ dispose: jest.fn() })),
   },
   window: {
     showInformationMessage: jest.fn(),
@@ -28,6 +30,7 @@ jest.mock('fs', () => ({
   writeFileSync: jest.fn(),
   mkdirSync: jest.fn(),
   unlinkSync: jest.fn(),
+  realpathSync: jest.fn((filePath: string) => filePath),
 }));
 
 describe('AgentService - Permission System', () => {
@@ -145,6 +148,21 @@ describe('AgentService - Permission System', () => {
         `Agent "Test Agent" does not have permission to read "test.js". File not in allowed scope.`
       );
     });
+
+    it('should only attach indexed code the agent may read', async () => {
+      const chunk = (relativePath: string) => ({
+        filePath: `/test/workspace/${relativePath}`, relativePath, startLine: 1, endLine: 2, content: 'code', score: 1
+      });
+      const service = agentService as any;
+      service.codebaseIndex = { search: jest.fn(async () => [chunk('src/index.ts'), chunk('secrets/keys.ts')]) };
+      const memory = { sharedFiles: [] };
+      const tokenizer = { countTokens: () => 1 };
+      const scoped = createAgentWithPermissions([{ type: PermissionType.READ_FILES, granted: true, scope: ['src/**'] }]);
+
+      const results = await service.findRelevantCode(scoped, 'parser', memory, 100, tokenizer);
+      expect(results.map((result: { relativePath: string }) => result.relativePath)).toEqual(['src/index.ts']);
+      expect(await service.findRelevantCode(createAgentWithPermissions([]), 'parser', memory, 100, tokenizer)).toEqual([]);
+    });
   });
 
   describe('File Write Permissions', () => {
@@ -293,6 +311,84 @@ Hello World
     });
   });
 
+  describe('Command Policy', () => {
+    it('should refuse denylisted commands even with permission', async () => {
+      const agent = createAgentWithPermissions([
+        { type: PermissionType.GIT_OPERATIONS, granted: true }
+      ]);
+
+      const service = agentService as any;
+      await service.executeTasksFromResponse(agent, `[GIT_COMMAND: git push --force origin main]`);
+
+      expect(mockVscode.window.createTerminal).not.toHaveBeenCalled();
+      expect(mockVscode.window.showErrorMessage).toHaveBeenCalledWith(
+        `Agent "Test Agent" is not allowed to run "git push --force origin main". It matches the deny rule "git push --force*".`
+      );
+    });
+
+    it('should ask before running commands on the agent ask list', async () => {
+      const agent = {
+        ...createAgentWithPermissions([{ type: PermissionType.EXECUTE_COMMANDS, granted: true }]),
+        commandPolicy: { ask: ['npm publish*'] }
+      };
+      (mockVscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce(undefined).mockResolvedValueOnce('Run');
+
+      const service = agentService as any;
+      await service.executeTasksFromResponse(agent, `[RUN_COMMAND: npm publish]`);
+      expect(mockVscode.window.createTerminal).not.toHaveBeenCalled();
+
+      await service.executeTasksFromResponse(agent, `[RUN_COMMAND: npm publish]`);
+      expect(mockVscode.window.showWarningMessage).toHaveBeenCalledWith(
+        `Agent "Test Agent" wants to run "npm publish"`,
+        { modal: true },
+        'Run'
+      );
+      expect(mockVscode.window.createTerminal).toHaveBeenCalledWith('AI Agent Command');
+    });
+
+    it('should refuse commands outside the allowlist when the default action is deny', async () => {
+      const agent = {
+        ...createAgentWithPermissions([{ type: PermissionType.EXECUTE_COMMANDS, granted: true }]),
+        commandPolicy: { allow: ['npm *'], defaultAction: 'deny' as const }
+      };
+
+      const service = agentService as any;
+      await service.executeTasksFromResponse(agent, `[RUN_COMMAND: npm test && make deploy]`);
+
+      expect(mockVscode.window.createTerminal).not.toHaveBeenCalled();
+      expect(mockVscode.window.showErrorMessage).toHaveBeenCalledWith(
+        `Agent "Test Agent" is not allowed to run "npm test && make deploy". It is not in the command allowlist.`
+      );
+    });
+
+    it('should apply settings changes without reloading the window', async () => {
+      let deny: string[] = [];
+      let hosts: Record<string, string> = {};
+      const settingsManager = {
+        reload: jest.fn(() => {
+          deny = ['make *'];
+          hosts = { gpu: 'http://gpu-box:11434' };
+        }),
+        getCommandPolicySettings: () => ({ ...CommandPolicy.DEFAULT_SETTINGS, deny }),
+        getOpenAICompatibleBaseUrl: () => 'http://localhost:1234/v1',
+        getOllamaSettings: () => ({ baseUrl: 'http://localhost:11434', hosts }),
+        getContextWindows: () => ({})
+      };
+      const service = new AgentService() as any;
+      const configureOllama = jest.spyOn(service.providerManager, 'configureOllama');
+      service.setContext({ ...mockContext, subscriptions: [] }, settingsManager);
+      const agent = createAgentWithPermissions([{ type: PermissionType.EXECUTE_COMMANDS, granted: true }]);
+      expect(await service.checkCommandPolicy(agent, 'make deploy')).toBe(true);
+
+      const [onChange] = (mockVscode.workspace.onDidChangeConfiguration as jest.Mock).mock.lastCall;
+      onChange({ affectsConfiguration: (section: string) => section === 'aiAgents' });
+
+      expect(settingsManager.reload).toHaveBeenCalled();
+      expect(configureOllama).toHaveBeenLastCalledWith({ baseUrl: 'http://localhost:11434', hosts: { gpu: 'http://gpu-box:11434' } });
+      expect(await service.checkCommandPolicy(agent, 'make deploy')).toBe(false);
+    });
+  });
+
   describe('Permission Combinations', () => {
     it('should work with multiple permissions granted', async () => {
       const agent = createAgentWithPermissions([
@@ -331,8 +427,8 @@ Content
 
       await service.executeTasksFromResponse(agent, response);
 
-      // Read should be denied
-      expect(mockFs.readFileSync).not.toHaveBeenCalled();
+      // Read should be denied (output.txt is only read to journal its previous content)
+      expect(mockFs.readFileSync).not.toHaveBeenCalledWith('/test/workspace/test.txt', 'utf8');
       // Write should succeed
       expect(mockFs.writeFileSync).toHaveBeenCalled();
       // Should show error for denied permission
@@ -0,0 +1,124 @@
+import { AgentService, ContextSummaryEvent } from '@/agents/AgentService';
+import { AgentConfig, AIProvider, HelperBrainSettings } from '@/shared/types';
+import { createMockAgentService, createTestAgent, MockProviderManager } from './mockAgentService';
+
+jest.mock('vscode', () => ({
+  workspace: {
+    workspaceFolders: [{
+      uri: { fsPath: '/test/workspace' }
+    }],
+  },
+  window: {
+    showInformationMessage: jest.fn(),
+    showErrorMessage: jest.fn(),
+    showWarningMessage: jest.fn(),
+    createOutputChannel: jest.fn(() => ({
+      appendLine: jest.fn(),
+      show: jest.fn(),
+    })),
+  },
+}));
+
+describe('AgentService - Conversation Summaries', () => {
+  let agentService: AgentService;
+  let mockAgent: AgentConfig;
+  let generateResponse: jest.Mock;
+  let helperBrain: HelperBrainSettings;
+  let summaries: ContextSummaryEvent[];
+
+  // Ten long turns overflow the 1000 token context window of the mocked model
+  const fillHistory = (agentId: string) => {
+    (agentService as any).agentMemories.set(agentId, {
+      agentId,
+      conversations: Array.from({ length: 10 }, (_, i) => ({
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: `Turn ${i} ${'about the parser '.repeat(40)}`
+      })),
+      sharedFiles: [],
+      textSnippets: [],
+      lastInteraction: new Date(),
+      learningData: { commonTopics: {}, preferredApproaches: [], successfulPatterns: [], interactionCount: 10 },
+      totalTokensUsed: 0,
+      sessionCount: 1
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    helperBrain = {
+      enabled: true,
+      useAgentProvider: false,
+      provider: AIProvider.OPENAI,
+      modelName: 'gpt-4o-mini',
+      temperature: 0,
+      maxTokens: 500,
+      systemPrompt: '',
+      summarizeConversations: true
+    };
+    let providerManager: MockProviderManager;
+    ({ agentService, providerManager } = createMockAgentService({
+      getAgentLoopSettings: () => ({ maxSteps: 1, maxObservationChars: 8000 }),
+      shouldUseNativeToolCalling: () => false,
+      getHelperBrainSettings: () => helperBrain
+    }));
+
+    // The mocked model's 1000 token window forces older turns to be summarized
+    generateResponse = providerManager.generateResponse.mockImplementation(async () => ({ content: '- The user is refactoring the parser', model: 'gpt-4o-mini' }));
+    providerManager.getContextWindow.mockResolvedValue(1000);
+
+    summaries = [];
+    agentService.onContextSummaryChanged(event => summaries.push(event));
+
+    mockAgent = createTestAgent({
+      id: 'summary-agent',
+      name: 'Summary Agent',
+      model: { provider: AIProvider.ANTHROPIC, modelName: 'claude-3-5-sonnet-20241022', temperature: 0.7, maxTokens: 200 }
+    });
+  });
+
+  it('should fold older turns into a rolling summary written by the helper brain', async () => {
+    fillHistory(mockAgent.id);
+    agentService.updateContextSummary(mockAgent.id, 'The user asked for a new parser.');
+
+    await agentService.processMessage(mockAgent, 'Continue', () => {});
+
+    const [messages, model] = generateResponse.mock.calls[0];
+    expect(model).toEqual({ provider: AIProvider.OPENAI, modelName: 'gpt-4o-mini', temperature: 0, maxTokens: 500 });
+    expect(messages[1].content).toContain('Current summary:\nThe user asked for a new parser.');
+    expect(messages[1].content).toContain('User: Turn 0');
+    expect(messages[1].content).not.toContain('Turn 9');
+    expect(agentService.getContextSummary(mockAgent.id)).toEqual({
+      agentId: mockAgent.id,
+      summary: '- The user is refactoring the parser',
+      sessionCount: 2
+    });
+    expect(summaries.map(event => event.summary)).toEqual(['The user asked for a new parser.', '- The user is refactoring the parser']);
+  });
+
+  it('should fall back to the keyword summary when the option is off or the model fails', async () => {
+    helperBrain.summarizeConversations = false;
+    fillHistory(mockAgent.id);
+    await agentService.processMessage(mockAgent, 'Continue', () => {});
+
+    expect(generateResponse).not.toHaveBeenCalled();
+    expect(agentService.getContextSummary(mockAgent.id).summary).toContain('Previous Session Summary');
+
+    helperBrain.summarizeConversations = true;
+    generateResponse.mockRejectedValue(new Error('Request failed with status code 401'));
+    fillHistory('other-agent');
+    await agentService.processMessage({ ...mockAgent, id: 'other-agent' }, 'Continue', () => {});
+
+    expect(generateResponse).toHaveBeenCalledTimes(1);
+    expect(agentService.getContextSummary('other-agent').summary).toContain('Previous Session Summary');
+  });
+
+  it('should let the user edit or remove the summary', () => {
+    agentService.updateContextSummary(mockAgent.id, '  Corrected summary  ');
+    expect(agentService.getContextSummary(mockAgent.id).summary).toBe('Corrected summary');
+
+    agentService.updateContextSummary(mockAgent.id, '   ');
+    expect(agentService.getContextSummary(mockAgent.id).summary).toBe('');
+    expect(summaries).toHaveLength(2);
+  });
+});
@@ -40,6 +40,7 @@ jest.mock('fs', () => ({
   writeFileSync: jest.fn(),
   mkdirSync: jest.fn(),
   unlinkSync: jest.fn(),
+  realpathSync: jest.fn((filePath: string) => filePath),
 }));
 
 // Mock path
@@ -301,6 +302,36 @@ Content
     });
   });
 
+  describe('File Formatting', () => {
+    afterEach(() => {
+      delete (mockVscode.workspace as any).getConfiguration;
+    });
+
+    it('should write the formatted content like any other edit', async () => {
+      const service = agentService as any;
+      (mockVscode.workspace as any).getConfiguration = jest.fn(() => ({ get: (_key: string, defaultValue: unknown) => defaultValue }));
+      (mockVscode.workspace.openTextDocument as jest.Mock).mockImplementation(async (target: any) => ({
+        uri: { fsPath: 'untitled' },
+        languageId: target.content === undefined ? 'typescript' : target.language,
+        lineCount: 1,
+        getText: () => target.content,
+        offsetAt: (position: { character: number }) => position.character
+      }));
+      (mockVscode.commands.executeCommand as jest.Mock).mockImplementation(async (command: string) =>
+        command === 'vscode.executeFormatDocumentProvider'
+          ? [{ range: { start: { character: 5 }, end: { character: 6 } }, newText: ', ' }]
+          : undefined
+      );
+      mockFs.readFileSync.mockReturnValue('Hello World');
+
+      await service.executeTasksFromResponse(mockAgent, '[FORMAT_FILE: test.ts]');
+
+      expect(mockVscode.workspace.openTextDocument).toHaveBeenCalledWith({ content: 'Hello World', language: 'typescript' });
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith('/test/workspace/test.ts', 'Hello, World', 'utf8');
+      expect(mockVscode.commands.executeCommand).not.toHaveBeenCalledWith('editor.action.formatDocument');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle file system errors gracefully', async () => {
       mockFs.writeFileSync.mockImplementation(() => {
@@ -340,6 +371,78 @@ Content 2
     });
   });
 
+  describe('Task Dependencies', () => {
+    it('should only hold back commits when a file change fails', async () => {
+      const service = agentService as any;
+      const response = `[EDIT_FILE: test.txt]
+[FIND]Missing[/FIND]
+[REPLACE]Found[/REPLACE]
+[/EDIT_FILE]
+
+[GIT_COMMAND: git status]
+[GIT_COMMIT: Replace missing text]`;
+
+      const tasks = await service.executeTasksFromResponse(mockAgent, response);
+
+      expect(tasks.map((task: any) => [task.type, task.status])).toEqual([
+        ['file_update', 'failed'],
+        ['git_command', 'completed'],
+        ['git_commit', 'cancelled']
+      ]);
+    });
+  });
+
+  describe('Reviewed Changes', () => {
+    it('should skip commands and cancel file tasks when their changes are rejected', async () => {
+      const service = agentService as any;
+      service.settingsManager = { shouldRequireConfirmation: () => true };
+      const executeTask = jest.spyOn(service, 'executeTask');
+      (mockVscode.window.showInformationMessage as jest.Mock).mockImplementation(async (message: string) =>
+        message.includes('proposes changes') ? 'Reject All' : undefined
+      );
+      const response = `[EDIT_FILE: test.txt]
+[FIND]Hello[/FIND]
+[REPLACE]Goodbye[/REPLACE]
+[/EDIT_FILE]
+
+[RUN_COMMAND: npm test]
+[GIT_COMMIT: Say goodbye]`;
+
+      const tasks = await service.executeTasksFromResponse(mockAgent, response);
+
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+      expect(executeTask).toHaveBeenCalledTimes(1);
+      expect(tasks.map((task: any) => [task.type, task.status, task.error?.message])).toEqual([
+        ['file_update', 'cancelled', 'Change to test.txt was rejected in review'],
+        ['git_commit', 'cancelled', 'Skipped because file changes from the same response were rejected'],
+        ['command_run', 'cancelled', 'Skipped because file changes from the same response were rejected']
+      ]);
+      expect(mockVscode.window.showWarningMessage).toHaveBeenCalledWith(
+        'Skipped 2 command(s) from "Test Agent" because file changes were rejected'
+      );
+    });
+
+    it('should let later tasks read files staged for review', async () => {
+      const service = agentService as any;
+      service.settingsManager = { shouldRequireConfirmation: () => true };
+      mockFs.existsSync.mockImplementation((filePath: fs.PathLike) => !String(filePath).endsWith('notes.txt'));
+      mockFs.writeFileSync.mockImplementation(() => undefined);
+      (mockVscode.window.showInformationMessage as jest.Mock).mockImplementation(async (message: string) =>
+        message.includes('proposes changes') ? 'Apply All' : undefined
+      );
+      const response = `[CREATE_FILE: notes.txt]
+First note
+[/CREATE_FILE]
+
+[READ_FILE: notes.txt]`;
+
+      const tasks = await service.executeTasksFromResponse(mockAgent, response);
+
+      expect(tasks.map((task: any) => [task.type, task.status])).toEqual([['file_create', 'completed'], ['file_read', 'completed']]);
+      expect(tasks[1].result.data).toContain('First note');
+    });
+  });
+
   describe('No Tasks Found', () => {
     it('should log when no tasks are found in response', async () => {
       // Import debugLogger to spy on it
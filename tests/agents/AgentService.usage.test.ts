@@ -0,0 +1,117 @@
+import { AgentService } from '@/agents/AgentService';
+import { UsageRecord } from '@/agents/UsageTracker';
+import { AgentConfig, AIProvider, UsageSettings } from '@/shared/types';
+import * as vscode from 'vscode';
+import { createMockAgentService, createTestAgent, MockProviderManager } from './mockAgentService';
+
+jest.mock('vscode', () => ({
+  workspace: {
+    workspaceFolders: [{
+      uri: { fsPath: '/test/workspace' }
+    }],
+  },
+  window: {
+    showInformationMessage: jest.fn(),
+    showErrorMessage: jest.fn(),
+    showWarningMessage: jest.fn(),
+    createOutputChannel: jest.fn(() => ({
+      appendLine: jest.fn(),
+      show: jest.fn(),
+    })),
+  },
+}));
+
+describe('AgentService - Usage Accounting', () => {
+  let agentService: AgentService;
+  let mockAgent: AgentConfig;
+  let generateStreamingResponse: jest.Mock;
+  let usageSettings: UsageSettings;
+  let recorded: UsageRecord[];
+
+  const sendMessage = async () => {
+    const chunks: string[] = [];
+    await agentService.processMessage(mockAgent, 'Hello', (chunk, done) => {
+      if (done) chunks.push(chunk);
+    });
+    // Usage is persisted asynchronously after the response
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return chunks;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    usageSettings = {
+      prices: { 'claude-3-5-sonnet-20241022': { input: 3, output: 15 } },
+      monthlyBudget: 0,
+      budgetAction: 'warn'
+    };
+    let providerManager: MockProviderManager;
+    ({ agentService, providerManager } = createMockAgentService({
+      getAgentLoopSettings: () => ({ maxSteps: 1, maxObservationChars: 8000 }),
+      shouldUseNativeToolCalling: () => false,
+      getUsageSettings: () => usageSettings
+    }));
+
+    generateStreamingResponse = providerManager.generateStreamingResponse.mockImplementation(async (_messages, _model, onChunk) => {
+      onChunk({ content: 'Hi there', done: true, usage: { inputTokens: 200000, outputTokens: 10000, totalTokens: 210000 } });
+    });
+
+    recorded = [];
+    agentService.onUsageRecorded(record => recorded.push(record));
+
+    mockAgent = createTestAgent({ id: 'usage-agent', name: 'Usage Agent' });
+  });
+
+  it('should record the usage reported by the provider with its cost', async () => {
+    await sendMessage();
+
+    expect(recorded).toEqual([expect.objectContaining({
+      agentId: 'usage-agent',
+      provider: AIProvider.ANTHROPIC,
+      inputTokens: 200000,
+      outputTokens: 10000,
+      estimated: false
+    })]);
+    expect(recorded[0].cost).toBeCloseTo(0.75);
+    expect(agentService.getMonthlyUsage('usage-agent').cost).toBeCloseTo(0.75);
+  });
+
+  it('should estimate usage when the provider reports none', async () => {
+    generateStreamingResponse.mockImplementation(async (_messages, _model, onChunk) => {
+      onChunk({ content: 'Twelve chars', done: true });
+    });
+
+    await sendMessage();
+
+    expect(recorded[0]).toEqual(expect.objectContaining({ inputTokens: 50, outputTokens: 3, estimated: true }));
+  });
+
+  it('should block paid models once the agent budget is used up', async () => {
+    usageSettings.budgetAction = 'block';
+    mockAgent.monthlyBudget = 0.5;
+
+    await sendMessage();
+    const chunks = await sendMessage();
+
+    expect(generateStreamingResponse).toHaveBeenCalledTimes(1);
+    expect(chunks[0]).toContain('monthly budget of $0.50 for Usage Agent is used up');
+
+    // Local models cost nothing, so they keep working
+    mockAgent.model = { ...mockAgent.model, provider: AIProvider.OLLAMA, modelName: 'llama3.2:3b' };
+    await sendMessage();
+    expect(generateStreamingResponse).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only warn once when the budget action is warn', async () => {
+    usageSettings.monthlyBudget = 0.5;
+
+    await sendMessage();
+    await sendMessage();
+    await sendMessage();
+
+    expect(generateStreamingResponse).toHaveBeenCalledTimes(3);
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('for all agents is used up'));
+  });
+});
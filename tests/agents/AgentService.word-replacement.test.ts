@@ -24,6 +24,7 @@ jest.mock('fs', () => ({
   readFileSync: jest.fn(),
   writeFileSync: jest.fn(),
   mkdirSync: jest.fn(),
+  realpathSync: jest.fn((filePath: string) => filePath),
 }));
 
 describe('AgentService - Word Replacement Bug', () => {
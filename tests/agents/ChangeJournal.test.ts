@@ -0,0 +1,133 @@
+import { ChangeJournal } from '@/agents/ChangeJournal';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ChangeJournal', () => {
+  let journal: ChangeJournal;
+  let storage: { [key: string]: any };
+  let mockContext: vscode.ExtensionContext;
+  let testDir: string;
+
+  const filePath = (name: string) => path.join(testDir, name);
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-test-'));
+    storage = {};
+    mockContext = {
+      globalStorageUri: { fsPath: path.join(testDir, 'storage') },
+      globalState: {
+        get: jest.fn((key: string, defaultValue?: any) => storage[key] ?? defaultValue),
+        update: jest.fn((key: string, value: any) => {
+          storage[key] = JSON.parse(JSON.stringify(value));
+          return Promise.resolve();
+        }),
+      },
+    } as unknown as vscode.ExtensionContext;
+
+    journal = new ChangeJournal();
+    journal.setContext(mockContext);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should only keep entries that changed files', async () => {
+    await journal.commit(journal.begin('agent-1'));
+
+    expect(journal.getEntries()).toHaveLength(0);
+    expect(mockContext.globalState.update).not.toHaveBeenCalled();
+  });
+
+  it('should keep the original content when a file changes twice in one response', async () => {
+    const entry = journal.begin('agent-1');
+    journal.record(entry, 'a.txt', filePath('a.txt'), 'v1', 'v2');
+    journal.record(entry, 'a.txt', filePath('a.txt'), 'v2', 'v3');
+    await journal.commit(entry);
+
+    expect(entry.files).toEqual([
+      expect.objectContaining({ previousContent: 'v1', newContent: 'v3' })
+    ]);
+    expect(entry.description).toBe('Modified a.txt');
+  });
+
+  it('should roll back edits, creations and deletions together', async () => {
+    fs.writeFileSync(filePath('edited.txt'), 'after', 'utf8');
+    fs.writeFileSync(filePath('created.txt'), 'new', 'utf8');
+
+    const entry = journal.begin('agent-1');
+    journal.record(entry, 'edited.txt', filePath('edited.txt'), 'before', 'after');
+    journal.record(entry, 'created.txt', filePath('created.txt'), null, 'new');
+    journal.record(entry, 'deleted.txt', filePath('deleted.txt'), 'old', null);
+    await journal.commit(entry);
+
+    await journal.rollback(entry.id);
+
+    expect(fs.readFileSync(filePath('edited.txt'), 'utf8')).toBe('before');
+    expect(fs.existsSync(filePath('created.txt'))).toBe(false);
+    expect(fs.readFileSync(filePath('deleted.txt'), 'utf8')).toBe('old');
+    expect(journal.getEntries()[0].undone).toBe(true);
+    expect(journal.getLastEntry()).toBeUndefined();
+  });
+
+  it('should not roll back the same entry twice', async () => {
+    const entry = journal.begin('agent-1');
+    journal.record(entry, 'a.txt', filePath('a.txt'), null, 'new');
+    await journal.commit(entry);
+    await journal.rollback(entry.id);
+
+    await expect(journal.rollback(entry.id)).rejects.toThrow('already rolled back');
+  });
+
+  it('should report files that changed after the agent touched them', async () => {
+    fs.writeFileSync(filePath('a.txt'), 'edited by user', 'utf8');
+
+    const entry = journal.begin('agent-1');
+    journal.record(entry, 'a.txt', filePath('a.txt'), 'before', 'after');
+    await journal.commit(entry);
+
+    expect(journal.getConflicts(entry)).toEqual(['a.txt']);
+  });
+
+  it('should list entries per agent newest first and restore them after reload', async () => {
+    for (const [agentId, name] of [['agent-1', 'one.txt'], ['agent-2', 'two.txt'], ['agent-1', 'three.txt']]) {
+      const entry = journal.begin(agentId);
+      journal.record(entry, name, filePath(name), null, name);
+      await journal.commit(entry);
+    }
+
+    expect(journal.getEntries('agent-1').map(e => e.description)).toEqual(['Created three.txt', 'Created one.txt']);
+
+    const reloaded = new ChangeJournal();
+    reloaded.setContext(mockContext);
+    expect(reloaded.getEntries()).toHaveLength(3);
+    expect(reloaded.getEntries()[0].createdAt).toBeInstanceOf(Date);
+    expect(reloaded.getEntries()[0].files[0]).toEqual(expect.objectContaining({ previousContent: null, newContent: 'three.txt' }));
+  });
+
+  it('should keep file contents out of globalState', async () => {
+    const entry = journal.begin('agent-1');
+    journal.record(entry, 'a.txt', filePath('a.txt'), 'before', 'after');
+    await journal.commit(entry);
+
+    expect(storage.agentChangeJournal[0].files).toEqual([{ fileName: 'a.txt', filePath: filePath('a.txt') }]);
+    expect(JSON.parse(fs.readFileSync(path.join(testDir, 'storage', 'change-journal', `${entry.id}.json`), 'utf8')))
+      .toEqual([{ previousContent: 'before', newContent: 'after' }]);
+  });
+
+  it('should move contents saved in globalState to content files', () => {
+    storage.agentChangeJournal = [{
+      id: 'old-entry', agentId: 'agent-1', description: 'Modified a.txt', createdAt: new Date().toISOString(), undone: false,
+      files: [{ fileName: 'a.txt', filePath: filePath('a.txt'), previousContent: 'before', newContent: 'after' }]
+    }];
+
+    const reloaded = new ChangeJournal();
+    reloaded.setContext(mockContext);
+
+    expect(reloaded.getEntries()[0].files[0]).toEqual(expect.objectContaining({ previousContent: 'before', newContent: 'after' }));
+    expect(storage.agentChangeJournal[0].files).toEqual([{ fileName: 'a.txt', filePath: filePath('a.txt') }]);
+    expect(fs.existsSync(path.join(testDir, 'storage', 'change-journal', 'old-entry.json'))).toBe(true);
+  });
+});
@@ -0,0 +1,118 @@
+import { Changeset } from '@/agents/Changeset';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+jest.mock('vscode', () => ({
+  window: {
+    showInformationMessage: jest.fn(),
+    showErrorMessage: jest.fn(),
+    showQuickPick: jest.fn(),
+  },
+  workspace: {
+    registerTextDocumentContentProvider: jest.fn(() => ({ dispose: jest.fn() })),
+  },
+  commands: {
+    executeCommand: jest.fn(),
+  },
+  Uri: {
+    parse: jest.fn((value: string) => ({ value, with: jest.fn((change: any) => ({ value, ...change })) })),
+  },
+}));
+
+describe('Changeset', () => {
+  const mockVscode = vscode as jest.Mocked<typeof vscode>;
+  let testDir: string;
+  let changeset: Changeset;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'changeset-test-'));
+    changeset = new Changeset();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const filePath = (name: string) => path.join(testDir, name);
+
+  it('should stage writes without touching the disk', () => {
+    changeset.write('new.txt', filePath('new.txt'), 'hello');
+
+    expect(fs.existsSync(filePath('new.txt'))).toBe(false);
+    expect(changeset.exists(filePath('new.txt'))).toBe(true);
+    expect(changeset.read(filePath('new.txt'))).toBe('hello');
+    expect(changeset.getChanges()).toEqual([
+      expect.objectContaining({ fileName: 'new.txt', kind: 'create', originalContent: null, proposedContent: 'hello' })
+    ]);
+  });
+
+  it('should track modifications and deletions of existing files', () => {
+    fs.writeFileSync(filePath('edit.txt'), 'before', 'utf8');
+    fs.writeFileSync(filePath('gone.txt'), 'bye', 'utf8');
+
+    changeset.write('edit.txt', filePath('edit.txt'), 'after');
+    changeset.remove('gone.txt', filePath('gone.txt'));
+
+    expect(changeset.exists(filePath('gone.txt'))).toBe(false);
+    expect(changeset.getChanges().map(c => [c.fileName, c.kind])).toEqual([
+      ['edit.txt', 'modify'],
+      ['gone.txt', 'delete']
+    ]);
+  });
+
+  it('should drop files that were created and deleted in the same changeset', () => {
+    changeset.write('temp.txt', filePath('temp.txt'), 'temp');
+    changeset.remove('temp.txt', filePath('temp.txt'));
+
+    expect(changeset.getChanges()).toHaveLength(0);
+  });
+
+  it('should apply all changes when approved as a whole', async () => {
+    fs.writeFileSync(filePath('gone.txt'), 'bye', 'utf8');
+    changeset.write('nested/new.txt', filePath('nested/new.txt'), 'hello');
+    changeset.remove('gone.txt', filePath('gone.txt'));
+    (mockVscode.window.showInformationMessage as jest.Mock).mockResolvedValueOnce('Apply All');
+
+    const result = await changeset.review('Test Agent');
+
+    expect(result.applied).toHaveLength(2);
+    expect(fs.readFileSync(filePath('nested/new.txt'), 'utf8')).toBe('hello');
+    expect(fs.existsSync(filePath('gone.txt'))).toBe(false);
+  });
+
+  it('should leave the disk untouched when rejected or dismissed', async () => {
+    changeset.write('new.txt', filePath('new.txt'), 'hello');
+    (mockVscode.window.showInformationMessage as jest.Mock).mockResolvedValueOnce(undefined);
+
+    const result = await changeset.review('Test Agent');
+
+    expect(result.rejected).toHaveLength(1);
+    expect(fs.existsSync(filePath('new.txt'))).toBe(false);
+  });
+
+  it('should show a diff and apply or reject each file during review', async () => {
+    changeset.write('a.txt', filePath('a.txt'), 'A');
+    changeset.write('b.txt', filePath('b.txt'), 'B');
+    (mockVscode.window.showInformationMessage as jest.Mock).mockResolvedValueOnce('Review Changes');
+    (mockVscode.window.showQuickPick as jest.Mock)
+      .mockResolvedValueOnce('Apply')
+      .mockResolvedValueOnce('Reject');
+
+    const result = await changeset.review('Test Agent');
+
+    expect(mockVscode.commands.executeCommand).toHaveBeenCalledWith(
+      'vscode.diff',
+      expect.anything(),
+      expect.anything(),
+      expect.stringContaining('a.txt'),
+      expect.anything()
+    );
+    expect(result.applied.map(c => c.fileName)).toEqual(['a.txt']);
+    expect(result.rejected.map(c => c.fileName)).toEqual(['b.txt']);
+    expect(fs.existsSync(filePath('a.txt'))).toBe(true);
+    expect(fs.existsSync(filePath('b.txt'))).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import { CommandRunner } from '@/agents/CommandRunner';
+import * as os from 'os';
+
+describe('CommandRunner', () => {
+  const runner = new CommandRunner();
+  const options = { cwd: os.tmpdir(), timeoutMs: 10000, maxOutputChars: 10000 };
+
+  it('should capture stdout and the exit code', async () => {
+    const result = await runner.run('echo hello', options);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe('hello');
+    expect(result.timedOut).toBe(false);
+  });
+
+  it('should capture stderr and a failing exit code', async () => {
+    const result = await runner.run('node -e "console.error(\'bad\'); process.exit(3)"', options);
+
+    expect(result.exitCode).toBe(3);
+    expect(result.stderr.trim()).toBe('bad');
+  });
+
+  it('should run in the given working directory', async () => {
+    const result = await runner.run('node -e "console.log(process.cwd())"', options);
+
+    expect(result.stdout.trim()).toBe(require('fs').realpathSync(os.tmpdir()));
+  });
+
+  it('should stream output chunks as they arrive', async () => {
+    const chunks: string[] = [];
+    await runner.run('echo streamed', { ...options, onOutput: chunk => chunks.push(chunk) });
+
+    expect(chunks.join('')).toContain('streamed');
+  });
+
+  it('should truncate output beyond the limit', async () => {
+    const result = await runner.run('node -e "console.log(\'x\'.repeat(500))"', { ...options, maxOutputChars: 100 });
+
+    expect(result.stdout).toHaveLength(100);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should kill commands that exceed the timeout', async () => {
+    const result = await runner.run('node -e "setTimeout(() => {}, 10000)"', { ...options, timeoutMs: 200 });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).not.toBe(0);
+  });
+
+  it('should format results for the agent conversation', () => {
+    const message = CommandRunner.formatResult({
+      command: 'npm test',
+      exitCode: 1,
+      stdout: '1 failing\n',
+      stderr: '',
+      timedOut: false,
+      truncated: true,
+      durationMs: 1200
+    });
+
+    expect(message).toContain('[COMMAND_RESULT: npm test] (exit code 1)');
+    expect(message).toContain('stdout:\n```\n1 failing\n```');
+    expect(message).not.toContain('stderr:');
+    expect(message).toContain('(output truncated)');
+  });
+});
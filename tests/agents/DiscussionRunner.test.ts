@@ -0,0 +1,62 @@
+import { DiscussionRunner, DiscussionTurnEvent } from '@/agents/DiscussionRunner';
+import { AgentService } from '@/agents/AgentService';
+import { AgentConfig } from '@/shared/types';
+
+describe('DiscussionRunner', () => {
+  let runner: DiscussionRunner;
+  let agentService: { processMessageAndWait: jest.Mock };
+  let prompts: Array<[string, string]>;
+  let events: DiscussionTurnEvent[];
+
+  const agent = (name: string): AgentConfig => ({ id: name.toLowerCase(), name, isActive: true } as AgentConfig);
+  const [architect, engineer, tester] = [agent('Architect'), agent('Engineer'), agent('Tester')];
+
+  beforeEach(() => {
+    prompts = [];
+    agentService = {
+      processMessageAndWait: jest.fn(async (target: AgentConfig, prompt: string) => {
+        prompts.push([target.name, prompt]);
+        if (target.name === 'Tester' && prompt.includes('round 2 of')) {
+          throw new Error('Tester is busy with another message');
+        }
+        const reply = `${target.name} reply ${prompts.filter(([name]) => name === target.name).length}`;
+        return { reply, tasks: [], output: reply };
+      })
+    };
+    runner = new DiscussionRunner(agentService as unknown as AgentService);
+    events = [];
+    runner.onTurn(event => events.push(event));
+  });
+
+  it('should let agents answer in turns with the replies before theirs', async () => {
+    const result = await runner.run('Should we cache parsed configs?', [architect, engineer, tester], { rounds: 2, moderatorId: 'engineer' });
+
+    expect(prompts.map(([name]) => name)).toEqual(['Architect', 'Engineer', 'Tester', 'Architect', 'Engineer', 'Tester', 'Engineer']);
+    expect(prompts[0][1]).toContain('[Round-table discussion, round 1 of 2]');
+    expect(prompts[0][1]).toContain('Engineer moderates and writes the final answer');
+    expect(prompts[0][1]).not.toContain('Replies so far');
+    expect(prompts[2][1]).toContain('Replies so far:\n**Architect** (round 1):\nArchitect reply 1\n\n**Engineer** (round 1):\nEngineer reply 1');
+    expect(prompts[3][1]).toContain('**Tester** (round 1):\nTester reply 1');
+
+    // The failed turn is reported and left out of what the moderator sees
+    expect(events.filter(event => event.status === 'failed')).toEqual([
+      expect.objectContaining({ agentName: 'Tester', round: 2, error: 'Tester is busy with another message' })
+    ]);
+    expect(prompts[6][1]).toContain('[Round-table discussion, final answer]');
+    expect(prompts[6][1]).toContain('**Engineer** (round 2):\nEngineer reply 2');
+    expect(prompts[6][1]).not.toContain('**Tester** (round 2)');
+
+    expect(result.transcript).toHaveLength(5);
+    expect(result.summary).toBe('Engineer reply 3');
+    expect(events[events.length - 1]).toMatchObject({ role: 'moderator', status: 'completed', round: 3, reply: 'Engineer reply 3' });
+  });
+
+  it('should default to the first participant as moderator and clamp rounds', async () => {
+    await runner.run('Name the module', [engineer, architect], { rounds: 40 });
+
+    expect(prompts).toHaveLength(DiscussionRunner.MAX_ROUNDS * 2 + 1);
+    expect(prompts[prompts.length - 1][0]).toBe('Engineer');
+    expect(DiscussionRunner.clampRounds(0)).toBe(1);
+    await expect(runner.run('Anyone?', [], { rounds: 1 })).rejects.toThrow('at least one agent');
+  });
+});
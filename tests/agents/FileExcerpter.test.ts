@@ -0,0 +1,64 @@
+import { FileExcerpter } from '@/agents/FileExcerpter';
+import { AIProviderManager } from '@/providers/AIProviderManager';
+import { OPENAI_TOKENIZER } from '@/providers/Tokenizer';
+
+describe('FileExcerpter', () => {
+  // Imports, two functions and a long body of filler statements
+  const file = [
+    "import { readFile } from 'fs';",
+    "import { join } from 'path';",
+    '',
+    'export function loadConfig(root: string) {',
+    ...Array.from({ length: 100 }, (_, i) => `  const setting${i} = readSetting(root, 'key${i}');`),
+    '}',
+    '',
+    'export function saveConfig(root: string) {',
+    ...Array.from({ length: 100 }, (_, i) => `  writeSetting(root, 'key${i}', value${i});`),
+    '}'
+  ].join('\n');
+  const lines = file.split('\n');
+
+  it('should keep files that fit the budget whole', () => {
+    const excerpt = FileExcerpter.excerpt('const a = 1;\nconst b = 2;', 100, OPENAI_TOKENIZER);
+
+    expect(excerpt).toEqual({ content: 'const a = 1;\nconst b = 2;', includedLines: 2, totalLines: 2, truncated: false });
+  });
+
+  it('should keep imports, declarations and the code around the cursor', () => {
+    const cursorLine = lines.indexOf("  writeSetting(root, 'key50', value50);");
+    const excerpt = FileExcerpter.excerpt(file, 800, OPENAI_TOKENIZER, cursorLine);
+
+    expect(excerpt.truncated).toBe(true);
+    expect(excerpt.totalLines).toBe(lines.length);
+    expect(excerpt.includedLines).toBeLessThan(lines.length);
+    expect(OPENAI_TOKENIZER.countTokens(excerpt.content)).toBeLessThanOrEqual(800);
+    expect(excerpt.content).toMatch(/^import \{ readFile \} from 'fs';\nimport \{ join \} from 'path';/);
+    expect(excerpt.content).toContain('export function loadConfig(root: string) {');
+    expect(excerpt.content).toContain('export function saveConfig(root: string) {');
+    expect(excerpt.content).toContain("writeSetting(root, 'key30', value30);");
+    expect(excerpt.content).toContain("writeSetting(root, 'key70', value70);");
+    expect(excerpt.content).not.toContain("readSetting(root, 'key50')");
+    expect(excerpt.content).toMatch(/\.\.\. \(lines 5-\d+ omitted\)/);
+  });
+
+  it('should keep the top of the file when there is no cursor', () => {
+    const excerpt = FileExcerpter.excerpt(file, 600, OPENAI_TOKENIZER);
+
+    expect(excerpt.content).toContain("readSetting(root, 'key0')");
+    expect(excerpt.content).not.toContain("writeSetting(root, 'key0'");
+    expect(excerpt.content).toContain('export function saveConfig(root: string) {');
+  });
+
+  it('should inline shared files into the system message', () => {
+    const manager = new AIProviderManager();
+    const [system] = manager.createContextualMessages('Review this', 'You are a reviewer', [
+      { path: 'src/config.ts', content: 'export const port = 8080;', includedLines: 1, totalLines: 1, truncated: false },
+      { path: 'src/big.ts', content: 'export {};\n... (lines 2-900 omitted)', includedLines: 1, totalLines: 900, truncated: true },
+      { path: 'src/gone.ts', content: '', includedLines: 0, totalLines: 0, truncated: true, error: 'the file could not be read' }
+    ]);
+
+    expect(system.content).toContain('### src/config.ts\n```\nexport const port = 8080;\n```');
+    expect(system.content).toContain('### src/big.ts (1 of 900 lines, omitted lines can be read with READ_FILE)');
+    expect(system.content).toContain('### src/gone.ts\n(Not included: the file could not be read. Use READ_FILE to read it.)');
+  });
+});
@@ -0,0 +1,177 @@
+import { TaskQueue } from '@/agents/TaskQueue';
+import { AgentEventType, Task, TaskPriority, TaskStatus, TaskType } from '@/shared/types';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('TaskQueue', () => {
+  let queue: TaskQueue;
+  let storage: { [key: string]: any };
+  let mockContext: vscode.ExtensionContext;
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-queue-test-'));
+    storage = {};
+    mockContext = {
+      globalStorageUri: { fsPath: path.join(testDir, 'storage') },
+      globalState: {
+        get: jest.fn((key: string, defaultValue?: any) => storage[key] ?? defaultValue),
+        update: jest.fn((key: string, value: any) => {
+          storage[key] = JSON.parse(JSON.stringify(value));
+          return Promise.resolve();
+        }),
+      },
+    } as unknown as vscode.ExtensionContext;
+
+    queue = new TaskQueue();
+    queue.setContext(mockContext);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const succeed = async (task: Task) => ({ success: true, output: task.payload.name });
+
+  it('should run tasks by priority and keep insertion order for ties', async () => {
+    const order: string[] = [];
+    const low = queue.enqueue('agent-1', TaskType.COMMAND_RUN, { name: 'low' }, { priority: TaskPriority.LOW });
+    const first = queue.enqueue('agent-1', TaskType.FILE_CREATE, { name: 'first' });
+    const urgent = queue.enqueue('agent-1', TaskType.FILE_CREATE, { name: 'urgent' }, { priority: TaskPriority.URGENT });
+    const second = queue.enqueue('agent-1', TaskType.FILE_CREATE, { name: 'second' });
+
+    await queue.run(async task => {
+      order.push(task.payload.name);
+      return { success: true };
+    }, [low.id, first.id, urgent.id, second.id]);
+
+    expect(order).toEqual(['urgent', 'first', 'second', 'low']);
+  });
+
+  it('should wait for dependencies before running a task', async () => {
+    const order: string[] = [];
+    const create = queue.enqueue('agent-1', TaskType.FILE_CREATE, { name: 'create' }, { priority: TaskPriority.LOW });
+    const edit = queue.enqueue('agent-1', TaskType.FILE_UPDATE, { name: 'edit' }, {
+      priority: TaskPriority.URGENT,
+      dependencies: [create.id]
+    });
+
+    await queue.run(async task => {
+      order.push(task.payload.name);
+      return { success: true };
+    }, [create.id, edit.id]);
+
+    expect(order).toEqual(['create', 'edit']);
+    expect(queue.getTask(edit.id)?.status).toBe(TaskStatus.COMPLETED);
+  });
+
+  it('should cancel dependents when a task fails', async () => {
+    const create = queue.enqueue('agent-1', TaskType.FILE_CREATE, { name: 'create' });
+    const edit = queue.enqueue('agent-1', TaskType.FILE_UPDATE, { name: 'edit' }, { dependencies: [create.id] });
+
+    await queue.run(async () => ({ success: false, output: 'Failed to create' }), [create.id, edit.id]);
+
+    expect(queue.getTask(create.id)?.status).toBe(TaskStatus.FAILED);
+    expect(queue.getTask(create.id)?.error?.message).toBe('Failed to create');
+    expect(queue.getTask(edit.id)?.status).toBe(TaskStatus.CANCELLED);
+    expect(queue.getTask(edit.id)?.error?.code).toBe('DEPENDENCY_FAILED');
+  });
+
+  it('should mark a task failed when the executor throws', async () => {
+    const task = queue.enqueue('agent-1', TaskType.COMMAND_RUN, { name: 'run' });
+
+    await queue.run(async () => {
+      throw new Error('boom');
+    }, [task.id]);
+
+    expect(task.status).toBe(TaskStatus.FAILED);
+    expect(task.error).toEqual(expect.objectContaining({ code: 'TASK_ERROR', message: 'boom' }));
+  });
+
+  it('should cancel tasks with unresolvable dependencies', async () => {
+    const task = queue.enqueue('agent-1', TaskType.FILE_UPDATE, { name: 'edit' }, { dependencies: ['missing'] });
+
+    await queue.run(succeed, [task.id]);
+
+    expect(task.status).toBe(TaskStatus.CANCELLED);
+    expect(task.error?.code).toBe('DEPENDENCY_UNRESOLVED');
+  });
+
+  it('should retry a failed task together with its cancelled dependents', async () => {
+    const create = queue.enqueue('agent-1', TaskType.FILE_CREATE, { name: 'create' });
+    const edit = queue.enqueue('agent-1', TaskType.FILE_UPDATE, { name: 'edit' }, { dependencies: [create.id] });
+    await queue.run(async () => ({ success: false }), [create.id, edit.id]);
+
+    const retryIds = await queue.retryTask(create.id);
+    expect(retryIds).toEqual([create.id, edit.id]);
+
+    await queue.run(succeed, retryIds);
+    expect(queue.getTask(create.id)?.status).toBe(TaskStatus.COMPLETED);
+    expect(queue.getTask(edit.id)?.status).toBe(TaskStatus.COMPLETED);
+  });
+
+  it('should only cancel pending tasks', async () => {
+    const pending = queue.enqueue('agent-1', TaskType.FILE_CREATE, { name: 'pending' });
+    const done = queue.enqueue('agent-1', TaskType.FILE_CREATE, { name: 'done' });
+    await queue.run(succeed, [done.id]);
+
+    expect(await queue.cancelTask(done.id)).toBe(false);
+    expect(await queue.cancelTask(pending.id)).toBe(true);
+    expect(pending.status).toBe(TaskStatus.CANCELLED);
+  });
+
+  it('should emit TASK_STARTED and TASK_COMPLETED events', async () => {
+    const listener = jest.fn();
+    queue.onTaskEvent(listener);
+    const task = queue.enqueue('agent-1', TaskType.FILE_CREATE, { name: 'create' });
+
+    await queue.run(succeed, [task.id]);
+
+    expect(listener).toHaveBeenNthCalledWith(1, AgentEventType.TASK_STARTED, task);
+    expect(listener).toHaveBeenNthCalledWith(2, AgentEventType.TASK_COMPLETED, task);
+  });
+
+  it('should persist tasks and restore interrupted or waiting ones as finished', async () => {
+    const task = queue.enqueue('agent-1', TaskType.FILE_CREATE, { name: 'create' });
+    await queue.run(succeed, [task.id]);
+    expect(storage.agentTasks).toHaveLength(1);
+
+    storage.agentTasks.push({ ...storage.agentTasks[0], id: 'running', status: TaskStatus.IN_PROGRESS });
+    storage.agentTasks.push({ ...storage.agentTasks[0], id: 'waiting', status: TaskStatus.PENDING });
+
+    const restored = new TaskQueue();
+    restored.setContext(mockContext);
+
+    expect(restored.getTask(task.id)?.status).toBe(TaskStatus.COMPLETED);
+    expect(restored.getTask(task.id)?.createdAt).toBeInstanceOf(Date);
+    expect(restored.getTask('running')?.status).toBe(TaskStatus.FAILED);
+    expect(restored.getTask('running')?.error?.code).toBe('INTERRUPTED');
+    expect(restored.getTask('waiting')?.status).toBe(TaskStatus.CANCELLED);
+    expect(restored.getTask('waiting')?.error?.code).toBe('INTERRUPTED');
+  });
+
+  it('should keep file contents and result data out of globalState', async () => {
+    const content = 'x'.repeat(5000);
+    const create = queue.enqueue('agent-1', TaskType.FILE_CREATE, { fileName: 'big.txt', content });
+    const read = queue.enqueue('agent-1', TaskType.FILE_READ, { fileName: 'big.txt' });
+    await queue.run(async task => task.type === TaskType.FILE_READ
+      ? { success: true, output: 'Read big.txt', data: content }
+      : { success: false, output: 'Disk full' }, [create.id, read.id]);
+
+    expect(JSON.stringify(storage.agentTasks)).not.toContain(content);
+    expect(storage.agentTasks[0]).toMatchObject({ payload: { fileName: 'big.txt' }, storedPayloadKeys: ['content'] });
+
+    const restored = new TaskQueue();
+    restored.setContext(mockContext);
+    expect(restored.getTask(read.id)?.result).toEqual({ success: true, output: 'Read big.txt' });
+
+    const executor = jest.fn(async () => ({ success: true }));
+    await restored.run(executor, await restored.retryTask(create.id));
+    expect(executor).toHaveBeenCalledWith(expect.objectContaining({ payload: { fileName: 'big.txt', content } }));
+
+    await restored.clearFinishedTasks();
+    expect(fs.readdirSync(path.join(testDir, 'storage', 'task-payloads'))).toEqual([]);
+  });
+});
@@ -0,0 +1,29 @@
+import { TaskTools } from '@/agents/TaskTools';
+import { TaskType } from '@/shared/types';
+
+describe('TaskTools', () => {
+  it('should convert tool calls to the task syntax', () => {
+    expect(TaskTools.toTaskSyntax({ id: 'call_1', name: 'read_file', arguments: { path: 'src/a.ts' } })).toBe('[READ_FILE: src/a.ts]');
+    expect(TaskTools.toTaskSyntax({ id: 'call_2', name: 'unknown_tool', arguments: {} })).toBeNull();
+  });
+
+  it('should turn tool calls into tasks with their arguments unchanged', () => {
+    expect(TaskTools.toTask({ id: 'call_1', name: 'edit_file', arguments: { path: ' src/a.ts ', find: ' [/FIND] ', replace: 'x]\n' } })).toEqual({
+      type: TaskType.FILE_UPDATE,
+      payload: { fileName: 'src/a.ts', findText: ' [/FIND] ', replaceText: 'x]\n' }
+    });
+    expect(TaskTools.toTask({ id: 'call_2', name: 'git_command', arguments: { command: 'status' } })).toEqual({
+      type: TaskType.GIT_COMMAND,
+      payload: { command: 'git status' }
+    });
+    expect(TaskTools.toTask({ id: 'call_3', name: 'unknown_tool', arguments: {} })).toBeNull();
+  });
+
+  it('should pass git commands on in full', () => {
+    const gitCommand = (command: string) => TaskTools.toTaskSyntax({ id: 'call_1', name: 'git_command', arguments: { command } });
+
+    expect(gitCommand('git status')).toBe('[GIT_COMMAND: git status]');
+    expect(gitCommand('status')).toBe('[GIT_COMMAND: git status]');
+    expect(gitCommand('push --force origin main')).toBe('[GIT_COMMAND: git push --force origin main]');
+  });
+});
@@ -0,0 +1,62 @@
+import { UsageTracker } from '@/agents/UsageTracker';
+import * as vscode from 'vscode';
+
+describe('UsageTracker', () => {
+  let tracker: UsageTracker;
+  let stored: any;
+
+  const prices = {
+    'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 }
+  };
+
+  const usage = (agentId: string, provider: string, modelName: string, inputTokens: number, outputTokens: number) => ({
+    agentId, provider, modelName, inputTokens, outputTokens, estimated: false
+  });
+
+  beforeEach(() => {
+    stored = undefined;
+    tracker = new UsageTracker();
+    tracker.setContext({
+      globalState: {
+        get: jest.fn(() => stored),
+        update: jest.fn(async (_key: string, value: any) => { stored = JSON.parse(JSON.stringify(value)); })
+      }
+    } as unknown as vscode.ExtensionContext);
+  });
+
+  it('should price responses per million tokens and count unpriced models as free', async () => {
+    const sonnet = await tracker.record(usage('a1', 'anthropic', 'claude-3-5-sonnet-20241022', 10000, 2000), prices);
+    const local = await tracker.record(usage('a1', 'ollama', 'llama3.2:3b', 50000, 5000), prices);
+
+    expect(sonnet.cost).toBeCloseTo(0.06);
+    expect(local.cost).toBe(0);
+    expect(UsageTracker.isPriced(prices, 'llama3.2:3b')).toBe(false);
+    expect(tracker.getRecords('a1').map(record => record.modelName)).toEqual(['llama3.2:3b', 'claude-3-5-sonnet-20241022']);
+  });
+
+  it('should aggregate per agent, provider and day', async () => {
+    await tracker.record(usage('a1', 'anthropic', 'claude-3-5-sonnet-20241022', 1000, 100), prices, new Date(2024, 4, 30, 23, 0));
+    await tracker.record(usage('a1', 'anthropic', 'claude-3-5-sonnet-20241022', 1000, 100), prices, new Date(2024, 5, 1, 9, 0));
+    await tracker.record(usage('a2', 'openai', 'gpt-4o-mini', 4000, 1000), prices, new Date(2024, 5, 2, 9, 0));
+
+    const june = tracker.getSummary(new Date(2024, 5, 1));
+
+    expect(june.total).toEqual(expect.objectContaining({ inputTokens: 5000, outputTokens: 1100, totalTokens: 6100, requests: 2 }));
+    expect(Object.keys(june.byAgent)).toEqual(['a1', 'a2']);
+    expect(june.byProvider.openai.cost).toBeCloseTo(0.0012);
+    expect(Object.keys(june.byDay)).toEqual(['2024-06-01', '2024-06-02']);
+    expect(tracker.getSummary().total.requests).toBe(3);
+    expect(tracker.getMonthTotals('a1', new Date(2024, 5, 15)).requests).toBe(1);
+  });
+
+  it('should keep totals across restarts', async () => {
+    await tracker.record(usage('a1', 'anthropic', 'claude-3-5-sonnet-20241022', 1000, 100), prices);
+
+    const restored = new UsageTracker();
+    restored.setContext({ globalState: { get: jest.fn(() => stored), update: jest.fn() } } as unknown as vscode.ExtensionContext);
+
+    expect(restored.getMonthTotals().totalTokens).toBe(1100);
+    expect(restored.getRecords()[0].timestamp).toBeInstanceOf(Date);
+  });
+});
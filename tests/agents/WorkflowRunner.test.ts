@@ -0,0 +1,153 @@
+import { WorkflowRunner, WorkflowStepEvent } from '@/agents/WorkflowRunner';
+import { AgentService } from '@/agents/AgentService';
+import { AgentConfig, TaskStatus, TaskType } from '@/shared/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('WorkflowRunner', () => {
+  let testDir: string;
+  let runner: WorkflowRunner;
+  let agentService: { processMessageAndWait: jest.Mock; cancelStream: jest.Mock };
+  let replies: Record<string, string[]>;
+  let events: WorkflowStepEvent[];
+
+  const agent = (name: string): AgentConfig => ({ id: name.toLowerCase(), name, isActive: true } as AgentConfig);
+  const agents = [agent('Engineer'), agent('Tester'), agent('Reviewer')];
+
+  const pipeline = WorkflowRunner.parseWorkflow(JSON.stringify({
+    name: 'Ship a feature',
+    inputs: [{ name: 'feature', prompt: 'What should be built?' }],
+    steps: [
+      { id: 'implement', agent: 'Engineer', prompt: 'Implement {{inputs.feature}}' },
+      { id: 'test', agent: 'tester', prompt: 'Test this:\n{{ previous.output }}' },
+      { id: 'review', agent: 'Reviewer', prompt: 'Review {{steps.implement.output}} and {{steps.test.output}}', stopWhen: '\\bapproved\\b' },
+      { id: 'fix', agent: 'Engineer', prompt: 'Address: {{previous.output}}' }
+    ]
+  }));
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-test-'));
+    replies = {};
+    agentService = {
+      processMessageAndWait: jest.fn(async (target: AgentConfig) => {
+        const reply = replies[target.name]?.shift() ?? 'Done';
+        return { reply, tasks: [], output: reply };
+      }),
+      cancelStream: jest.fn()
+    };
+    runner = new WorkflowRunner(agentService as unknown as AgentService, { listAgents: () => agents });
+    events = [];
+    runner.onStepProgress(event => events.push(event));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should pass inputs and step outputs along and stop when a step matches', async () => {
+    replies = { Engineer: ['Added a retry helper'], Tester: ['Wrote 3 tests'], Reviewer: ['Approved, ship it'] };
+
+    const result = await runner.run(pipeline, { feature: 'request retries' });
+
+    expect(agentService.processMessageAndWait.mock.calls.map(([target, prompt]) => [target.name, prompt])).toEqual([
+      ['Engineer', 'Implement request retries'],
+      ['Tester', 'Test this:\nAdded a retry helper'],
+      ['Reviewer', 'Review Added a retry helper and Wrote 3 tests']
+    ]);
+    expect(result.status).toBe('stopped');
+    expect(result.stoppedAt).toBe('review');
+    expect(result.steps.map(step => step.status)).toEqual(['completed', 'completed', 'completed', 'skipped']);
+    expect(events.map(event => `${event.stepId}:${event.status}`)).toEqual([
+      'implement:running', 'implement:completed',
+      'test:running', 'test:completed',
+      'review:running', 'review:completed',
+      'fix:skipped'
+    ]);
+  });
+
+  it('should stop at a failed step unless it may continue', async () => {
+    agentService.processMessageAndWait.mockImplementationOnce(async () => ({
+      reply: 'Created the file',
+      tasks: [{ id: 't1', type: TaskType.FILE_CREATE, status: TaskStatus.FAILED, result: { success: false, output: 'Created file: retry.ts' } }],
+      output: 'Created the file\n\nTasks run by Engineer:\n- Created file: retry.ts (failed)'
+    }));
+
+    const failed = await runner.run(pipeline, { feature: 'retries' });
+    expect(failed.status).toBe('failed');
+    expect(failed.stoppedAt).toBe('implement');
+    expect(failed.steps[0]).toMatchObject({ status: 'failed', error: '1 task(s) failed' });
+    expect(agentService.processMessageAndWait).toHaveBeenCalledTimes(1);
+
+    const tolerant = { ...pipeline, steps: [{ ...pipeline.steps[0], agent: 'Designer', continueOnError: true }, pipeline.steps[1]] };
+    const result = await runner.run(tolerant, { feature: 'retries' });
+    expect(result.status).toBe('completed');
+    expect(result.steps[0].error).toBe('No active agent named "Designer"');
+    expect(agentService.processMessageAndWait).toHaveBeenLastCalledWith(agents[1], 'Test this:\n(implement failed: No active agent named "Designer")');
+  });
+
+  it('should cancel the running step and skip the rest', async () => {
+    let runId = '';
+    runner.onStepProgress(event => {
+      runId = event.runId;
+      if (event.status === 'running') {
+        runner.cancel(runId);
+      }
+    });
+
+    const result = await runner.run(pipeline, { feature: 'retries' });
+
+    expect(result.status).toBe('cancelled');
+    expect(result.steps[0]).toMatchObject({ status: 'failed', error: 'Cancelled' });
+    expect(agentService.processMessageAndWait).not.toHaveBeenCalled();
+    expect(result.steps.filter(step => step.status === 'skipped')).toHaveLength(3);
+  });
+
+  it('should load workflow files and report the ones that are invalid', () => {
+    expect(WorkflowRunner.loadWorkflows(testDir)).toEqual({ workflows: [], errors: [] });
+
+    const examplePath = WorkflowRunner.createExampleWorkflow(testDir);
+    const directory = path.dirname(examplePath);
+    fs.writeFileSync(path.join(directory, 'broken.json'), JSON.stringify({
+      name: 'Broken',
+      steps: [{ agent: 'Engineer', prompt: 'Fix {{steps.review.output}}' }]
+    }));
+    fs.writeFileSync(path.join(directory, 'notes.txt'), 'not a workflow');
+    fs.writeFileSync(path.join(directory, 'release.yaml'), 'name: Release');
+    fs.writeFileSync(path.join(directory, 'triage.yml'), [
+      'name: Triage',
+      'inputs:',
+      '  - name: issue',
+      '    prompt: Issue to triage',
+      'steps:',
+      '  - id: label',
+      '    agent: Reviewer',
+      '    prompt: |',
+      '      Label {{inputs.issue}}.',
+      '      Reply with one word.',
+      "    stopWhen: '^\\W*DUPLICATE\\b'"
+    ].join('\n'));
+    fs.writeFileSync(path.join(directory, 'typo.yml'), 'name: Typo\nsteps: [\n');
+
+    const { workflows, errors } = WorkflowRunner.loadWorkflows(testDir);
+    expect(workflows.map(workflow => [workflow.name, workflow.steps.map(step => step.id)])).toEqual([
+      ['Implement, test and review', ['implement', 'test', 'review', 'fix']],
+      ['Triage', ['label']]
+    ]);
+    expect(workflows[0].filePath).toBe(examplePath);
+    expect(workflows[1]).toMatchObject({
+      inputs: [{ name: 'issue', prompt: 'Issue to triage' }],
+      steps: [{ agent: 'Reviewer', prompt: 'Label {{inputs.issue}}.\nReply with one word.\n', stopWhen: '^\\W*DUPLICATE\\b' }]
+    });
+    expect(errors).toEqual([
+      'broken.json: step "step1" uses {{steps.review.output}}, which is not an input or an earlier step\'s output',
+      'release.yaml: a workflow needs at least one step in "steps"',
+      expect.stringMatching(/^typo\.yml: invalid YAML: .+ at line \d+$/)
+    ]);
+
+    const stopWhen = new RegExp(workflows[0].steps[2].stopWhen!, 'i');
+    expect(['APPROVED', '**Approved** - ship it'].every(reply => stopWhen.test(reply))).toBe(true);
+    expect(['NOT APPROVED', 'Not approved yet: the tests fail'].some(reply => stopWhen.test(reply))).toBe(false);
+    expect(() => WorkflowRunner.parseWorkflow('{"name": "Empty", "steps": []}')).toThrow('at least one step');
+  });
+});
@@ -0,0 +1,99 @@
+import { AgentService } from '@/agents/AgentService';
+import { AgentConfig, AgentType, AIProvider } from '@/shared/types';
+import * as vscode from 'vscode';
+
+/**
+ * Shared fixture for the AgentService suites that drive processMessage: the
+ * service with its settings and provider manager replaced by plain mocks.
+ * Suites still mock vscode, fs and path themselves, since jest.mock only
+ * applies to the file calling it.
+ */
+
+// Settings methods return the extension defaults; suites replace single methods
+export type MockSettingsManager = Record<string, (...args: any[]) => any>;
+
+export interface MockProviderManager {
+  createContextualMessages: jest.Mock;
+  generateStreamingResponse: jest.Mock;
+  generateResponse: jest.Mock;
+  supportsToolCalling: jest.Mock;
+  getContextWindow: jest.Mock;
+  estimateTokens: jest.Mock;
+}
+
+export interface MockedAgentService {
+  agentService: AgentService;
+  settingsManager: MockSettingsManager;
+  providerManager: MockProviderManager;
+}
+
+export const createMockAgentService = (settings: MockSettingsManager = {}): MockedAgentService => {
+  const agentService = new AgentService();
+  agentService.setContext({
+    globalState: {
+      get: jest.fn(() => ({})),
+      update: jest.fn(() => Promise.resolve()),
+    },
+  } as unknown as vscode.ExtensionContext);
+
+  const settingsManager: MockSettingsManager = {
+    getAgentLoopSettings: () => ({ maxSteps: 5, maxObservationChars: 8000 }),
+    shouldRequireConfirmation: () => false,
+    shouldUseNativeToolCalling: () => true,
+    getUsageSettings: () => ({ prices: {}, monthlyBudget: 0, budgetAction: 'warn' }),
+    getSharedFileSettings: () => ({ maxTokensPerFile: 4000, maxTotalTokens: 12000 }),
+    getDelegationSettings: () => ({ maxDepth: 2 }),
+    ...settings
+  };
+
+  // Every model call answers "Done" in a single chunk unless a suite scripts it
+  const providerManager: MockProviderManager = {
+    createContextualMessages: jest.fn((userMessage: string, systemPrompt: string) => [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userMessage }
+    ]),
+    generateStreamingResponse: jest.fn(async (_messages, _model, onChunk) => {
+      onChunk({ content: 'Done', done: true });
+    }),
+    generateResponse: jest.fn(async () => ({ content: 'Done', model: 'mock-model' })),
+    supportsToolCalling: jest.fn(async () => false),
+    getContextWindow: jest.fn(async () => 200000),
+    estimateTokens: jest.fn(() => 50)
+  };
+
+  (agentService as any).settingsManager = settingsManager;
+  (agentService as any).providerManager = providerManager;
+  return { agentService, settingsManager, providerManager };
+};
+
+export const createTestAgent = (overrides: Partial<AgentConfig> = {}): AgentConfig => ({
+  id: 'test-agent',
+  name: 'Test Agent',
+  avatar: '🤖',
+  type: AgentType.CUSTOM,
+  model: {
+    provider: AIProvider.ANTHROPIC,
+    modelName: 'claude-3-5-sonnet-20241022',
+    temperature: 0.7,
+    maxTokens: 2000,
+  },
+  systemPrompt: 'You are a test agent',
+  capabilities: [],
+  permissions: [],
+  contextScope: {
+    includeFiles: true,
+    includeGit: true,
+    includeWorkspace: true,
+    filePatterns: [],
+    excludePatterns: [],
+  },
+  memory: {
+    maxConversations: 100,
+    retentionDays: 30,
+    enableLearning: true,
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: true,
+  ...overrides
+});
@@ -1,6 +1,6 @@
 import { AgentManager } from '@/extension/AgentManager';
 import { SettingsManager } from '@/extension/SettingsManager';
-import { AgentConfig, AgentType, AIProvider } from '@/shared/types';
+import { AgentConfig, AgentType, AIProvider, CapabilityType } from '@/shared/types';
 import * as vscode from 'vscode';
 
 // Mock context
@@ -71,6 +71,28 @@ describe('AgentManager - Essential Functions', () => {
     });
   });
 
+  describe('Migration', () => {
+    it('should list the capabilities of agents saved before capability lists were enforced', async () => {
+      const stored: Record<string, any> = {
+        agents: [{ id: 'reviewer', name: 'Reviewer', capabilities: [{ type: CapabilityType.CODE_ANALYSIS, enabled: true }] }]
+      };
+      const context = {
+        ...mockContext,
+        globalState: {
+          get: jest.fn((key: string, defaultValue?: unknown) => stored[key] ?? defaultValue),
+          update: jest.fn(async (key: string, value: unknown) => { stored[key] = value; })
+        }
+      } as unknown as vscode.ExtensionContext;
+
+      new AgentManager(context, mockSettingsManager);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(stored.capabilityListsEnforced).toBe(true);
+      expect(stored.agents[0].capabilities).toHaveLength(Object.values(CapabilityType).length);
+      expect(stored.agents[0].capabilities).toContainEqual({ type: CapabilityType.AGENT_DELEGATION, enabled: true });
+    });
+  });
+
   describe('Configuration', () => {
     it('should respect max agents setting', () => {
       expect(mockSettingsManager.getMaxConcurrentAgents).toBeDefined();
@@ -45,7 +45,8 @@ const mockAvatarService = {
 const mockAgentService = {
   getConversationHistory: jest.fn().mockResolvedValue([]),
   sendMessage: jest.fn(),
-  clearPersistedMemory: jest.fn().mockResolvedValue(undefined)
+  clearPersistedMemory: jest.fn().mockResolvedValue(undefined),
+  onTaskEvent: jest.fn()
 } as unknown as AgentService;
 
 jest.mock('@/services/AvatarService', () => ({
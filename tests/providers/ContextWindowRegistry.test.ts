@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ContextWindowRegistry } from '@/providers/ContextWindowRegistry';
+import { AIProviderManager } from '@/providers/AIProviderManager';
+import { AIProvider } from '@/shared/types';
+
+// Fake Ollama server answering /api/show for two models
+const startOllama = async (): Promise<{ server: http.Server; url: string; requests: string[] }> => {
+  const requests: string[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      const model = JSON.parse(body || '{}').model;
+      requests.push(model);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      if (model === 'llama3.1:8b') {
+        res.end(JSON.stringify({ parameters: 'stop "<|eot_id|>"\nnum_ctx                        32768', model_info: { 'llama.context_length': 131072 } }));
+      } else {
+        res.end(JSON.stringify({ parameters: '', model_info: { 'qwen2.context_length': 32768 } }));
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+};
+
+describe('Context windows', () => {
+  it('should resolve hosted models from the table by exact name or prefix', () => {
+    const registry = new ContextWindowRegistry();
+
+    expect(registry.getContextWindow(AIProvider.ANTHROPIC, 'claude-3-5-sonnet-20241022')).toBe(200000);
+    expect(registry.getContextWindow(AIProvider.OPENAI, 'gpt-4o-mini')).toBe(128000);
+    expect(registry.getContextWindow(AIProvider.OPENAI, 'gpt-4-turbo-2024-04-09')).toBe(128000);
+    expect(registry.getContextWindow(AIProvider.OPENAI, 'gpt-4')).toBe(8192);
+    expect(registry.getContextWindow(AIProvider.LM_STUDIO, 'some-local-model')).toBe(4096);
+
+    registry.setOverrides({ 'gpt-4o-mini': 64000 });
+    expect(registry.getContextWindow(AIProvider.OPENAI, 'gpt-4o-mini')).toBe(64000);
+  });
+
+  it('should ask Ollama for the context it runs the model with', async () => {
+    const ollama = await startOllama();
+    try {
+      const manager = new AIProviderManager();
+      manager.configureOllama({ baseUrl: 'http://127.0.0.1:1', hosts: { 'gpu-box': ollama.url } });
+      const config = (modelName: string) => ({ provider: AIProvider.OLLAMA, modelName, host: 'gpu-box', temperature: 0.7, maxTokens: 2000 });
+
+      // num_ctx from the Modelfile wins over the trained context length
+      expect(await manager.getContextWindow(config('llama3.1:8b'))).toBe(32768);
+      // Without it, Ollama's default context applies
+      expect(await manager.getContextWindow(config('qwen2.5-coder:7b'))).toBe(4096);
+      expect(await manager.getContextWindow(config('llama3.1:8b'))).toBe(32768);
+      expect(ollama.requests).toEqual(['llama3.1:8b', 'qwen2.5-coder:7b']);
+
+      // Unreachable servers fall back to the table, overrides skip the server entirely
+      expect(await manager.getContextWindow({ ...config('mistral'), host: undefined })).toBe(4096);
+      manager.configureContextWindows({ 'qwen2.5-coder:7b': 16384 });
+      expect(await manager.getContextWindow(config('qwen2.5-coder:7b'))).toBe(16384);
+    } finally {
+      await new Promise(resolve => ollama.server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * @jest-environment node
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { GoogleProvider } from '@/providers/GoogleProvider';
+import { AIProviderConfig, StreamingResponse } from '@/providers/AIProviderInterface';
+import { AIProvider } from '@/shared/types';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  apiKey?: string | string[];
+  body: any;
+}
+
+describe('GoogleProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let respond: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+  const config: AIProviderConfig = {
+    provider: AIProvider.GOOGLE,
+    modelName: 'gemini-1.5-flash',
+    apiKey: 'test-key',
+    temperature: 0.5,
+    maxTokens: 256
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, apiKey: req.headers['x-goog-api-key'], body: body ? JSON.parse(body) : undefined });
+        respond(req, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1beta`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const sendJson = (res: http.ServerResponse, status: number, data: any) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  };
+
+  it('should send system instructions and alternating turns', async () => {
+    respond = (_req, res) => sendJson(res, 200, {
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Hello' }, { text: ' there' }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 2, totalTokenCount: 14 }
+    });
+    const provider = new GoogleProvider(baseUrl);
+
+    const response = await provider.generateResponse([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Hi' },
+      { role: 'user', content: 'Anyone there?' },
+      { role: 'assistant', content: 'Yes' },
+      { role: 'user', content: 'Greet me' }
+    ], config);
+
+    expect(requests[0].url).toBe('/v1beta/models/gemini-1.5-flash:generateContent');
+    expect(requests[0].apiKey).toBe('test-key');
+    expect(requests[0].body).toEqual({
+      contents: [
+        { role: 'user', parts: [{ text: 'Hi' }, { text: 'Anyone there?' }] },
+        { role: 'model', parts: [{ text: 'Yes' }] },
+        { role: 'user', parts: [{ text: 'Greet me' }] }
+      ],
+      generationConfig: { temperature: 0.5, maxOutputTokens: 256 },
+      systemInstruction: { parts: [{ text: 'Be brief' }] }
+    });
+    expect(response).toEqual({
+      content: 'Hello there',
+      model: 'gemini-1.5-flash',
+      usage: { inputTokens: 12, outputTokens: 2, totalTokens: 14 },
+      finishReason: 'stop',
+      toolCalls: undefined
+    });
+  });
+
+  it('should stream server-sent events split across network chunks', async () => {
+    respond = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const first = `data: ${JSON.stringify({ candidates: [{ content: { parts: [{ text: 'Reading ' }] } }] })}\n\n`;
+      const second = `data: ${JSON.stringify({
+        candidates: [{ content: { parts: [{ text: 'now' }, { functionCall: { name: 'read_file', args: { path: 'a.txt' } } }] } }],
+        usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 3, totalTokenCount: 8 }
+      })}\n\n`;
+      res.write(first + second.substring(0, 20));
+      setTimeout(() => res.end(second.substring(20)), 10);
+    };
+    const provider = new GoogleProvider(baseUrl);
+    const chunks: StreamingResponse[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      provider.generateStreamingResponse([{ role: 'user', content: 'Read a.txt' }], config, chunk => {
+        chunks.push(chunk);
+        if (chunk.done) {
+          resolve();
+        }
+      }, {
+        tools: [{ name: 'read_file', description: 'Read a file', parameters: { type: 'object', properties: { path: { type: 'string', description: 'File path' } }, required: ['path'] } }]
+      }).catch(reject);
+    });
+
+    expect(requests[0].url).toBe('/v1beta/models/gemini-1.5-flash:streamGenerateContent?alt=sse');
+    expect(requests[0].body.tools[0].functionDeclarations[0].name).toBe('read_file');
+    expect(chunks.map(chunk => chunk.content)).toEqual(['Reading ', 'Reading now', 'Reading now']);
+    expect(chunks[chunks.length - 1]).toEqual({
+      content: 'Reading now',
+      done: true,
+      usage: { inputTokens: 5, outputTokens: 3, totalTokens: 8 },
+      toolCalls: [{ id: 'call_0', name: 'read_file', arguments: { path: 'a.txt' } }]
+    });
+  });
+
+  it('should validate the key and model with a model lookup', async () => {
+    respond = (req, res) => req.url?.endsWith('/models/gemini-1.5-flash')
+      ? sendJson(res, 200, { name: 'models/gemini-1.5-flash' })
+      : sendJson(res, 404, { error: { message: 'Model not found' } });
+    const provider = new GoogleProvider(baseUrl);
+
+    expect(await provider.validateConfig(config)).toBe(true);
+    expect(await provider.validateConfig({ ...config, modelName: 'gemini-unknown' })).toBe(false);
+    expect(await provider.validateConfig({ ...config, apiKey: undefined })).toBe(false);
+  });
+
+  it('should list models that support content generation', async () => {
+    const originalKey = process.env.GOOGLE_API_KEY;
+    process.env.GOOGLE_API_KEY = 'env-key';
+    respond = (_req, res) => sendJson(res, 200, {
+      models: [
+        { name: 'models/gemini-1.5-pro', supportedGenerationMethods: ['generateContent', 'countTokens'] },
+        { name: 'models/text-embedding-004', supportedGenerationMethods: ['embedContent'] }
+      ]
+    });
+
+    try {
+      const models = await new GoogleProvider(baseUrl).getAvailableModels();
+
+      expect(models).toEqual(['gemini-1.5-pro']);
+      expect(requests[0].apiKey).toBe('env-key');
+    } finally {
+      if (originalKey === undefined) {
+        delete process.env.GOOGLE_API_KEY;
+      } else {
+        process.env.GOOGLE_API_KEY = originalKey;
+      }
+    }
+  });
+
+  it('should surface API error messages', async () => {
+    respond = (_req, res) => sendJson(res, 400, { error: { message: 'API key not valid' } });
+    const provider = new GoogleProvider(baseUrl);
+
+    await expect(provider.generateResponse([{ role: 'user', content: 'Hi' }], config))
+      .rejects.toThrow('Google API error: API key not valid');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '@/providers/OpenAICompatibleProvider';
+import { AIProviderConfig, StreamingResponse } from '@/providers/AIProviderInterface';
+import { AIProvider } from '@/shared/types';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  authorization?: string;
+  body: any;
+}
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let respond: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+  const config: AIProviderConfig = {
+    provider: AIProvider.LM_STUDIO,
+    modelName: 'qwen2.5-coder-7b-instruct',
+    temperature: 0.2,
+    maxTokens: 512
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, authorization: req.headers.authorization, body: body ? JSON.parse(body) : undefined });
+        respond(req, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const sendJson = (res: http.ServerResponse, status: number, data: any) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  };
+
+  it('should list the models loaded in the server', async () => {
+    respond = (_req, res) => sendJson(res, 200, { object: 'list', data: [{ id: 'qwen2.5-coder-7b-instruct' }, { id: 'llama-3.2-3b-instruct' }] });
+    const provider = new OpenAICompatibleProvider(`${baseUrl}/`);
+
+    expect(await provider.isAvailable()).toBe(true);
+    expect(await provider.getAvailableModels()).toEqual(['llama-3.2-3b-instruct', 'qwen2.5-coder-7b-instruct']);
+    expect(requests[0].url).toBe('/v1/models');
+    expect(requests[0].authorization).toBeUndefined();
+  });
+
+  it('should report unreachable servers as unavailable', async () => {
+    const provider = new OpenAICompatibleProvider('http://127.0.0.1:1/v1');
+
+    expect(await provider.isAvailable()).toBe(false);
+    expect(await provider.getAvailableModels()).toEqual([]);
+    expect(await provider.validateConfig(config)).toBe(false);
+  });
+
+  it('should send chat completions with an optional key', async () => {
+    respond = (_req, res) => sendJson(res, 200, {
+      choices: [{ message: { role: 'assistant', content: 'Done' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 9, completion_tokens: 1, total_tokens: 10 }
+    });
+    const provider = new OpenAICompatibleProvider(baseUrl);
+
+    const response = await provider.generateResponse([{ role: 'user', content: 'Hi' }], { ...config, apiKey: 'local-key' });
+
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].authorization).toBe('Bearer local-key');
+    expect(requests[0].body).toEqual({
+      model: 'qwen2.5-coder-7b-instruct',
+      max_tokens: 512,
+      temperature: 0.2,
+      messages: [{ role: 'user', content: 'Hi' }]
+    });
+    expect(response.content).toBe('Done');
+    expect(response.usage).toEqual({ inputTokens: 9, outputTokens: 1, totalTokens: 10 });
+  });
+
+  it('should stream deltas and let the agent override the server URL', async () => {
+    respond = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const events = [
+        { choices: [{ delta: { role: 'assistant', content: 'Hel' } }] },
+        { choices: [{ delta: { content: 'lo' } }] },
+        { choices: [{ delta: {}, finish_reason: 'stop' }] }
+      ].map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+      res.write(events.substring(0, 30));
+      setTimeout(() => res.end(events.substring(30)), 10);
+    };
+    const provider = new OpenAICompatibleProvider('http://127.0.0.1:1/v1');
+    const chunks: StreamingResponse[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      provider.generateStreamingResponse([{ role: 'user', content: 'Hi' }], { ...config, baseUrl }, chunk => {
+        chunks.push(chunk);
+        if (chunk.done) {
+          resolve();
+        }
+      }).catch(reject);
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(chunks.map(chunk => chunk.content)).toEqual(['Hel', 'Hello', 'Hello']);
+    expect(chunks.filter(chunk => chunk.done)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,137 @@
+import { AIProviderManager, FailoverEvent } from '@/providers/AIProviderManager';
+import { AIProviderConfig, IAIProvider, StreamingResponse } from '@/providers/AIProviderInterface';
+import { ProviderError } from '@/providers/ProviderError';
+import { AIProvider } from '@/shared/types';
+
+describe('Provider failover', () => {
+  let manager: AIProviderManager;
+
+  const config: AIProviderConfig = {
+    provider: AIProvider.ANTHROPIC,
+    modelName: 'claude-3-5-sonnet-20241022',
+    apiKey: 'anthropic-key',
+    temperature: 0.3,
+    maxTokens: 2000,
+    fallbacks: [
+      { provider: AIProvider.OPENAI, modelName: 'gpt-4o-mini' },
+      { provider: AIProvider.OLLAMA, modelName: 'llama3.2:3b' }
+    ]
+  };
+
+  const rateLimited = () => new ProviderError('Anthropic streaming error: Request failed with status code 429', { response: { status: 429 } });
+
+  // Replace a provider's network calls: valid configs that stream `content`, or fail with `error`
+  const stubProvider = (type: AIProvider, behavior: { valid?: boolean; error?: Error; content?: string }): IAIProvider => {
+    const provider = manager.getProvider(type)!;
+    jest.spyOn(provider, 'validateConfig').mockResolvedValue(behavior.valid ?? true);
+    jest.spyOn(provider, 'isAvailable').mockResolvedValue(behavior.valid ?? true);
+    jest.spyOn(provider, 'getAvailableModels').mockResolvedValue(provider.supportedModels);
+    jest.spyOn(provider, 'generateStreamingResponse').mockImplementation(async (_messages, _config, onChunk) => {
+      if (behavior.error) {
+        throw behavior.error;
+      }
+      onChunk({ content: behavior.content || '', done: true });
+    });
+    return provider;
+  };
+
+  const stream = async (streamConfig: AIProviderConfig, events: FailoverEvent[] = []) => {
+    const chunks: StreamingResponse[] = [];
+    await manager.generateStreamingResponse([{ role: 'user', content: 'Hi' }], streamConfig, chunk => chunks.push(chunk), undefined, event => events.push(event));
+    return chunks;
+  };
+
+  beforeEach(() => {
+    manager = new AIProviderManager();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should fail over to the next model on rate limits', async () => {
+    stubProvider(AIProvider.ANTHROPIC, { error: rateLimited() });
+    const openai = stubProvider(AIProvider.OPENAI, { content: 'From GPT' });
+    const events: FailoverEvent[] = [];
+
+    const chunks = await stream(config, events);
+
+    expect(chunks).toEqual([{ content: 'From GPT', done: true }]);
+    expect(events).toHaveLength(1);
+    expect(events[0].failed.modelName).toBe('claude-3-5-sonnet-20241022');
+    expect(events[0].reason).toContain('429');
+    // The primary's key and fallbacks don't leak into the fallback request
+    expect((openai.generateStreamingResponse as jest.Mock).mock.calls[0][1]).toEqual({
+      provider: AIProvider.OPENAI,
+      modelName: 'gpt-4o-mini',
+      host: undefined,
+      apiKey: undefined,
+      temperature: 0.3,
+      maxTokens: 2000
+    });
+  });
+
+  it('should skip models that fail validation or cannot connect', async () => {
+    stubProvider(AIProvider.ANTHROPIC, { valid: false });
+    stubProvider(AIProvider.OPENAI, { error: new ProviderError('OpenAI streaming error: connect ECONNREFUSED', { code: 'ECONNREFUSED' }) });
+    stubProvider(AIProvider.OLLAMA, { content: 'From Ollama' });
+    const events: FailoverEvent[] = [];
+
+    const chunks = await stream(config, events);
+
+    expect(chunks[0].content).toBe('From Ollama');
+    expect(events.map(event => `${event.failed.provider} -> ${event.next.provider}`)).toEqual(['anthropic -> openai', 'openai -> ollama']);
+    expect(events[0].reason).toBe('Invalid configuration for anthropic');
+  });
+
+  it('should use the best available provider as the last resort', async () => {
+    stubProvider(AIProvider.ANTHROPIC, { error: rateLimited() });
+    stubProvider(AIProvider.OPENAI, { error: new ProviderError('OpenAI streaming error: timeout of 60000ms exceeded', { code: 'ECONNABORTED' }) });
+    stubProvider(AIProvider.OLLAMA, { valid: false });
+    stubProvider(AIProvider.LM_STUDIO, { valid: false });
+    stubProvider(AIProvider.GOOGLE, { valid: false });
+    // Anthropic is still the best available provider, so another of its models answers
+    const anthropic = manager.getProvider(AIProvider.ANTHROPIC)!;
+    (anthropic.generateStreamingResponse as jest.Mock)
+      .mockRejectedValueOnce(rateLimited())
+      .mockImplementationOnce(async (_messages, _config, onChunk) => onChunk({ content: 'From another Claude', done: true }));
+    const events: FailoverEvent[] = [];
+
+    const chunks = await stream(config, events);
+
+    expect(chunks[0].content).toBe('From another Claude');
+    expect(events[events.length - 1].next).toEqual(expect.objectContaining({
+      provider: AIProvider.ANTHROPIC,
+      modelName: anthropic.supportedModels.find(model => model !== config.modelName)
+    }));
+  });
+
+  it('should not fail over on other errors or without a fallback chain', async () => {
+    stubProvider(AIProvider.ANTHROPIC, { error: new ProviderError('Anthropic streaming error: invalid request', { response: { status: 400 } }) });
+    const openai = stubProvider(AIProvider.OPENAI, { content: 'From GPT' });
+
+    await expect(stream(config)).rejects.toThrow('invalid request');
+    (manager.getProvider(AIProvider.ANTHROPIC)!.generateStreamingResponse as jest.Mock).mockRejectedValue(rateLimited());
+    await expect(stream({ ...config, fallbacks: undefined })).rejects.toThrow('429');
+    expect(openai.generateStreamingResponse).not.toHaveBeenCalled();
+  });
+
+  it('should not fail over once the response started streaming', async () => {
+    const anthropic = stubProvider(AIProvider.ANTHROPIC, {});
+    (anthropic.generateStreamingResponse as jest.Mock).mockImplementation(async (_messages, _config, onChunk) => {
+      onChunk({ content: 'Partial', done: false });
+      throw new ProviderError('Anthropic streaming error: socket hang up', { code: 'ECONNRESET' });
+    });
+    const openai = stubProvider(AIProvider.OPENAI, { content: 'From GPT' });
+
+    await expect(stream(config)).rejects.toThrow('socket hang up');
+    expect(openai.generateStreamingResponse).not.toHaveBeenCalled();
+  });
+
+  it('should classify transient provider errors', () => {
+    expect(ProviderError.isTransient(rateLimited())).toBe(true);
+    expect(ProviderError.isTransient(new ProviderError('timeout', { code: 'ECONNABORTED' }))).toBe(true);
+    expect(ProviderError.isTransient(new ProviderError('unauthorized', { response: { status: 401 } }))).toBe(false);
+    expect(ProviderError.isTransient(new Error('Provider x not found'))).toBe(false);
+  });
+});
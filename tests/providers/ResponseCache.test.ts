@@ -0,0 +1,169 @@
+import { AIProviderManager } from '@/providers/AIProviderManager';
+import { AIProviderConfig, AIMessage, StreamingResponse } from '@/providers/AIProviderInterface';
+import { ResponseCache } from '@/providers/ResponseCache';
+import { AIProvider } from '@/shared/types';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ResponseCache', () => {
+  let cache: ResponseCache;
+  let manager: AIProviderManager;
+  let generateResponse: jest.SpyInstance;
+  let generateStreamingResponse: jest.SpyInstance;
+
+  const messages: AIMessage[] = [
+    { role: 'system', content: 'Classify the message' },
+    { role: 'user', content: 'create a file' }
+  ];
+
+  const config: AIProviderConfig = {
+    provider: AIProvider.ANTHROPIC,
+    modelName: 'claude-3-5-sonnet-20241022',
+    temperature: 0,
+    maxTokens: 1000
+  };
+
+  beforeEach(() => {
+    cache = new ResponseCache();
+    manager = new AIProviderManager(cache);
+    const anthropic = manager.getProvider(AIProvider.ANTHROPIC)!;
+    jest.spyOn(anthropic, 'validateConfig').mockResolvedValue(true);
+    let calls = 0;
+    generateResponse = jest.spyOn(anthropic, 'generateResponse').mockImplementation(async () => ({
+      content: `Answer ${++calls}`,
+      model: config.modelName,
+      usage: { inputTokens: 10, outputTokens: 2, totalTokens: 12 }
+    }));
+    generateStreamingResponse = jest.spyOn(anthropic, 'generateStreamingResponse').mockImplementation(async (_messages, _config, onChunk) => {
+      onChunk({ content: 'Streamed ', done: false });
+      onChunk({ content: `Streamed answer ${++calls}`, done: true });
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should answer identical deterministic requests from the cache', async () => {
+    const first = await manager.generateResponse(messages, config);
+    const second = await manager.generateResponse([...messages.map(message => ({ ...message }))], { ...config });
+    const otherMessage = await manager.generateResponse([messages[0], { role: 'user', content: 'delete a file' }], config);
+
+    expect(first).toEqual(expect.objectContaining({ content: 'Answer 1' }));
+    expect(first.cached).toBeUndefined();
+    expect(second).toEqual(expect.objectContaining({ content: 'Answer 1', cached: true }));
+    expect(otherMessage.content).toBe('Answer 2');
+    expect(generateResponse).toHaveBeenCalledTimes(2);
+    expect(cache.getStats()).toEqual(expect.objectContaining({ entries: 2, hits: 1 }));
+  });
+
+  it('should not cache non-deterministic requests or when disabled', async () => {
+    await manager.generateResponse(messages, { ...config, temperature: 0.3 });
+    await manager.generateResponse(messages, { ...config, temperature: 0.3 });
+    cache.configure({ ...ResponseCache.DEFAULT_SETTINGS, enabled: false });
+    await manager.generateResponse(messages, config);
+    await manager.generateResponse(messages, config);
+
+    expect(generateResponse).toHaveBeenCalledTimes(4);
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  it('should replay cached streaming responses as a single chunk', async () => {
+    const stream = async () => {
+      const chunks: StreamingResponse[] = [];
+      await manager.generateStreamingResponse(messages, config, chunk => chunks.push(chunk));
+      return chunks;
+    };
+
+    expect((await stream()).map(chunk => chunk.content)).toEqual(['Streamed ', 'Streamed answer 1']);
+    expect(await stream()).toEqual([expect.objectContaining({ content: 'Streamed answer 1', done: true, cached: true })]);
+  });
+
+  it('should cache the full reply of providers that stream the reply so far', async () => {
+    generateStreamingResponse.mockImplementation(async (_messages, _config, onChunk) => {
+      onChunk({ content: 'The', done: false });
+      onChunk({ content: 'The answer', done: false });
+      onChunk({ content: 'The answer', done: true });
+    });
+
+    await manager.generateStreamingResponse(messages, config, () => undefined);
+
+    expect(cache.get(ResponseCache.getKey(messages, config))?.content).toBe('The answer');
+  });
+
+  it('should expire entries and drop the least recently used beyond the limits', () => {
+    cache.configure({ enabled: true, maxEntries: 2, maxSizeMB: 5, ttlMinutes: 1 });
+    const response = (content: string) => ({ content, model: config.modelName });
+
+    cache.set('a', response('A'), 0);
+    cache.set('b', response('B'), 0);
+    cache.get('a', 1000);
+    cache.set('c', response('C'), 1000);
+
+    expect(cache.get('b', 1000)).toBeUndefined();
+    expect(cache.get('a', 1000)?.content).toBe('A');
+    expect(cache.get('a', 61 * 1000)).toBeUndefined();
+    expect(cache.get('c', 61 * 1000)?.content).toBe('C');
+
+    cache.set('truncated', { ...response('Cut'), finishReason: 'length' });
+    expect(cache.get('truncated')).toBeUndefined();
+  });
+
+  describe('persistence', () => {
+    let testDir: string;
+    let storagePath: string;
+    let stored: { [key: string]: any };
+    let context: vscode.ExtensionContext;
+
+    beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-test-'));
+      storagePath = path.join(testDir, 'storage', 'response-cache.json');
+      stored = {};
+      context = {
+        globalStorageUri: { fsPath: path.join(testDir, 'storage') },
+        globalState: {
+          get: jest.fn((key: string) => stored[key]),
+          update: jest.fn(async (key: string, value: any) => { stored[key] = value; })
+        }
+      } as unknown as vscode.ExtensionContext;
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should keep entries in the storage folder across restarts until cleared', async () => {
+      cache.setContext(context);
+      await manager.generateResponse(messages, config);
+      await manager.generateResponse([messages[0], { role: 'user', content: 'delete a file' }], config);
+      expect(fs.existsSync(storagePath)).toBe(false);
+
+      await cache.flush();
+      expect(JSON.parse(fs.readFileSync(storagePath, 'utf8'))).toHaveLength(2);
+      expect(context.globalState.update).not.toHaveBeenCalled();
+
+      const restored = new ResponseCache();
+      restored.setContext(context);
+      const key = ResponseCache.getKey(messages, config);
+
+      expect(restored.get(key)?.content).toBe('Answer 1');
+      expect(restored.clear()).toBe(2);
+      await restored.flush();
+      expect(JSON.parse(fs.readFileSync(storagePath, 'utf8'))).toEqual([]);
+    });
+
+    it('should move entries saved in globalState to the storage folder', async () => {
+      const key = ResponseCache.getKey(messages, config);
+      stored.responseCache = [{ key, response: { content: 'Old answer', model: config.modelName }, size: 10, createdAt: Date.now() }];
+
+      cache.setContext(context);
+      await cache.flush();
+
+      expect(cache.get(key)?.content).toBe('Old answer');
+      expect(stored.responseCache).toBeUndefined();
+      expect(JSON.parse(fs.readFileSync(storagePath, 'utf8'))).toHaveLength(1);
+    });
+  });
+});
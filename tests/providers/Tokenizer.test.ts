@@ -0,0 +1,58 @@
+import { CLAUDE_TOKENIZER, LLAMA_TOKENIZER, OPENAI_TOKENIZER, Tokenizer, TokenizerRegistry } from '@/providers/Tokenizer';
+import { AIProviderManager } from '@/providers/AIProviderManager';
+import { AIProvider } from '@/shared/types';
+
+describe('Tokenizer', () => {
+  it('should count words, numbers and whitespace like the model family', () => {
+    expect(OPENAI_TOKENIZER.countTokens('Hello world')).toBe(2);
+    expect(OPENAI_TOKENIZER.countTokens('getOptimalConversationHistory')).toBe(5);
+    // tiktoken groups digits by three, SentencePiece splits every digit
+    expect(OPENAI_TOKENIZER.countTokens('1234567')).toBe(3);
+    expect(LLAMA_TOKENIZER.countTokens('1234567')).toBe(7);
+    // An indented line: the indentation is a single token in cl100k
+    expect(OPENAI_TOKENIZER.countTokens('        return value;')).toBe(4);
+    expect(OPENAI_TOKENIZER.countTokens('')).toBe(0);
+  });
+
+  it('should count words into more tokens for smaller vocabularies', () => {
+    const text = 'The contextual compression summarizes previous conversations automatically.';
+
+    expect(OPENAI_TOKENIZER.countTokens(text)).toBeLessThan(CLAUDE_TOKENIZER.countTokens(text));
+    expect(CLAUDE_TOKENIZER.countTokens(text)).toBeLessThan(LLAMA_TOKENIZER.countTokens(text));
+  });
+
+  it('should add the chat template overhead per message', () => {
+    const messages = [
+      { role: 'system' as const, content: 'Hello world' },
+      { role: 'user' as const, content: 'Hello world' }
+    ];
+
+    expect(OPENAI_TOKENIZER.countMessageTokens(messages)).toBe(12);
+    expect(CLAUDE_TOKENIZER.countMessageTokens(messages)).toBe(10);
+  });
+
+  it('should pick tokenizers by model name before provider', () => {
+    const registry = new TokenizerRegistry();
+
+    expect(registry.getTokenizer(AIProvider.OPENAI, 'gpt-4o').name).toBe('openai-bpe');
+    expect(registry.getTokenizer(AIProvider.ANTHROPIC, 'claude-3-5-sonnet-20241022').name).toBe('claude');
+    expect(registry.getTokenizer(AIProvider.OLLAMA, 'mistral:7b').name).toBe('llama-sentencepiece');
+    expect(registry.getTokenizer(AIProvider.OLLAMA, 'llama3.2:3b').name).toBe('openai-bpe');
+    expect(registry.getTokenizer(AIProvider.LM_STUDIO, 'qwen2.5-coder-7b-instruct').name).toBe('openai-bpe');
+    expect(registry.getTokenizer(AIProvider.LM_STUDIO, 'some-local-model').name).toBe('llama-sentencepiece');
+    expect(registry.getTokenizer(AIProvider.GOOGLE).name).toBe('openai-bpe');
+
+    const exact: Tokenizer = { name: 'exact', countTokens: () => 1, countMessageTokens: () => 1 };
+    registry.register((_provider, modelName) => modelName === 'gpt-4o', exact);
+    expect(registry.getTokenizer(AIProvider.OPENAI, 'gpt-4o')).toBe(exact);
+    expect(registry.getTokenizer(AIProvider.OPENAI, 'gpt-4o-mini').name).toBe('openai-bpe');
+  });
+
+  it('should estimate provider requests with the model tokenizer', () => {
+    const manager = new AIProviderManager();
+    const messages = [{ role: 'user' as const, content: 'Version 2024 release' }];
+
+    expect(manager.estimateTokens(messages, AIProvider.OLLAMA, 'llama3.2:3b')).toBe(OPENAI_TOKENIZER.countMessageTokens(messages));
+    expect(manager.estimateTokens(messages, AIProvider.OLLAMA, 'mistral:7b')).toBe(LLAMA_TOKENIZER.countMessageTokens(messages));
+  });
+});
@@ -0,0 +1,156 @@
+import { EventEmitter } from 'events';
+import axios from 'axios';
+import { OpenAIProvider } from '@/providers/OpenAIProvider';
+import { AnthropicProvider } from '@/providers/AnthropicProvider';
+import { OllamaProvider } from '@/providers/OllamaProvider';
+import { AIProviderConfig, AIToolDefinition, StreamingResponse } from '@/providers/AIProviderInterface';
+import { AIProvider } from '@/shared/types';
+
+jest.mock('axios', () => ({
+  create: jest.fn(),
+}));
+
+describe('Provider tool calling', () => {
+  const mockClient = { post: jest.fn(), get: jest.fn() };
+
+  const tools: AIToolDefinition[] = [{
+    name: 'read_file',
+    description: 'Read a file',
+    parameters: {
+      type: 'object',
+      properties: { path: { type: 'string', description: 'File path' } },
+      required: ['path']
+    }
+  }];
+
+  const config = (provider: AIProvider, modelName: string): AIProviderConfig => ({
+    provider,
+    modelName,
+    apiKey: 'test-key',
+    temperature: 0.7,
+    maxTokens: 1000
+  });
+
+  const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  // Stream the given lines through a fake response body, end it and collect the chunks
+  const streamLines = async (run: (onChunk: (chunk: StreamingResponse) => void) => Promise<void>, lines: string[]) => {
+    const body = new EventEmitter();
+    mockClient.post.mockResolvedValueOnce({ data: body });
+    const chunks: StreamingResponse[] = [];
+    const streaming = run(chunk => chunks.push(chunk));
+    await nextTick();
+    for (const line of lines) {
+      body.emit('data', Buffer.from(`${line}\n`));
+    }
+    body.emit('end');
+    await streaming;
+    return chunks;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (axios.create as jest.Mock).mockReturnValue(mockClient);
+  });
+
+  describe('OpenAIProvider', () => {
+    it('should send tools as functions and assemble streamed tool calls', async () => {
+      const provider = new OpenAIProvider();
+      const delta = (value: any) => `data: ${JSON.stringify({ choices: [{ delta: value }] })}`;
+
+      const chunks = await streamLines(onChunk => provider.generateStreamingResponse([{ role: 'user', content: 'hi' }], config(AIProvider.OPENAI, 'gpt-4o'), onChunk, { tools }), [
+        delta({ tool_calls: [{ index: 0, id: 'call_1', function: { name: 'read_file', arguments: '{"pa' } }] }),
+        delta({ tool_calls: [{ index: 0, function: { arguments: 'th":"a.txt"}' } }] }),
+        'data: [DONE]'
+      ]);
+
+      expect(mockClient.post.mock.calls[0][1].tools).toEqual([
+        { type: 'function', function: { name: 'read_file', description: 'Read a file', parameters: tools[0].parameters } }
+      ]);
+      expect(chunks[chunks.length - 1]).toEqual(expect.objectContaining({
+        done: true,
+        toolCalls: [{ id: 'call_1', name: 'read_file', arguments: { path: 'a.txt' } }]
+      }));
+    });
+
+    it('should resolve only once the response stream ended', async () => {
+      const provider = new OpenAIProvider();
+      const body = new EventEmitter();
+      mockClient.post.mockResolvedValueOnce({ data: body });
+      const chunks: StreamingResponse[] = [];
+      let finished = false;
+
+      const streaming = provider.generateStreamingResponse([{ role: 'user', content: 'hi' }], config(AIProvider.OPENAI, 'gpt-4o'), chunk => chunks.push(chunk))
+        .then(() => { finished = true; });
+      await nextTick();
+      body.emit('data', Buffer.from(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hel' } }] })}\n`));
+      await nextTick();
+      expect(finished).toBe(false);
+
+      // A connection closing without [DONE] still finishes the response
+      body.emit('end');
+      await streaming;
+      expect(chunks).toEqual([{ content: 'Hel', done: false }, expect.objectContaining({ content: 'Hel', done: true })]);
+    });
+
+    it('should not send tools when none are requested', async () => {
+      const provider = new OpenAIProvider();
+
+      await streamLines(onChunk => provider.generateStreamingResponse([{ role: 'user', content: 'hi' }], config(AIProvider.OPENAI, 'gpt-4o'), onChunk), []);
+
+      expect(mockClient.post.mock.calls[0][1]).not.toHaveProperty('tools');
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('should send tools with an input schema and assemble streamed tool_use blocks', async () => {
+      const provider = new AnthropicProvider();
+      const event = (value: any) => `data: ${JSON.stringify(value)}`;
+
+      const chunks = await streamLines(onChunk => provider.generateStreamingResponse([{ role: 'user', content: 'hi' }], config(AIProvider.ANTHROPIC, 'claude-3-5-sonnet-20241022'), onChunk, { tools }), [
+        event({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Reading.' } }),
+        event({ type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'read_file' } }),
+        event({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path": "a.txt"}' } }),
+        event({ type: 'message_stop' })
+      ]);
+
+      expect(mockClient.post.mock.calls[0][1].tools).toEqual([
+        { name: 'read_file', description: 'Read a file', input_schema: tools[0].parameters }
+      ]);
+      expect(chunks[chunks.length - 1]).toEqual(expect.objectContaining({
+        content: 'Reading.',
+        done: true,
+        toolCalls: [{ id: 'toolu_1', name: 'read_file', arguments: { path: 'a.txt' } }]
+      }));
+    });
+
+    it('should return tool_use blocks from non-streaming responses', async () => {
+      const provider = new AnthropicProvider();
+      mockClient.post.mockResolvedValueOnce({
+        data: {
+          content: [{ type: 'tool_use', id: 'toolu_1', name: 'read_file', input: { path: 'a.txt' } }],
+          stop_reason: 'tool_use'
+        }
+      });
+
+      const response = await provider.generateResponse([{ role: 'user', content: 'hi' }], config(AIProvider.ANTHROPIC, 'claude-3-5-sonnet-20241022'), { tools });
+
+      expect(response.finishReason).toBe('tool_calls');
+      expect(response.toolCalls).toEqual([{ id: 'toolu_1', name: 'read_file', arguments: { path: 'a.txt' } }]);
+    });
+  });
+
+  describe('OllamaProvider', () => {
+    it('should only report tool support for models with the tools capability', async () => {
+      const provider = new OllamaProvider();
+      mockClient.post
+        .mockResolvedValueOnce({ data: { capabilities: ['completion', 'tools'] } })
+        .mockResolvedValueOnce({ data: { capabilities: ['completion'] } });
+
+      expect(await provider.supportsToolCalling('qwen2.5')).toBe(true);
+      expect(await provider.supportsToolCalling('llama2')).toBe(false);
+      expect(await provider.supportsToolCalling('qwen2.5')).toBe(true);
+      expect(mockClient.post).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { CodebaseIndex } from '@/services/CodebaseIndex';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('CodebaseIndex', () => {
+  let testDir: string;
+  let index: CodebaseIndex;
+
+  const writeFile = (name: string, content: string) => {
+    const filePath = path.join(testDir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codebase-index-test-'));
+    index = new CodebaseIndex(testDir);
+
+    writeFile('src/parser.ts', [
+      "import { Token } from './lexer';",
+      '',
+      'export function parseExpression(tokens: Token[]): Expression {',
+      '  return parseBinary(tokens, 0);',
+      '}',
+      '',
+      'export class ExpressionParser {',
+      '  private position = 0;',
+      '',
+      '  public parseStatement(): Statement {',
+      '    return this.parseExpressionStatement();',
+      '  }',
+      '}'
+    ].join('\n'));
+    writeFile('src/http/retry.ts', [
+      'export const retryRequest = async (request: () => Promise<Response>, attempts: number) => {',
+      '  for (let i = 0; i < attempts; i++) {',
+      '    try { return await request(); } catch { await backoff(i); }',
+      '  }',
+      '};'
+    ].join('\n'));
+    writeFile('node_modules/lib/parser.js', 'function parseExpression() {}');
+    writeFile('.git/parser.ts', 'function parseExpression() {}');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should cut files at symbol declarations', () => {
+    const chunks = CodebaseIndex.chunkFile(fs.readFileSync(path.join(testDir, 'src/parser.ts'), 'utf8'));
+
+    expect(chunks.map(chunk => [chunk.symbol, chunk.startLine, chunk.endLine])).toEqual([
+      [undefined, 1, 2],
+      ['parseExpression', 3, 6],
+      ['ExpressionParser', 7, 9],
+      ['parseStatement', 10, 13]
+    ]);
+    expect(CodebaseIndex.chunkFile('line\n'.repeat(200))).toHaveLength(3);
+    expect(CodebaseIndex.tokenize('parseHTTPRequest max_retry_count')).toEqual(
+      ['parsehttprequest', 'parse', 'http', 'request', 'max_retry_count', 'max', 'retry', 'count']
+    );
+  });
+
+  it('should rank chunks by keywords and skip ignored directories', async () => {
+    const results = await index.search('How do we retry failed requests?');
+
+    expect(results[0].relativePath).toBe('src/http/retry.ts');
+    expect(results[0].symbol).toBe('retryRequest');
+
+    const parserResults = await index.search('parse expression');
+    expect(parserResults.map(result => result.id)).toContain('src/parser.ts:3');
+    expect(parserResults.every(result => result.relativePath.startsWith('src/'))).toBe(true);
+    expect(await index.search('the and of')).toEqual([]);
+  });
+
+  it('should follow file changes from the watcher', async () => {
+    await index.search('retry');
+    const countBefore = index.getChunkCount();
+
+    const filePath = writeFile('src/cache.py', 'def evict_stale_entries(cache):\n    return cache\n');
+    await index.updateFile(filePath);
+    expect((await index.search('evict stale entries'))[0].symbol).toBe('evict_stale_entries');
+
+    index.removeFile(filePath);
+    expect(await index.search('evict stale entries')).toEqual([]);
+    expect(index.getChunkCount()).toBe(countBefore);
+  });
+
+  it('should rank by embeddings once every chunk is embedded', async () => {
+    // One dimension per topic: networking, parsing
+    const embedder = async (texts: string[]) => texts.map(text => /retry|request|network/i.test(text) ? [1, 0] : [0, 1]);
+    index.configure({ enabled: true, embeddingModel: 'nomic-embed-text', maxResults: 2 }, embedder);
+
+    // The first search answers by keyword while chunks are embedded in the background
+    expect((await index.search('parse expression'))[0].relativePath).toBe('src/parser.ts');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const results = await index.search('what happens when the network call fails');
+    expect(results).toHaveLength(1);
+    expect(results[0].relativePath).toBe('src/http/retry.ts');
+
+    index.configure({ enabled: false, embeddingModel: '', maxResults: 5 });
+    expect(await index.search('retry')).toEqual([]);
+  });
+});
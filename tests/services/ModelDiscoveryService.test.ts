@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ModelDiscoveryService } from '@/services/ModelDiscoveryService';
+import { AIProviderManager } from '@/providers/AIProviderManager';
+import { OllamaProvider } from '@/providers/OllamaProvider';
+import { AIProvider } from '@/shared/types';
+
+// Fake Ollama server answering /api/tags with a fixed model list
+const startOllama = async (models: any[]): Promise<{ server: http.Server; url: string }> => {
+  const server = http.createServer((req, res) => {
+    if (req.url === '/api/tags') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ models }));
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+};
+
+describe('Ollama hosts', () => {
+  let local: { server: http.Server; url: string };
+  let remote: { server: http.Server; url: string };
+
+  beforeAll(async () => {
+    local = await startOllama([
+      { name: 'llama3.2:3b', digest: 'a80c4f17acd55265', size: 2019393189, modified_at: '2024-10-01T10:00:00Z', details: { parameter_size: '3.2B' } }
+    ]);
+    remote = await startOllama([
+      { name: 'qwen2.5-coder:32b', digest: '4bd6cbf2d094a1f3', size: 19851349856, modified_at: '2024-11-12T08:30:00Z', details: { parameter_size: '32.8B' } }
+    ]);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => local.server.close(resolve));
+    await new Promise(resolve => remote.server.close(resolve));
+  });
+
+  it('should discover models on the default server and named hosts over HTTP', async () => {
+    const discovery = new ModelDiscoveryService('http://127.0.0.1:1/v1', {
+      baseUrl: `${local.url}/`,
+      hosts: { 'gpu-box': remote.url, offline: 'http://127.0.0.1:1' }
+    });
+
+    const models = await discovery.discoverLocalModels();
+
+    expect(models).toEqual([
+      expect.objectContaining({ name: 'llama3.2:3b', id: 'a80c4f17acd5', size: '2.0 GB', parameters: '3.2B', host: undefined, specialization: 'general' }),
+      expect.objectContaining({ name: 'qwen2.5-coder:32b', size: '19.9 GB', parameters: '32.8B', host: 'gpu-box', baseUrl: remote.url, specialization: 'coding' })
+    ]);
+
+    const unified = await discovery.getAllAvailableModels();
+    expect(unified.filter(model => model.type === 'local').map(model => model.id))
+      .toEqual(['ollama:llama3.2:3b', 'ollama@gpu-box:qwen2.5-coder:32b']);
+  });
+
+  it('should route agents to their named Ollama host', () => {
+    const manager = new AIProviderManager();
+    manager.configureOllama({ baseUrl: local.url, hosts: { 'gpu-box': remote.url } });
+    const config = { provider: AIProvider.OLLAMA, modelName: 'qwen2.5-coder:32b', temperature: 0.7, maxTokens: 1000 };
+
+    expect((manager.getProviderFor(config) as OllamaProvider).getBaseUrl()).toBe(local.url);
+    expect((manager.getProviderFor({ ...config, host: 'gpu-box' }) as OllamaProvider).getBaseUrl()).toBe(remote.url);
+    expect(manager.getOllamaHostNames()).toEqual(['gpu-box']);
+    expect(() => manager.getProviderFor({ ...config, host: 'missing' }))
+      .toThrow('Ollama host "missing" is not defined in aiAgents.ollama.hosts');
+  });
+
+  it('should validate the model against the selected host', async () => {
+    const manager = new AIProviderManager();
+    manager.configureOllama({ baseUrl: local.url, hosts: { 'gpu-box': remote.url } });
+    const config = { provider: AIProvider.OLLAMA, modelName: 'qwen2.5-coder:32b', temperature: 0.7, maxTokens: 1000 };
+
+    expect(await manager.validateProviderConfig(config)).toBe(false);
+    expect(await manager.validateProviderConfig({ ...config, host: 'gpu-box' })).toBe(true);
+    expect(await manager.validateProviderConfig({ ...config, host: 'missing' })).toBe(false);
+  });
+});
@@ -109,15 +109,18 @@ global.console = {
   error: originalConsole.error,
 };
 
-// Mock DOM methods not available in jsdom
-Object.defineProperty(HTMLElement.prototype, 'scrollIntoView', {
-  value: jest.fn(),
-  writable: true
-});
+// Suites that talk to a local HTTP server run in the node environment, without a DOM
+if (typeof HTMLElement !== 'undefined') {
+  // Mock DOM methods not available in jsdom
+  Object.defineProperty(HTMLElement.prototype, 'scrollIntoView', {
+    value: jest.fn(),
+    writable: true
+  });
 
-// Mock HTMLElement methods for better test compatibility
-(HTMLTextAreaElement.prototype as any).setSelectionRange = jest.fn();
-(HTMLElement.prototype as any).focus = jest.fn();
+  // Mock HTMLElement methods for better test compatibility
+  (HTMLTextAreaElement.prototype as any).setSelectionRange = jest.fn();
+  (HTMLElement.prototype as any).focus = jest.fn();
+}
 
 // Mock IntersectionObserver
 global.IntersectionObserver = jest.fn().mockImplementation(() => ({